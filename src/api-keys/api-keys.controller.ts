@@ -0,0 +1,80 @@
+/**
+ * API Keys Controller (Admin API)
+ *
+ * Issue, list and revoke the API keys that protect the HTTP API.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /admin/api-keys      - List keys (names, scopes, sources, last use)
+ * - POST   /admin/api-keys      - Issue a key
+ * - DELETE /admin/api-keys/:id  - Revoke a key
+ *
+ * Keys are only returned when issued, never listed.
+ */
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { IssueApiKeyDto } from './dto/issue-api-key.dto';
+import { ApiKeySummary, IssuedApiKey } from './interfaces/api-key.interface';
+
+@Controller('admin/api-keys')
+export class ApiKeysController {
+  /**
+   * Constructor - NestJS automatically injects the ApiKeysService
+   *
+   * @param apiKeysService - The service managing API keys
+   */
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * GET /api/v1/admin/api-keys
+   *
+   * List every key (the keys themselves are never shown).
+   *
+   * @returns { apiKeys: [{ id, name, prefix, scopes, sources, createdAt, lastUsedAt }] }
+   */
+  @Get()
+  findAll(): { apiKeys: ApiKeySummary[] } {
+    return { apiKeys: this.apiKeysService.list() };
+  }
+
+  /**
+   * POST /api/v1/admin/api-keys
+   *
+   * Issue a key.
+   *
+   * Example request:
+   * POST /api/v1/admin/api-keys
+   * Body: { "name": "billing-worker", "scopes": ["read", "process"], "sources": ["stripe"] }
+   *
+   * @param dto - Name, scopes and optional sources
+   * @returns The key's summary plus { key } - the only time the key is returned
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  issue(@Body() dto: IssueApiKeyDto): IssuedApiKey {
+    return this.apiKeysService.issue(dto.name, dto.scopes, dto.sources);
+  }
+
+  /**
+   * DELETE /api/v1/admin/api-keys/:id
+   *
+   * Revoke a key. Requests using it are refused right away.
+   *
+   * @param id - The key ID
+   * @returns { message: "API key revoked successfully" }
+   * @throws 404 Not Found if no key has this ID
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  revoke(@Param('id') id: string): { message: string } {
+    return this.apiKeysService.revoke(id);
+  }
+}
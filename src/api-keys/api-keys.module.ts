@@ -0,0 +1,20 @@
+/**
+ * API Keys Module
+ *
+ * Groups together everything needed to manage API keys:
+ * - ApiKeysController (admin HTTP endpoints)
+ * - ApiKeysService (hashed keys with scopes and source bindings)
+ *
+ * Exports ApiKeysService so the global ApiKeyGuard can check the key
+ * of every request.
+ */
+import { Module } from '@nestjs/common';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,167 @@
+/**
+ * API Keys Service Tests
+ *
+ * These tests verify the API key store:
+ * - Issuing keys and storing only their hash
+ * - Looking keys up, and revoking them
+ * - Scopes ("admin" implies every other)
+ * - Loading keys from the environment
+ */
+import { NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ApiKeysService } from './api-keys.service';
+
+/** SHA-256 hash (hex) of a key, as configured in API_KEYS */
+const sha256 = (key: string): string =>
+  createHash('sha256').update(key).digest('hex');
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+
+  beforeEach(() => {
+    service = new ApiKeysService();
+  });
+
+  afterEach(() => {
+    delete process.env.API_AUTH_ENABLED;
+    delete process.env.API_KEYS;
+  });
+
+  // ==================== issue() Tests ====================
+  describe('issue', () => {
+    /**
+     * Test: An issued key authenticates, but is never listed
+     */
+    it('should issue a key that authenticates', () => {
+      // Act
+      const issued = service.issue('billing', ['read', 'process'], ['stripe']);
+
+      // Assert
+      expect(issued.key).toMatch(/^whk_[\w-]{32}$/);
+      expect(issued.prefix).toBe(issued.key.slice(0, 8));
+      expect(service.authenticate(issued.key)?.id).toBe(issued.id);
+      expect(service.authenticate(`${issued.key}x`)).toBeUndefined();
+
+      const [listed] = service.list();
+      expect(listed).toMatchObject({
+        id: issued.id,
+        name: 'billing',
+        scopes: ['read', 'process'],
+        sources: ['stripe'],
+      });
+      expect(JSON.stringify(service.list())).not.toContain(issued.key);
+      expect(JSON.stringify(service.list())).not.toContain(sha256(issued.key));
+    });
+
+    /**
+     * Test: Authenticating records when the key was last used
+     */
+    it('should record when a key was last used', () => {
+      const issued = service.issue('worker', ['process']);
+      expect(service.list()[0].lastUsedAt).toBeUndefined();
+
+      service.authenticate(issued.key);
+
+      expect(service.list()[0].lastUsedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  // ==================== hasScope() Tests ====================
+  describe('hasScope', () => {
+    /**
+     * Test: Keys only have their own scopes, except admin keys
+     */
+    it('should grant every scope to admin keys', () => {
+      const reader = service.authenticate(service.issue('r', ['read']).key)!;
+      const admin = service.authenticate(service.issue('a', ['admin']).key)!;
+
+      expect(service.hasScope(reader, 'read')).toBe(true);
+      expect(service.hasScope(reader, 'delete')).toBe(false);
+      expect(service.hasScope(admin, 'delete')).toBe(true);
+    });
+  });
+
+  // ==================== revoke() Tests ====================
+  describe('revoke', () => {
+    /**
+     * Test: A revoked key stops working immediately
+     */
+    it('should revoke a key', () => {
+      const issued = service.issue('temp', ['ingest']);
+
+      const result = service.revoke(issued.id);
+
+      expect(result.message).toBe('API key revoked successfully');
+      expect(service.authenticate(issued.key)).toBeUndefined();
+      expect(service.list()).toEqual([]);
+    });
+
+    /**
+     * Test: Revoking an unknown key is a 404
+     */
+    it('should throw NotFoundException for an unknown key', () => {
+      expect(() => service.revoke('missing')).toThrow(NotFoundException);
+    });
+  });
+
+  // ==================== Environment Tests ====================
+  describe('environment', () => {
+    /**
+     * Test: API_KEYS entries hold the hash, scopes and sources
+     *
+     * Malformed entries (bad hash, unknown scope) are skipped
+     */
+    it('should load keys from API_KEYS', () => {
+      // Arrange
+      process.env.API_AUTH_ENABLED = 'true';
+      process.env.API_KEYS = [
+        `ops:${sha256('ops-key')}:admin`,
+        `billing:${sha256('billing-key')}:read+process:stripe+paypal`,
+        'broken:not-a-hash:read',
+        `unknown:${sha256('unknown-key')}:superuser`,
+      ].join(',');
+
+      // Act
+      service = new ApiKeysService();
+
+      // Assert
+      expect(service.isEnabled()).toBe(true);
+      expect(service.list().map((key) => key.name)).toEqual(['ops', 'billing']);
+      expect(service.authenticate('billing-key')).toMatchObject({
+        scopes: ['read', 'process'],
+        sources: ['stripe', 'paypal'],
+      });
+    });
+
+    /**
+     * Test: The colon inside "read:unredacted" doesn't end the scopes
+     */
+    it('should load the read:unredacted scope, with or without sources', () => {
+      // Arrange
+      process.env.API_KEYS = [
+        `audit:${sha256('audit-key')}:read+read:unredacted:stripe`,
+        `support:${sha256('support-key')}:read:unredacted`,
+      ].join(',');
+
+      // Act
+      service = new ApiKeysService();
+
+      // Assert
+      expect(service.authenticate('audit-key')).toMatchObject({
+        scopes: ['read', 'read:unredacted'],
+        sources: ['stripe'],
+      });
+      expect(service.authenticate('support-key')).toMatchObject({
+        scopes: ['read:unredacted'],
+        sources: [],
+      });
+    });
+
+    /**
+     * Test: Authentication is off unless explicitly enabled
+     */
+    it('should be disabled by default', () => {
+      expect(service.isEnabled()).toBe(false);
+    });
+  });
+});
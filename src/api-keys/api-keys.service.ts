@@ -0,0 +1,256 @@
+/**
+ * API Keys Service
+ *
+ * Issues, looks up and revokes the API keys checked by ApiKeyGuard.
+ *
+ * - A key is "whk_" followed by 32 random base64url characters
+ * - Only its SHA-256 hash is stored, so a leaked key list (or memory dump)
+ *   doesn't leak working keys
+ * - Scopes say what a key may do; "admin" implies every other scope
+ * - A key bound to sources only works for webhooks of those sources
+ *   (enforced by ApiKeyGuard / assertSourceAccess())
+ *
+ * Configuration:
+ * - API_AUTH_ENABLED: Require API keys on the HTTP API (default: false)
+ * - API_KEYS: Keys loaded at startup as "name:sha256:scopes[:sources]",
+ *   comma separated. Scopes and sources are joined with "+", sources accept
+ *   "*" patterns (e.g. "ops:9f86d0...:admin,billing:2c26b4...:read+process:stripe",
+ *   or "audit:fcde2b...:read+read:unredacted:stripe")
+ *
+ * Note: Keys issued through the API are kept in memory only; put long-lived
+ * keys (at least one admin key) in API_KEYS so they survive a restart.
+ */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import {
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyScope,
+  ApiKeySummary,
+  IssuedApiKey,
+} from './interfaces/api-key.interface';
+
+/** Prefix of every issued key, so leaked keys are easy to search for */
+const KEY_PREFIX = 'whk_';
+
+/** Characters of a key shown when keys are listed */
+const DISPLAY_PREFIX_LENGTH = 8;
+
+@Injectable()
+export class ApiKeysService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  /**
+   * Keys by hash
+   * Key: SHA-256 hash (hex) of the key, Value: the key's record
+   */
+  private readonly keys: Map<string, ApiKey> = new Map();
+
+  /** Whether requests must carry an API key */
+  private readonly enabled: boolean;
+
+  /**
+   * Constructor - loads the initial keys from environment variables
+   */
+  constructor() {
+    this.enabled = process.env.API_AUTH_ENABLED === 'true';
+
+    // Format: "name:sha256:scope+scope:source+source,..."
+    (process.env.API_KEYS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [name, hash, ...rest] = entry
+          .split(':')
+          .map((part) => part.trim());
+        // "read:unredacted" holds a colon too: the sources are only split
+        // off when the whole rest isn't a list of scopes
+        let scopeList = this.parseScopes(rest.join(':'));
+        let sources = '';
+        if (!scopeList && rest.length > 1) {
+          scopeList = this.parseScopes(rest.slice(0, -1).join(':'));
+          sources = rest[rest.length - 1];
+        }
+        if (!name || !/^[0-9a-f]{64}$/i.test(hash || '') || !scopeList) {
+          // The entry holds a key hash, so it isn't echoed to the log
+          this.logger.warn(`Ignoring malformed API_KEYS entry: ${name}`);
+          return;
+        }
+        this.store({
+          id: randomUUID(),
+          name,
+          hash: hash.toLowerCase(),
+          scopes: scopeList,
+          sources: sources.split('+').filter(Boolean),
+          createdAt: new Date(),
+        });
+      });
+
+    if (!this.enabled) {
+      this.logger.warn(
+        'API authentication is disabled (API_AUTH_ENABLED). Every route is public, but admin routes only answer reads.',
+      );
+    } else if (!this.list().some((key) => key.scopes.includes('admin'))) {
+      this.logger.warn(
+        'No admin API key configured (API_KEYS). Keys cannot be issued until one is.',
+      );
+    }
+  }
+
+  /**
+   * Whether requests must carry an API key
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Find the key a request presented
+   *
+   * Records when the key was last used.
+   *
+   * @param key - The key as sent by the caller
+   * @returns The key's record, or undefined if it is unknown or revoked
+   */
+  authenticate(key: string): ApiKey | undefined {
+    const apiKey = this.find(key);
+    if (apiKey) {
+      apiKey.lastUsedAt = new Date();
+    }
+    return apiKey;
+  }
+
+  /**
+   * Look a key up without recording its use
+   * (the rate limit uses it to tell callers apart before they are checked)
+   *
+   * @param key - The key as sent by the caller
+   * @returns The key's record, or undefined if it is unknown or revoked
+   */
+  find(key: string): ApiKey | undefined {
+    return this.keys.get(this.hash(key));
+  }
+
+  /**
+   * Whether a key may do something ("admin" may do everything)
+   *
+   * @param apiKey - The key
+   * @param scope - The scope the route needs
+   */
+  hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return apiKey.scopes.includes(scope) || apiKey.scopes.includes('admin');
+  }
+
+  /**
+   * List the keys (never the keys themselves or their hashes)
+   *
+   * @returns One summary per key
+   */
+  list(): ApiKeySummary[] {
+    return Array.from(this.keys.values()).map((apiKey) =>
+      this.summarize(apiKey),
+    );
+  }
+
+  /**
+   * Issue a new key
+   *
+   * @param name - Who or what the key is for
+   * @param scopes - What it may do
+   * @param sources - Sources it is bound to (empty = every source)
+   * @returns The issued key (the key itself included, shown only once)
+   */
+  issue(
+    name: string,
+    scopes: ApiKeyScope[],
+    sources: string[] = [],
+  ): IssuedApiKey {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const apiKey = this.store({
+      id: randomUUID(),
+      name,
+      hash: this.hash(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(scopes)],
+      sources: [...new Set(sources)],
+      createdAt: new Date(),
+    });
+    this.logger.log(
+      `API key issued: ${name} (${apiKey.scopes.join(', ')}) - ${apiKey.id}`,
+    );
+
+    return { ...this.summarize(apiKey), key };
+  }
+
+  /**
+   * Revoke a key - it stops working immediately
+   *
+   * @param id - The key ID
+   * @returns Success message
+   * @throws NotFoundException if no key has this ID
+   */
+  revoke(id: string): { message: string } {
+    const apiKey = Array.from(this.keys.values()).find(
+      (candidate) => candidate.id === id,
+    );
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    this.keys.delete(apiKey.hash);
+    this.logger.log(`API key revoked: ${apiKey.name} - ${id}`);
+    return { message: 'API key revoked successfully' };
+  }
+
+  /**
+   * Add a key to the store
+   */
+  private store(apiKey: ApiKey): ApiKey {
+    this.keys.set(apiKey.hash, apiKey);
+    return apiKey;
+  }
+
+  /**
+   * The listed form of a key (everything but the hash)
+   */
+  private summarize(apiKey: ApiKey): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: [...apiKey.scopes],
+      sources: [...apiKey.sources],
+      createdAt: apiKey.createdAt,
+      lastUsedAt: apiKey.lastUsedAt,
+    };
+  }
+
+  /**
+   * SHA-256 hash (hex) of a key
+   */
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Parse the scopes of an API_KEYS entry ("scope+scope")
+   *
+   * @returns The scopes, or undefined unless there are some and all are known
+   */
+  private parseScopes(value: string): ApiKeyScope[] | undefined {
+    const scopes = value.split('+').filter(Boolean);
+    return scopes.length > 0 &&
+      scopes.every((scope): scope is ApiKeyScope => this.isScope(scope))
+      ? scopes
+      : undefined;
+  }
+
+  /**
+   * Whether a configured value is a known scope
+   */
+  private isScope(value: string): value is ApiKeyScope {
+    return (API_KEY_SCOPES as string[]).includes(value);
+  }
+}
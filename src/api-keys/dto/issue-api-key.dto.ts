@@ -0,0 +1,55 @@
+/**
+ * Issue API Key DTO
+ *
+ * Body for POST /admin/api-keys - issues a new API key.
+ *
+ * Example request body:
+ * {
+ *   "name": "billing-worker",
+ *   "scopes": ["read", "process"],
+ *   "sources": ["stripe"]        // optional - omit for every source
+ * }
+ */
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { API_KEY_SCOPES, ApiKeyScope } from '../interfaces/api-key.interface';
+
+export class IssueApiKeyDto {
+  /**
+   * Who or what the key is for (shown when keys are listed)
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  /**
+   * What the key may do (ingest, read, read:unredacted, process, delete,
+   * admin)
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes!: ApiKeyScope[];
+
+  /**
+   * Sources the key is bound to ("*" patterns allowed)
+   *
+   * - If omitted or empty, the key works for every source
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  sources?: string[];
+}
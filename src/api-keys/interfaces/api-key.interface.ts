@@ -0,0 +1,86 @@
+/**
+ * API Key Interfaces
+ *
+ * API keys authenticate callers of the HTTP API. Each key carries scopes
+ * (what it may do) and can be bound to sources (whose webhooks it may
+ * touch), so a key handed to one team can't read another team's payloads.
+ *
+ * Only a SHA-256 hash of each key is kept; the key itself is shown once,
+ * when it is issued.
+ */
+
+/**
+ * What a key may do
+ *
+ * - ingest: Post webhooks (POST /webhooks)
+ * - read: List and fetch webhooks, stats, the stream, the catalog, usage
+ * - read:unredacted: Fetch the original values of redacted payload fields,
+ *   where the rule keeps them encrypted (on top of "read")
+ * - process: Claim, ack, fail and release webhooks as a worker
+ * - delete: Delete webhooks
+ * - admin: Everything, including the /admin APIs and managing keys
+ */
+export type ApiKeyScope =
+  | 'ingest'
+  | 'read'
+  | 'read:unredacted'
+  | 'process'
+  | 'delete'
+  | 'admin';
+
+/** Every scope, in the order they are documented */
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  'ingest',
+  'read',
+  'read:unredacted',
+  'process',
+  'delete',
+  'admin',
+];
+
+/**
+ * A stored API key
+ */
+export interface ApiKey {
+  /** Key ID, used to revoke it */
+  id: string;
+
+  /** Who or what the key was issued to */
+  name: string;
+
+  /** SHA-256 hash (hex) of the key */
+  hash: string;
+
+  /**
+   * First characters of the key, so it can be recognised in a list
+   * (unknown for keys loaded from API_KEYS, which only hold the hash)
+   */
+  prefix?: string;
+
+  /** What the key may do */
+  scopes: ApiKeyScope[];
+
+  /** Sources the key is bound to ("*" patterns); empty = every source */
+  sources: string[];
+
+  /** When the key was issued (or loaded from the environment) */
+  createdAt: Date;
+
+  /** When the key last authenticated a request */
+  lastUsedAt?: Date;
+}
+
+/**
+ * An API key as shown by the admin API (the hash is never listed)
+ */
+export type ApiKeySummary = Omit<ApiKey, 'hash'>;
+
+/**
+ * Response returned when a key is issued
+ *
+ * This is the ONLY time the key is returned, so the caller can hand it
+ * to whoever will use it.
+ */
+export interface IssuedApiKey extends ApiKeySummary {
+  key: string;
+}
@@ -7,14 +7,30 @@
  * Global providers (using APP_* tokens) apply to ALL requests:
  * - APP_FILTER: Global exception handling
  * - APP_INTERCEPTOR: Global request/response interception
- * - APP_GUARD: Global request guards (like rate limiting)
+ * - APP_GUARD: Global request guards (rate limiting, then API keys)
  *
  * Module hierarchy:
  * AppModule (root)
+ *   ├── ApiKeysModule (hashed API keys with scopes + admin API)
+ *   ├── RateLimitModule (rate limit counters: memory | redis store)
  *   └── WebhooksModule (feature)
  *         ├── WebhooksController
  *         ├── WebhooksService
- *         └── WebhooksStorage
+ *         ├── WebhooksStorage (memory | jsonl | sqlite driver)
+ *         ├── QuarantineController / QuarantineService (own storage)
+ *         ├── DeadLettersController / DeadLettersService (failed forwards)
+ *         ├── WebhookStreamService (GET /webhooks/stream, Server-Sent Events)
+ *         ├── LeasesService (POST /webhooks/claim, worker leases)
+ *         ├── RetentionController / RetentionService (age/count retention sweeper)
+ *         ├── SourceQuotasController / SourceQuotasService (per-source storage quotas)
+ *         ├── IpAllowlistController / IpAllowlistService (per-source IP allowlists)
+ *         ├── RedactionController / RedactionService (payload redaction before storage)
+ *         ├── WebhookHandlersService (@OnWebhook() handlers, run in-process)
+ *         ├── WebhooksGateway (WebSocket: subscribe, ack, delete)
+ *         ├── SecretsModule (per-source signing secrets + admin API)
+ *         ├── SchemasModule (payload JSON Schemas per source/event + admin API)
+ *         ├── CatalogModule (GET /catalog, payload structures learned per event)
+ *         └── ForwardingModule (outbound subscriptions with retries + admin API)
  */
 import { Module } from '@nestjs/common';
 import { APP_FILTER, APP_INTERCEPTOR, APP_GUARD } from '@nestjs/core';
@@ -22,13 +38,18 @@ import { WebhooksModule } from './webhooks/webhooks.module';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { RateLimitGuard } from './common/guards/rate-limit.guard';
+import { ApiKeyGuard } from './common/guards/api-key.guard';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { RateLimitModule } from './common/rate-limit/rate-limit.module';
 
 @Module({
   /**
    * Import feature modules
    * WebhooksModule brings in all webhook-related functionality
+   * ApiKeysModule provides the keys ApiKeyGuard checks
+   * RateLimitModule provides the store RateLimitGuard counts requests in
    */
-  imports: [WebhooksModule],
+  imports: [WebhooksModule, ApiKeysModule, RateLimitModule],
 
   /**
    * Global providers that apply to ALL requests across the entire application
@@ -57,13 +78,23 @@ import { RateLimitGuard } from './common/guards/rate-limit.guard';
 
     /**
      * Global Rate Limit Guard
-     * Limits requests per IP address to prevent abuse
+     * Token buckets per IP, source or API key, with separate ingest/read limits
      * Returns 429 Too Many Requests when limit exceeded
      */
     {
       provide: APP_GUARD,
       useClass: RateLimitGuard,
     },
+
+    /**
+     * Global API Key Guard
+     * Requires an API key with the route's scope (once API_AUTH_ENABLED is set)
+     * Returns 401 for missing/invalid keys, 403 for missing scopes or sources
+     */
+    {
+      provide: APP_GUARD,
+      useClass: ApiKeyGuard,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,101 @@
+/**
+ * Catalog Controller
+ *
+ * Inventory of the sources and events this service receives, with the
+ * payload structure learned from them.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /catalog                      - List every source + event seen
+ * - GET    /catalog/:source/:event       - Learned schema of one pair
+ * - DELETE /catalog/:source/:event/drift - Clear the drift flag of one pair
+ *
+ * Reading needs the "read" API key scope, clearing drift "admin". Keys
+ * bound to sources only see the entries of those sources.
+ */
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { CatalogService } from './catalog.service';
+import { RequireScope } from '../common/decorators/require-scope.decorator';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { ApiAuth } from '../common/decorators/api-auth.decorator';
+import {
+  ApiAuthContext,
+  canAccessSource,
+} from '../common/guards/api-key.guard';
+import {
+  CatalogEntry,
+  CatalogEntrySummary,
+} from './interfaces/catalog.interface';
+
+@RequireScope('read', { source: 'request' })
+@RateLimit('read')
+@Controller('catalog')
+export class CatalogController {
+  /**
+   * Constructor - NestJS automatically injects the CatalogService
+   *
+   * @param catalogService - The service learning payload structures
+   */
+  constructor(private readonly catalogService: CatalogService) {}
+
+  /**
+   * GET /api/v1/catalog
+   *
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns { entries: [{ source, event, samples, firstSeenAt, lastSeenAt, fieldCount, drifted }] }
+   */
+  @RequireScope('read')
+  @Get()
+  findAll(@ApiAuth() auth?: ApiAuthContext): {
+    entries: CatalogEntrySummary[];
+  } {
+    return {
+      entries: this.catalogService
+        .list()
+        .filter((entry) => canAccessSource(auth, entry.source)),
+    };
+  }
+
+  /**
+   * GET /api/v1/catalog/:source/:event
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns The entry with its learned fields and latest drift
+   * @throws 404 Not Found if no webhook of the pair was seen
+   */
+  @Get(':source/:event')
+  findOne(
+    @Param('source') source: string,
+    @Param('event') event: string,
+  ): CatalogEntry {
+    return this.catalogService.get(source, event);
+  }
+
+  /**
+   * DELETE /api/v1/catalog/:source/:event/drift
+   *
+   * Clear the drift flag once the new payload shape has been handled.
+   * The learned schema is kept.
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns { message: "Drift cleared successfully" }
+   * @throws 404 Not Found if no webhook of the pair was seen
+   */
+  @RequireScope('admin', { source: 'request' })
+  @Delete(':source/:event/drift')
+  @HttpCode(HttpStatus.OK)
+  clearDrift(
+    @Param('source') source: string,
+    @Param('event') event: string,
+  ): { message: string } {
+    return this.catalogService.clearDrift(source, event);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Catalog Module
+ *
+ * Groups together everything needed for the event catalog:
+ * - CatalogController (GET /catalog endpoints)
+ * - CatalogService (learns payload structures per source + event)
+ *
+ * Exports CatalogService so WebhooksModule can feed it the webhooks
+ * it receives.
+ */
+import { Module } from '@nestjs/common';
+import { CatalogController } from './catalog.controller';
+import { CatalogService } from './catalog.service';
+
+@Module({
+  controllers: [CatalogController],
+  providers: [CatalogService],
+  exports: [CatalogService],
+})
+export class CatalogModule {}
@@ -0,0 +1,297 @@
+/**
+ * Catalog Service Tests
+ *
+ * These tests verify the event catalog:
+ * - Listing the source + event pairs seen, with first/last seen times
+ * - Learning field types, optionality and examples from payloads
+ * - Flagging payloads that drift from the learned schema
+ */
+import { NotFoundException } from '@nestjs/common';
+import { CatalogService } from './catalog.service';
+import { Webhook } from '../webhooks/interfaces/webhook.interface';
+
+/** Create a received webhook, `minute` minutes after noon */
+const createTestWebhook = (
+  payload: Record<string, unknown>,
+  minute = 0,
+  overrides?: Partial<Webhook>,
+): Webhook => ({
+  id: `w-${minute}`,
+  source: 'stripe',
+  event: 'payment.succeeded',
+  payload,
+  receivedAt: new Date(Date.UTC(2024, 5, 1, 12, minute)),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+  ...overrides,
+});
+
+describe('CatalogService', () => {
+  let service: CatalogService;
+
+  beforeEach(() => {
+    process.env.CATALOG_DRIFT_MIN_SAMPLES = '2';
+    service = new CatalogService();
+  });
+
+  afterEach(() => {
+    delete process.env.CATALOG_DRIFT_MIN_SAMPLES;
+    delete process.env.CATALOG_MAX_ENTRIES;
+    delete process.env.CATALOG_MAX_FIELDS;
+  });
+
+  // ==================== list() Tests ====================
+  describe('list', () => {
+    /**
+     * Test: Every source + event pair is listed once, sorted
+     */
+    it('should list the pairs seen with their sample counts and times', () => {
+      // Arrange
+      service.observe(createTestWebhook({}, 1));
+      service.observe(
+        createTestWebhook({}, 2, { source: 'github', event: 'push' }),
+      );
+      service.observe(createTestWebhook({}, 3));
+
+      // Act
+      const entries = service.list();
+
+      // Assert
+      expect(entries).toEqual([
+        {
+          source: 'github',
+          event: 'push',
+          samples: 1,
+          firstSeenAt: new Date(Date.UTC(2024, 5, 1, 12, 2)),
+          lastSeenAt: new Date(Date.UTC(2024, 5, 1, 12, 2)),
+          fieldCount: 0,
+          drifted: false,
+        },
+        expect.objectContaining({
+          source: 'stripe',
+          event: 'payment.succeeded',
+          samples: 2,
+          firstSeenAt: new Date(Date.UTC(2024, 5, 1, 12, 1)),
+          lastSeenAt: new Date(Date.UTC(2024, 5, 1, 12, 3)),
+        }),
+      ]);
+    });
+
+    /**
+     * Test: Pairs beyond CATALOG_MAX_ENTRIES are not tracked
+     */
+    it('should stop adding pairs at CATALOG_MAX_ENTRIES', () => {
+      // Arrange
+      process.env.CATALOG_MAX_ENTRIES = '1';
+      service = new CatalogService();
+
+      // Act
+      service.observe(createTestWebhook({}, 1));
+      service.observe(createTestWebhook({}, 2, { source: 'github' }));
+      service.observe(createTestWebhook({}, 3));
+
+      // Assert
+      expect(service.list().map((entry) => entry.samples)).toEqual([2]);
+    });
+  });
+
+  // ==================== get() Tests ====================
+  describe('get', () => {
+    /**
+     * Test: Fields are merged across payloads
+     *
+     * A field missing from some payloads (or some array elements) is
+     * optional; every type seen is listed, with a few examples
+     */
+    it('should learn types, optionality and examples', () => {
+      // Arrange
+      service.observe(
+        createTestWebhook(
+          {
+            amount: 100,
+            currency: 'usd',
+            items: [{ sku: 'A1', qty: 1 }, { sku: 'B2' }],
+          },
+          1,
+        ),
+      );
+      service.observe(
+        createTestWebhook({ amount: 12.5, currency: 'eur', items: [] }, 2),
+      );
+      service.observe(
+        createTestWebhook({ amount: 100, currency: 'usd', note: null }, 3),
+      );
+
+      // Act
+      const entry = service.get('stripe', 'payment.succeeded');
+
+      // Assert
+      expect(entry.fields).toEqual([
+        {
+          path: 'amount',
+          types: ['integer', 'number'],
+          optional: false,
+          examples: [100, 12.5],
+        },
+        {
+          path: 'currency',
+          types: ['string'],
+          optional: false,
+          examples: ['usd', 'eur'],
+        },
+        { path: 'items', types: ['array'], optional: true, examples: [] },
+        { path: 'items[]', types: ['object'], optional: false, examples: [] },
+        {
+          path: 'items[].sku',
+          types: ['string'],
+          optional: false,
+          examples: ['A1', 'B2'],
+        },
+        {
+          path: 'items[].qty',
+          types: ['integer'],
+          optional: true,
+          examples: [1],
+        },
+        { path: 'note', types: ['null'], optional: true, examples: [] },
+      ]);
+      expect(entry.fieldCount).toBe(7);
+      expect(entry.truncated).toBe(false);
+    });
+
+    /**
+     * Test: Fields beyond CATALOG_MAX_FIELDS are left out
+     */
+    it('should stop learning fields at CATALOG_MAX_FIELDS', () => {
+      // Arrange: The payload itself counts as one path
+      process.env.CATALOG_MAX_FIELDS = '3';
+      service = new CatalogService();
+
+      // Act
+      service.observe(createTestWebhook({ a: 1, b: 2, c: 3 }));
+
+      // Assert
+      const entry = service.get('stripe', 'payment.succeeded');
+      expect(entry.fields.map((field) => field.path)).toEqual(['a', 'b']);
+      expect(entry.truncated).toBe(true);
+    });
+
+    /**
+     * Test: Unknown pairs are a 404
+     */
+    it('should throw NotFoundException for a pair never seen', () => {
+      expect(() => service.get('stripe', 'unknown')).toThrow(NotFoundException);
+    });
+  });
+
+  // ==================== Drift Tests ====================
+  describe('drift', () => {
+    /** Learn the usual payment shape from two payloads */
+    const learn = () => {
+      service.observe(
+        createTestWebhook({ amount: 100, customer: { id: 'c1' } }, 1),
+      );
+      service.observe(
+        createTestWebhook({ amount: 200, customer: { id: 'c2' } }, 2),
+      );
+    };
+
+    /**
+     * Test: New fields, new types and missing required fields are drift
+     */
+    it('should flag a payload whose shape differs', () => {
+      // Arrange
+      learn();
+
+      // Act
+      service.observe(
+        createTestWebhook({ amount: '300', customer: {}, coupon: 'X' }, 3),
+      );
+
+      // Assert
+      const entry = service.get('stripe', 'payment.succeeded');
+      expect(entry.drifted).toBe(true);
+      expect(entry.driftCount).toBe(1);
+      expect(entry.drift).toEqual({
+        detectedAt: new Date(Date.UTC(2024, 5, 1, 12, 3)),
+        webhookId: 'w-3',
+        changes: [
+          { path: 'amount', kind: 'type_changed', types: ['string'] },
+          { path: 'coupon', kind: 'added', types: ['string'] },
+          { path: 'customer.id', kind: 'missing' },
+        ],
+      });
+    });
+
+    /**
+     * Test: Payloads that fit the learned shape are not drift
+     *
+     * Nor are payloads before CATALOG_DRIFT_MIN_SAMPLES - the first
+     * payloads only teach the shape
+     */
+    it('should not flag fitting payloads or the first samples', () => {
+      // Arrange
+      service.observe(createTestWebhook({ amount: 100 }, 1));
+      service.observe(createTestWebhook({ total: 100 }, 2));
+
+      // Act
+      service.observe(createTestWebhook({ amount: 5 }, 3));
+
+      // Assert
+      const entry = service.get('stripe', 'payment.succeeded');
+      expect(entry.drifted).toBe(false);
+      expect(entry.driftCount).toBe(0);
+    });
+
+    /**
+     * Test: The drifted shape is learned, so it only drifts once
+     */
+    it('should learn the new shape after a drift', () => {
+      // Arrange
+      learn();
+      service.observe(
+        createTestWebhook(
+          { amount: 300, customer: { id: 'c3' }, coupon: 'X' },
+          3,
+        ),
+      );
+
+      // Act
+      service.observe(
+        createTestWebhook(
+          { amount: 400, customer: { id: 'c4' }, coupon: 'Y' },
+          4,
+        ),
+      );
+
+      // Assert
+      const entry = service.get('stripe', 'payment.succeeded');
+      expect(entry.driftCount).toBe(1);
+      expect(entry.drift?.webhookId).toBe('w-3');
+      expect(entry.fields.find((f) => f.path === 'coupon')?.optional).toBe(
+        true,
+      );
+    });
+
+    /**
+     * Test: Clearing the drift keeps the learned schema and the count
+     */
+    it('should clear the drift flag', () => {
+      // Arrange
+      learn();
+      service.observe(createTestWebhook({ amount: 300 }, 3));
+
+      // Act
+      const result = service.clearDrift('stripe', 'payment.succeeded');
+
+      // Assert
+      const entry = service.get('stripe', 'payment.succeeded');
+      expect(result.message).toBe('Drift cleared successfully');
+      expect(entry.drifted).toBe(false);
+      expect(entry.drift).toBeUndefined();
+      expect(entry.driftCount).toBe(1);
+      expect(entry.samples).toBe(3);
+    });
+  });
+});
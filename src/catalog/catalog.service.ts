@@ -0,0 +1,246 @@
+/**
+ * Catalog Service
+ *
+ * Keeps an inventory of the source + event pairs the service receives,
+ * and learns the structure of their payloads.
+ *
+ * - WebhooksService calls observe() for every new webhook (stored or
+ *   quarantined; duplicates and rejected requests are not observed)
+ * - Each pair gets a merged structural schema: field paths, their types,
+ *   whether they are optional, and a few example values
+ * - Once a pair has CATALOG_DRIFT_MIN_SAMPLES payloads, a payload with new
+ *   fields, new types or missing required fields is recorded as drift.
+ *   The new shape is learned right away, so only the first payload of a
+ *   changed shape drifts
+ *
+ * Configuration:
+ * - CATALOG_MAX_ENTRIES: Source + event pairs tracked (default: 1000)
+ * - CATALOG_MAX_FIELDS: Field paths learned per pair (default: 500)
+ * - CATALOG_DRIFT_MIN_SAMPLES: Payloads learned before drift is
+ *   reported (default: 10)
+ *
+ * Note: The catalog is kept in memory only and is relearned after a restart.
+ */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Webhook } from '../webhooks/interfaces/webhook.interface';
+import {
+  describeShape,
+  diffShape,
+  observeShape,
+  PayloadShape,
+  ROOT_PATH,
+} from './payload-shape';
+import {
+  CatalogDrift,
+  CatalogEntry,
+  CatalogEntrySummary,
+} from './interfaces/catalog.interface';
+
+/** Changes kept per drift (a new payload format can change every field) */
+const MAX_DRIFT_CHANGES = 50;
+
+/** Everything learned about one source + event pair */
+interface CatalogRecord {
+  source: string;
+  event: string;
+  samples: number;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  shape: PayloadShape;
+  truncated: boolean;
+  driftCount: number;
+  drift?: CatalogDrift;
+}
+
+@Injectable()
+export class CatalogService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(CatalogService.name);
+
+  /**
+   * Catalog records
+   * Key: source + event (see key()), Value: what was learned
+   */
+  private readonly records: Map<string, CatalogRecord> = new Map();
+
+  /** Source + event pairs tracked before new ones are ignored */
+  private readonly maxEntries: number;
+
+  /** Field paths learned per pair */
+  private readonly maxFields: number;
+
+  /** Payloads learned before drift is reported */
+  private readonly driftMinSamples: number;
+
+  /** Set once the "catalog full" warning was logged */
+  private fullWarned = false;
+
+  /**
+   * Constructor - reads the limits from the environment
+   */
+  constructor() {
+    this.maxEntries = parseInt(process.env.CATALOG_MAX_ENTRIES || '1000', 10);
+    this.maxFields = parseInt(process.env.CATALOG_MAX_FIELDS || '500', 10);
+    this.driftMinSamples = parseInt(
+      process.env.CATALOG_DRIFT_MIN_SAMPLES || '10',
+      10,
+    );
+  }
+
+  /**
+   * Learn from a newly received webhook
+   *
+   * @param webhook - The new webhook
+   */
+  observe(webhook: Webhook): void {
+    const key = this.key(webhook.source, webhook.event);
+    let record = this.records.get(key);
+    if (!record) {
+      if (this.records.size >= this.maxEntries) {
+        if (!this.fullWarned) {
+          this.logger.warn(
+            `Catalog is full (${this.maxEntries} source/event pairs), new pairs are not tracked`,
+          );
+          this.fullWarned = true;
+        }
+        return;
+      }
+      record = {
+        source: webhook.source,
+        event: webhook.event,
+        samples: 0,
+        firstSeenAt: webhook.receivedAt,
+        lastSeenAt: webhook.receivedAt,
+        shape: new Map(),
+        truncated: false,
+        driftCount: 0,
+      };
+      this.records.set(key, record);
+      this.logger.log(
+        `New source/event in catalog: ${webhook.source}/${webhook.event}`,
+      );
+    }
+
+    if (record.samples >= this.driftMinSamples) {
+      this.detectDrift(record, webhook);
+    }
+
+    if (observeShape(record.shape, webhook.payload, this.maxFields)) {
+      record.truncated = true;
+    }
+    record.samples++;
+    record.lastSeenAt = webhook.receivedAt;
+  }
+
+  /**
+   * List every source + event pair seen
+   *
+   * @returns One summary per pair, sorted by source, then event
+   */
+  list(): CatalogEntrySummary[] {
+    return Array.from(this.records.values())
+      .sort(
+        (a, b) =>
+          a.source.localeCompare(b.source) || a.event.localeCompare(b.event),
+      )
+      .map((record) => this.summarize(record));
+  }
+
+  /**
+   * Get the learned schema of a source + event
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns The catalog entry with its fields and latest drift
+   * @throws NotFoundException if no webhook of the pair was seen
+   */
+  get(source: string, event: string): CatalogEntry {
+    const record = this.find(source, event);
+    return {
+      ...this.summarize(record),
+      fields: describeShape(record.shape),
+      truncated: record.truncated,
+      driftCount: record.driftCount,
+      drift: record.drift,
+    };
+  }
+
+  /**
+   * Clear the drift flag of a source + event (once the change is handled)
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns Success message
+   * @throws NotFoundException if no webhook of the pair was seen
+   */
+  clearDrift(source: string, event: string): { message: string } {
+    this.find(source, event).drift = undefined;
+    return { message: 'Drift cleared successfully' };
+  }
+
+  /**
+   * Record a drift if the webhook's payload doesn't fit the learned shape
+   *
+   * @param record - The pair's record (before learning the payload)
+   * @param webhook - The new webhook
+   */
+  private detectDrift(record: CatalogRecord, webhook: Webhook): void {
+    const observed: PayloadShape = new Map();
+    observeShape(observed, webhook.payload, this.maxFields);
+    const changes = diffShape(
+      record.shape,
+      observed,
+      record.shape.size < this.maxFields,
+    );
+    if (changes.length === 0) {
+      return;
+    }
+
+    record.driftCount++;
+    record.drift = {
+      detectedAt: webhook.receivedAt,
+      webhookId: webhook.id,
+      changes: changes.slice(0, MAX_DRIFT_CHANGES),
+    };
+    this.logger.warn(
+      `Payload drift for ${record.source}/${record.event} in webhook ${webhook.id} (${changes.length} change(s))`,
+    );
+  }
+
+  /**
+   * Find the record of a source + event
+   *
+   * @throws NotFoundException if there is none
+   */
+  private find(source: string, event: string): CatalogRecord {
+    const record = this.records.get(this.key(source, event));
+    if (!record) {
+      throw new NotFoundException(`No webhooks seen for ${source}/${event}`);
+    }
+    return record;
+  }
+
+  /**
+   * Build the list entry of a record
+   */
+  private summarize(record: CatalogRecord): CatalogEntrySummary {
+    return {
+      source: record.source,
+      event: record.event,
+      samples: record.samples,
+      firstSeenAt: record.firstSeenAt,
+      lastSeenAt: record.lastSeenAt,
+      fieldCount: record.shape.size - (record.shape.has(ROOT_PATH) ? 1 : 0),
+      drifted: record.drift !== undefined,
+    };
+  }
+
+  /**
+   * Map key of a source + event
+   *
+   * JSON-encoded, so no source/event pair can collide with another.
+   */
+  private key(source: string, event: string): string {
+    return JSON.stringify([source, event]);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Catalog Interfaces
+ *
+ * The catalog lists every source + event pair the service has received,
+ * with a structural schema learned from the observed payloads.
+ */
+
+/**
+ * JSON type of an observed value
+ * ("integer" for whole numbers, "number" for the others)
+ */
+export type FieldType =
+  'string' | 'integer' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * One field of a learned payload schema
+ */
+export interface CatalogField {
+  /**
+   * Dot path of the field, e.g. "data.object.amount"
+   * ("[]" stands for the elements of an array, e.g. "items[].sku")
+   */
+  path: string;
+
+  /** Every type seen for the field */
+  types: FieldType[];
+
+  /** Whether some payloads (whose parent object was there) lacked it */
+  optional: boolean;
+
+  /** A few distinct example values (strings, numbers and booleans only) */
+  examples: unknown[];
+}
+
+/**
+ * How a payload differed from the learned schema
+ *
+ * - added: A field that was never seen before
+ * - missing: A field every earlier payload had
+ * - type_changed: A field with a type that was never seen for it
+ */
+export type CatalogDriftKind = 'added' | 'missing' | 'type_changed';
+
+/**
+ * One difference between a payload and the learned schema
+ */
+export interface CatalogDriftChange {
+  /** Path of the field (see CatalogField.path) */
+  path: string;
+
+  /** What changed */
+  kind: CatalogDriftKind;
+
+  /** The field's types in the drifting payload (not for "missing") */
+  types?: FieldType[];
+}
+
+/**
+ * The most recent payload whose shape drifted from the learned schema
+ */
+export interface CatalogDrift {
+  /** When the drifting payload was received */
+  detectedAt: Date;
+
+  /** ID of the webhook with the drifting payload */
+  webhookId: string;
+
+  /** How it differed (the new shape is learned right away) */
+  changes: CatalogDriftChange[];
+}
+
+/**
+ * A source + event pair in GET /catalog
+ */
+export interface CatalogEntrySummary {
+  /** The webhook source */
+  source: string;
+
+  /** The event type */
+  event: string;
+
+  /** How many payloads the schema was learned from */
+  samples: number;
+
+  /** When the first webhook of this pair was received */
+  firstSeenAt: Date;
+
+  /** When the latest webhook of this pair was received */
+  lastSeenAt: Date;
+
+  /** Number of fields in the learned schema */
+  fieldCount: number;
+
+  /** Whether a payload drifted from the learned schema (see drift) */
+  drifted: boolean;
+}
+
+/**
+ * A source + event pair in GET /catalog/:source/:event
+ */
+export interface CatalogEntry extends CatalogEntrySummary {
+  /** The learned schema, one entry per field, in first-seen order */
+  fields: CatalogField[];
+
+  /** Whether fields were left out because of CATALOG_MAX_FIELDS */
+  truncated: boolean;
+
+  /** How many payloads drifted so far */
+  driftCount: number;
+
+  /** The most recent drift (until it is cleared) */
+  drift?: CatalogDrift;
+}
@@ -0,0 +1,227 @@
+/**
+ * Payload Shape
+ *
+ * Learns the structure of payloads, one value at a time, and compares a
+ * new payload against what was learned. CatalogService keeps one shape
+ * per source + event.
+ *
+ * A shape maps every path seen in the payloads to what was observed there:
+ * - Object fields are joined with dots ("data.object.amount")
+ * - Array elements share one path ending in "[]" ("items[]", "items[].sku")
+ * - The payload itself is the root path ""
+ *
+ * A field is optional when it was present less often than its parent
+ * object was - so a field missing from some line items is optional even
+ * if every payload had line items.
+ */
+import {
+  CatalogDriftChange,
+  CatalogField,
+  FieldType,
+} from './interfaces/catalog.interface';
+
+/** Path of the payload itself */
+export const ROOT_PATH = '';
+
+/** Distinct example values kept per field */
+const MAX_EXAMPLES = 3;
+
+/** Longer string examples are cut to this many characters */
+const MAX_EXAMPLE_LENGTH = 100;
+
+/**
+ * What was observed at one path
+ */
+export interface FieldStats {
+  /** Every type seen */
+  types: Set<FieldType>;
+
+  /** How many values were seen (one per payload, or per array element) */
+  present: number;
+
+  /** How many of them were objects (their fields' optionality is relative to this) */
+  objects: number;
+
+  /** Distinct primitive example values */
+  examples: unknown[];
+}
+
+/** Learned structure: path -> observations, in first-seen order */
+export type PayloadShape = Map<string, FieldStats>;
+
+/**
+ * Get the JSON type of a value
+ *
+ * @param value - A value parsed from JSON
+ * @returns Its type
+ */
+export function typeOf(value: unknown): FieldType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return typeof value as FieldType;
+  }
+  return 'object';
+}
+
+/**
+ * Get the path of the object (or array) a path belongs to
+ *
+ * @param path - A field path, e.g. "items[].sku"
+ * @returns The parent path, e.g. "items[]" ("" for top-level fields)
+ */
+export function parentPath(path: string): string {
+  if (path.endsWith('[]')) {
+    return path.slice(0, -2);
+  }
+  const separator = path.lastIndexOf('.');
+  return separator < 0 ? ROOT_PATH : path.slice(0, separator);
+}
+
+/**
+ * Add a payload to a shape
+ *
+ * @param shape - The shape to update
+ * @param payload - The payload
+ * @param maxFields - Paths the shape may hold; new ones beyond it are skipped
+ * @returns true if paths were skipped because the shape was full
+ */
+export function observeShape(
+  shape: PayloadShape,
+  payload: unknown,
+  maxFields: number,
+): boolean {
+  let truncated = false;
+
+  const visit = (path: string, value: unknown): void => {
+    let stats = shape.get(path);
+    if (!stats) {
+      if (shape.size >= maxFields) {
+        truncated = true;
+        return;
+      }
+      stats = { types: new Set(), present: 0, objects: 0, examples: [] };
+      shape.set(path, stats);
+    }
+
+    const type = typeOf(value);
+    stats.types.add(type);
+    stats.present++;
+
+    if (type === 'object') {
+      stats.objects++;
+      for (const [key, child] of Object.entries(
+        value as Record<string, unknown>,
+      )) {
+        visit(path === ROOT_PATH ? key : `${path}.${key}`, child);
+      }
+    } else if (type === 'array') {
+      (value as unknown[]).forEach((element) => visit(`${path}[]`, element));
+    } else {
+      addExample(stats, value);
+    }
+  };
+
+  visit(ROOT_PATH, payload);
+  return truncated;
+}
+
+/**
+ * Describe the fields of a shape
+ *
+ * @param shape - The learned shape
+ * @returns One entry per field (the root is left out), in first-seen order
+ */
+export function describeShape(shape: PayloadShape): CatalogField[] {
+  return Array.from(shape.entries())
+    .filter(([path]) => path !== ROOT_PATH)
+    .map(([path, stats]) => ({
+      path,
+      types: Array.from(stats.types),
+      optional: isOptional(shape, path, stats),
+      examples: [...stats.examples],
+    }));
+}
+
+/**
+ * Compare the shape of one payload with a learned shape
+ *
+ * @param learned - The shape learned so far
+ * @param observed - The shape of the new payload alone
+ * @param includeAdded - Whether to report new fields (pointless once the
+ *   learned shape is full, as every untracked field would look new)
+ * @returns Every difference (empty if the payload fits)
+ */
+export function diffShape(
+  learned: PayloadShape,
+  observed: PayloadShape,
+  includeAdded = true,
+): CatalogDriftChange[] {
+  const changes: CatalogDriftChange[] = [];
+
+  for (const [path, stats] of observed) {
+    const known = learned.get(path);
+    const types = Array.from(stats.types);
+    if (!known) {
+      if (includeAdded && path !== ROOT_PATH) {
+        changes.push({ path, kind: 'added', types });
+      }
+    } else if (types.some((type) => !known.types.has(type))) {
+      changes.push({ path, kind: 'type_changed', types });
+    }
+  }
+
+  for (const [path, known] of learned) {
+    if (path === ROOT_PATH || isOptional(learned, path, known)) {
+      continue;
+    }
+    // Only missing if its parent object is there (without it)
+    const parent = observed.get(parentPath(path));
+    if (parent && (observed.get(path)?.present ?? 0) < parent.objects) {
+      changes.push({ path, kind: 'missing' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Whether some values of a field's parent object lacked it
+ *
+ * Array elements ("items[]") are never optional - an empty array simply
+ * has none.
+ */
+function isOptional(
+  shape: PayloadShape,
+  path: string,
+  stats: FieldStats,
+): boolean {
+  if (path.endsWith('[]')) {
+    return false;
+  }
+  const parent = shape.get(parentPath(path));
+  return parent !== undefined && stats.present < parent.objects;
+}
+
+/**
+ * Keep a primitive value as an example, unless there are enough already
+ */
+function addExample(stats: FieldStats, value: unknown): void {
+  if (value === null || stats.examples.length >= MAX_EXAMPLES) {
+    return;
+  }
+  const example =
+    typeof value === 'string' && value.length > MAX_EXAMPLE_LENGTH
+      ? `${value.slice(0, MAX_EXAMPLE_LENGTH)}...`
+      : value;
+  if (!stats.examples.includes(example)) {
+    stats.examples.push(example);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * ApiAuth Decorator
+ *
+ * Extracts what ApiKeyGuard learned about the caller: the API key it
+ * presented, or that it came without one and must sign its webhook.
+ *
+ * Undefined when API authentication is disabled (API_AUTH_ENABLED), so
+ * controllers treat "no context" as "no restrictions".
+ *
+ * Usage:
+ *   findOne(@Param('id') id: string, @ApiAuth() auth?: ApiAuthContext)
+ */
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ApiAuthContext, AuthenticatedRequest } from '../guards/api-key.guard';
+
+export const ApiAuth = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ApiAuthContext | undefined => {
+    const request = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    return request.auth;
+  },
+);
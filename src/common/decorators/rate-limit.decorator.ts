@@ -0,0 +1,42 @@
+/**
+ * RateLimit Decorator
+ *
+ * Puts a route in one of the rate limit classes (see RateLimitGuard), so
+ * ingestion and reads can be limited separately. Like @RequireScope(), it
+ * can be put on a controller class or on a single route, which overrides
+ * the class.
+ *
+ * Routes without it use the "default" limit.
+ *
+ * Usage:
+ *   @RateLimit('read')
+ *   @Get()
+ *   findAll(@Query() query: QueryWebhooksDto) { ... }
+ */
+import { SetMetadata } from '@nestjs/common';
+
+/** Metadata key under which @RateLimit() stores the route's class */
+export const RATE_LIMIT_METADATA = 'rate-limit:route';
+
+/**
+ * Rate limit classes, each with its own limit:
+ * - ingest: receiving webhooks (POST /webhooks)
+ * - read: listing, fetching and streaming webhooks
+ * - default: everything else (admin API, workers, WebSocket messages)
+ */
+export type RateLimitRoute = 'ingest' | 'read' | 'default';
+
+/** Every rate limit class (used to validate RATE_LIMITS) */
+export const RATE_LIMIT_ROUTES: readonly RateLimitRoute[] = [
+  'ingest',
+  'read',
+  'default',
+];
+
+/**
+ * Count the route's requests against a rate limit class
+ *
+ * @param route - The class whose limit applies
+ */
+export const RateLimit = (route: RateLimitRoute) =>
+  SetMetadata<string, RateLimitRoute>(RATE_LIMIT_METADATA, route);
@@ -0,0 +1,30 @@
+/**
+ * Raw Body Decorator
+ *
+ * Extracts the exact bytes of the request body, as they arrived on the wire.
+ *
+ * Why do we need this?
+ * - Webhook providers sign the exact bytes they sent
+ * - By the time @Body() reaches the controller, the JSON has been parsed and
+ *   transformed by the ValidationPipe, so re-serializing it (JSON.stringify)
+ *   can change key order and whitespace and break the signature
+ *
+ * Requires the app to be created with { rawBody: true } (see main.ts),
+ * which makes NestJS keep a copy of the body on request.rawBody.
+ *
+ * Usage:
+ *   create(@Body() dto: CreateWebhookDto, @RawBody() rawBody?: Buffer)
+ */
+import {
+  createParamDecorator,
+  ExecutionContext,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { Request } from 'express';
+
+export const RawBody = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): Buffer | undefined => {
+    const request = ctx.switchToHttp().getRequest<RawBodyRequest<Request>>();
+    return request.rawBody;
+  },
+);
@@ -0,0 +1,69 @@
+/**
+ * RequireScope Decorator
+ *
+ * Declares what an API key needs to call a route (see ApiKeyGuard).
+ * It can be put on a controller class (applies to every route) or on a
+ * single route, which overrides the class.
+ *
+ * Routes without it can only be called with an "admin" key, so a new
+ * admin endpoint is never public by accident.
+ *
+ * Usage:
+ *   @RequireScope('read', { source: 'request' })
+ *   @Get()
+ *   findAll(@Query() query: QueryWebhooksDto) { ... }
+ */
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../api-keys/interfaces/api-key.interface';
+
+/** Metadata key under which @RequireScope() stores its arguments */
+export const REQUIRE_SCOPE_METADATA = 'api-keys:require-scope';
+
+/**
+ * Options of @RequireScope()
+ */
+export interface RequireScopeOptions {
+  /**
+   * Where the route's source comes from, for keys bound to sources:
+   * - request: the "source" route param, query parameter or body field
+   *   (bound keys must send one they are allowed)
+   * - body: the "source" body field, for routes storing what the body
+   *   says (bound keys must send one they are allowed)
+   * - param: the "source" route param only, for routes whose body is a
+   *   provider's own payload (its fields say nothing about our sources)
+   * - webhook: the webhook the route acts on (checked by the controller
+   *   with assertSourceAccess() once it has looked the webhook up)
+   * - omitted: the route isn't about one source
+   */
+  source?: 'request' | 'body' | 'param' | 'webhook';
+
+  /**
+   * Callers without a key may still call the route, but their webhook
+   * must carry a valid signature (only for ingestion)
+   */
+  allowSigned?: boolean;
+}
+
+/**
+ * What @RequireScope() stores on the route or controller
+ */
+export interface RequireScopeMetadata extends RequireScopeOptions {
+  /** The scope the key needs */
+  scope: ApiKeyScope;
+}
+
+/**
+ * Require an API key with a scope to call the route
+ *
+ * @param scope - The scope the key needs ("admin" keys have every scope)
+ * @param options - Where the source comes from, and whether signed
+ *   requests without a key are accepted
+ */
+export const RequireScope = (
+  scope: ApiKeyScope,
+  options: RequireScopeOptions = {},
+) =>
+  SetMetadata<string, RequireScopeMetadata>(REQUIRE_SCOPE_METADATA, {
+    scope,
+    ...options,
+  });
@@ -0,0 +1,69 @@
+/**
+ * WebSocket Exception Filter
+ *
+ * The WebSocket counterpart of HttpExceptionFilter: turns errors thrown by
+ * gateway message handlers into an "error" message sent to the client,
+ * in the same shape as every other gateway message:
+ *
+ *   { "event": "error", "data": { "event": "delete", "statusCode": 404, "message": "Webhook not found" } }
+ *
+ * Nest's default WebSocket filter only emits a local event on the client
+ * object, which plain `ws` clients never receive - hence this filter.
+ *
+ * @Catch() with no arguments means "catch everything" (not just WsExceptions)
+ */
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  Logger,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { WebSocket } from 'ws';
+
+@Catch()
+export class WsExceptionFilter implements ExceptionFilter {
+  /** Logger for recording unexpected errors */
+  private readonly logger = new Logger(WsExceptionFilter.name);
+
+  /**
+   * Main exception handler method
+   *
+   * @param exception - The error that was thrown (could be anything)
+   * @param host - Provides access to the client and the message
+   */
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const ws = host.switchToWs();
+    const client = ws.getClient<WebSocket>();
+
+    let details: object;
+    if (exception instanceof WsException) {
+      const error = exception.getError();
+      details = typeof error === 'object' ? error : { message: error };
+    } else if (exception instanceof HttpException) {
+      // Services throw HTTP exceptions (e.g. 404) - keep their status code
+      const response = exception.getResponse();
+      details = {
+        statusCode: exception.getStatus(),
+        ...(typeof response === 'object' ? response : { message: response }),
+      };
+    } else {
+      // IMPORTANT: Don't expose internal error details to clients!
+      details = { message: 'Internal server error' };
+      this.logger.error(
+        `Unexpected error: ${exception instanceof Error ? exception.message : 'Unknown error'}`,
+        exception instanceof Error ? exception.stack : undefined,
+      );
+    }
+
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(
+        JSON.stringify({
+          event: 'error',
+          data: { event: ws.getPattern(), ...details },
+        }),
+      );
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * API Key Guard Tests
+ *
+ * These tests verify how requests are authenticated:
+ * - Missing, invalid and under-scoped keys are refused
+ * - Keys bound to sources only reach those sources, named unambiguously
+ * - Senders without a key may post webhooks, if they sign them
+ * - Only admin changes are refused while authentication is disabled
+ */
+import {
+  BadRequestException,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyGuard, AuthenticatedRequest } from './api-key.guard';
+import { RequireScope } from '../decorators/require-scope.decorator';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+
+/** Routes carrying the metadata the guard reads */
+class TestController {
+  @RequireScope('ingest', { source: 'body', allowSigned: true })
+  create(): void {}
+
+  @RequireScope('ingest', { source: 'param', allowSigned: true })
+  receive(): void {}
+
+  @RequireScope('read', { source: 'request' })
+  findAll(): void {}
+
+  @RequireScope('delete', { source: 'webhook' })
+  delete(): void {}
+
+  adminOnly(): void {}
+}
+
+/** Run the guard for a route with the given request */
+const run = (
+  guard: ApiKeyGuard,
+  handler: keyof TestController,
+  request: Partial<AuthenticatedRequest>,
+): boolean => {
+  // Defaults are filled in on the request itself, so tests can read req.auth
+  const req = Object.assign(request, {
+    method: request.method ?? 'GET',
+    headers: request.headers ?? {},
+    params: request.params ?? {},
+    query: request.query ?? {},
+  });
+  const context = {
+    getType: () => 'http',
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => req }),
+  } as unknown as ExecutionContext;
+  return guard.canActivate(context);
+};
+
+/** Headers presenting a key */
+const withKey = (key: string) => ({ headers: { 'x-api-key': key } });
+
+describe('ApiKeyGuard', () => {
+  let apiKeys: ApiKeysService;
+  let guard: ApiKeyGuard;
+
+  beforeEach(() => {
+    process.env.API_AUTH_ENABLED = 'true';
+    apiKeys = new ApiKeysService();
+    guard = new ApiKeyGuard(new Reflector(), apiKeys);
+  });
+
+  afterEach(() => {
+    delete process.env.API_AUTH_ENABLED;
+  });
+
+  // ==================== Key Tests ====================
+  describe('keys', () => {
+    /**
+     * Test: A key with the route's scope gets in, from either header
+     */
+    it('should accept a key with the required scope', () => {
+      const { key } = apiKeys.issue('reader', ['read']);
+
+      expect(run(guard, 'findAll', withKey(key))).toBe(true);
+      expect(
+        run(guard, 'findAll', { headers: { authorization: `Bearer ${key}` } }),
+      ).toBe(true);
+    });
+
+    /**
+     * Test: Missing and unknown keys are 401, missing scopes 403
+     */
+    it('should refuse missing, invalid and under-scoped keys', () => {
+      const { key } = apiKeys.issue('reader', ['read']);
+
+      expect(() => run(guard, 'findAll', {})).toThrow(UnauthorizedException);
+      expect(() => run(guard, 'findAll', withKey('whk_nope'))).toThrow(
+        UnauthorizedException,
+      );
+      expect(() => run(guard, 'delete', withKey(key))).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    /**
+     * Test: Routes without @RequireScope() need an admin key
+     */
+    it('should require admin for undeclared routes', () => {
+      const { key: reader } = apiKeys.issue('reader', ['read']);
+      const { key: admin } = apiKeys.issue('ops', ['admin']);
+
+      expect(() => run(guard, 'adminOnly', withKey(reader))).toThrow(
+        ForbiddenException,
+      );
+      expect(run(guard, 'adminOnly', withKey(admin))).toBe(true);
+    });
+  });
+
+  // ==================== Source Binding Tests ====================
+  describe('source binding', () => {
+    /**
+     * Test: A bound key must name one of its sources
+     */
+    it('should only let bound keys reach their sources', () => {
+      const { key } = apiKeys.issue('billing', ['read'], ['stripe']);
+
+      expect(
+        run(guard, 'findAll', { ...withKey(key), query: { source: 'stripe' } }),
+      ).toBe(true);
+      expect(() =>
+        run(guard, 'findAll', { ...withKey(key), query: { source: 'github' } }),
+      ).toThrow(ForbiddenException);
+      expect(() => run(guard, 'findAll', withKey(key))).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    /**
+     * Test: Ingestion checks the source in the body, which is the one
+     * stored - a different one in the query can't vouch for it
+     */
+    it('should check the body source of ingested webhooks', () => {
+      const { key } = apiKeys.issue('billing', ['ingest'], ['stripe']);
+
+      expect(
+        run(guard, 'create', { ...withKey(key), body: { source: 'stripe' } }),
+      ).toBe(true);
+      expect(() =>
+        run(guard, 'create', {
+          ...withKey(key),
+          query: { source: 'stripe' },
+          body: { source: 'github' },
+        }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        run(guard, 'create', { ...withKey(key), query: { source: 'stripe' } }),
+      ).toThrow(ForbiddenException);
+    });
+
+    /**
+     * Test: Requests naming different sources in different places are
+     * refused, even for keys bound to no source
+     */
+    it('should refuse requests naming conflicting sources', () => {
+      const { key } = apiKeys.issue('reader', ['read']);
+
+      expect(() =>
+        run(guard, 'findAll', {
+          ...withKey(key),
+          params: { source: 'stripe' },
+          query: { source: 'github' },
+        }),
+      ).toThrow(BadRequestException);
+      expect(
+        run(guard, 'findAll', {
+          ...withKey(key),
+          query: { source: 'stripe' },
+          body: { source: 'stripe' },
+        }),
+      ).toBe(true);
+    });
+
+    /**
+     * Test: Provider deliveries check the source in the path - their body
+     * is the provider's, so a "source" field in it means nothing
+     */
+    it('should check the path source of provider deliveries', () => {
+      const { key } = apiKeys.issue('billing', ['ingest'], ['stripe']);
+
+      expect(
+        run(guard, 'receive', {
+          ...withKey(key),
+          params: { source: 'stripe' },
+          body: { source: 'github' },
+        }),
+      ).toBe(true);
+      expect(() =>
+        run(guard, 'receive', {
+          ...withKey(key),
+          params: { source: 'github' },
+        }),
+      ).toThrow(ForbiddenException);
+    });
+
+    /**
+     * Test: Routes acting on a stored webhook leave the check to the
+     * controller, but record the key for it
+     */
+    it('should record the key for webhook routes', () => {
+      const { id, key } = apiKeys.issue('billing', ['delete'], ['stripe']);
+      const request: Partial<AuthenticatedRequest> = withKey(key);
+
+      run(guard, 'delete', request);
+
+      expect(request.auth?.apiKey?.id).toBe(id);
+    });
+  });
+
+  // ==================== Keyless Sender Tests ====================
+  describe('keyless senders', () => {
+    /**
+     * Test: Ingestion without a key goes through, but must be signed
+     */
+    it('should let keyless senders post if they sign', () => {
+      const request: Partial<AuthenticatedRequest> = {
+        body: { source: 'stripe' },
+      };
+
+      expect(run(guard, 'create', request)).toBe(true);
+      expect(request.auth).toEqual({ requireSignature: true });
+    });
+
+    /**
+     * Test: Nothing is required while authentication is disabled, but
+     * admin routes only answer reads - anyone could change them otherwise
+     */
+    it('should only refuse admin changes when disabled', () => {
+      delete process.env.API_AUTH_ENABLED;
+      guard = new ApiKeyGuard(new Reflector(), new ApiKeysService());
+
+      expect(run(guard, 'adminOnly', {})).toBe(true);
+      expect(run(guard, 'delete', { method: 'DELETE' })).toBe(true);
+      expect(run(guard, 'create', { method: 'POST' })).toBe(true);
+      expect(() => run(guard, 'adminOnly', { method: 'POST' })).toThrow(
+        ForbiddenException,
+      );
+      expect(() => run(guard, 'adminOnly', { method: 'DELETE' })).toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+});
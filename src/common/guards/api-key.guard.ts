@@ -0,0 +1,278 @@
+/**
+ * API Key Guard
+ *
+ * Protects the HTTP API with API keys (see ApiKeysService), once
+ * API_AUTH_ENABLED is set. It runs after RateLimitGuard, so guessing keys
+ * is rate limited too.
+ *
+ * How it works:
+ * 1. Reads the key from "Authorization: Bearer <key>" or "X-API-Key"
+ * 2. Looks up its hash - unknown or revoked keys get 401
+ * 3. Checks the key has the scope the route declares with @RequireScope()
+ *    (routes without one need "admin") - otherwise 403
+ * 4. For keys bound to sources, checks the source named in the request
+ *    (the body's, for ingestion, as that is the one stored; the path's,
+ *    for provider deliveries to POST /webhooks/:source) - routes
+ *    acting on a stored webhook check its source in the controller.
+ *    Requests naming different sources in their params, query and body
+ *    are refused, so the source checked is the one acted on.
+ *
+ * Senders of webhooks don't need a key: POST /webhooks without one is let
+ * through, and WebhooksService then only accepts it if its signature
+ * verifies.
+ *
+ * While API_AUTH_ENABLED is off, every route is public - except that admin
+ * routes only answer reads. Changing secrets, keys, subscriptions or
+ * policies would otherwise be open to anyone who can reach the service.
+ *
+ * Only HTTP is covered; the WebSocket gateway has its own auth handshake
+ * (WS_AUTH_TOKENS).
+ */
+import {
+  BadRequestException,
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import {
+  ApiKey,
+  ApiKeyScope,
+} from '../../api-keys/interfaces/api-key.interface';
+import {
+  REQUIRE_SCOPE_METADATA,
+  RequireScopeMetadata,
+} from '../decorators/require-scope.decorator';
+import { matchesPattern } from '../utils/pattern.util';
+import {
+  getBodySource,
+  getPresentedApiKey,
+  getRequestSources,
+} from '../utils/request.util';
+
+/**
+ * What the guard learned about the caller
+ */
+export interface ApiAuthContext {
+  /** The key the caller presented (undefined for keyless senders) */
+  apiKey?: ApiKey;
+
+  /** The caller has no key, so its webhook must carry a valid signature */
+  requireSignature: boolean;
+}
+
+/**
+ * A request the guard has let through
+ * (auth is undefined while API authentication is disabled)
+ */
+export interface AuthenticatedRequest extends Request {
+  auth?: ApiAuthContext;
+}
+
+/** Scope of routes that don't declare one with @RequireScope() */
+const DEFAULT_REQUIREMENT: RequireScopeMetadata = { scope: 'admin' };
+
+/** Methods that only read, so admin routes answer them without auth */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a caller may access a source
+ *
+ * Callers without a key, or with a key bound to no source, may access
+ * every source.
+ *
+ * @param auth - What ApiKeyGuard learned about the caller
+ * @param source - The webhook source being accessed
+ */
+export function canAccessSource(
+  auth: ApiAuthContext | undefined,
+  source: string,
+): boolean {
+  const apiKey = auth?.apiKey;
+  return (
+    !apiKey ||
+    apiKey.sources.length === 0 ||
+    apiKey.sources.some((pattern) => matchesPattern(source, pattern))
+  );
+}
+
+/**
+ * Refuse a caller whose key is bound to other sources
+ *
+ * @param auth - What ApiKeyGuard learned about the caller
+ * @param source - The webhook source being accessed
+ * @throws ForbiddenException if the key isn't bound to the source
+ */
+export function assertSourceAccess(
+  auth: ApiAuthContext | undefined,
+  source: string,
+): void {
+  if (!canAccessSource(auth, source)) {
+    throw new ForbiddenException({
+      message: `API key is not allowed to access source "${source}"`,
+      reason: 'source_not_allowed',
+    });
+  }
+}
+
+/**
+ * Refuse a caller whose key is bound to sources from a route that reports
+ * on every source at once (e.g. GET /webhooks/stats)
+ *
+ * Admin keys are let through whatever their binding.
+ *
+ * @param auth - What ApiKeyGuard learned about the caller
+ * @throws ForbiddenException if the key is bound to sources
+ */
+export function assertAllSourcesAccess(auth: ApiAuthContext | undefined): void {
+  const apiKey = auth?.apiKey;
+  if (apiKey && apiKey.sources.length > 0 && !apiKey.scopes.includes('admin')) {
+    throw new ForbiddenException({
+      message: 'API key is bound to sources and cannot read every source',
+      reason: 'source_not_allowed',
+    });
+  }
+}
+
+/**
+ * Refuse a caller without a scope the route only needs for some requests
+ * (e.g. "read:unredacted" for GET /webhooks/:id?unredacted=true)
+ *
+ * Unlike the scopes of @RequireScope(), this one can't be waived by
+ * leaving API authentication disabled: callers without a key are refused.
+ *
+ * @param auth - What ApiKeyGuard learned about the caller
+ * @param scope - The scope needed ("admin" implies it)
+ * @throws ForbiddenException if the caller has no key with the scope
+ */
+export function assertScope(
+  auth: ApiAuthContext | undefined,
+  scope: ApiKeyScope,
+): void {
+  const apiKey = auth?.apiKey;
+  if (
+    !apiKey ||
+    !(apiKey.scopes.includes(scope) || apiKey.scopes.includes('admin'))
+  ) {
+    throw new ForbiddenException({
+      message: apiKey
+        ? `API key lacks the "${scope}" scope`
+        : `An API key with the "${scope}" scope is required`,
+      reason: 'insufficient_scope',
+      requiredScope: scope,
+    });
+  }
+}
+
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  /**
+   * Constructor - NestJS automatically injects the dependencies
+   *
+   * @param reflector - Reads the @RequireScope() metadata
+   * @param apiKeys - Looks up the presented keys
+   */
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+  ) {}
+
+  /**
+   * Main guard method - called for every request
+   *
+   * @param context - Provides access to the request object
+   * @returns true if the request is allowed
+   * @throws UnauthorizedException if the key is missing or unknown
+   * @throws ForbiddenException if the key lacks the scope or the source,
+   *   or for admin changes while authentication is disabled
+   * @throws BadRequestException if the request names conflicting sources
+   */
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<RequireScopeMetadata>(
+        REQUIRE_SCOPE_METADATA,
+        [context.getHandler(), context.getClass()],
+      ) ?? DEFAULT_REQUIREMENT;
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    if (!this.apiKeys.isEnabled()) {
+      if (
+        required.scope === 'admin' &&
+        !SAFE_METHODS.includes(request.method)
+      ) {
+        throw new ForbiddenException({
+          message:
+            'Admin changes through the API need API authentication to be enabled (API_AUTH_ENABLED)',
+          reason: 'api_auth_disabled',
+        });
+      }
+      return true;
+    }
+
+    const key = getPresentedApiKey(request);
+    if (!key) {
+      // Senders may sign their webhook instead of presenting a key
+      if (required.allowSigned) {
+        request.auth = { requireSignature: true };
+        return true;
+      }
+      throw new UnauthorizedException({
+        message: 'An API key is required',
+        reason: 'missing_api_key',
+      });
+    }
+
+    const apiKey = this.apiKeys.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException({
+        message: 'Invalid API key',
+        reason: 'invalid_api_key',
+      });
+    }
+    if (!this.apiKeys.hasScope(apiKey, required.scope)) {
+      throw new ForbiddenException({
+        message: `API key lacks the "${required.scope}" scope`,
+        reason: 'insufficient_scope',
+        requiredScope: required.scope,
+      });
+    }
+
+    request.auth = { apiKey, requireSignature: false };
+
+    if (required.source !== undefined && required.source !== 'webhook') {
+      const sources =
+        required.source === 'param'
+          ? [request.params?.source].filter(
+              (source): source is string => typeof source === 'string',
+            )
+          : getRequestSources(request);
+      if (sources.length > 1) {
+        throw new BadRequestException({
+          message: 'The request names different sources',
+          reason: 'source_mismatch',
+          sources,
+        });
+      }
+      const source =
+        required.source === 'body' ? getBodySource(request) : sources[0];
+      if (source === undefined && apiKey.sources.length > 0) {
+        throw new ForbiddenException({
+          message: 'API key is bound to sources, so the request must name one',
+          reason: 'source_required',
+        });
+      }
+      if (source !== undefined) {
+        assertSourceAccess(request.auth, source);
+      }
+    }
+    return true;
+  }
+}
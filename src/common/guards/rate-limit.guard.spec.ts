@@ -0,0 +1,303 @@
+/**
+ * Rate Limit Guard Tests
+ *
+ * These tests verify how requests are rate limited:
+ * - Token buckets allow bursts of "max" and refill over the window
+ * - Ingestion and reads have their own limits
+ * - Clients are told apart by IP, source or API key
+ * - Responses carry the RateLimit-* and Retry-After headers
+ */
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimit } from '../decorators/rate-limit.decorator';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { InMemoryRateLimitStore } from '../rate-limit/in-memory-rate-limit.store';
+
+/** Routes carrying the metadata the guard reads */
+class TestController {
+  @RateLimit('ingest')
+  create(): void {}
+
+  @RateLimit('read')
+  findAll(): void {}
+
+  claim(): void {}
+}
+
+/** A request, as far as the guard looks at it */
+interface TestRequest {
+  ip?: string;
+  headers?: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+/** What the guard did with a request */
+interface Outcome {
+  /** Headers set on the response */
+  headers: Record<string, unknown>;
+  /** The 429 thrown, if the request was refused */
+  error?: HttpException;
+}
+
+/** Run the guard for a route with the given request */
+const call = async (
+  guard: RateLimitGuard,
+  handler: keyof TestController,
+  request: TestRequest = {},
+): Promise<Outcome> => {
+  const headers: Record<string, unknown> = {};
+  const req = {
+    headers: request.headers ?? {},
+    params: {},
+    query: {},
+    body: request.body,
+    socket: { remoteAddress: request.ip ?? '10.0.0.1' },
+  };
+  const res = {
+    setHeader: (name: string, value: unknown) => (headers[name] = value),
+  };
+  const context = {
+    getType: () => 'http',
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    switchToHttp: () => ({ getRequest: () => req, getResponse: () => res }),
+  } as unknown as ExecutionContext;
+  try {
+    await guard.canActivate(context);
+    return { headers };
+  } catch (error) {
+    return { headers, error: error as HttpException };
+  }
+};
+
+describe('RateLimitGuard', () => {
+  let apiKeys: ApiKeysService;
+  let store: InMemoryRateLimitStore;
+  let guard: RateLimitGuard;
+  let now: number;
+
+  /** Build the guard from the current environment */
+  const createGuard = () => {
+    guard = new RateLimitGuard(new Reflector(), apiKeys, store);
+  };
+
+  beforeEach(() => {
+    process.env.RATE_LIMIT_MAX = '3';
+    process.env.RATE_LIMIT_WINDOW_MS = '3000';
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    apiKeys = new ApiKeysService();
+    store = new InMemoryRateLimitStore();
+    createGuard();
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.restoreAllMocks();
+    delete process.env.RATE_LIMIT_MAX;
+    delete process.env.RATE_LIMIT_WINDOW_MS;
+    delete process.env.RATE_LIMITS;
+  });
+
+  // ==================== Token Bucket Tests ====================
+  describe('token bucket', () => {
+    /**
+     * Test: A burst of "max" requests passes, the next one gets 429
+     */
+    it('should refuse requests once the bucket is empty', async () => {
+      // Arrange: Use up the bucket
+      await call(guard, 'claim');
+      await call(guard, 'claim');
+      await call(guard, 'claim');
+
+      // Act
+      const { error } = await call(guard, 'claim');
+
+      // Assert: 429, retry once a token is back (one per second)
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error?.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(error?.getResponse()).toMatchObject({ retryAfter: 1 });
+    });
+
+    /**
+     * Test: Tokens come back over time, never beyond "max"
+     */
+    it('should refill the bucket over the window', async () => {
+      // Arrange
+      await call(guard, 'claim');
+      await call(guard, 'claim');
+      await call(guard, 'claim');
+
+      // Act: One second refills one token
+      now += 1000;
+
+      // Assert
+      expect((await call(guard, 'claim')).error).toBeUndefined();
+      expect((await call(guard, 'claim')).error).toBeInstanceOf(HttpException);
+
+      // A long pause fills the bucket, but only to "max"
+      now += 60_000;
+      expect((await call(guard, 'claim')).headers['RateLimit-Remaining']).toBe(
+        2,
+      );
+    });
+
+    /**
+     * Test: Responses describe the limit, and 429s say when to retry
+     */
+    it('should set the RateLimit-* and Retry-After headers', async () => {
+      // Act
+      const { headers } = await call(guard, 'claim');
+
+      // Assert
+      expect(headers).toEqual({
+        'RateLimit-Limit': 3,
+        'RateLimit-Remaining': 2,
+        'RateLimit-Reset': 1,
+        'RateLimit-Policy': '3;w=3',
+      });
+
+      await call(guard, 'claim');
+      await call(guard, 'claim');
+      const refused = await call(guard, 'claim');
+      expect(refused.error).toBeInstanceOf(HttpException);
+      expect(refused.headers['RateLimit-Remaining']).toBe(0);
+      expect(refused.headers['Retry-After']).toBe(1);
+    });
+
+    /**
+     * Test: WebSocket messages are limited by the client's recorded IP
+     */
+    it('should throw a WsException for WebSocket clients', async () => {
+      const client = { clientIp: '10.0.0.9' };
+      const context = {
+        getType: () => 'ws',
+        getHandler: () => TestController.prototype.claim,
+        getClass: () => TestController,
+        switchToWs: () => ({ getClient: () => client }),
+      } as unknown as ExecutionContext;
+
+      await guard.canActivate(context);
+      await guard.canActivate(context);
+      await guard.canActivate(context);
+
+      await expect(guard.canActivate(context)).rejects.toThrow(WsException);
+    });
+  });
+
+  // ==================== Route Class Tests ====================
+  describe('route classes', () => {
+    /**
+     * Test: Ingestion and reads are limited separately
+     */
+    it('should apply the limit of each route class', async () => {
+      // Arrange: A high ingest limit, reads use the defaults
+      process.env.RATE_LIMITS = 'ingest:5';
+      createGuard();
+
+      // Act: Use up the read bucket
+      await call(guard, 'findAll');
+      await call(guard, 'findAll');
+      await call(guard, 'findAll');
+
+      // Assert: Reads are refused, ingestion has its own bucket
+      expect((await call(guard, 'findAll')).error).toBeInstanceOf(
+        HttpException,
+      );
+      expect((await call(guard, 'create')).headers['RateLimit-Limit']).toBe(5);
+      expect((await call(guard, 'claim')).headers['RateLimit-Limit']).toBe(3);
+    });
+
+    /**
+     * Test: Malformed RATE_LIMITS entries fall back to the defaults
+     */
+    it('should ignore malformed entries', async () => {
+      process.env.RATE_LIMITS = 'writes:5,read:0,ingest:5:1000:cookie';
+      createGuard();
+
+      expect((await call(guard, 'findAll')).headers['RateLimit-Limit']).toBe(3);
+      expect((await call(guard, 'create')).headers['RateLimit-Limit']).toBe(3);
+    });
+  });
+
+  // ==================== Key Tests ====================
+  describe('keys', () => {
+    /**
+     * Test: By default, each IP has its own bucket
+     */
+    it('should key clients by IP', async () => {
+      await call(guard, 'claim', { ip: '10.0.0.1' });
+      await call(guard, 'claim', { ip: '10.0.0.1' });
+      await call(guard, 'claim', { ip: '10.0.0.1' });
+
+      expect(
+        (await call(guard, 'claim', { ip: '10.0.0.1' })).error,
+      ).toBeDefined();
+      expect(
+        (await call(guard, 'claim', { ip: '10.0.0.2' })).error,
+      ).toBeUndefined();
+    });
+
+    /**
+     * Test: Limits keyed by source are shared by every sender of it
+     */
+    it('should key clients by source', async () => {
+      // Arrange
+      process.env.RATE_LIMITS = 'ingest:2::source';
+      createGuard();
+      const stripe = { source: 'stripe' };
+
+      // Act: Two IPs share the stripe bucket
+      await call(guard, 'create', { ip: '10.0.0.1', body: stripe });
+      await call(guard, 'create', { ip: '10.0.0.2', body: stripe });
+
+      // Assert
+      const third = await call(guard, 'create', {
+        ip: '10.0.0.3',
+        body: stripe,
+      });
+      expect(third.error).toBeDefined();
+      const github = { source: 'github' };
+      const other = await call(guard, 'create', {
+        ip: '10.0.0.3',
+        body: github,
+      });
+      expect(other.error).toBeUndefined();
+    });
+
+    /**
+     * Test: Limits keyed by API key follow the key, whatever the IP -
+     * unknown keys fall back to the IP, so guessing keys stays limited
+     */
+    it('should key clients by API key', async () => {
+      // Arrange
+      process.env.RATE_LIMITS = 'read:2::api-key';
+      createGuard();
+      const { key } = apiKeys.issue('reader', ['read']);
+      const withKey = { headers: { authorization: `Bearer ${key}` } };
+
+      // Act
+      await call(guard, 'findAll', { ip: '10.0.0.1', ...withKey });
+      await call(guard, 'findAll', { ip: '10.0.0.2', ...withKey });
+
+      // Assert
+      const third = await call(guard, 'findAll', {
+        ip: '10.0.0.3',
+        ...withKey,
+      });
+      expect(third.error).toBeDefined();
+
+      // Each guess presents another unknown key, from the same IP
+      const guess = (key: string) =>
+        call(guard, 'findAll', {
+          ip: '10.0.0.4',
+          headers: { 'x-api-key': key },
+        });
+      await guess('a');
+      await guess('b');
+      expect((await guess('c')).error).toBeDefined();
+    });
+  });
+});
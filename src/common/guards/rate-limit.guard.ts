@@ -2,23 +2,47 @@
  * Rate Limit Guard
  *
  * This guard protects the API from abuse by limiting how many requests
- * a single client (identified by IP address) can make in a time window.
+ * a single client can make.
  *
  * How it works:
- * 1. Tracks request counts per IP address
- * 2. Resets the count after the time window expires
- * 3. Returns 429 Too Many Requests if limit is exceeded
+ * 1. Finds the limit of the route's class, and who the client is
+ * 2. Counts the request in the RateLimitStore - token buckets in memory,
+ *    or shared through Redis (RATE_LIMIT_STORE)
+ * 3. Returns 429 Too Many Requests if the limit is exceeded, with
+ *    Retry-After set to the time until the next request fits
  *
- * Default: 100 requests per 60 seconds per IP
+ * Limits are set per class of route (see @RateLimit()): "ingest" for
+ * POST /webhooks, "read" for listing and fetching webhooks, and "default"
+ * for everything else. Each class is counted separately, and tells clients
+ * apart by one of:
+ * - ip: the client's IP address (behind a load balancer, list it in
+ *   TRUSTED_PROXIES so X-Forwarded-For is used - see getClientIp)
+ * - source: the source the request names, shared by every client sending
+ *   for it (requests naming none fall back to their IP)
+ * - api-key: the API key presented (unknown keys fall back to their IP,
+ *   so guessing keys is still limited)
+ *
+ * HTTP responses carry the RateLimit-Limit, RateLimit-Remaining,
+ * RateLimit-Reset and RateLimit-Policy headers.
+ *
+ * WebSocket gateways apply it with @UseGuards() (global guards only cover
+ * HTTP), so every message counts as a request against the "default"
+ * limit. WebSocket clients are keyed by the IP the gateway recorded when
+ * they connected (see RateLimitedSocket).
+ *
+ * Configuration:
+ * - RATE_LIMIT_MAX: Requests per window (default: 100)
+ * - RATE_LIMIT_WINDOW_MS: Window length (default: 60000)
+ * - RATE_LIMITS: Limits per class, as "route:max:windowMs:key,..."
+ *   (e.g. "ingest:1000:60000:source,read:300:60000:api-key") - empty
+ *   parts use RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS and "ip"
+ * - RATE_LIMIT_STORE: Where requests are counted (see createRateLimitStore)
  *
  * Why rate limiting?
  * - Prevents denial of service (DoS) attacks
  * - Protects server resources
  * - Ensures fair usage among clients
  * - Required for production-ready APIs
- *
- * @Injectable() marks this as a NestJS service
- * CanActivate interface means this is a guard that can allow/deny requests
  */
 import {
   Injectable,
@@ -26,41 +50,101 @@ import {
   ExecutionContext,
   HttpException,
   HttpStatus,
+  Logger,
 } from '@nestjs/common';
-import { Request } from 'express';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { Request, Response } from 'express';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import {
+  RATE_LIMIT_METADATA,
+  RATE_LIMIT_ROUTES,
+  RateLimitRoute,
+} from '../decorators/rate-limit.decorator';
+import { getClientIp, getTrustedProxies } from '../utils/client-ip.util';
+import { CidrList } from '../utils/cidr.util';
+import { getPresentedApiKey, getRequestSource } from '../utils/request.util';
+import { RateLimitStore } from '../rate-limit/rate-limit.store';
+import {
+  RateLimitKey,
+  RateLimitPolicy,
+} from '../rate-limit/interfaces/rate-limit.interface';
+
+/** Every way of keying clients (used to validate RATE_LIMITS) */
+const RATE_LIMIT_KEYS: readonly RateLimitKey[] = ['ip', 'source', 'api-key'];
 
 /**
- * Tracks rate limit data for a single IP address
+ * A WebSocket client that can be rate limited
+ * (the gateway sets clientIp from the upgrade request)
  */
-interface RateLimitRecord {
-  /** Number of requests made in the current window */
-  count: number;
-  /** Timestamp (ms) when the window resets */
-  resetTime: number;
+export interface RateLimitedSocket {
+  /** IP address of the client, recorded at connection time */
+  clientIp?: string;
 }
 
 @Injectable()
 export class RateLimitGuard implements CanActivate {
-  /**
-   * In-memory storage of rate limit data per IP
-   * Key: IP address, Value: { count, resetTime }
-   */
-  private readonly requests: Map<string, RateLimitRecord> = new Map();
+  /** Logger instance for this class */
+  private readonly logger = new Logger(RateLimitGuard.name);
 
-  /** Maximum requests allowed per time window */
-  private readonly maxRequests: number;
+  /** The limit of each class of routes */
+  private readonly policies: Record<RateLimitRoute, RateLimitPolicy>;
 
-  /** Time window in milliseconds */
-  private readonly windowMs: number;
+  /** Proxies whose X-Forwarded-For entries are believed */
+  private readonly trustedProxies: CidrList;
 
   /**
    * Constructor - reads configuration from environment variables
+   *
+   * @param reflector - Reads the @RateLimit() metadata
+   * @param apiKeys - Identifies the API key of limits keyed by api-key
+   * @param store - Counts the requests of each client
    */
-  constructor() {
-    // Default: 100 requests per window
-    this.maxRequests = parseInt(process.env.RATE_LIMIT_MAX || '100', 10);
-    // Default: 60 second (60000ms) window
-    this.windowMs = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10);
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeys: ApiKeysService,
+    private readonly store: RateLimitStore,
+  ) {
+    const defaults: RateLimitPolicy = {
+      // Default: 100 requests per window
+      max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
+      // Default: 60 second (60000ms) window
+      windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000', 10),
+      keyBy: 'ip',
+    };
+    this.policies = {
+      ingest: { ...defaults },
+      read: { ...defaults },
+      default: { ...defaults },
+    };
+
+    // Format: "route:max:windowMs:key,..."
+    (process.env.RATE_LIMITS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [route, max, windowMs, keyBy] = entry
+          .split(':')
+          .map((part) => part.trim());
+        const policy: RateLimitPolicy = {
+          max: max ? parseInt(max, 10) : defaults.max,
+          windowMs: windowMs ? parseInt(windowMs, 10) : defaults.windowMs,
+          keyBy: (keyBy || defaults.keyBy) as RateLimitKey,
+        };
+        if (
+          !RATE_LIMIT_ROUTES.includes(route as RateLimitRoute) ||
+          !(policy.max > 0) ||
+          !(policy.windowMs > 0) ||
+          !RATE_LIMIT_KEYS.includes(policy.keyBy)
+        ) {
+          this.logger.warn(`Ignoring malformed RATE_LIMITS entry: ${entry}`);
+          return;
+        }
+        this.policies[route as RateLimitRoute] = policy;
+      });
+
+    this.trustedProxies = getTrustedProxies();
   }
 
   /**
@@ -71,71 +155,80 @@ export class RateLimitGuard implements CanActivate {
    * Return false or throw = block request
    *
    * @param context - Provides access to the request object
+   *   (or the WebSocket client, for gateway messages)
    * @returns true if request is allowed
    * @throws HttpException with 429 status if rate limit exceeded
+   *   (WsException for gateway messages)
    */
-  canActivate(context: ExecutionContext): boolean {
-    // Get the Express request object
-    const request = context.switchToHttp().getRequest<Request>();
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isWebSocket = context.getType() === 'ws';
+    const route =
+      this.reflector.getAllAndOverride<RateLimitRoute>(RATE_LIMIT_METADATA, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'default';
+    const policy = this.policies[route];
 
-    // Extract the client's IP address
-    const clientIp = this.getClientIp(request);
+    const client = isWebSocket
+      ? `ip:${context.switchToWs().getClient<RateLimitedSocket>().clientIp ?? 'unknown'}`
+      : this.identify(context.switchToHttp().getRequest<Request>(), policy);
 
-    // Current timestamp
-    const now = Date.now();
+    const decision = await this.store.consume(`${route}:${client}`, policy);
 
-    // Look up existing rate limit record for this IP
-    const record = this.requests.get(clientIp);
+    // Seconds until the next request fits (at least 1 once refused)
+    const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
 
-    // Case 1: No record exists, or the time window has expired
-    if (!record || now > record.resetTime) {
-      // Start a new tracking window
-      this.requests.set(clientIp, {
-        count: 1, // This is their first request in the new window
-        resetTime: now + this.windowMs, // Window expires after windowMs
-      });
-      return true; // Allow the request
+    if (!isWebSocket) {
+      const response = context.switchToHttp().getResponse<Response>();
+      response.setHeader('RateLimit-Limit', policy.max);
+      response.setHeader('RateLimit-Remaining', decision.remaining);
+      response.setHeader('RateLimit-Reset', Math.ceil(decision.resetMs / 1000));
+      response.setHeader(
+        'RateLimit-Policy',
+        `${policy.max};w=${Math.ceil(policy.windowMs / 1000)}`,
+      );
+      if (!decision.allowed) {
+        response.setHeader('Retry-After', retryAfter);
+      }
     }
 
-    // Case 2: Rate limit exceeded
-    if (record.count >= this.maxRequests) {
-      // Calculate how many seconds until they can retry
-      const retryAfter = Math.ceil((record.resetTime - now) / 1000);
-
-      // Throw 429 Too Many Requests
-      throw new HttpException(
-        {
-          message: 'Too many requests',
-          retryAfter: retryAfter, // Tell client when to retry
-        },
-        HttpStatus.TOO_MANY_REQUESTS,
-      );
+    if (decision.allowed) {
+      return true;
     }
 
-    // Case 3: Still within limits - increment count and allow
-    record.count++;
-    return true;
+    const error = {
+      message: 'Too many requests',
+      retryAfter: retryAfter, // Tell client when to retry
+    };
+
+    // WebSocket clients get an error message instead of a status code
+    if (isWebSocket) {
+      throw new WsException(error);
+    }
+
+    // Throw 429 Too Many Requests
+    throw new HttpException(error, HttpStatus.TOO_MANY_REQUESTS);
   }
 
   /**
-   * Extract the client's IP address from the request
-   *
-   * Handles both direct connections and requests through proxies/load balancers.
-   * The X-Forwarded-For header contains the original client IP when behind a proxy.
+   * Find what identifies the client of an HTTP request under a policy
    *
-   * @param request - The Express request object
-   * @returns The client's IP address as a string
+   * @returns e.g. "ip:10.0.0.7", "source:stripe" or "api-key:<key id>"
    */
-  private getClientIp(request: Request): string {
-    // Check X-Forwarded-For header (set by proxies/load balancers)
-    const forwardedFor = request.headers['x-forwarded-for'];
-    if (typeof forwardedFor === 'string') {
-      // X-Forwarded-For can contain multiple IPs: "client, proxy1, proxy2"
-      // The first one is the original client IP
-      return forwardedFor.split(',')[0].trim();
+  private identify(request: Request, policy: RateLimitPolicy): string {
+    if (policy.keyBy === 'source') {
+      const source = getRequestSource(request);
+      if (source !== undefined) {
+        return `source:${source}`;
+      }
     }
-
-    // Fall back to direct connection IP
-    return request.ip || request.socket.remoteAddress || 'unknown';
+    if (policy.keyBy === 'api-key') {
+      const key = getPresentedApiKey(request);
+      const apiKey = key ? this.apiKeys.find(key) : undefined;
+      if (apiKey) {
+        return `api-key:${apiKey.id}`;
+      }
+    }
+    return `ip:${getClientIp(request, this.trustedProxies)}`;
   }
 }
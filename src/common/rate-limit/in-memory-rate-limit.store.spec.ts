@@ -0,0 +1,81 @@
+/**
+ * In-Memory Rate Limit Store Tests
+ *
+ * These tests verify the token buckets:
+ * - A bucket allows a burst of "max", then one request per refilled token
+ * - Refilled buckets are cleaned up
+ */
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { RateLimitPolicy } from './interfaces/rate-limit.interface';
+
+describe('InMemoryRateLimitStore', () => {
+  let store: InMemoryRateLimitStore;
+  let now: number;
+
+  /** 3 requests per 3 seconds: one token back per second */
+  const policy: RateLimitPolicy = { max: 3, windowMs: 3000, keyBy: 'ip' };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new InMemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  // ==================== Token Bucket Tests ====================
+  describe('consume', () => {
+    /**
+     * Test: The decision says what is left, and when to retry
+     */
+    it('should allow a burst of max, then refuse until a token is back', async () => {
+      // Act
+      const first = await store.consume('ip:a', policy);
+      await store.consume('ip:a', policy);
+      await store.consume('ip:a', policy);
+      const refused = await store.consume('ip:a', policy);
+
+      // Assert
+      expect(first).toEqual({
+        allowed: true,
+        remaining: 2,
+        resetMs: 1000,
+        retryAfterMs: 0,
+      });
+      expect(refused).toEqual({
+        allowed: false,
+        remaining: 0,
+        resetMs: 3000,
+        retryAfterMs: 1000,
+      });
+
+      // A token is back after a second
+      now += 1000;
+      expect((await store.consume('ip:a', policy)).allowed).toBe(true);
+    });
+  });
+
+  // ==================== Cleanup Tests ====================
+  describe('cleanup', () => {
+    /**
+     * Test: Buckets that have refilled are dropped, others are kept
+     */
+    it('should drop refilled buckets', async () => {
+      // Arrange: One bucket used a second ago, one used just now
+      await store.consume('ip:a', policy);
+      now += 1000;
+      await store.consume('ip:b', policy);
+
+      // Act: The first bucket has refilled, the second hasn't
+      now += 500;
+      const dropped = store.cleanup();
+
+      // Assert
+      expect(dropped).toBe(1);
+      expect(store.size).toBe(1);
+    });
+  });
+});
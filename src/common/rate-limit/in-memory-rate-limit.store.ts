@@ -0,0 +1,137 @@
+/**
+ * In-Memory Rate Limit Store
+ *
+ * Token buckets kept in a Map:
+ * 1. Every client gets a bucket holding up to "max" tokens, refilled at
+ *    "max" tokens per window - so bursts of up to max requests are fine,
+ *    and the long-run rate is max per window
+ * 2. Each request takes a token
+ * 3. An empty bucket refuses the request until the next token is back
+ *
+ * Buckets that have refilled are no different from new ones, so a timer
+ * drops them every RATE_LIMIT_CLEANUP_INTERVAL_MS - memory stays bounded
+ * by the clients seen in the last window.
+ *
+ * Counts are per process: behind a load balancer, use RedisRateLimitStore.
+ *
+ * Configuration:
+ * - RATE_LIMIT_CLEANUP_INTERVAL_MS: How often refilled buckets are
+ *   dropped (default: 60000)
+ */
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { RateLimitStore } from './rate-limit.store';
+import {
+  RateLimitDecision,
+  RateLimitPolicy,
+} from './interfaces/rate-limit.interface';
+
+/**
+ * The token bucket of a single client
+ */
+interface TokenBucket {
+  /** Tokens left (fractional while refilling) */
+  tokens: number;
+  /** Timestamp (ms) at which tokens was computed */
+  updatedAt: number;
+  /** Timestamp (ms) at which the bucket is full again */
+  fullAt: number;
+}
+
+export class InMemoryRateLimitStore
+  extends RateLimitStore
+  implements OnModuleDestroy
+{
+  /** Logger instance for this class */
+  private readonly logger = new Logger(InMemoryRateLimitStore.name);
+
+  /**
+   * Token buckets
+   * Key: "route:client" (e.g. "read:ip:10.0.0.7"), Value: the bucket
+   */
+  private readonly buckets: Map<string, TokenBucket> = new Map();
+
+  /** Timer dropping refilled buckets */
+  private readonly cleaner: NodeJS.Timeout;
+
+  /**
+   * Constructor - starts the cleanup timer
+   */
+  constructor() {
+    super();
+    const cleanupIntervalMs = parseInt(
+      process.env.RATE_LIMIT_CLEANUP_INTERVAL_MS || '60000',
+      10,
+    );
+    this.cleaner = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    this.cleaner.unref(); // Don't keep the process alive just for the cleanup
+  }
+
+  /**
+   * Take a token from the client's bucket
+   */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitDecision> {
+    // Refill the bucket for the time since it was last used
+    const now = Date.now();
+    const refillRate = policy.max / policy.windowMs; // tokens per ms
+    const bucket = this.buckets.get(key);
+    let tokens = bucket
+      ? Math.min(
+          policy.max,
+          bucket.tokens + (now - bucket.updatedAt) * refillRate,
+        )
+      : policy.max;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + (policy.max - tokens) / refillRate,
+    });
+
+    return Promise.resolve({
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: (policy.max - tokens) / refillRate,
+      retryAfterMs: allowed ? 0 : (1 - tokens) / refillRate,
+    });
+  }
+
+  /**
+   * Drop the buckets that have refilled
+   *
+   * Runs every RATE_LIMIT_CLEANUP_INTERVAL_MS.
+   *
+   * @returns Number of buckets dropped
+   */
+  cleanup(): number {
+    const now = Date.now();
+    let dropped = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) {
+        this.buckets.delete(key);
+        dropped++;
+      }
+    }
+    if (dropped > 0) {
+      this.logger.debug(`Dropped ${dropped} refilled rate limit buckets`);
+    }
+    return dropped;
+  }
+
+  /**
+   * Number of buckets currently tracked
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /**
+   * Stop the cleanup when the application shuts down
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.cleaner);
+  }
+}
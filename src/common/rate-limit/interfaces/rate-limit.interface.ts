@@ -0,0 +1,45 @@
+/**
+ * Rate Limit Interfaces
+ *
+ * Shapes shared by RateLimitGuard and every RateLimitStore (in-memory,
+ * Redis), so the guard reads every store's decisions the same way.
+ */
+
+/**
+ * The stores that can be selected with the RATE_LIMIT_STORE env variable
+ *
+ * - memory: Token buckets in process memory (each replica counts alone)
+ * - redis: Token buckets in a Redis server shared by every replica
+ */
+export type RateLimitStoreDriver = 'memory' | 'redis';
+
+/**
+ * What tells the clients of a rate limit apart
+ */
+export type RateLimitKey = 'ip' | 'source' | 'api-key';
+
+/**
+ * The limit of one class of routes
+ */
+export interface RateLimitPolicy {
+  /** Requests allowed per window, and in a burst */
+  max: number;
+  /** Window length (ms) */
+  windowMs: number;
+  /** What tells clients apart */
+  keyBy: RateLimitKey;
+}
+
+/**
+ * What a store decided about one request
+ */
+export interface RateLimitDecision {
+  /** Whether the request may go ahead */
+  allowed: boolean;
+  /** Requests the client has left right now */
+  remaining: number;
+  /** Time (ms) until the client's limit is fully restored */
+  resetMs: number;
+  /** Time (ms) until the next request would be allowed (0 if allowed) */
+  retryAfterMs: number;
+}
@@ -0,0 +1,52 @@
+/**
+ * Rate Limit Store Factory
+ *
+ * Creates the store selected by the RATE_LIMIT_STORE env variable.
+ * Used by RateLimitModule to bind the RateLimitStore token.
+ *
+ * Environment variables:
+ * - RATE_LIMIT_STORE: memory (default) | redis
+ * - RATE_LIMIT_REDIS_URL: Server of the redis store
+ *   (default: redis://localhost:6379)
+ * - RATE_LIMIT_REDIS_PREFIX: Prefix of its keys (default: "ratelimit:")
+ * - RATE_LIMIT_REDIS_TIMEOUT_MS: Time allowed per command (default: 1000)
+ * - RATE_LIMIT_REDIS_FAIL_CLOSED: Refuse requests while the server is
+ *   unreachable, instead of letting them through (default: false)
+ */
+import { RateLimitStore } from './rate-limit.store';
+import { RateLimitStoreDriver } from './interfaces/rate-limit.interface';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { RedisRateLimitStore } from './redis-rate-limit.store';
+
+/** Every store name accepted by RATE_LIMIT_STORE */
+export const RATE_LIMIT_STORES: RateLimitStoreDriver[] = ['memory', 'redis'];
+
+/**
+ * Create a rate limit store
+ *
+ * @param driver - Which store to use (defaults to RATE_LIMIT_STORE or "memory")
+ * @returns The ready-to-use store (the redis store connects on first use)
+ * @throws Error if the store name is unknown (fails fast at startup)
+ */
+export function createRateLimitStore(
+  driver: string = process.env.RATE_LIMIT_STORE || 'memory',
+): RateLimitStore {
+  switch (driver) {
+    case 'memory':
+      return new InMemoryRateLimitStore();
+    case 'redis':
+      return new RedisRateLimitStore({
+        url: process.env.RATE_LIMIT_REDIS_URL || 'redis://localhost:6379',
+        prefix: process.env.RATE_LIMIT_REDIS_PREFIX || 'ratelimit:',
+        timeoutMs: parseInt(
+          process.env.RATE_LIMIT_REDIS_TIMEOUT_MS || '1000',
+          10,
+        ),
+        failClosed: process.env.RATE_LIMIT_REDIS_FAIL_CLOSED === 'true',
+      });
+    default:
+      throw new Error(
+        `Unknown RATE_LIMIT_STORE "${driver}". Expected one of: ${RATE_LIMIT_STORES.join(', ')}`,
+      );
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Rate Limit Module
+ *
+ * Provides the RateLimitStore that RateLimitGuard counts requests in,
+ * bound to the store selected by RATE_LIMIT_STORE (memory or redis).
+ *
+ * Imported by AppModule (global guard) and WebhooksModule (gateway);
+ * NestJS creates a module once, so both share the same store.
+ */
+import { Module } from '@nestjs/common';
+import { RateLimitStore } from './rate-limit.store';
+import { createRateLimitStore } from './rate-limit-store.factory';
+
+@Module({
+  providers: [
+    {
+      provide: RateLimitStore,
+      useFactory: () => createRateLimitStore(),
+    },
+  ],
+  exports: [RateLimitStore],
+})
+export class RateLimitModule {}
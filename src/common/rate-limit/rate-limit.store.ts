@@ -0,0 +1,37 @@
+/**
+ * Rate Limit Store (Interface)
+ *
+ * This abstract class is the contract every rate limit store must
+ * implement. RateLimitGuard decides which limit applies and who the
+ * client is; the store keeps the counts and says whether the request fits.
+ *
+ * Available stores:
+ * - InMemoryRateLimitStore: Token buckets in a Map. Each process counts
+ *   on its own, so N replicas allow N times the limit
+ * - RedisRateLimitStore: The same token buckets in Redis, shared by
+ *   every replica behind the load balancer
+ *
+ * Like WebhooksStorage, it is an abstract class rather than an interface
+ * so it can be the injection token (see RateLimitModule).
+ */
+import {
+  RateLimitDecision,
+  RateLimitPolicy,
+} from './interfaces/rate-limit.interface';
+
+export abstract class RateLimitStore {
+  /**
+   * Count a request against a client's limit
+   *
+   * Refused requests are not counted, so a client hammering the API
+   * gets through again as soon as its limit allows.
+   *
+   * @param key - Identifies the limit and client (e.g. "read:ip:10.0.0.7")
+   * @param policy - The limit that applies
+   * @returns Whether the request is allowed, and what is left
+   */
+  abstract consume(
+    key: string,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitDecision>;
+}
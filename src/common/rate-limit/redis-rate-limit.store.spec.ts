@@ -0,0 +1,358 @@
+/**
+ * Redis Rate Limit Store Tests
+ *
+ * These tests run the store against a local stand-in for Redis: a tiny
+ * server speaking the Redis protocol, with the handful of commands the
+ * client uses. It can't run Lua, so it answers the token bucket script
+ * with a copy of it written in TypeScript. They verify that:
+ * - Replicas sharing the server share the buckets
+ * - The script is sent once, then run by its SHA1
+ * - The script's replies become decisions
+ * - The URL's password and database are used
+ * - Requests are let through while the server is unreachable, or
+ *   refused if the store fails closed
+ */
+import { createHash } from 'crypto';
+import { Logger, ServiceUnavailableException } from '@nestjs/common';
+import { AddressInfo, createServer, Socket } from 'net';
+import {
+  RedisRateLimitStore,
+  TOKEN_BUCKET_SCRIPT,
+} from './redis-rate-limit.store';
+import { RateLimitPolicy } from './interfaces/rate-limit.interface';
+
+/**
+ * A stand-in for Redis
+ */
+interface FakeRedis {
+  /** Port it listens on, on 127.0.0.1 */
+  port: number;
+  /** Token buckets, by key */
+  buckets: Map<string, { tokens: number; updatedAt: number }>;
+  /** Server time (ms), as the script reads it with TIME */
+  time: number;
+  /** Every command received, in order */
+  commands: string[][];
+  /** While true, commands are received but never answered */
+  silent: boolean;
+  /** Stop the server and drop its connections */
+  close(): Promise<void>;
+}
+
+/** SHA1 of the script, as EVALSHA refers to it */
+const SCRIPT_SHA = createHash('sha1').update(TOKEN_BUCKET_SCRIPT).digest('hex');
+
+/**
+ * Parse one command (an array of bulk strings) from a buffer
+ *
+ * @returns The command and where the next one starts, or undefined if it
+ *   hasn't fully arrived yet
+ */
+const parseCommand = (
+  buffer: Buffer,
+): { args: string[]; offset: number } | undefined => {
+  let position = 0;
+  const readLine = (): string | undefined => {
+    const end = buffer.indexOf('\r\n', position);
+    if (end === -1) {
+      return undefined;
+    }
+    const line = buffer.toString('utf8', position, end);
+    position = end + 2;
+    return line;
+  };
+
+  const header = readLine();
+  if (header === undefined) {
+    return undefined;
+  }
+  const args: string[] = [];
+  for (let i = 0; i < parseInt(header.slice(1), 10); i++) {
+    const length = readLine();
+    if (length === undefined) {
+      return undefined;
+    }
+    const end = position + parseInt(length.slice(1), 10);
+    if (buffer.length < end + 2) {
+      return undefined;
+    }
+    args.push(buffer.toString('utf8', position, end));
+    position = end + 2;
+  }
+  return { args, offset: position };
+};
+
+/** Encode a bulk string reply */
+const bulk = (value: string): string =>
+  `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+/** Run the token bucket script the way Redis would */
+const takeToken = (fake: FakeRedis, [key, ...argv]: string[]): string => {
+  const max = Number(argv[0]);
+  const rate = max / Number(argv[1]);
+  const bucket = fake.buckets.get(key);
+  let tokens = bucket
+    ? Math.min(
+        max,
+        bucket.tokens + Math.max(0, fake.time - bucket.updatedAt) * rate,
+      )
+    : max;
+  let allowed = 0;
+  if (tokens >= 1) {
+    tokens -= 1;
+    allowed = 1;
+  }
+  fake.buckets.set(key, { tokens, updatedAt: fake.time });
+  return `*2\r\n:${allowed}\r\n${bulk(String(tokens))}`;
+};
+
+/** Answer a command the way Redis would */
+const reply = (fake: FakeRedis, [name, ...args]: string[]): string => {
+  switch (name.toUpperCase()) {
+    case 'AUTH':
+    case 'SELECT':
+      return '+OK\r\n';
+    case 'INFO':
+      return bulk('# Persistence\r\nloading:0\r\n');
+    case 'EVALSHA':
+      return args[0] === SCRIPT_SHA && fake.commands.some(([n]) => n === 'eval')
+        ? takeToken(fake, args.slice(2))
+        : '-NOSCRIPT No matching script. Please use EVAL.\r\n';
+    case 'EVAL':
+      return args[0] === TOKEN_BUCKET_SCRIPT
+        ? takeToken(fake, args.slice(2))
+        : '-ERR unknown script\r\n';
+    default:
+      return `-ERR unknown command '${name}'\r\n`;
+  }
+};
+
+/** Start a stand-in on a free port */
+const startFakeRedis = async (): Promise<FakeRedis> => {
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const command = parseCommand(buffer);
+        if (!command) {
+          break;
+        }
+        buffer = buffer.subarray(command.offset);
+        fake.commands.push(command.args);
+        if (!fake.silent) {
+          socket.write(reply(fake, command.args));
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const fake: FakeRedis = {
+    port: (server.address() as AddressInfo).port,
+    buckets: new Map(),
+    time: 3_000_000,
+    commands: [],
+    silent: false,
+    close: () => {
+      sockets.forEach((socket) => socket.destroy());
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+  return fake;
+};
+
+describe('RedisRateLimitStore', () => {
+  let redis: FakeRedis;
+  let stores: RedisRateLimitStore[];
+
+  /** 3 requests per 3 seconds */
+  const policy: RateLimitPolicy = { max: 3, windowMs: 3000, keyBy: 'ip' };
+
+  /** Create a store (a replica) connected to the stand-in */
+  const createStore = (
+    url = `redis://127.0.0.1:${redis.port}`,
+    failClosed = false,
+  ) => {
+    const store = new RedisRateLimitStore({
+      url,
+      prefix: 'ratelimit:',
+      timeoutMs: 200,
+      failClosed,
+    });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(async () => {
+    redis = await startFakeRedis();
+    stores = [];
+  });
+
+  afterEach(async () => {
+    stores.forEach((store) => store.onModuleDestroy());
+    await redis.close();
+    jest.restoreAllMocks();
+  });
+
+  // ==================== Shared Bucket Tests ====================
+  describe('shared bucket', () => {
+    /**
+     * Test: Two replicas take tokens from the same bucket
+     */
+    it('should share the bucket between replicas', async () => {
+      // Arrange
+      const replicaA = createStore();
+      const replicaB = createStore();
+
+      // Act
+      const first = await replicaA.consume('read:ip:10.0.0.1', policy);
+      await replicaB.consume('read:ip:10.0.0.1', policy);
+      await replicaA.consume('read:ip:10.0.0.1', policy);
+      const refused = await replicaB.consume('read:ip:10.0.0.1', policy);
+
+      // Assert: One bucket per client, refilled at 1 token per second
+      expect(first).toEqual({
+        allowed: true,
+        remaining: 2,
+        resetMs: 1000,
+        retryAfterMs: 0,
+      });
+      expect(refused).toEqual({
+        allowed: false,
+        remaining: 0,
+        resetMs: 3000,
+        retryAfterMs: 1000,
+      });
+      expect([...redis.buckets.keys()]).toEqual(['ratelimit:read:ip:10.0.0.1']);
+    });
+
+    /**
+     * Test: The bucket gets its tokens back over time, fractions included
+     */
+    it('should report partly refilled buckets', async () => {
+      // Arrange: An empty bucket
+      const store = createStore();
+      for (let i = 0; i < 3; i++) {
+        await store.consume('ip:a', policy);
+      }
+
+      // Act
+      redis.time += 500;
+      const refused = await store.consume('ip:a', policy);
+      redis.time += 500;
+      const allowed = await store.consume('ip:a', policy);
+
+      // Assert
+      expect(refused.allowed).toBe(false);
+      expect(refused.retryAfterMs).toBeCloseTo(500);
+      expect(allowed.allowed).toBe(true);
+      expect(allowed.remaining).toBe(0);
+    });
+
+    /**
+     * Test: The script is sent once; afterwards it runs by its SHA1
+     */
+    it('should run the script by its SHA1', async () => {
+      // Arrange
+      const store = createStore();
+
+      // Act
+      await store.consume('ip:a', policy);
+      await store.consume('ip:a', policy);
+
+      // Assert: The first call sends the source, later ones its SHA1
+      const scripts = redis.commands.filter(([name]) =>
+        ['eval', 'evalsha'].includes(name),
+      );
+      expect(scripts.map(([name]) => name)).toEqual(['eval', 'evalsha']);
+      expect(scripts[1]).toEqual([
+        'evalsha',
+        SCRIPT_SHA,
+        '1',
+        'ratelimit:ip:a',
+        '3',
+        '3000',
+      ]);
+    });
+  });
+
+  // ==================== Connection Tests ====================
+  describe('connection', () => {
+    /**
+     * Test: The URL's password and database are sent on connect
+     */
+    it('should authenticate and select the database from the URL', async () => {
+      // Arrange
+      const store = createStore(`redis://:s3cret@127.0.0.1:${redis.port}/2`);
+
+      // Act
+      await store.consume('ip:a', policy);
+
+      // Assert
+      expect(redis.commands).toContainEqual(['auth', 's3cret']);
+      expect(redis.commands).toContainEqual(['select', '2']);
+    });
+
+    /**
+     * Test: An unreachable store lets requests through, and says so once
+     */
+    it('should let requests through while the server is unreachable', async () => {
+      // Arrange: Nothing listens on the port anymore
+      const port = redis.port;
+      await redis.close();
+      const store = createStore(`redis://127.0.0.1:${port}`);
+      const errorSpy = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => undefined);
+
+      // Act
+      const first = await store.consume('ip:a', policy);
+      const second = await store.consume('ip:a', policy);
+
+      // Assert
+      expect(first.allowed).toBe(true);
+      expect(second.allowed).toBe(true);
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test: A store failing closed refuses requests with 503 while the
+     * server doesn't answer, and says so once
+     */
+    it('should refuse requests while unreachable if failing closed', async () => {
+      // Arrange
+      redis.silent = true;
+      const store = createStore(undefined, true);
+      const errorSpy = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => undefined);
+
+      // Act & Assert
+      await expect(store.consume('ip:a', policy)).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test: A server that stops answering times out instead of hanging
+     * the request
+     */
+    it('should time out when the server does not answer', async () => {
+      // Arrange
+      redis.silent = true;
+      const store = createStore();
+      jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+      // Act
+      const decision = await store.consume('ip:a', policy);
+
+      // Assert
+      expect(decision.allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Redis Rate Limit Store
+ *
+ * Keeps the token buckets in Redis, so every replica behind a load
+ * balancer shares them and the limit holds for the whole deployment.
+ *
+ * The buckets work like those of InMemoryRateLimitStore (bursts of up to
+ * "max" requests, refilled at "max" tokens per window), but each one is a
+ * hash ("<prefix><key>": tokens, updatedAt) updated by a Lua script:
+ * 1. Refill the bucket for the time since it was last used
+ * 2. Take a token if there is one
+ * 3. Store the bucket, expiring when it would be full again - a full
+ *    bucket is no different from a missing one
+ *
+ * Redis runs a script without interleaving other commands, so replicas
+ * never take the same token twice. The script reads the time from Redis
+ * itself, so replicas whose clocks drift apart still agree on the refill.
+ *
+ * The connection is an ioredis client: it reconnects after outages and
+ * runs the script by its SHA1 (EVALSHA), sending the source only once.
+ *
+ * If Redis can't be reached, requests are let through by default (and an
+ * error is logged): an outage of the rate limit shouldn't become an outage
+ * of the API. With failClosed, they are refused with 503 instead, for
+ * deployments where an unlimited API is the bigger risk.
+ *
+ * Configuration (see createRateLimitStore):
+ * - RATE_LIMIT_REDIS_URL: e.g. "redis://:password@redis:6379/0"
+ * - RATE_LIMIT_REDIS_PREFIX: Prefix of the bucket keys
+ * - RATE_LIMIT_REDIS_TIMEOUT_MS: Time allowed per command
+ * - RATE_LIMIT_REDIS_FAIL_CLOSED: Refuse requests while Redis is unreachable
+ */
+import {
+  Logger,
+  OnModuleDestroy,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { RateLimitStore } from './rate-limit.store';
+import {
+  RateLimitDecision,
+  RateLimitPolicy,
+} from './interfaces/rate-limit.interface';
+
+/**
+ * Options of RedisRateLimitStore
+ */
+export interface RedisRateLimitStoreOptions {
+  /** Server URL, e.g. "redis://localhost:6379" */
+  url: string;
+  /** Prefix of the bucket keys */
+  prefix: string;
+  /** Time (ms) allowed per command */
+  timeoutMs: number;
+  /** Refuse requests (503) instead of letting them through while unreachable */
+  failClosed?: boolean;
+}
+
+/**
+ * Take a token from a bucket
+ *
+ * KEYS[1]: the bucket; ARGV: max, windowMs
+ * Returns { allowed (1 or 0), tokens left } - the tokens as a string,
+ * since Redis would truncate a fractional number to an integer.
+ *
+ * replicate_commands() lets Redis before 5.0 write after reading TIME
+ * (later versions always replicate scripts this way).
+ */
+export const TOKEN_BUCKET_SCRIPT = `
+redis.replicate_commands()
+local max = tonumber(ARGV[1])
+local rate = max / tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = max
+if bucket[1] then
+  local elapsed = math.max(0, now - tonumber(bucket[2]))
+  tokens = math.min(max, tonumber(bucket[1]) + elapsed * rate)
+end
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((max - tokens) / rate))
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * The client, with the script registered as a command
+ */
+type TokenBucketClient = Redis & {
+  takeToken(
+    key: string,
+    max: number,
+    windowMs: number,
+  ): Promise<[number, string]>;
+};
+
+export class RedisRateLimitStore
+  extends RateLimitStore
+  implements OnModuleDestroy
+{
+  /** Logger instance for this class */
+  private readonly logger = new Logger(RedisRateLimitStore.name);
+
+  /** Connection to the server */
+  private readonly client: TokenBucketClient;
+
+  /** Whether the last command failed (so outages are logged once) */
+  private unavailable = false;
+
+  /**
+   * @param options - Server URL, key prefix and timeout
+   */
+  constructor(private readonly options: RedisRateLimitStoreOptions) {
+    super();
+    const client = new Redis(options.url, {
+      lazyConnect: true, // Connect on first use, not at startup
+      commandTimeout: options.timeoutMs,
+    });
+    client.defineCommand('takeToken', {
+      lua: TOKEN_BUCKET_SCRIPT,
+      numberOfKeys: 1,
+    });
+    // Failed commands are logged by consume(); without a listener,
+    // every failed reconnection attempt would be reported as unhandled
+    client.on('error', (error: Error) =>
+      this.logger.debug(`Rate limit store connection: ${error.message}`),
+    );
+    this.client = client as TokenBucketClient;
+  }
+
+  /**
+   * Take a token from the client's bucket
+   *
+   * @throws ServiceUnavailableException (503) if the server can't be
+   *   reached and the store fails closed
+   */
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+  ): Promise<RateLimitDecision> {
+    try {
+      const [allowed, left] = await this.client.takeToken(
+        `${this.options.prefix}${key}`,
+        policy.max,
+        policy.windowMs,
+      );
+
+      if (this.unavailable) {
+        this.unavailable = false;
+        this.logger.log('Rate limit store is reachable again');
+      }
+
+      const refillRate = policy.max / policy.windowMs; // tokens per ms
+      const tokens = Number(left);
+      return {
+        allowed: allowed === 1,
+        remaining: Math.floor(tokens),
+        resetMs: (policy.max - tokens) / refillRate,
+        retryAfterMs: allowed === 1 ? 0 : (1 - tokens) / refillRate,
+      };
+    } catch (error) {
+      if (!this.unavailable) {
+        this.unavailable = true;
+        this.logger.error(
+          `Rate limit store unavailable, ${this.options.failClosed ? 'refusing' : 'letting through'} requests: ${(error as Error).message}`,
+        );
+      }
+      if (this.options.failClosed) {
+        throw new ServiceUnavailableException({
+          message: 'Rate limit store unavailable',
+          reason: 'rate_limit_unavailable',
+        });
+      }
+      return {
+        allowed: true,
+        remaining: policy.max,
+        resetMs: 0,
+        retryAfterMs: 0,
+      };
+    }
+  }
+
+  /**
+   * Close the connection when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.client.disconnect();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * CIDR Utilities
+ *
+ * Sets of IPv4 and IPv6 ranges, written in CIDR notation:
+ * - "192.30.252.0/22"  matches 192.30.252.0 - 192.30.255.255
+ * - "2a0a:a440::/29"   matches an IPv6 block
+ * - "10.0.0.7"         a single address (same as /32, or /128 for IPv6)
+ *
+ * IPv4-mapped IPv6 addresses ("::ffff:192.30.252.1"), which Node reports
+ * for IPv4 clients of a dual-stack server, match the IPv4 ranges.
+ */
+import { BlockList, isIP } from 'net';
+
+/**
+ * A set of IP ranges
+ */
+export class CidrList {
+  /** Node's matcher for the ranges */
+  private readonly blockList = new BlockList();
+
+  /** The ranges as configured, in order */
+  private readonly entries: string[] = [];
+
+  /**
+   * Add a range
+   *
+   * @param range - An address or CIDR range, IPv4 or IPv6
+   * @returns false if the range is malformed (it is not added)
+   */
+  add(range: string): boolean {
+    const [address, prefix, ...rest] = range.trim().split('/');
+    const version = isIP(address);
+    const maxPrefix = version === 4 ? 32 : 128;
+    const bits = prefix === undefined ? maxPrefix : Number(prefix);
+    if (
+      version === 0 ||
+      rest.length > 0 ||
+      !/^\d+$/.test(prefix ?? String(maxPrefix)) ||
+      bits > maxPrefix
+    ) {
+      return false;
+    }
+
+    this.blockList.addSubnet(address, bits, version === 4 ? 'ipv4' : 'ipv6');
+    this.entries.push(`${address}/${bits}`);
+    return true;
+  }
+
+  /**
+   * Check whether an address is in one of the ranges
+   *
+   * @param ip - The address (anything that isn't an IP never matches)
+   */
+  contains(ip: string): boolean {
+    const version = isIP(ip);
+    if (version === 0) {
+      return false;
+    }
+    return this.blockList.check(ip, version === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  /**
+   * The ranges, normalized to "address/prefix"
+   */
+  get ranges(): string[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Number of ranges
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+}
+
+/**
+ * Parse a list of ranges
+ *
+ * @param value - Ranges separated by commas or "+" (e.g. "10.0.0.0/8,::1")
+ * @param onMalformed - Called with every range that can't be parsed
+ *   (it is skipped)
+ * @returns The ranges that parsed
+ */
+export function parseCidrList(
+  value: string,
+  onMalformed: (range: string) => void = () => undefined,
+): CidrList {
+  const list = new CidrList();
+  value
+    .split(/[,+]/)
+    .map((range) => range.trim())
+    .filter((range) => range !== '')
+    .forEach((range) => {
+      if (!list.add(range)) {
+        onMalformed(range);
+      }
+    });
+  return list;
+}
@@ -0,0 +1,65 @@
+/**
+ * Client IP Utilities
+ *
+ * Finds the IP address of the client behind a request. Shared by the
+ * HTTP rate limit, the per-source IP allowlists and the WebSocket gateway
+ * (which sees the upgrade request once, at connection time), so all of
+ * them identify clients the same way.
+ *
+ * X-Forwarded-For is only believed when it was added by a trusted proxy:
+ * anyone can send the header, so taking its first entry at face value
+ * would let clients pick their own IP. The trusted proxies come from
+ * TRUSTED_PROXIES, e.g. "10.0.0.0/8,fd00::/8" for a load balancer on the
+ * private network (default: none - the connection's address is used).
+ */
+import { IncomingMessage } from 'http';
+import { CidrList, parseCidrList } from './cidr.util';
+
+/**
+ * Read the trusted proxies from TRUSTED_PROXIES
+ *
+ * @param onMalformed - Called with every range that can't be parsed
+ * @returns The trusted proxy ranges (empty if none are configured)
+ */
+export function getTrustedProxies(
+  onMalformed?: (range: string) => void,
+): CidrList {
+  return parseCidrList(process.env.TRUSTED_PROXIES || '', onMalformed);
+}
+
+/**
+ * Extract the client's IP address from a request
+ *
+ * Starts from the address of the connection. While that is a trusted
+ * proxy, steps back through X-Forwarded-For ("client, proxy1, proxy2"),
+ * from the right: the first address not added by a trusted proxy is
+ * the client.
+ *
+ * @param request - An Express request or a plain Node.js request
+ *   (e.g. the upgrade request of a WebSocket)
+ * @param trustedProxies - Proxies whose X-Forwarded-For entries are
+ *   believed (default: none)
+ * @returns The client's IP address as a string ("unknown" if the
+ *   connection has no address)
+ */
+export function getClientIp(
+  request: IncomingMessage & { ip?: string },
+  trustedProxies: CidrList = new CidrList(),
+): string {
+  // The peer of the connection - the only address nobody can spoof
+  let clientIp = request.socket?.remoteAddress || request.ip || 'unknown';
+
+  const forwardedFor = request.headers['x-forwarded-for'];
+  const hops = (
+    Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor || ''
+  )
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter((hop) => hop !== '');
+
+  // Each trusted proxy vouches for the hop before it
+  while (hops.length > 0 && trustedProxies.contains(clientIp)) {
+    clientIp = hops.pop() as string;
+  }
+  return clientIp;
+}
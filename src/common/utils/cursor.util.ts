@@ -0,0 +1,77 @@
+/**
+ * Cursor Utilities
+ *
+ * Cursors for keyset pagination over lists ordered by (timestamp, id).
+ * A cursor points at the last item of a page; the next page starts right
+ * after it. Because the position is a value rather than an offset, items
+ * added (or removed) meanwhile never shift the pages being walked.
+ *
+ * Cursors are opaque to clients: base64url-encoded JSON of
+ * [timestamp in ms, id]. Clients must not build or edit them.
+ */
+
+/**
+ * A position in a (timestamp, id) ordering
+ */
+export interface CursorPosition {
+  /** Timestamp of the item the cursor points at */
+  timestamp: Date;
+
+  /** ID of the item (breaks ties between equal timestamps) */
+  id: string;
+}
+
+/**
+ * Encode a position as an opaque cursor
+ *
+ * @param position - The last item of the current page
+ * @returns The cursor string
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(
+    JSON.stringify([position.timestamp.getTime(), position.id]),
+  ).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor()
+ *
+ * @param cursor - The cursor string from the client
+ * @returns The position, or undefined if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition | undefined {
+  try {
+    const decoded: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      Number.isSafeInteger(decoded[0]) &&
+      typeof decoded[1] === 'string'
+    ) {
+      return { timestamp: new Date(decoded[0] as number), id: decoded[1] };
+    }
+  } catch {
+    // Not base64url JSON - fall through
+  }
+  return undefined;
+}
+
+/**
+ * Compare two positions in ascending (timestamp, id) order
+ *
+ * @param a - First position
+ * @param b - Second position
+ * @returns Negative if a comes first, positive if b does, 0 if equal
+ */
+export function compareCursorPositions(
+  a: CursorPosition,
+  b: CursorPosition,
+): number {
+  const byTime = a.timestamp.getTime() - b.timestamp.getTime();
+  if (byTime !== 0) {
+    return byTime;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
@@ -0,0 +1,182 @@
+/**
+ * JSON Path Utilities
+ *
+ * A small subset of JSONPath, for settings that point at fields inside
+ * webhook payloads:
+ * - "$.customer.email"          a key
+ * - "$.items[0].sku"            an array item
+ * - "$.items[*].price"          every item (or every key: "$.meta.*")
+ * - "$..email"                  "email" at any depth
+ * - "$['billing.address']"      a key containing dots
+ *
+ * Filters, slices and scripts are not supported.
+ */
+
+/**
+ * One step of a parsed path
+ */
+export type JsonPathSegment =
+  | { type: 'key'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; name: string };
+
+/**
+ * Where a value sits inside a document: the keys and indexes leading to it
+ */
+export type JsonPathLocation = (string | number)[];
+
+/** A step at the current position of a path being parsed */
+const SEGMENT =
+  /^(?:\.\.([^.[\]]+)|\.([^.[\]]+)|\[(\d+)\]|\[\*\]|\['([^']*)'\])/;
+
+/**
+ * Parse a path
+ *
+ * @param path - The path, starting with "$"
+ * @returns Its segments, or undefined if it is malformed or unsupported
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] | undefined {
+  if (!path.startsWith('$')) {
+    return undefined;
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest !== '') {
+    const match = SEGMENT.exec(rest);
+    if (!match) {
+      return undefined;
+    }
+    const [token, descendant, key, index, quoted] = match;
+    if (descendant !== undefined) {
+      segments.push({ type: 'descendant', name: descendant });
+    } else if (key === '*' || token === '[*]') {
+      segments.push({ type: 'wildcard' });
+    } else if (key !== undefined) {
+      segments.push({ type: 'key', name: key });
+    } else if (index !== undefined) {
+      segments.push({ type: 'index', index: parseInt(index, 10) });
+    } else {
+      segments.push({ type: 'key', name: quoted });
+    }
+    rest = rest.slice(token.length);
+  }
+  return segments;
+}
+
+/**
+ * Find every value a parsed path points at
+ *
+ * Only walks plain objects and arrays, through their own keys, so a path
+ * can never reach prototype properties like "__proto__".
+ *
+ * @param document - The document to search (e.g. a payload)
+ * @param segments - The parsed path (see parseJsonPath)
+ * @returns The location of every match, parents before their children
+ */
+export function findJsonPath(
+  document: unknown,
+  segments: JsonPathSegment[],
+): JsonPathLocation[] {
+  const found: JsonPathLocation[] = [];
+
+  const walk = (value: unknown, step: number, location: JsonPathLocation) => {
+    if (step === segments.length) {
+      found.push(location);
+      return;
+    }
+    const segment = segments[step];
+    const children = childrenOf(value);
+
+    switch (segment.type) {
+      case 'key':
+        if (!Array.isArray(value)) {
+          children
+            .filter(([key]) => key === segment.name)
+            .forEach(([key, child]) =>
+              walk(child, step + 1, [...location, key]),
+            );
+        }
+        break;
+      case 'index':
+        if (Array.isArray(value) && segment.index < value.length) {
+          walk(value[segment.index], step + 1, [...location, segment.index]);
+        }
+        break;
+      case 'wildcard':
+        children.forEach(([key, child]) =>
+          walk(child, step + 1, [...location, key]),
+        );
+        break;
+      case 'descendant':
+        children.forEach(([key, child]) => {
+          if (segment.name === '*' || key === segment.name) {
+            walk(child, step + 1, [...location, key]);
+          }
+          walk(child, step, [...location, key]);
+        });
+        break;
+    }
+  };
+
+  walk(document, 0, []);
+  return found;
+}
+
+/**
+ * Find every key, at any depth, whose name passes a test
+ *
+ * @param document - The document to search
+ * @param test - Called with each key name (array indexes are skipped)
+ * @returns The location of every matching key, parents before children
+ */
+export function findKeys(
+  document: unknown,
+  test: (key: string) => boolean,
+): JsonPathLocation[] {
+  const found: JsonPathLocation[] = [];
+
+  const walk = (value: unknown, location: JsonPathLocation) => {
+    childrenOf(value).forEach(([key, child]) => {
+      if (typeof key === 'string' && test(key)) {
+        found.push([...location, key]);
+      }
+      walk(child, [...location, key]);
+    });
+  };
+
+  walk(document, []);
+  return found;
+}
+
+/**
+ * Write a location as a path, e.g. ["items", 0, "sku"] as "$.items[0].sku"
+ *
+ * @param location - The keys and indexes leading to a value
+ */
+export function formatJsonPath(location: JsonPathLocation): string {
+  return location
+    .map((step) =>
+      typeof step === 'number'
+        ? `[${step}]`
+        : /^[A-Za-z_$][\w$-]*$/.test(step)
+          ? `.${step}`
+          : `['${step}']`,
+    )
+    .reduce((path, step) => path + step, '$');
+}
+
+/**
+ * The children of an object or array, as [key or index, value] pairs
+ * (nothing for other values)
+ */
+function childrenOf(value: unknown): [string | number, unknown][] {
+  if (Array.isArray(value)) {
+    return value.map((child, index) => [index, child]);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value);
+  }
+  return [];
+}
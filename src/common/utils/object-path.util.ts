@@ -0,0 +1,34 @@
+/**
+ * Object Path Utilities
+ *
+ * Helpers for reading values out of nested objects with a dot path,
+ * e.g. "data.object.id" reads payload.data.object.id.
+ *
+ * Used wherever a setting points at a field inside a webhook payload.
+ */
+
+/**
+ * Read the value at a dot path
+ *
+ * Only walks plain objects and arrays (numeric segments index into arrays),
+ * so a path can never reach prototype properties like "__proto__".
+ *
+ * @param value - The object to read from
+ * @param path - Dot-separated path (e.g. "data.items.0.id")
+ * @returns The value at the path, or undefined if any segment is missing
+ */
+export function getValueAtPath(value: unknown, path: string): unknown {
+  let current: unknown = value;
+
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
@@ -0,0 +1,35 @@
+/**
+ * Pattern Utilities
+ *
+ * Simple glob-style matching for webhook sources and events,
+ * where "*" matches any run of characters:
+ * - "*"           matches everything
+ * - "payment.*"   matches "payment.completed", "payment.refund.created"
+ * - "*.failed"    matches "payment.failed", "invoice.failed"
+ *
+ * No other characters are special, so event names containing regex
+ * syntax ("+", "?", "(", ...) are matched literally.
+ */
+
+/**
+ * Check whether a value matches a glob pattern
+ *
+ * @param value - The value to test (e.g. an event name)
+ * @param pattern - The pattern, where "*" matches any characters
+ * @returns true if the whole value matches the pattern
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (!pattern.includes('*')) {
+    return value === pattern;
+  }
+
+  // Escape everything except "*", then turn "*" into ".*"
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 's').test(value);
+}
@@ -0,0 +1,49 @@
+/**
+ * Query String Utilities
+ *
+ * Express's default ("simple") query parser keeps every key flat, so
+ * ?payload.data.status=failed arrives as { "payload.data.status": "failed" }.
+ * A DTO can't declare a property for every possible path, so dotted keys
+ * are grouped under their first segment instead:
+ *
+ *   ?source=stripe&payload.data.status=failed
+ *   -> { source: "stripe", payload: { "data.status": "failed" } }
+ *
+ * Installed in main.ts as Express's "query parser".
+ */
+import { parse } from 'querystring';
+
+/**
+ * Parse a query string, grouping dotted keys by their first segment
+ *
+ * The result (and every group) has no prototype, like Express's own
+ * parser, so keys such as "__proto__" are stored as plain keys.
+ *
+ * @param query - The raw query string (without the leading "?")
+ * @returns The parsed query parameters
+ */
+export function parseQueryString(query: string): Record<string, unknown> {
+  const parsed: Record<string, unknown> = Object.create(null);
+
+  for (const [key, value] of Object.entries(parse(query))) {
+    const dot = key.indexOf('.');
+    if (dot <= 0) {
+      parsed[key] = value;
+      continue;
+    }
+
+    // A plain value under the same name is replaced by the group
+    const name = key.slice(0, dot);
+    const existing = parsed[name];
+    const group: Record<string, unknown> =
+      typeof existing === 'object' &&
+      existing !== null &&
+      !Array.isArray(existing)
+        ? (existing as Record<string, unknown>)
+        : Object.create(null);
+    group[key.slice(dot + 1)] = value;
+    parsed[name] = group;
+  }
+
+  return parsed;
+}
@@ -0,0 +1,71 @@
+/**
+ * Request Utilities
+ *
+ * Read what a caller says about itself from an HTTP request. Shared by
+ * ApiKeyGuard and RateLimitGuard, which both run before validation - so
+ * neither trusts these values beyond telling callers apart.
+ */
+import { Request } from 'express';
+
+/**
+ * Read the API key from the Authorization or X-API-Key header
+ *
+ * @param request - The HTTP request
+ * @returns The key, or undefined if neither header carries one
+ */
+export function getPresentedApiKey(request: Request): string | undefined {
+  const authorization = request.headers.authorization;
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || undefined;
+  }
+  const header = request.headers['x-api-key'];
+  return (Array.isArray(header) ? header[0] : header) || undefined;
+}
+
+/**
+ * Find the source a request names, in its route params, query or body
+ *
+ * Runs before validation, so values that aren't strings are ignored
+ * (the ValidationPipe rejects them afterwards).
+ *
+ * @param request - The HTTP request
+ * @returns The source, or undefined if the request names none
+ */
+export function getRequestSource(request: Request): string | undefined {
+  return getRequestSources(request)[0];
+}
+
+/**
+ * Find every source a request names, in its route params, query and body
+ *
+ * A request naming different sources in different places is ambiguous:
+ * the one checked might not be the one acted on.
+ *
+ * @param request - The HTTP request
+ * @returns The distinct sources, in params, query, body order
+ */
+export function getRequestSources(request: Request): string[] {
+  const candidates: unknown[] = [
+    request.params?.source,
+    request.query?.source,
+    getBodySource(request),
+  ];
+  return [
+    ...new Set(
+      candidates.filter(
+        (candidate): candidate is string => typeof candidate === 'string',
+      ),
+    ),
+  ];
+}
+
+/**
+ * Read the source field of a request body (what POST /webhooks stores)
+ *
+ * @param request - The HTTP request
+ * @returns The source, or undefined if the body has no string source
+ */
+export function getBodySource(request: Request): string | undefined {
+  const source = (request.body as { source?: unknown } | undefined)?.source;
+  return typeof source === 'string' ? source : undefined;
+}
@@ -0,0 +1,53 @@
+/**
+ * Create Subscription DTO
+ *
+ * Body for POST /admin/subscriptions - forwards matching webhooks to a URL.
+ *
+ * Example request body:
+ * {
+ *   "targetUrl": "http://billing.internal/webhooks",
+ *   "source": "stripe",       // optional - defaults to "*" (any source)
+ *   "event": "payment.*"      // optional - defaults to "*" (any event)
+ * }
+ */
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateSubscriptionDto {
+  /**
+   * Where matching webhooks are POSTed
+   *
+   * - http or https only
+   * - No TLD required, so internal hosts like "billing:8080" work
+   */
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  @MaxLength(2048)
+  targetUrl!: string;
+
+  /**
+   * Source pattern ("*" matches any characters)
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  source?: string;
+
+  /**
+   * Event pattern ("*" matches any characters, e.g. "payment.*")
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  event?: string;
+}
@@ -0,0 +1,101 @@
+/**
+ * Forwarding Controller (Admin API)
+ *
+ * Manage subscriptions that forward stored webhooks to internal services.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /admin/subscriptions                - List subscriptions
+ * - POST   /admin/subscriptions                - Create a subscription
+ * - GET    /admin/subscriptions/:id            - Get one subscription
+ * - GET    /admin/subscriptions/:id/deliveries - Deliveries with every attempt
+ * - DELETE /admin/subscriptions/:id            - Delete a subscription
+ */
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ForwardingService } from './forwarding.service';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { Delivery, Subscription } from './interfaces/subscription.interface';
+
+@Controller('admin/subscriptions')
+export class ForwardingController {
+  /**
+   * Constructor - NestJS automatically injects the ForwardingService
+   *
+   * @param forwardingService - The service managing subscriptions
+   */
+  constructor(private readonly forwardingService: ForwardingService) {}
+
+  /**
+   * GET /api/v1/admin/subscriptions
+   *
+   * @returns { subscriptions: [...] }
+   */
+  @Get()
+  findAll(): { subscriptions: Subscription[] } {
+    return { subscriptions: this.forwardingService.listSubscriptions() };
+  }
+
+  /**
+   * POST /api/v1/admin/subscriptions
+   *
+   * Example request:
+   * POST /api/v1/admin/subscriptions
+   * Body: { "targetUrl": "http://billing.internal/webhooks", "source": "stripe", "event": "payment.*" }
+   *
+   * @param dto - Target URL and optional source/event patterns
+   * @returns The new subscription
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateSubscriptionDto): Subscription {
+    return this.forwardingService.subscribe(dto);
+  }
+
+  /**
+   * GET /api/v1/admin/subscriptions/:id
+   *
+   * @param id - The subscription UUID
+   * @returns The subscription
+   * @throws 404 Not Found if it doesn't exist
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string): Subscription {
+    return this.forwardingService.findSubscription(id);
+  }
+
+  /**
+   * GET /api/v1/admin/subscriptions/:id/deliveries
+   *
+   * Every forward of a webhook to this subscription, newest first,
+   * with the status code, latency and error of each attempt.
+   *
+   * @param id - The subscription UUID
+   * @returns { deliveries: [...] }
+   * @throws 404 Not Found if the subscription doesn't exist
+   */
+  @Get(':id/deliveries')
+  findDeliveries(@Param('id') id: string): { deliveries: Delivery[] } {
+    return { deliveries: this.forwardingService.listDeliveries(id) };
+  }
+
+  /**
+   * DELETE /api/v1/admin/subscriptions/:id
+   *
+   * @param id - The subscription UUID
+   * @returns { message: "Subscription deleted successfully" }
+   * @throws 404 Not Found if it doesn't exist
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  delete(@Param('id') id: string): { message: string } {
+    return this.forwardingService.unsubscribe(id);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Forwarding Module
+ *
+ * Groups together everything needed to forward webhooks to internal services:
+ * - ForwardingController (admin HTTP endpoints for subscriptions)
+ * - ForwardingService (matching, delivery and retries)
+ *
+ * Exports ForwardingService so WebhooksModule can hand over every
+ * webhook it stores.
+ */
+import { Module } from '@nestjs/common';
+import { ForwardingController } from './forwarding.controller';
+import { ForwardingService } from './forwarding.service';
+
+@Module({
+  controllers: [ForwardingController],
+  providers: [ForwardingService],
+  exports: [ForwardingService],
+})
+export class ForwardingModule {}
@@ -0,0 +1,285 @@
+/**
+ * Forwarding Service Tests
+ *
+ * These tests run against a real local HTTP server standing in for an
+ * internal service, and verify:
+ * - Matching subscriptions by source and event pattern
+ * - What is sent (body and headers)
+ * - Retries with backoff, and when retrying stops
+ * - That every attempt is recorded (status code, latency, error)
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { NotFoundException } from '@nestjs/common';
+import { ForwardingService } from './forwarding.service';
+import { Webhook } from '../webhooks/interfaces/webhook.interface';
+
+/** A request received by the stand-in server */
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/** Create a stored webhook to forward */
+const createTestWebhook = (overrides?: Partial<Webhook>): Webhook => ({
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  source: 'stripe',
+  event: 'payment.completed',
+  payload: { amount: 100 },
+  receivedAt: new Date('2024-06-01T12:00:00.000Z'),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+  ...overrides,
+});
+
+describe('ForwardingService', () => {
+  let service: ForwardingService;
+  let server: Server;
+  let targetUrl: string;
+
+  /** Requests the stand-in received, in order */
+  let received: ReceivedRequest[];
+
+  /**
+   * Status codes the stand-in answers with, one per request
+   * (the last one repeats; "hang" never answers)
+   */
+  let responses: (number | 'hang')[];
+
+  beforeEach(async () => {
+    // Tiny delays and timeouts keep the retry tests fast
+    process.env.FORWARD_MAX_ATTEMPTS = '3';
+    process.env.FORWARD_BASE_DELAY_MS = '1';
+    process.env.FORWARD_MAX_DELAY_MS = '5';
+    process.env.FORWARD_TIMEOUT_MS = '200';
+    service = new ForwardingService();
+
+    received = [];
+    responses = [200];
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString('utf8'),
+        });
+        const status =
+          responses.length > 1 ? responses.shift()! : responses[0];
+        if (status !== 'hang') {
+          res.writeHead(status).end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    targetUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.FORWARD_MAX_ATTEMPTS;
+    delete process.env.FORWARD_BASE_DELAY_MS;
+    delete process.env.FORWARD_MAX_DELAY_MS;
+    delete process.env.FORWARD_TIMEOUT_MS;
+  });
+
+  // ==================== Matching ====================
+  describe('matching', () => {
+    /**
+     * Test: Only subscriptions whose patterns match receive the webhook
+     */
+    it('should forward only to matching subscriptions', async () => {
+      service.subscribe({ targetUrl, source: 'stripe', event: 'payment.*' });
+      service.subscribe({ targetUrl, source: 'github' });
+      service.subscribe({ targetUrl, event: '*.failed' });
+
+      const deliveries = await service.dispatch(createTestWebhook());
+
+      expect(deliveries).toHaveLength(1);
+      expect(received).toHaveLength(1);
+    });
+
+    /**
+     * Test: Patterns default to "*" (everything)
+     */
+    it('should match everything when no patterns are given', async () => {
+      const subscription = service.subscribe({ targetUrl });
+
+      await service.dispatch(createTestWebhook({ source: 'any', event: 'x' }));
+
+      expect(subscription.source).toBe('*');
+      expect(subscription.event).toBe('*');
+      expect(received).toHaveLength(1);
+    });
+  });
+
+  // ==================== Delivery ====================
+  describe('delivery', () => {
+    /**
+     * Test: The webhook is POSTed as JSON with informational headers
+     */
+    it('should send the webhook as JSON', async () => {
+      service.subscribe({ targetUrl });
+      const webhook = createTestWebhook();
+
+      const [delivery] = await service.dispatch(webhook);
+
+      expect(delivery.status).toBe('succeeded');
+      expect(JSON.parse(received[0].body)).toEqual({
+        id: webhook.id,
+        source: 'stripe',
+        event: 'payment.completed',
+        payload: { amount: 100 },
+        receivedAt: '2024-06-01T12:00:00.000Z',
+        verified: true,
+      });
+      expect(received[0].headers['content-type']).toBe('application/json');
+      expect(received[0].headers['x-webhook-id']).toBe(webhook.id);
+      expect(received[0].headers['x-forward-attempt']).toBe('1');
+    });
+
+    /**
+     * Test: Each attempt records its status code and latency
+     */
+    it('should record every attempt', async () => {
+      service.subscribe({ targetUrl });
+      responses = [503, 200];
+
+      const [delivery] = await service.dispatch(createTestWebhook());
+
+      expect(delivery.status).toBe('succeeded');
+      expect(delivery.attempts.map((a) => a.statusCode)).toEqual([503, 200]);
+      expect(delivery.attempts[0].error).toBe('HTTP 503');
+      expect(delivery.attempts[1].error).toBeUndefined();
+      expect(delivery.attempts[1].latencyMs).toBeGreaterThanOrEqual(0);
+      expect(received[1].headers['x-forward-attempt']).toBe('2');
+      expect(delivery.completedAt).toBeInstanceOf(Date);
+    });
+
+    /**
+     * Test: Retrying stops after FORWARD_MAX_ATTEMPTS
+     */
+    it('should fail after the maximum number of attempts', async () => {
+      service.subscribe({ targetUrl });
+      responses = [500];
+
+      const [delivery] = await service.dispatch(createTestWebhook());
+
+      expect(delivery.status).toBe('failed');
+      expect(delivery.attempts).toHaveLength(3);
+      expect(delivery.nextAttemptAt).toBeUndefined();
+    });
+
+    /**
+     * Test: A 4xx answer is permanent - no retries
+     */
+    it('should not retry a 400 response', async () => {
+      service.subscribe({ targetUrl });
+      responses = [400];
+
+      const [delivery] = await service.dispatch(createTestWebhook());
+
+      expect(delivery.status).toBe('failed');
+      expect(delivery.attempts).toHaveLength(1);
+    });
+
+    /**
+     * Test: 429 Too Many Requests is worth retrying
+     */
+    it('should retry a 429 response', async () => {
+      service.subscribe({ targetUrl });
+      responses = [429, 200];
+
+      const [delivery] = await service.dispatch(createTestWebhook());
+
+      expect(delivery.status).toBe('succeeded');
+      expect(delivery.attempts).toHaveLength(2);
+    });
+
+    /**
+     * Test: Timeouts are recorded as errors without a status code
+     */
+    it('should record a timeout as an error', async () => {
+      service.subscribe({ targetUrl });
+      responses = ['hang', 200];
+
+      const [delivery] = await service.dispatch(createTestWebhook());
+
+      expect(delivery.attempts[0].statusCode).toBeUndefined();
+      expect(delivery.attempts[0].error).toBeDefined();
+      expect(delivery.status).toBe('succeeded');
+    });
+
+    /**
+     * Test: Connection errors are recorded too
+     */
+    it('should record a connection error', async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      server = createServer(); // Replaced so afterEach can close something
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve),
+      );
+      service.subscribe({ targetUrl }); // Nothing listens there any more
+
+      const [delivery] = await service.dispatch(createTestWebhook());
+
+      expect(delivery.status).toBe('failed');
+      expect(delivery.attempts).toHaveLength(3);
+      expect(delivery.attempts[0].error).toBeDefined();
+    });
+  });
+
+  // ==================== Subscriptions ====================
+  describe('subscriptions', () => {
+    /**
+     * Test: Deliveries are listed per subscription, newest first
+     */
+    it('should list the deliveries of a subscription', async () => {
+      const subscription = service.subscribe({ targetUrl });
+      await service.dispatch(createTestWebhook({ id: 'first' }));
+      await service.dispatch(createTestWebhook({ id: 'second' }));
+
+      const deliveries = service.listDeliveries(subscription.id);
+
+      expect(deliveries.map((d) => d.webhookId)).toEqual(['second', 'first']);
+    });
+
+    /**
+     * Test: A redelivery only goes to the given subscription
+     */
+    it('should redeliver to one subscription', async () => {
+      service.subscribe({ targetUrl });
+      const target = service.subscribe({ targetUrl, source: 'github' });
+
+      const delivery = await service.redeliver(createTestWebhook(), target.id);
+
+      expect(delivery.subscriptionId).toBe(target.id);
+      expect(delivery.status).toBe('succeeded');
+      expect(received).toHaveLength(1);
+      expect(() => service.redeliver(createTestWebhook(), 'missing')).toThrow(
+        NotFoundException,
+      );
+    });
+
+    /**
+     * Test: Deleted subscriptions no longer receive webhooks
+     */
+    it('should stop forwarding after unsubscribe', async () => {
+      const subscription = service.subscribe({ targetUrl });
+
+      service.unsubscribe(subscription.id);
+      await service.dispatch(createTestWebhook());
+
+      expect(received).toHaveLength(0);
+      expect(() => service.findSubscription(subscription.id)).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Forwarding Service
+ *
+ * Pushes stored webhooks to internal services, so they don't have to
+ * poll GET /webhooks.
+ *
+ * - A subscription has a target URL plus source and event patterns
+ *   ("*" matches any characters, e.g. source "stripe", event "payment.*")
+ * - Every stored webhook is POSTed as JSON to each matching subscription
+ * - A failed attempt (non-2xx, timeout, connection error) is retried with
+ *   exponential backoff and jitter, up to FORWARD_MAX_ATTEMPTS attempts
+ * - 4xx answers other than 408 and 429 are permanent - retrying the same
+ *   request can't succeed, so the delivery fails immediately
+ * - Every attempt is recorded with its status code, latency and error
+ *
+ * Forwarding runs in the background: it never delays or fails the
+ * POST /webhooks request that stored the webhook.
+ *
+ * Configuration:
+ * - FORWARD_MAX_ATTEMPTS: Attempts per delivery, including the first (default: 5)
+ * - FORWARD_BASE_DELAY_MS: Delay before the first retry (default: 1000)
+ * - FORWARD_MAX_DELAY_MS: Upper bound for a single retry delay (default: 60000)
+ * - FORWARD_TIMEOUT_MS: Timeout of a single attempt (default: 10000)
+ * - MAX_FORWARD_DELIVERIES: Delivery records kept for inspection (default: 1000)
+ *
+ * Note: Subscriptions and delivery records are kept in memory only.
+ */
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Webhook } from '../webhooks/interfaces/webhook.interface';
+import { matchesPattern } from '../common/utils/pattern.util';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import {
+  Delivery,
+  DeliveryAttempt,
+  Subscription,
+} from './interfaces/subscription.interface';
+
+/** A pending retry delay, so it can be cut short on shutdown */
+interface PendingDelay {
+  timer: NodeJS.Timeout;
+  resolve: () => void;
+}
+
+@Injectable()
+export class ForwardingService implements OnModuleDestroy {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(ForwardingService.name);
+
+  /** Subscriptions, keyed by ID */
+  private readonly subscriptions: Map<string, Subscription> = new Map();
+
+  /**
+   * Delivery records, keyed by ID
+   * Map preserves insertion order, so first key = oldest delivery
+   */
+  private readonly deliveries: Map<string, Delivery> = new Map();
+
+  /** Retry delays currently waiting */
+  private readonly delays: Set<PendingDelay> = new Set();
+
+  /** Set on shutdown - no new attempts are started afterwards */
+  private stopped = false;
+
+  /** Attempts per delivery, including the first one */
+  private readonly maxAttempts: number;
+
+  /** Delay before the first retry (doubles with every attempt) */
+  private readonly baseDelayMs: number;
+
+  /** Upper bound for a single retry delay */
+  private readonly maxDelayMs: number;
+
+  /** Timeout of a single HTTP attempt */
+  private readonly timeoutMs: number;
+
+  /** Delivery records kept before the oldest are dropped */
+  private readonly maxDeliveries: number;
+
+  /**
+   * Constructor - reads the retry settings from the environment
+   */
+  constructor() {
+    this.maxAttempts = parseInt(process.env.FORWARD_MAX_ATTEMPTS || '5', 10);
+    this.baseDelayMs = parseInt(
+      process.env.FORWARD_BASE_DELAY_MS || '1000',
+      10,
+    );
+    this.maxDelayMs = parseInt(process.env.FORWARD_MAX_DELAY_MS || '60000', 10);
+    this.timeoutMs = parseInt(process.env.FORWARD_TIMEOUT_MS || '10000', 10);
+    this.maxDeliveries = parseInt(
+      process.env.MAX_FORWARD_DELIVERIES || '1000',
+      10,
+    );
+  }
+
+  /**
+   * Create a subscription
+   *
+   * @param dto - Target URL and optional source/event patterns
+   * @returns The new subscription
+   */
+  subscribe(dto: CreateSubscriptionDto): Subscription {
+    const subscription: Subscription = {
+      id: randomUUID(),
+      targetUrl: dto.targetUrl,
+      source: dto.source ?? '*',
+      event: dto.event ?? '*',
+      createdAt: new Date(),
+    };
+    this.subscriptions.set(subscription.id, subscription);
+
+    this.logger.log(
+      `Subscription ${subscription.id} created: ${subscription.source}/${subscription.event} -> ${subscription.targetUrl}`,
+    );
+    return subscription;
+  }
+
+  /**
+   * List all subscriptions
+   *
+   * @returns Every subscription, oldest first
+   */
+  listSubscriptions(): Subscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  /**
+   * Get a subscription by ID
+   *
+   * @param id - The subscription UUID
+   * @returns The subscription
+   * @throws NotFoundException if it doesn't exist
+   */
+  findSubscription(id: string): Subscription {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      throw new NotFoundException('Subscription not found');
+    }
+    return subscription;
+  }
+
+  /**
+   * Delete a subscription
+   *
+   * Deliveries already in progress still finish their retries.
+   *
+   * @param id - The subscription UUID
+   * @returns Success message
+   * @throws NotFoundException if it doesn't exist
+   */
+  unsubscribe(id: string): { message: string } {
+    if (!this.subscriptions.delete(id)) {
+      throw new NotFoundException('Subscription not found');
+    }
+    this.logger.log(`Subscription ${id} deleted`);
+    return { message: 'Subscription deleted successfully' };
+  }
+
+  /**
+   * List the deliveries of a subscription
+   *
+   * @param subscriptionId - The subscription UUID
+   * @returns Its deliveries (with every attempt), newest first
+   * @throws NotFoundException if the subscription doesn't exist
+   */
+  listDeliveries(subscriptionId: string): Delivery[] {
+    this.findSubscription(subscriptionId);
+    return Array.from(this.deliveries.values())
+      .filter((delivery) => delivery.subscriptionId === subscriptionId)
+      .reverse();
+  }
+
+  /**
+   * Forward a stored webhook to every matching subscription
+   *
+   * Callers don't need to wait for the result; the returned promise is
+   * mainly useful in tests. It never rejects.
+   *
+   * @param webhook - The webhook that was just stored
+   * @returns The deliveries, once each one has succeeded or finally failed
+   */
+  async dispatch(webhook: Webhook): Promise<Delivery[]> {
+    const matching = this.listSubscriptions().filter(
+      (subscription) =>
+        matchesPattern(webhook.source, subscription.source) &&
+        matchesPattern(webhook.event, subscription.event),
+    );
+
+    return Promise.all(
+      matching.map((subscription) =>
+        this.deliver(
+          this.createDelivery(subscription, webhook),
+          subscription,
+          webhook,
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Forward a webhook to one subscription only
+   *
+   * Used to replay a dead letter to the subscription it failed for,
+   * without sending the webhook again to those that already received it.
+   * The subscription's patterns are not checked again.
+   *
+   * @param webhook - The webhook to forward
+   * @param subscriptionId - The subscription UUID
+   * @returns The delivery, once it has succeeded or finally failed
+   * @throws NotFoundException if the subscription doesn't exist
+   */
+  redeliver(webhook: Webhook, subscriptionId: string): Promise<Delivery> {
+    const subscription = this.findSubscription(subscriptionId);
+    return this.deliver(
+      this.createDelivery(subscription, webhook),
+      subscription,
+      webhook,
+    );
+  }
+
+  /**
+   * Stop retrying when the application shuts down
+   *
+   * Waiting retries are woken up and give up, so no timers are left behind.
+   */
+  onModuleDestroy(): void {
+    this.stopped = true;
+    this.delays.forEach((delay) => {
+      clearTimeout(delay.timer);
+      delay.resolve();
+    });
+    this.delays.clear();
+  }
+
+  /**
+   * Create and remember a delivery record
+   *
+   * If too many records are kept, the oldest one is dropped (FIFO).
+   *
+   * @param subscription - The matching subscription
+   * @param webhook - The webhook to forward
+   * @returns The new delivery
+   */
+  private createDelivery(
+    subscription: Subscription,
+    webhook: Webhook,
+  ): Delivery {
+    if (this.deliveries.size >= this.maxDeliveries) {
+      const oldestKey = this.deliveries.keys().next().value;
+      if (oldestKey) {
+        this.deliveries.delete(oldestKey);
+      }
+    }
+
+    const delivery: Delivery = {
+      id: randomUUID(),
+      subscriptionId: subscription.id,
+      webhookId: webhook.id,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date(),
+    };
+    this.deliveries.set(delivery.id, delivery);
+    return delivery;
+  }
+
+  /**
+   * Attempt a delivery until it succeeds, fails permanently or runs out of attempts
+   *
+   * @param delivery - The delivery record (updated in place)
+   * @param subscription - Where to send the webhook
+   * @param webhook - The webhook to forward
+   * @returns The finished delivery
+   */
+  private async deliver(
+    delivery: Delivery,
+    subscription: Subscription,
+    webhook: Webhook,
+  ): Promise<Delivery> {
+    const body = JSON.stringify({
+      id: webhook.id,
+      source: webhook.source,
+      event: webhook.event,
+      payload: webhook.payload,
+      receivedAt: webhook.receivedAt,
+      verified: webhook.verified,
+    });
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      if (this.stopped) {
+        return delivery;
+      }
+
+      const result = await this.send(
+        subscription.targetUrl,
+        body,
+        webhook,
+        attempt,
+      );
+      delivery.attempts.push(result);
+
+      if (!result.error) {
+        delivery.status = 'succeeded';
+        delivery.nextAttemptAt = undefined;
+        delivery.completedAt = new Date();
+        this.logger.log(
+          `Webhook ${webhook.id} forwarded to ${subscription.targetUrl} (attempt ${attempt})`,
+        );
+        return delivery;
+      }
+
+      if (
+        attempt === this.maxAttempts ||
+        !this.isRetryable(result.statusCode)
+      ) {
+        break;
+      }
+
+      const delayMs = this.backoffDelay(attempt);
+      delivery.nextAttemptAt = new Date(Date.now() + delayMs);
+      this.logger.warn(
+        `Forwarding webhook ${webhook.id} to ${subscription.targetUrl} failed (attempt ${attempt}: ${result.error}), retrying in ${delayMs}ms`,
+      );
+      await this.sleep(delayMs);
+    }
+
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = undefined;
+    delivery.completedAt = new Date();
+    this.logger.error(
+      `Forwarding webhook ${webhook.id} to ${subscription.targetUrl} failed after ${delivery.attempts.length} attempts`,
+    );
+    return delivery;
+  }
+
+  /**
+   * Send one HTTP attempt
+   *
+   * @param url - The target URL
+   * @param body - The JSON body
+   * @param webhook - The forwarded webhook (for the informational headers)
+   * @param attempt - Attempt number (1 for the first try)
+   * @returns The recorded attempt (error is set unless the target answered 2xx)
+   */
+  private async send(
+    url: string,
+    body: string,
+    webhook: Webhook,
+    attempt: number,
+  ): Promise<DeliveryAttempt> {
+    const startedAt = new Date();
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Source': webhook.source,
+          'X-Webhook-Event': webhook.event,
+          'X-Forward-Attempt': String(attempt),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      // Read (and discard) the body so the connection can be reused
+      await response.arrayBuffer();
+
+      return {
+        attempt,
+        startedAt,
+        statusCode: response.status,
+        latencyMs: Date.now() - startedAt.getTime(),
+        error: response.ok ? undefined : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        attempt,
+        startedAt,
+        latencyMs: Date.now() - startedAt.getTime(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Whether a failed attempt is worth retrying
+   *
+   * @param statusCode - The response status (undefined = no response)
+   * @returns false for 4xx answers, except 408 Request Timeout and 429 Too Many Requests
+   */
+  private isRetryable(statusCode?: number): boolean {
+    if (statusCode === undefined || statusCode === 408 || statusCode === 429) {
+      return true;
+    }
+    return statusCode < 400 || statusCode >= 500;
+  }
+
+  /**
+   * Delay before the next retry: exponential backoff with jitter
+   *
+   * The delay doubles with every attempt (capped at FORWARD_MAX_DELAY_MS).
+   * Half of it is random, so many failed deliveries don't all retry at the
+   * same moment and overload a target that is just recovering.
+   *
+   * @param attempt - The attempt that just failed (1 for the first try)
+   * @returns Delay in ms
+   */
+  private backoffDelay(attempt: number): number {
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Wait without keeping the process alive
+   *
+   * @param ms - How long to wait
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const delay: PendingDelay = {
+        timer: setTimeout(() => {
+          this.delays.delete(delay);
+          resolve();
+        }, ms),
+        resolve,
+      };
+      delay.timer.unref();
+      this.delays.add(delay);
+    });
+  }
+}
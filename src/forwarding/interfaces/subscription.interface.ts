@@ -0,0 +1,85 @@
+/**
+ * Forwarding Interfaces
+ *
+ * A subscription forwards every stored webhook whose source and event
+ * match its patterns to a target URL. Each forward is a delivery, and
+ * every HTTP attempt of a delivery is recorded.
+ */
+
+/**
+ * A forwarding subscription
+ */
+export interface Subscription {
+  /** Unique identifier (UUID v4) */
+  id: string;
+
+  /** Where matching webhooks are POSTed */
+  targetUrl: string;
+
+  /** Source pattern ("*" matches any characters, e.g. "stripe" or "*") */
+  source: string;
+
+  /** Event pattern ("*" matches any characters, e.g. "payment.*") */
+  event: string;
+
+  /** When the subscription was created */
+  createdAt: Date;
+}
+
+/**
+ * One HTTP attempt of a delivery
+ */
+export interface DeliveryAttempt {
+  /** Attempt number (1 for the first try) */
+  attempt: number;
+
+  /** When the request was sent */
+  startedAt: Date;
+
+  /** HTTP status returned by the target (missing if no response was received) */
+  statusCode?: number;
+
+  /** How long the attempt took (ms) */
+  latencyMs: number;
+
+  /** Why the attempt failed (non-2xx status, timeout, connection error) */
+  error?: string;
+}
+
+/**
+ * Status of a delivery
+ *
+ * - pending: Still being attempted (or waiting for the next retry)
+ * - succeeded: The target answered with a 2xx status
+ * - failed: Every attempt failed
+ */
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Forwarding of one webhook to one subscription
+ */
+export interface Delivery {
+  /** Unique identifier (UUID v4) */
+  id: string;
+
+  /** The subscription the webhook was forwarded for */
+  subscriptionId: string;
+
+  /** The forwarded webhook */
+  webhookId: string;
+
+  /** Current status */
+  status: DeliveryStatus;
+
+  /** Every attempt so far, oldest first */
+  attempts: DeliveryAttempt[];
+
+  /** When the delivery was created */
+  createdAt: Date;
+
+  /** When the next retry is due (only while pending) */
+  nextAttemptAt?: Date;
+
+  /** When the delivery succeeded or finally failed */
+  completedAt?: Date;
+}
@@ -11,8 +11,11 @@
  */
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { WsAdapter } from '@nestjs/platform-ws';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
+import { parseQueryString } from './common/utils/query-string.util';
 import * as dotenv from 'dotenv';
 
 // Load environment variables from .env file into process.env
@@ -30,7 +33,28 @@ async function bootstrap(): Promise<void> {
 
   // Create the NestJS application instance
   // AppModule is the root module that imports all other modules
-  const app = await NestFactory.create(AppModule);
+  // rawBody: true keeps the exact request bytes on req.rawBody, because
+  // webhook signatures must be verified over what the sender actually sent
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
+
+  /**
+   * Query Parser
+   *
+   * Groups dotted query keys by their first segment, so payload filters
+   * like ?payload.data.status=failed reach QueryWebhooksDto as
+   * { payload: { "data.status": "failed" } }.
+   */
+  app.set('query parser', parseQueryString);
+
+  /**
+   * WebSocket Adapter
+   *
+   * Serves WebhooksGateway with the plain `ws` library on the same port as
+   * the HTTP API (ws://<host>:<port>/api/v1/webhooks/ws).
+   */
+  app.useWebSocketAdapter(new WsAdapter(app));
 
   /**
    * Helmet Middleware
@@ -57,8 +81,23 @@ async function bootstrap(): Promise<void> {
    */
   app.enableCors({
     origin: process.env.CORS_ORIGIN || '*',
-    methods: ['GET', 'POST', 'DELETE'],
-    allowedHeaders: ['Content-Type', 'x-webhook-signature'],
+    methods: ['GET', 'POST', 'PUT', 'DELETE'],
+    allowedHeaders: [
+      'Content-Type',
+      // Signature headers for each supported scheme
+      'x-webhook-signature',
+      'x-webhook-timestamp',
+      'stripe-signature',
+      'x-hub-signature-256',
+      'x-shopify-hmac-sha256',
+      'x-slack-signature',
+      'x-slack-request-timestamp',
+      // Lets senders deduplicate retried deliveries
+      'idempotency-key',
+      // API keys (see ApiKeyGuard)
+      'authorization',
+      'x-api-key',
+    ],
   });
 
   /**
@@ -0,0 +1,36 @@
+/**
+ * Register Payload Schema DTO
+ *
+ * Body for PUT /admin/schemas/:source/:event - registers (or replaces)
+ * the JSON Schema for a source + event.
+ *
+ * Example request body:
+ * {
+ *   "schema": {
+ *     "type": "object",
+ *     "required": ["amount", "currency"],
+ *     "properties": { "amount": { "type": "integer" } }
+ *   },
+ *   "policy": "reject"    // optional - defaults to "flag"
+ * }
+ */
+import { IsIn, IsObject, IsOptional } from 'class-validator';
+import { SchemaPolicy } from '../interfaces/payload-schema.interface';
+
+/** Every schema policy */
+export const SCHEMA_POLICIES: SchemaPolicy[] = ['reject', 'flag', 'ignore'];
+
+export class RegisterPayloadSchemaDto {
+  /**
+   * The JSON Schema (draft-07) payloads must match
+   */
+  @IsObject()
+  schema!: Record<string, unknown>;
+
+  /**
+   * What happens to payloads that don't match (default: flag)
+   */
+  @IsOptional()
+  @IsIn(SCHEMA_POLICIES)
+  policy?: SchemaPolicy;
+}
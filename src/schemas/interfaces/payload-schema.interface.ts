@@ -0,0 +1,65 @@
+/**
+ * Payload Schema Interfaces
+ *
+ * A payload schema is a JSON Schema registered for one source + event.
+ * Every incoming webhook of that source and event is validated against
+ * it, and the schema's policy decides what happens when it doesn't match.
+ */
+
+/**
+ * What happens to a webhook whose payload doesn't match its schema
+ *
+ * - reject: Return 400 with the schema errors and store nothing
+ * - flag: Store it with the errors attached (Webhook.validationErrors)
+ * - ignore: Store it unchanged - failures are only logged and counted
+ *   (handy while rolling out a new schema)
+ */
+export type SchemaPolicy = 'reject' | 'flag' | 'ignore';
+
+/** Where a schema was registered from */
+export type SchemaOrigin = 'file' | 'api';
+
+/**
+ * A registered payload schema
+ */
+export interface PayloadSchema {
+  /** The webhook source (exact match) */
+  source: string;
+
+  /** The event type (exact match) */
+  event: string;
+
+  /** What happens to payloads that don't match */
+  policy: SchemaPolicy;
+
+  /** The JSON Schema the payload is validated against */
+  schema: Record<string, unknown>;
+
+  /** file: loaded from PAYLOAD_SCHEMAS_DIR, api: registered at runtime */
+  origin: SchemaOrigin;
+
+  /** When the schema was registered (or last replaced) */
+  updatedAt: Date;
+}
+
+/**
+ * One way in which a payload doesn't match its schema
+ */
+export interface SchemaValidationError {
+  /** JSON Pointer to the offending value ("" is the payload itself) */
+  path: string;
+
+  /** What is wrong, e.g. "must have required property 'amount'" */
+  message: string;
+}
+
+/**
+ * Outcome of validating a payload that doesn't match its schema
+ */
+export interface SchemaViolation {
+  /** The policy of the schema that was violated */
+  policy: SchemaPolicy;
+
+  /** Every mismatch found */
+  errors: SchemaValidationError[];
+}
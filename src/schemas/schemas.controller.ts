@@ -0,0 +1,108 @@
+/**
+ * Schemas Controller (Admin API)
+ *
+ * Manage the JSON Schemas incoming payloads are validated against,
+ * at runtime, without a restart.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /admin/schemas                 - List the registered schemas
+ * - GET    /admin/schemas/:source/:event  - Get the schema of a source + event
+ * - PUT    /admin/schemas/:source/:event  - Register (or replace) a schema
+ * - DELETE /admin/schemas/:source/:event  - Stop validating a source + event
+ */
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SchemasService } from './schemas.service';
+import { RegisterPayloadSchemaDto } from './dto/register-payload-schema.dto';
+import { PayloadSchema } from './interfaces/payload-schema.interface';
+
+@Controller('admin/schemas')
+export class SchemasController {
+  /**
+   * Constructor - NestJS automatically injects the SchemasService
+   *
+   * @param schemasService - The service managing payload schemas
+   */
+  constructor(private readonly schemasService: SchemasService) {}
+
+  /**
+   * GET /api/v1/admin/schemas
+   *
+   * List every registered schema (from files and from the API).
+   *
+   * @returns { schemas: [{ source, event, policy, schema, origin, updatedAt }] }
+   */
+  @Get()
+  findAll(): { schemas: PayloadSchema[] } {
+    return { schemas: this.schemasService.list() };
+  }
+
+  /**
+   * GET /api/v1/admin/schemas/:source/:event
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns The schema
+   * @throws 404 Not Found if none is registered
+   */
+  @Get(':source/:event')
+  findOne(
+    @Param('source') source: string,
+    @Param('event') event: string,
+  ): PayloadSchema {
+    return this.schemasService.get(source, event);
+  }
+
+  /**
+   * PUT /api/v1/admin/schemas/:source/:event
+   *
+   * Register the schema of a source + event, replacing any existing one.
+   *
+   * Example request:
+   * PUT /api/v1/admin/schemas/stripe/payment.succeeded
+   * Body: { "schema": { "type": "object", "required": ["amount"] },
+   *         "policy": "reject" }
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @param dto - The JSON Schema and optional policy (default: flag)
+   * @returns The registered schema
+   * @throws 400 Bad Request if the schema doesn't compile
+   */
+  @Put(':source/:event')
+  @HttpCode(HttpStatus.OK)
+  register(
+    @Param('source') source: string,
+    @Param('event') event: string,
+    @Body() dto: RegisterPayloadSchemaDto,
+  ): PayloadSchema {
+    return this.schemasService.register(source, event, dto.schema, dto.policy);
+  }
+
+  /**
+   * DELETE /api/v1/admin/schemas/:source/:event
+   *
+   * Stop validating the payloads of a source + event.
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns { message: "Schema deleted successfully" }
+   * @throws 404 Not Found if none is registered
+   */
+  @Delete(':source/:event')
+  @HttpCode(HttpStatus.OK)
+  remove(
+    @Param('source') source: string,
+    @Param('event') event: string,
+  ): { message: string } {
+    return this.schemasService.remove(source, event);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Schemas Module
+ *
+ * Groups together everything needed to validate payloads at ingestion:
+ * - SchemasController (admin HTTP endpoints)
+ * - SchemasService (JSON Schema per source + event, with a policy)
+ *
+ * Exports SchemasService so WebhooksModule can validate incoming
+ * payloads with it.
+ */
+import { Module } from '@nestjs/common';
+import { SchemasController } from './schemas.controller';
+import { SchemasService } from './schemas.service';
+
+@Module({
+  controllers: [SchemasController],
+  providers: [SchemasService],
+  exports: [SchemasService],
+})
+export class SchemasModule {}
@@ -0,0 +1,219 @@
+/**
+ * Schemas Service Tests
+ *
+ * These tests verify the payload schema registry:
+ * - Validating payloads against the schema of their source + event
+ * - Registering, replacing and removing schemas
+ * - Loading schemas from PAYLOAD_SCHEMAS_DIR
+ */
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SchemasService } from './schemas.service';
+
+/** A payment must have an integer amount and a currency */
+const paymentSchema = {
+  type: 'object',
+  required: ['amount', 'currency'],
+  properties: {
+    amount: { type: 'integer' },
+    currency: { type: 'string' },
+  },
+};
+
+describe('SchemasService', () => {
+  let service: SchemasService;
+
+  beforeEach(() => {
+    service = new SchemasService();
+  });
+
+  afterEach(() => {
+    delete process.env.PAYLOAD_SCHEMAS_DIR;
+  });
+
+  // ==================== validate() Tests ====================
+  describe('validate', () => {
+    /**
+     * Test: Every mismatch is reported with its path, along with the policy
+     */
+    it('should return the errors of a payload that does not match', () => {
+      // Arrange
+      service.register('stripe', 'payment.succeeded', paymentSchema, 'reject');
+
+      // Act
+      const violation = service.validate('stripe', 'payment.succeeded', {
+        amount: '100',
+      });
+
+      // Assert
+      expect(violation).toEqual({
+        policy: 'reject',
+        errors: [
+          { path: '', message: "must have required property 'currency'" },
+          { path: '/amount', message: 'must be integer' },
+        ],
+      });
+    });
+
+    /**
+     * Test: Matching payloads and webhooks without a schema pass
+     *
+     * Schemas apply to their exact source + event only
+     */
+    it('should pass matching payloads and unknown source/event pairs', () => {
+      // Arrange
+      service.register('stripe', 'payment.succeeded', paymentSchema);
+
+      // Act & Assert
+      expect(
+        service.validate('stripe', 'payment.succeeded', {
+          amount: 100,
+          currency: 'usd',
+        }),
+      ).toBeUndefined();
+      expect(service.validate('stripe', 'payment.failed', {})).toBeUndefined();
+      expect(
+        service.validate('github', 'payment.succeeded', {}),
+      ).toBeUndefined();
+    });
+  });
+
+  // ==================== Registry Tests ====================
+  describe('registry', () => {
+    /**
+     * Test: Schemas default to the "flag" policy and can be replaced
+     */
+    it('should register and replace schemas', () => {
+      // Act
+      const first = service.register('stripe', 'payment.succeeded', {
+        type: 'object',
+      });
+      const second = service.register(
+        'stripe',
+        'payment.succeeded',
+        paymentSchema,
+        'ignore',
+      );
+
+      // Assert
+      expect(first.policy).toBe('flag');
+      expect(first.origin).toBe('api');
+      expect(service.list()).toEqual([second]);
+      expect(service.get('stripe', 'payment.succeeded').policy).toBe('ignore');
+      expect(service.validate('stripe', 'payment.succeeded', {})?.policy).toBe(
+        'ignore',
+      );
+    });
+
+    /**
+     * Test: Schemas that don't compile are refused
+     */
+    it('should throw BadRequestException for an invalid schema', () => {
+      expect(() =>
+        service.register('stripe', 'payment.succeeded', { type: 'money' }),
+      ).toThrow(BadRequestException);
+      expect(service.list()).toEqual([]);
+    });
+
+    /**
+     * Test: Removed schemas no longer validate anything
+     */
+    it('should remove schemas', () => {
+      // Arrange
+      service.register('stripe', 'payment.succeeded', paymentSchema);
+
+      // Act
+      const result = service.remove('stripe', 'payment.succeeded');
+
+      // Assert
+      expect(result.message).toBe('Schema deleted successfully');
+      expect(
+        service.validate('stripe', 'payment.succeeded', {}),
+      ).toBeUndefined();
+      expect(() => service.get('stripe', 'payment.succeeded')).toThrow(
+        NotFoundException,
+      );
+      expect(() => service.remove('stripe', 'payment.succeeded')).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  // ==================== PAYLOAD_SCHEMAS_DIR Tests ====================
+  describe('PAYLOAD_SCHEMAS_DIR', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'webhooks-schemas-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Test: Every valid *.json file becomes a schema
+     *
+     * Malformed files, invalid schemas and other files are skipped
+     */
+    it('should load the schema files', () => {
+      // Arrange
+      const write = (file: string, content: unknown) =>
+        writeFileSync(join(dir, file), JSON.stringify(content));
+      write('payment.json', {
+        source: 'stripe',
+        event: 'payment.succeeded',
+        policy: 'reject',
+        schema: paymentSchema,
+      });
+      write('push.json', { source: 'github', event: 'push', schema: {} });
+      write('no-event.json', { source: 'github', schema: {} });
+      write('bad-policy.json', {
+        source: 'github',
+        event: 'issues',
+        policy: 'drop',
+        schema: {},
+      });
+      write('bad-schema.json', {
+        source: 'github',
+        event: 'release',
+        schema: { type: 'money' },
+      });
+      writeFileSync(join(dir, 'broken.json'), '{ not json');
+      writeFileSync(join(dir, 'README.md'), '# Schemas');
+      process.env.PAYLOAD_SCHEMAS_DIR = dir;
+
+      // Act
+      const loaded = new SchemasService();
+
+      // Assert
+      expect(
+        loaded.list().map(({ source, event, policy, origin }) => ({
+          source,
+          event,
+          policy,
+          origin,
+        })),
+      ).toEqual([
+        {
+          source: 'stripe',
+          event: 'payment.succeeded',
+          policy: 'reject',
+          origin: 'file',
+        },
+        { source: 'github', event: 'push', policy: 'flag', origin: 'file' },
+      ]);
+    });
+
+    /**
+     * Test: A missing directory is logged, not fatal
+     */
+    it('should start without schemas if the directory is missing', () => {
+      process.env.PAYLOAD_SCHEMAS_DIR = join(dir, 'missing');
+
+      expect(new SchemasService().list()).toEqual([]);
+    });
+  });
+});
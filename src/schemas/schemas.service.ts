@@ -0,0 +1,244 @@
+/**
+ * Schemas Service
+ *
+ * Keeps the JSON Schemas that incoming payloads are validated against.
+ *
+ * - A schema applies to one source + event (exact match); webhooks without
+ *   a schema are not validated
+ * - Each schema has a policy for payloads that don't match:
+ *   reject (400), flag (stored with the errors attached) or ignore (logged)
+ * - Schemas are compiled once, when registered, so validating a payload
+ *   is cheap; a schema that doesn't compile is refused
+ * - Schemas can be registered, replaced and removed at runtime via the
+ *   admin API
+ *
+ * Initial schemas are loaded from PAYLOAD_SCHEMAS_DIR on startup: every
+ * *.json file in it holds one schema, e.g.
+ *   { "source": "stripe", "event": "payment.succeeded",
+ *     "policy": "reject", "schema": { "type": "object", ... } }
+ * Files that can't be read or don't compile are skipped (and logged).
+ *
+ * Note: Schemas registered through the API are kept in memory only; put
+ * long-lived schemas in PAYLOAD_SCHEMAS_DIR so they survive a restart.
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import Ajv, { ValidateFunction } from 'ajv';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { SCHEMA_POLICIES } from './dto/register-payload-schema.dto';
+import {
+  PayloadSchema,
+  SchemaOrigin,
+  SchemaPolicy,
+  SchemaViolation,
+} from './interfaces/payload-schema.interface';
+
+/** Policy of schemas registered without one */
+export const DEFAULT_SCHEMA_POLICY: SchemaPolicy = 'flag';
+
+/** A registered schema with its compiled validator */
+interface CompiledSchema {
+  definition: PayloadSchema;
+  validate: ValidateFunction;
+}
+
+@Injectable()
+export class SchemasService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(SchemasService.name);
+
+  /**
+   * Registered schemas
+   * Key: source + event (see key()), Value: definition + validator
+   */
+  private readonly schemas: Map<string, CompiledSchema> = new Map();
+
+  /**
+   * Constructor - loads the initial schemas from PAYLOAD_SCHEMAS_DIR
+   */
+  constructor() {
+    const dir = process.env.PAYLOAD_SCHEMAS_DIR;
+    if (dir) {
+      this.loadDirectory(dir);
+    }
+  }
+
+  /**
+   * Validate a payload against the schema of its source + event
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @param payload - The webhook payload
+   * @returns The schema's policy and the errors if the payload doesn't
+   *   match, undefined if it matches or there is no schema
+   */
+  validate(
+    source: string,
+    event: string,
+    payload: Record<string, unknown>,
+  ): SchemaViolation | undefined {
+    const entry = this.schemas.get(this.key(source, event));
+    if (!entry || entry.validate(payload)) {
+      return undefined;
+    }
+
+    return {
+      policy: entry.definition.policy,
+      errors: (entry.validate.errors ?? []).map((error) => ({
+        path: error.instancePath,
+        message: error.message ?? error.keyword,
+      })),
+    };
+  }
+
+  /**
+   * List the registered schemas
+   *
+   * @returns Every schema, in registration order
+   */
+  list(): PayloadSchema[] {
+    return Array.from(this.schemas.values()).map((entry) => entry.definition);
+  }
+
+  /**
+   * Get the schema of a source + event
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns The schema
+   * @throws NotFoundException if there is none
+   */
+  get(source: string, event: string): PayloadSchema {
+    const entry = this.schemas.get(this.key(source, event));
+    if (!entry) {
+      throw new NotFoundException(
+        `No schema registered for ${source}/${event}`,
+      );
+    }
+    return entry.definition;
+  }
+
+  /**
+   * Register the schema of a source + event, replacing any existing one
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @param schema - The JSON Schema
+   * @param policy - What happens to payloads that don't match
+   * @param origin - Where the schema comes from
+   * @returns The registered schema
+   * @throws BadRequestException if the schema doesn't compile
+   */
+  register(
+    source: string,
+    event: string,
+    schema: Record<string, unknown>,
+    policy: SchemaPolicy = DEFAULT_SCHEMA_POLICY,
+    origin: SchemaOrigin = 'api',
+  ): PayloadSchema {
+    let validate: ValidateFunction;
+    try {
+      // One Ajv instance per schema, so replacing a schema (or two schemas
+      // sharing an $id) never clashes with a previously compiled one
+      validate = new Ajv({ allErrors: true, strict: false }).compile(schema);
+    } catch (error) {
+      throw new BadRequestException({
+        message: 'Invalid JSON Schema',
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const definition: PayloadSchema = {
+      source,
+      event,
+      policy,
+      schema,
+      origin,
+      updatedAt: new Date(),
+    };
+    this.schemas.set(this.key(source, event), { definition, validate });
+
+    this.logger.log(
+      `Schema registered for ${source}/${event} (policy: ${policy}, origin: ${origin})`,
+    );
+    return definition;
+  }
+
+  /**
+   * Remove the schema of a source + event (its payloads are no longer
+   * validated)
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @returns Success message
+   * @throws NotFoundException if there is none
+   */
+  remove(source: string, event: string): { message: string } {
+    if (!this.schemas.delete(this.key(source, event))) {
+      throw new NotFoundException(
+        `No schema registered for ${source}/${event}`,
+      );
+    }
+
+    this.logger.log(`Schema removed for ${source}/${event}`);
+    return { message: 'Schema deleted successfully' };
+  }
+
+  /**
+   * Register every *.json schema file of a directory
+   *
+   * @param dir - The directory (not searched recursively)
+   */
+  private loadDirectory(dir: string): void {
+    let files: string[];
+    try {
+      files = readdirSync(dir)
+        .filter((file) => file.endsWith('.json'))
+        .sort();
+    } catch (error) {
+      this.logger.error(`Cannot read PAYLOAD_SCHEMAS_DIR ${dir}`, error);
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const { source, event, policy, schema } = JSON.parse(
+          readFileSync(join(dir, file), 'utf8'),
+        ) as Partial<PayloadSchema>;
+        if (
+          typeof source !== 'string' ||
+          typeof event !== 'string' ||
+          !schema ||
+          typeof schema !== 'object' ||
+          (policy !== undefined && !SCHEMA_POLICIES.includes(policy))
+        ) {
+          throw new Error('expected { source, event, schema, policy? }');
+        }
+        this.register(source, event, schema, policy, 'file');
+      } catch (error) {
+        const reason =
+          error instanceof BadRequestException
+            ? (error.getResponse() as { reason: string }).reason
+            : error instanceof Error
+              ? error.message
+              : String(error);
+        this.logger.error(`Ignoring schema file ${file}: ${reason}`);
+      }
+    }
+  }
+
+  /**
+   * Map key of a source + event
+   *
+   * JSON-encoded, so no source/event pair can collide with another
+   * whatever characters they contain.
+   */
+  private key(source: string, event: string): string {
+    return JSON.stringify([source, event]);
+  }
+}
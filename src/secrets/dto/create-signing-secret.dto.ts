@@ -0,0 +1,40 @@
+/**
+ * Create Signing Secret DTO
+ *
+ * Body for POST /admin/secrets - adds the first secret for a source.
+ *
+ * Example request body:
+ * {
+ *   "source": "stripe",
+ *   "secret": "whsec_..."   // optional - a random secret is generated if omitted
+ * }
+ */
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreateSigningSecretDto {
+  /**
+   * The webhook source this secret is for ("*" = default for all sources)
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  source!: string;
+
+  /**
+   * The secret value (optional)
+   *
+   * - At least 16 characters, so weak secrets can't be configured by accident
+   * - If omitted, a random 256-bit secret is generated
+   */
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(512)
+  secret?: string;
+}
@@ -0,0 +1,44 @@
+/**
+ * Rotate Signing Secret DTO
+ *
+ * Body for POST /admin/secrets/:source/rotate
+ *
+ * Example request body:
+ * {
+ *   "secret": "whsec_new...",    // optional - generated if omitted
+ *   "gracePeriodMs": 3600000     // optional - how long the old secret stays valid
+ * }
+ */
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class RotateSigningSecretDto {
+  /**
+   * The new secret value (optional, a random secret is generated if omitted)
+   */
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(512)
+  secret?: string;
+
+  /**
+   * How long (ms) the previous secret is still accepted
+   *
+   * - Optional: defaults to SECRET_ROTATION_GRACE_MS (24 hours)
+   * - 0 means the previous secret stops working immediately
+   * - At most 30 days
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30 * 24 * 60 * 60 * 1000)
+  gracePeriodMs?: number;
+}
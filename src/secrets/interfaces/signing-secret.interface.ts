@@ -0,0 +1,74 @@
+/**
+ * Signing Secret Interfaces
+ *
+ * Each webhook source has its own signing secrets, so one leaked secret
+ * only compromises one sender.
+ *
+ * Rotation keeps two versions alive for a while:
+ * - current:  The newest secret - senders should switch to it
+ * - previous: The secret it replaced, still accepted until its grace window ends
+ */
+
+/**
+ * One version of a source's signing secret
+ */
+export interface SigningSecret {
+  /** Version number (1 for the first secret, +1 on every rotation) */
+  version: number;
+
+  /** The secret value used to compute the HMAC */
+  secret: string;
+
+  /** When this version was created */
+  createdAt: Date;
+
+  /** When this version stops being accepted (only set once it was rotated out) */
+  expiresAt?: Date;
+}
+
+/**
+ * The secrets configured for one source
+ */
+export interface SourceSecrets {
+  /** The webhook source these secrets belong to ("*" = default for all sources) */
+  source: string;
+
+  /** The active secret */
+  current: SigningSecret;
+
+  /** The rotated-out secret, accepted until its expiresAt */
+  previous?: SigningSecret;
+}
+
+/**
+ * A secret version as shown by the admin API (the value is never listed)
+ */
+export interface SigningSecretVersionSummary {
+  version: number;
+  status: 'current' | 'previous';
+  createdAt: Date;
+  expiresAt?: Date;
+}
+
+/**
+ * Response for listing the configured secrets
+ */
+export interface SigningSecretSummary {
+  source: string;
+  versions: SigningSecretVersionSummary[];
+}
+
+/**
+ * Response returned when a secret is added or rotated
+ *
+ * This is the ONLY time the secret value is returned, so the caller
+ * can hand it to the sender.
+ */
+export interface IssuedSigningSecret {
+  source: string;
+  version: number;
+  secret: string;
+
+  /** When the previous version stops being accepted (rotation only) */
+  previousExpiresAt?: Date;
+}
@@ -0,0 +1,122 @@
+/**
+ * Secrets Controller (Admin API)
+ *
+ * Manage per-source signing secrets at runtime, without a restart.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /admin/secrets                   - List sources and secret versions
+ * - POST   /admin/secrets                   - Add the first secret for a source
+ * - POST   /admin/secrets/:source/rotate    - Rotate (old secret gets a grace window)
+ * - DELETE /admin/secrets/:source/previous  - End the grace window early
+ * - DELETE /admin/secrets/:source           - Revoke all secrets of a source
+ *
+ * Secret values are only returned when issued (add/rotate), never listed.
+ */
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SecretsService } from './secrets.service';
+import { CreateSigningSecretDto } from './dto/create-signing-secret.dto';
+import { RotateSigningSecretDto } from './dto/rotate-signing-secret.dto';
+import {
+  IssuedSigningSecret,
+  SigningSecretSummary,
+} from './interfaces/signing-secret.interface';
+
+@Controller('admin/secrets')
+export class SecretsController {
+  /**
+   * Constructor - NestJS automatically injects the SecretsService
+   *
+   * @param secretsService - The service managing signing secrets
+   */
+  constructor(private readonly secretsService: SecretsService) {}
+
+  /**
+   * GET /api/v1/admin/secrets
+   *
+   * List every source with its secret versions (values are never shown).
+   *
+   * @returns { secrets: [{ source, versions: [...] }] }
+   */
+  @Get()
+  findAll(): { secrets: SigningSecretSummary[] } {
+    return { secrets: this.secretsService.list() };
+  }
+
+  /**
+   * POST /api/v1/admin/secrets
+   *
+   * Add the first secret for a source.
+   *
+   * Example request:
+   * POST /api/v1/admin/secrets
+   * Body: { "source": "stripe" }
+   *
+   * @param dto - Source and optional secret value
+   * @returns { source, version, secret } - the only time the value is returned
+   * @throws 409 Conflict if the source already has a secret
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() dto: CreateSigningSecretDto): IssuedSigningSecret {
+    return this.secretsService.add(dto.source, dto.secret);
+  }
+
+  /**
+   * POST /api/v1/admin/secrets/:source/rotate
+   *
+   * Issue a new current secret. The old one keeps working until
+   * its grace window ends, so in-flight deliveries still verify.
+   *
+   * @param source - The webhook source
+   * @param dto - Optional new secret value and grace period
+   * @returns { source, version, secret, previousExpiresAt }
+   * @throws 404 Not Found if the source has no secret
+   */
+  @Post(':source/rotate')
+  @HttpCode(HttpStatus.OK)
+  rotate(
+    @Param('source') source: string,
+    @Body() dto: RotateSigningSecretDto,
+  ): IssuedSigningSecret {
+    return this.secretsService.rotate(source, dto.secret, dto.gracePeriodMs);
+  }
+
+  /**
+   * DELETE /api/v1/admin/secrets/:source/previous
+   *
+   * Stop accepting the previous secret right away.
+   *
+   * @param source - The webhook source
+   * @returns { message: "Previous secret revoked successfully" }
+   * @throws 404 Not Found if there is no previous secret
+   */
+  @Delete(':source/previous')
+  @HttpCode(HttpStatus.OK)
+  revokePrevious(@Param('source') source: string): { message: string } {
+    return this.secretsService.revokePrevious(source);
+  }
+
+  /**
+   * DELETE /api/v1/admin/secrets/:source
+   *
+   * Revoke every secret of a source.
+   *
+   * @param source - The webhook source
+   * @returns { message: "Secrets revoked successfully" }
+   * @throws 404 Not Found if the source has no secret
+   */
+  @Delete(':source')
+  @HttpCode(HttpStatus.OK)
+  revoke(@Param('source') source: string): { message: string } {
+    return this.secretsService.revoke(source);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Secrets Module
+ *
+ * Groups together everything needed to manage webhook signing secrets:
+ * - SecretsController (admin HTTP endpoints)
+ * - SecretsService (per-source secrets with rotation)
+ *
+ * Exports SecretsService so WebhooksModule can look up the secrets
+ * to verify incoming webhooks with.
+ */
+import { Module } from '@nestjs/common';
+import { SecretsController } from './secrets.controller';
+import { SecretsService } from './secrets.service';
+
+@Module({
+  controllers: [SecretsController],
+  providers: [SecretsService],
+  exports: [SecretsService],
+})
+export class SecretsModule {}
@@ -0,0 +1,161 @@
+/**
+ * Secrets Service Tests
+ *
+ * These tests verify per-source signing secrets:
+ * - Loading secrets from the environment
+ * - Falling back to the default secret
+ * - Rotation with a grace window for the previous secret
+ * - Revoking secrets
+ */
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { SecretsService } from './secrets.service';
+
+describe('SecretsService', () => {
+  let service: SecretsService;
+
+  beforeEach(() => {
+    process.env.WEBHOOK_SECRET = 'default-secret';
+    process.env.WEBHOOK_SECRETS = 'stripe:whsec_abc:with-colon, github:gh-secret';
+    service = new SecretsService();
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_SECRETS;
+    jest.useRealTimers();
+  });
+
+  // ==================== Environment Tests ====================
+  describe('environment', () => {
+    /**
+     * Test: Per-source secrets are read from WEBHOOK_SECRETS
+     *
+     * Only the first colon separates source and secret
+     */
+    it('should load per-source secrets', () => {
+      const [secret] = service.getVerificationSecrets('stripe');
+
+      expect(secret.secret).toBe('whsec_abc:with-colon');
+      expect(secret.version).toBe(1);
+    });
+
+    /**
+     * Test: Sources without their own secret use WEBHOOK_SECRET
+     */
+    it('should fall back to the default secret', () => {
+      const [secret] = service.getVerificationSecrets('unknown-source');
+
+      expect(secret.secret).toBe('default-secret');
+    });
+
+    /**
+     * Test: No secrets at all means nothing to verify with
+     */
+    it('should return no secrets when none are configured', () => {
+      delete process.env.WEBHOOK_SECRET;
+      delete process.env.WEBHOOK_SECRETS;
+      const empty = new SecretsService();
+
+      expect(empty.getVerificationSecrets('stripe')).toEqual([]);
+    });
+  });
+
+  // ==================== add() Tests ====================
+  describe('add', () => {
+    it('should add a secret and generate one when omitted', () => {
+      const issued = service.add('shopify');
+
+      expect(issued.version).toBe(1);
+      expect(issued.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(service.getVerificationSecrets('shopify')[0].secret).toBe(
+        issued.secret,
+      );
+    });
+
+    it('should throw ConflictException if the source already has one', () => {
+      expect(() => service.add('stripe')).toThrow(ConflictException);
+    });
+  });
+
+  // ==================== rotate() Tests ====================
+  describe('rotate', () => {
+    /**
+     * Test: Both secrets are valid during the grace window
+     */
+    it('should keep the previous secret during the grace window', () => {
+      const issued = service.rotate('github', 'new-github-secret', 60000);
+
+      const secrets = service.getVerificationSecrets('github');
+      expect(issued.version).toBe(2);
+      expect(secrets.map((s) => s.version)).toEqual([2, 1]);
+      expect(secrets.map((s) => s.secret)).toEqual([
+        'new-github-secret',
+        'gh-secret',
+      ]);
+    });
+
+    /**
+     * Test: The previous secret stops working when the window ends
+     */
+    it('should drop the previous secret after the grace window', () => {
+      jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+      service.rotate('github', 'new-github-secret', 60000);
+
+      // Move the clock past the grace window
+      jest.setSystemTime(new Date('2025-01-01T00:01:01Z'));
+
+      const secrets = service.getVerificationSecrets('github');
+      expect(secrets.map((s) => s.version)).toEqual([2]);
+    });
+
+    it('should throw NotFoundException for a source without secrets', () => {
+      expect(() => service.rotate('shopify')).toThrow(NotFoundException);
+    });
+  });
+
+  // ==================== revoke() Tests ====================
+  describe('revoke', () => {
+    /**
+     * Test: Revoking a source falls back to the default secret
+     */
+    it('should remove all secrets of a source', () => {
+      service.revoke('stripe');
+
+      expect(service.getVerificationSecrets('stripe')[0].secret).toBe(
+        'default-secret',
+      );
+    });
+
+    it('should revoke only the previous secret', () => {
+      service.rotate('github', 'new-github-secret');
+
+      service.revokePrevious('github');
+
+      expect(
+        service.getVerificationSecrets('github').map((s) => s.version),
+      ).toEqual([2]);
+    });
+
+    it('should throw NotFoundException when there is no previous secret', () => {
+      expect(() => service.revokePrevious('github')).toThrow(NotFoundException);
+    });
+  });
+
+  // ==================== list() Tests ====================
+  describe('list', () => {
+    /**
+     * Test: Listing never exposes secret values
+     */
+    it('should list versions without secret values', () => {
+      service.rotate('github', 'new-github-secret');
+
+      const github = service.list().find((s) => s.source === 'github');
+
+      expect(github?.versions.map((v) => v.status)).toEqual([
+        'current',
+        'previous',
+      ]);
+      expect(JSON.stringify(service.list())).not.toContain('gh-secret');
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Secrets Service
+ *
+ * Manages the signing secrets used to verify webhook signatures.
+ *
+ * - Every source can have its own secret (one leak doesn't expose everyone)
+ * - The "*" entry is the default for sources without their own secret
+ * - Rotation keeps the previous secret valid for a grace window, so
+ *   deliveries signed with the old secret (in flight or retried) still verify
+ * - Secrets can be added, rotated and revoked at runtime via the admin API
+ *
+ * Initial secrets come from environment variables:
+ * - WEBHOOK_SECRET: The default ("*") secret
+ * - WEBHOOK_SECRETS: Per-source secrets, e.g. "stripe:whsec_abc,github:s3cr3t"
+ *
+ * Note: Secrets added through the API are kept in memory only; put long-lived
+ * secrets in the environment so they survive a restart.
+ */
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import {
+  IssuedSigningSecret,
+  SigningSecret,
+  SigningSecretSummary,
+  SourceSecrets,
+} from './interfaces/signing-secret.interface';
+
+/** Source key of the default secret used by sources without their own */
+export const DEFAULT_SECRET_SOURCE = '*';
+
+@Injectable()
+export class SecretsService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(SecretsService.name);
+
+  /**
+   * Secrets per source
+   * Key: source name (or "*"), Value: current + previous secret
+   */
+  private readonly secrets: Map<string, SourceSecrets> = new Map();
+
+  /** How long (ms) a rotated-out secret stays valid by default */
+  private readonly defaultGracePeriodMs: number;
+
+  /**
+   * Constructor - loads the initial secrets from environment variables
+   */
+  constructor() {
+    // Default: 24 hour grace window
+    this.defaultGracePeriodMs = parseInt(
+      process.env.SECRET_ROTATION_GRACE_MS || '86400000',
+      10,
+    );
+
+    // The single shared secret becomes the default for every source
+    if (process.env.WEBHOOK_SECRET) {
+      this.secrets.set(
+        DEFAULT_SECRET_SOURCE,
+        this.createEntry(DEFAULT_SECRET_SOURCE, process.env.WEBHOOK_SECRET),
+      );
+    }
+
+    // Per-source secrets: "source:secret,source:secret"
+    (process.env.WEBHOOK_SECRETS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        // Split on the FIRST colon only - secrets may contain colons
+        const separator = entry.indexOf(':');
+        const source = entry.slice(0, separator).trim();
+        const secret = entry.slice(separator + 1).trim();
+        if (separator <= 0 || !secret) {
+          this.logger.warn(`Ignoring malformed WEBHOOK_SECRETS entry`);
+          return;
+        }
+        this.secrets.set(source, this.createEntry(source, secret));
+      });
+
+    // Warn if no secret is configured (signatures won't be verified)
+    if (this.secrets.size === 0) {
+      this.logger.warn(
+        'No signing secrets configured (WEBHOOK_SECRET / WEBHOOK_SECRETS). Signature verification will be skipped.',
+      );
+    }
+  }
+
+  /**
+   * Get every secret that may currently verify a webhook from a source
+   *
+   * Returns the current secret first, then the previous one if its grace
+   * window hasn't ended. Falls back to the default ("*") secrets.
+   *
+   * @param source - The webhook source
+   * @returns Secrets to try, in order (empty if none configured)
+   */
+  getVerificationSecrets(source: string): SigningSecret[] {
+    const entry =
+      this.secrets.get(source) ?? this.secrets.get(DEFAULT_SECRET_SOURCE);
+    if (!entry) {
+      return [];
+    }
+
+    // Drop the previous secret once its grace window is over
+    if (entry.previous?.expiresAt && entry.previous.expiresAt <= new Date()) {
+      this.logger.log(
+        `Grace window ended for ${entry.source} secret v${entry.previous.version}`,
+      );
+      entry.previous = undefined;
+    }
+
+    return entry.previous ? [entry.current, entry.previous] : [entry.current];
+  }
+
+  /**
+   * List the configured secrets (versions and dates only, never values)
+   *
+   * @returns One summary per source
+   */
+  list(): SigningSecretSummary[] {
+    return Array.from(this.secrets.values()).map((entry) => ({
+      source: entry.source,
+      versions: [
+        {
+          version: entry.current.version,
+          status: 'current' as const,
+          createdAt: entry.current.createdAt,
+        },
+        ...(entry.previous
+          ? [
+              {
+                version: entry.previous.version,
+                status: 'previous' as const,
+                createdAt: entry.previous.createdAt,
+                expiresAt: entry.previous.expiresAt,
+              },
+            ]
+          : []),
+      ],
+    }));
+  }
+
+  /**
+   * Add the first secret for a source
+   *
+   * @param source - The webhook source ("*" = default)
+   * @param secret - The secret value (random if omitted)
+   * @returns The issued secret (value included, shown only once)
+   * @throws ConflictException if the source already has a secret
+   */
+  add(source: string, secret?: string): IssuedSigningSecret {
+    if (this.secrets.has(source)) {
+      throw new ConflictException(
+        `Source "${source}" already has a secret. Rotate it instead.`,
+      );
+    }
+
+    const entry = this.createEntry(source, secret ?? this.generateSecret());
+    this.secrets.set(source, entry);
+    this.logger.log(`Secret added for ${source} (v${entry.current.version})`);
+
+    return {
+      source,
+      version: entry.current.version,
+      secret: entry.current.secret,
+    };
+  }
+
+  /**
+   * Rotate a source's secret
+   *
+   * The new secret becomes current; the old current secret becomes the
+   * previous one and keeps working until the grace window ends.
+   * An older previous secret (from an earlier rotation) is dropped.
+   *
+   * @param source - The webhook source
+   * @param secret - The new secret value (random if omitted)
+   * @param gracePeriodMs - How long the old secret stays valid
+   * @returns The issued secret (value included, shown only once)
+   * @throws NotFoundException if the source has no secret yet
+   */
+  rotate(
+    source: string,
+    secret?: string,
+    gracePeriodMs: number = this.defaultGracePeriodMs,
+  ): IssuedSigningSecret {
+    const entry = this.getEntry(source);
+    const now = new Date();
+
+    entry.previous = {
+      ...entry.current,
+      expiresAt: new Date(now.getTime() + gracePeriodMs),
+    };
+    entry.current = {
+      version: entry.current.version + 1,
+      secret: secret ?? this.generateSecret(),
+      createdAt: now,
+    };
+
+    this.logger.log(
+      `Secret rotated for ${source}: v${entry.current.version} is current, v${entry.previous.version} accepted until ${entry.previous.expiresAt?.toISOString()}`,
+    );
+
+    return {
+      source,
+      version: entry.current.version,
+      secret: entry.current.secret,
+      previousExpiresAt: entry.previous.expiresAt,
+    };
+  }
+
+  /**
+   * Revoke all secrets of a source
+   *
+   * Webhooks from the source fall back to the default secret (if any).
+   *
+   * @param source - The webhook source
+   * @returns Success message
+   * @throws NotFoundException if the source has no secret
+   */
+  revoke(source: string): { message: string } {
+    this.getEntry(source);
+    this.secrets.delete(source);
+    this.logger.warn(`All secrets revoked for ${source}`);
+    return { message: 'Secrets revoked successfully' };
+  }
+
+  /**
+   * Revoke only the previous secret, ending its grace window early
+   *
+   * Use this once every sender has switched to the current secret,
+   * or immediately if the old secret leaked.
+   *
+   * @param source - The webhook source
+   * @returns Success message
+   * @throws NotFoundException if there is no previous secret
+   */
+  revokePrevious(source: string): { message: string } {
+    const entry = this.getEntry(source);
+    if (!entry.previous) {
+      throw new NotFoundException(`Source "${source}" has no previous secret`);
+    }
+
+    this.logger.warn(
+      `Previous secret v${entry.previous.version} revoked for ${source}`,
+    );
+    entry.previous = undefined;
+    return { message: 'Previous secret revoked successfully' };
+  }
+
+  /**
+   * Get the secrets of a source or throw 404
+   *
+   * @param source - The webhook source
+   * @returns The source's secrets
+   * @throws NotFoundException if the source has no secret
+   */
+  private getEntry(source: string): SourceSecrets {
+    const entry = this.secrets.get(source);
+    if (!entry) {
+      throw new NotFoundException(`No secret configured for "${source}"`);
+    }
+    return entry;
+  }
+
+  /**
+   * Create a new version-1 entry for a source
+   *
+   * @param source - The webhook source
+   * @param secret - The secret value
+   * @returns The new entry
+   */
+  private createEntry(source: string, secret: string): SourceSecrets {
+    return {
+      source,
+      current: { version: 1, secret, createdAt: new Date() },
+    };
+  }
+
+  /**
+   * Generate a random 256-bit secret
+   *
+   * @returns 64 hex characters
+   */
+  private generateSecret(): string {
+    return randomBytes(32).toString('hex');
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Dead Letters Controller (Admin API)
+ *
+ * Inspect and recover webhooks whose processing failed for good
+ * (e.g. forwarding that was still failing after all retries).
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /admin/dead-letters             - List dead letters
+ * - GET    /admin/dead-letters/:id         - Get one dead letter
+ * - POST   /admin/dead-letters/:id/replay  - Replay one
+ * - POST   /admin/dead-letters/replay      - Replay all matching a filter
+ * - DELETE /admin/dead-letters/:id         - Discard one
+ */
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Body,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { DeadLettersService } from './dead-letters.service';
+import { WebhooksService } from '../webhooks.service';
+import { QueryDeadLettersDto } from '../dto/query-dead-letters.dto';
+import { ReplayDeadLettersDto } from '../dto/replay-dead-letters.dto';
+import { WebhookResponse } from '../interfaces/webhook.interface';
+import {
+  DeadLetter,
+  DeadLettersListResponse,
+} from '../interfaces/dead-letter.interface';
+
+@Controller('admin/dead-letters')
+export class DeadLettersController {
+  /**
+   * Constructor - NestJS automatically injects the services
+   *
+   * @param deadLettersService - The service holding the dead letters
+   * @param webhooksService - Replays dead letters to their subscription
+   */
+  constructor(
+    private readonly deadLettersService: DeadLettersService,
+    private readonly webhooksService: WebhooksService,
+  ) {}
+
+  /**
+   * GET /api/v1/admin/dead-letters
+   *
+   * @param query - Validated query parameters
+   *   (page, limit, subscriptionId and the GET /webhooks filters)
+   * @returns { deadLetters: [], count, page, limit, totalPages, total, nextCursor }
+   */
+  @Get()
+  findAll(@Query() query: QueryDeadLettersDto): DeadLettersListResponse {
+    return this.deadLettersService.findAll(query);
+  }
+
+  /**
+   * GET /api/v1/admin/dead-letters/:id
+   *
+   * @param id - The dead letter UUID
+   * @returns The dead letter, with the original webhook and failure history
+   * @throws 404 Not Found if it doesn't exist
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string): DeadLetter {
+    return this.deadLettersService.findOne(id);
+  }
+
+  /**
+   * POST /api/v1/admin/dead-letters/replay
+   *
+   * Replay every dead letter matching the filter in the body.
+   *
+   * @param filter - Validated filter (source, event, subscriptionId)
+   * @returns { replayed: number }
+   */
+  @Post('replay')
+  @HttpCode(HttpStatus.OK)
+  replayAll(@Body() filter: ReplayDeadLettersDto): { replayed: number } {
+    return this.webhooksService.replayDeadLetters(filter);
+  }
+
+  /**
+   * POST /api/v1/admin/dead-letters/:id/replay
+   *
+   * @param id - The dead letter UUID
+   * @returns { id: webhook ID, message: "Webhook replayed" }
+   * @throws 404 Not Found if it or its subscription doesn't exist
+   * @throws 409 Conflict if it names no subscription to replay to
+   */
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  replay(@Param('id') id: string): WebhookResponse {
+    return this.webhooksService.replayDeadLetter(id);
+  }
+
+  /**
+   * DELETE /api/v1/admin/dead-letters/:id
+   *
+   * @param id - The dead letter UUID
+   * @returns { message: "Dead letter discarded" }
+   * @throws 404 Not Found if it doesn't exist
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  discard(@Param('id') id: string): { message: string } {
+    return this.deadLettersService.discard(id);
+  }
+}
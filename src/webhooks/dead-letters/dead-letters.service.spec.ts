@@ -0,0 +1,210 @@
+/**
+ * Dead Letters Service Tests
+ *
+ * These tests verify how dead letters are kept:
+ * - Recording a failed delivery with its attempts
+ * - Listing (newest first) and filtering
+ * - The size limit (MAX_DEAD_LETTERS)
+ * - Discarding
+ */
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { DeadLettersService } from './dead-letters.service';
+import { Webhook } from '../interfaces/webhook.interface';
+import { Delivery } from '../../forwarding/interfaces/subscription.interface';
+
+const SUBSCRIPTION_A = '0b6f2c5e-8a1d-4c3b-9e7f-1a2b3c4d5e6f';
+const SUBSCRIPTION_B = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+
+/** Create a stored webhook that could not be forwarded */
+const createTestWebhook = (
+  id: string,
+  source = 'stripe',
+  event = 'payment.failed',
+): Webhook => ({
+  id,
+  source,
+  event,
+  payload: {},
+  receivedAt: new Date(),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+});
+
+/** Create a delivery that ran out of attempts */
+const createFailedDelivery = (
+  webhookId: string,
+  subscriptionId = SUBSCRIPTION_A,
+): Delivery => ({
+  id: `delivery-${webhookId}`,
+  subscriptionId,
+  webhookId,
+  status: 'failed',
+  attempts: [
+    {
+      attempt: 1,
+      startedAt: new Date(),
+      statusCode: 503,
+      latencyMs: 4,
+      error: 'HTTP 503',
+    },
+    { attempt: 2, startedAt: new Date(), latencyMs: 200, error: 'timeout' },
+  ],
+  createdAt: new Date(),
+});
+
+describe('DeadLettersService', () => {
+  let service: DeadLettersService;
+
+  /** Dead-letter a webhook with the given fields */
+  const add = (
+    id: string,
+    source?: string,
+    event?: string,
+    subscriptionId?: string,
+  ) =>
+    service.addFailedDelivery(
+      createTestWebhook(id, source, event),
+      createFailedDelivery(id, subscriptionId),
+    );
+
+  beforeEach(() => {
+    service = new DeadLettersService();
+  });
+
+  afterEach(() => {
+    delete process.env.MAX_DEAD_LETTERS;
+  });
+
+  /**
+   * Test: The failed attempts become the failure history
+   */
+  it('should keep the webhook and its failure history', () => {
+    const deadLetter = add('w-1');
+
+    expect(service.findOne(deadLetter.id)).toMatchObject({
+      origin: 'forwarding',
+      subscriptionId: SUBSCRIPTION_A,
+      reason: `Forwarding to subscription ${SUBSCRIPTION_A} failed after 2 attempts`,
+    });
+    expect(deadLetter.webhook.id).toBe('w-1');
+    expect(deadLetter.failures.map((f) => f.error)).toEqual([
+      'HTTP 503',
+      'timeout',
+    ]);
+  });
+
+  /**
+   * Test: Later changes to the stored webhook don't alter the dead letter
+   */
+  it('should keep the webhook as it was when it failed', () => {
+    const webhook = createTestWebhook('w-1');
+    const deadLetter = service.addFailedDelivery(
+      webhook,
+      createFailedDelivery('w-1'),
+    );
+
+    webhook.duplicateCount++;
+
+    expect(deadLetter.webhook.duplicateCount).toBe(0);
+  });
+
+  /**
+   * Test: Listing is newest first, with pagination
+   */
+  it('should list dead letters newest first', () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+    add('w-1');
+    jest.advanceTimersByTime(1000);
+    add('w-2');
+    jest.advanceTimersByTime(1000);
+    add('w-3');
+    jest.useRealTimers();
+
+    const result = service.findAll({ page: 1, limit: 2 });
+
+    expect(result.deadLetters.map((d) => d.webhook.id)).toEqual(['w-3', 'w-2']);
+    expect(result.totalPages).toBe(2);
+    expect(result.total).toBe(3);
+  });
+
+  /**
+   * Test: Cursors walk every dead letter once, even as new ones arrive
+   */
+  it('should paginate with cursors', () => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+    for (let i = 1; i <= 5; i++) {
+      add(`w-${i}`);
+    }
+
+    const first = service.findAll({ limit: 2 });
+    jest.advanceTimersByTime(1000);
+    add('w-new'); // Arrives while the client is paging
+    jest.useRealTimers();
+    const second = service.findAll({ limit: 2, cursor: first.nextCursor! });
+    const third = service.findAll({ limit: 2, cursor: second.nextCursor! });
+
+    const seen = [first, second, third].flatMap((page) =>
+      page.deadLetters.map((d) => d.webhook.id),
+    );
+    expect(seen.sort()).toEqual(['w-1', 'w-2', 'w-3', 'w-4', 'w-5']);
+    expect(third.nextCursor).toBeNull();
+    expect(() => service.findAll({ cursor: 'not-a-cursor' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  /**
+   * Test: Filtering by source, event pattern and subscription
+   */
+  it('should filter by source, event and subscription', () => {
+    add('w-1', 'stripe', 'payment.failed', SUBSCRIPTION_A);
+    add('w-2', 'stripe', 'refund.created', SUBSCRIPTION_B);
+    add('w-3', 'github', 'payment.failed', SUBSCRIPTION_A);
+
+    const ids = (filter: Parameters<DeadLettersService['find']>[0]) =>
+      service.find(filter).map((d) => d.webhook.id);
+
+    expect(ids({ source: 'stripe' })).toEqual(['w-1', 'w-2']);
+    expect(ids({ event: 'payment.*' })).toEqual(['w-1', 'w-3']);
+    expect(ids({ subscriptionId: SUBSCRIPTION_B })).toEqual(['w-2']);
+    expect(ids({ source: 'stripe', subscriptionId: SUBSCRIPTION_A })).toEqual([
+      'w-1',
+    ]);
+  });
+
+  /**
+   * Test: The oldest dead letter is dropped when the queue is full
+   */
+  it('should drop the oldest dead letter when full', () => {
+    process.env.MAX_DEAD_LETTERS = '2';
+    service = new DeadLettersService();
+
+    add('w-1');
+    add('w-2');
+    add('w-3');
+
+    expect(service.find({}).map((d) => d.webhook.id)).toEqual(['w-2', 'w-3']);
+  });
+
+  /**
+   * Test: Discarding removes the dead letter
+   */
+  it('should discard a dead letter', () => {
+    const deadLetter = add('w-1');
+
+    expect(service.discard(deadLetter.id)).toEqual({
+      message: 'Dead letter discarded',
+    });
+    expect(service.count()).toBe(0);
+  });
+
+  /**
+   * Test: Unknown IDs are a 404
+   */
+  it('should throw NotFoundException for an unknown id', () => {
+    expect(() => service.findOne('missing')).toThrow(NotFoundException);
+    expect(() => service.remove('missing')).toThrow(NotFoundException);
+    expect(() => service.discard('missing')).toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Dead Letters Service
+ *
+ * Parks webhooks whose processing failed for good, e.g. forwarding to a
+ * subscription that was still failing after FORWARD_MAX_ATTEMPTS attempts.
+ *
+ * Each dead letter keeps the original webhook and the failure history.
+ * An operator can inspect them, discard them, or replay them - replays
+ * go through the same pipeline as a fresh POST /webhooks
+ * (see WebhooksService.replayDeadLetter).
+ *
+ * Configuration:
+ * - MAX_DEAD_LETTERS: Dead letters kept before the oldest are dropped (default: 1000)
+ *
+ * Note: Dead letters are kept in memory only.
+ */
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { matchesWebhookQuery } from '../storage/webhook-filter';
+import {
+  compareCursorPositions,
+  CursorPosition,
+  decodeCursor,
+  encodeCursor,
+} from '../../common/utils/cursor.util';
+import { Webhook } from '../interfaces/webhook.interface';
+import { Delivery } from '../../forwarding/interfaces/subscription.interface';
+import {
+  DeadLetter,
+  DeadLettersListResponse,
+} from '../interfaces/dead-letter.interface';
+import { QueryDeadLettersDto } from '../dto/query-dead-letters.dto';
+import { ReplayDeadLettersDto } from '../dto/replay-dead-letters.dto';
+
+@Injectable()
+export class DeadLettersService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(DeadLettersService.name);
+
+  /**
+   * Dead letters, keyed by ID
+   * Map preserves insertion order, so first key = oldest dead letter
+   */
+  private readonly deadLetters: Map<string, DeadLetter> = new Map();
+
+  /** Dead letters kept before the oldest are dropped */
+  private readonly maxDeadLetters: number;
+
+  /**
+   * Constructor - reads the size limit from the environment
+   */
+  constructor() {
+    this.maxDeadLetters = parseInt(process.env.MAX_DEAD_LETTERS || '1000', 10);
+  }
+
+  /**
+   * Dead-letter a webhook whose forwarding failed for good
+   *
+   * @param webhook - The webhook that could not be forwarded
+   * @param delivery - The failed delivery (its attempts become the history)
+   * @returns The new dead letter
+   */
+  addFailedDelivery(webhook: Webhook, delivery: Delivery): DeadLetter {
+    const attempts = delivery.attempts.length;
+    const deadLetter: DeadLetter = {
+      id: randomUUID(),
+      webhook: { ...webhook }, // As it was - later duplicates don't change it
+      origin: 'forwarding',
+      reason: `Forwarding to subscription ${delivery.subscriptionId} failed after ${attempts} attempt${attempts === 1 ? '' : 's'}`,
+      subscriptionId: delivery.subscriptionId,
+      failures: delivery.attempts,
+      createdAt: new Date(),
+    };
+
+    // Drop the oldest dead letter if full (Map keeps insertion order)
+    if (this.deadLetters.size >= this.maxDeadLetters) {
+      const oldestId = this.deadLetters.keys().next().value;
+      if (oldestId) {
+        this.deadLetters.delete(oldestId);
+      }
+    }
+    this.deadLetters.set(deadLetter.id, deadLetter);
+
+    this.logger.warn(
+      `Webhook ${webhook.id} dead-lettered (${deadLetter.id}): ${deadLetter.reason}`,
+    );
+    return deadLetter;
+  }
+
+  /**
+   * List dead letters with pagination and optional filtering
+   *
+   * @param query - Query parameters (page, limit, subscriptionId and the
+   *   GET /webhooks filters)
+   * @returns Paginated list of dead letters, newest first
+   *   (ordered by createdAt, then id)
+   * @throws BadRequestException if the cursor is malformed
+   */
+  findAll(query: QueryDeadLettersDto): DeadLettersListResponse {
+    const { page = 1, limit = 10, cursor, ...filter } = query;
+    const after = cursor ? decodeCursor(cursor) : undefined;
+    if (cursor && !after) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    // The queue is small (MAX_DEAD_LETTERS), so sorting the matches is fine
+    const matches = this.find(filter).sort(
+      (a, b) => -compareCursorPositions(this.position(a), this.position(b)),
+    );
+    const remaining = after
+      ? matches.filter(
+          (deadLetter) =>
+            compareCursorPositions(this.position(deadLetter), after) < 0,
+        )
+      : matches.slice((page - 1) * limit);
+    const deadLetters = remaining.slice(0, limit);
+
+    const last = deadLetters[deadLetters.length - 1];
+    return {
+      deadLetters,
+      count: deadLetters.length,
+      page,
+      limit,
+      totalPages: Math.ceil(matches.length / limit),
+      total: matches.length,
+      nextCursor:
+        remaining.length > limit && last
+          ? encodeCursor(this.position(last))
+          : null,
+    };
+  }
+
+  /**
+   * Find every dead letter that matches a filter
+   *
+   * @param filter - subscriptionId, plus any GET /webhooks filter
+   *   (applied to the dead letter's webhook)
+   * @returns The matching dead letters, oldest first
+   */
+  find(filter: ReplayDeadLettersDto | QueryDeadLettersDto): DeadLetter[] {
+    const { subscriptionId, ...webhookFilter } = filter;
+    return Array.from(this.deadLetters.values()).filter(
+      (deadLetter) =>
+        (!subscriptionId || deadLetter.subscriptionId === subscriptionId) &&
+        matchesWebhookQuery(deadLetter.webhook, webhookFilter),
+    );
+  }
+
+  /**
+   * Find a single dead letter
+   *
+   * @param id - The dead letter UUID
+   * @returns The dead letter
+   * @throws NotFoundException if it doesn't exist
+   */
+  findOne(id: string): DeadLetter {
+    const deadLetter = this.deadLetters.get(id);
+    if (!deadLetter) {
+      throw new NotFoundException('Dead letter not found');
+    }
+    return deadLetter;
+  }
+
+  /**
+   * Take a dead letter out of the queue (e.g. to replay it)
+   *
+   * @param id - The dead letter UUID
+   * @returns The removed dead letter
+   * @throws NotFoundException if it doesn't exist
+   */
+  remove(id: string): DeadLetter {
+    const deadLetter = this.findOne(id);
+    this.deadLetters.delete(id);
+    return deadLetter;
+  }
+
+  /**
+   * Delete a dead letter without replaying it
+   *
+   * @param id - The dead letter UUID
+   * @returns Success message
+   * @throws NotFoundException if it doesn't exist
+   */
+  discard(id: string): { message: string } {
+    this.remove(id);
+    this.logger.log(`Dead letter discarded: ${id}`);
+    return { message: 'Dead letter discarded' };
+  }
+
+  /**
+   * Where a dead letter sits in the list order (for cursors)
+   *
+   * @param deadLetter - The dead letter
+   * @returns Its (createdAt, id) position
+   */
+  private position(deadLetter: DeadLetter): CursorPosition {
+    return { timestamp: deadLetter.createdAt, id: deadLetter.id };
+  }
+
+  /**
+   * Get the number of dead letters
+   *
+   * @returns The count of dead letters
+   */
+  count(): number {
+    return this.deadLetters.size;
+  }
+}
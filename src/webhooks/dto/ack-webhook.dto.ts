@@ -0,0 +1,22 @@
+/**
+ * Acknowledge Webhook DTO
+ *
+ * Optional body for POST /webhooks/:id/ack.
+ *
+ * Example request body (for a webhook claimed through POST /webhooks/claim):
+ * {
+ *   "leaseId": "9b2f6c1e-3d4a-4f5b-8c7d-2e1f0a9b8c7d"
+ * }
+ */
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class AckWebhookDto {
+  /**
+   * The lease the webhook was claimed under
+   *
+   * - Required while another lease on the webhook is active
+   */
+  @IsOptional()
+  @IsUUID()
+  leaseId?: string;
+}
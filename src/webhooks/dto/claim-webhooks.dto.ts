@@ -0,0 +1,58 @@
+/**
+ * Claim Webhooks DTO
+ *
+ * Query parameters for POST /webhooks/claim - which waiting webhooks a
+ * worker wants to lease, and for how long.
+ *
+ * Example usage:
+ * POST /api/v1/webhooks/claim?source=stripe&event=payment.*&max=5
+ * POST /api/v1/webhooks/claim?max=20&visibilityTimeoutMs=120000
+ */
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/** Longest lease a worker can ask for (12 hours) */
+export const MAX_VISIBILITY_TIMEOUT_MS = 12 * 60 * 60 * 1000;
+
+export class ClaimWebhooksDto {
+  /**
+   * Only claim webhooks from this source (exact match)
+   */
+  @IsOptional()
+  @IsString()
+  source?: string;
+
+  /**
+   * Only claim matching events ("*" matches any characters)
+   *
+   * Example: ?event=payment.*
+   */
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  /**
+   * Most webhooks to claim at once
+   *
+   * - Optional: defaults to 10, at most 100
+   */
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  max?: number = 10;
+
+  /**
+   * How long the worker keeps the webhooks before they return to the pool
+   *
+   * - Optional: defaults to LEASE_VISIBILITY_TIMEOUT_MS
+   * - Between 1 second and 12 hours
+   */
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsInt()
+  @Min(1000)
+  @Max(MAX_VISIBILITY_TIMEOUT_MS)
+  visibilityTimeoutMs?: number;
+}
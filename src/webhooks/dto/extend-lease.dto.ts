@@ -0,0 +1,29 @@
+/**
+ * Extend Lease DTO
+ *
+ * Body for POST /webhooks/:id/lease/extend - a worker that needs more
+ * time keeps the webhook for another visibility timeout, counted from now.
+ *
+ * Example request body:
+ * {
+ *   "leaseId": "9b2f6c1e-3d4a-4f5b-8c7d-2e1f0a9b8c7d",
+ *   "visibilityTimeoutMs": 60000
+ * }
+ */
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ReleaseLeaseDto } from './release-lease.dto';
+import { MAX_VISIBILITY_TIMEOUT_MS } from './claim-webhooks.dto';
+
+export class ExtendLeaseDto extends ReleaseLeaseDto {
+  /**
+   * New visibility timeout, from now
+   *
+   * - Optional: defaults to LEASE_VISIBILITY_TIMEOUT_MS
+   * - Between 1 second and 12 hours
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(MAX_VISIBILITY_TIMEOUT_MS)
+  visibilityTimeoutMs?: number;
+}
@@ -0,0 +1,23 @@
+/**
+ * Fail Webhook DTO
+ *
+ * Body for POST /webhooks/:id/fail - a consumer reports that it could not
+ * process the webhook.
+ *
+ * Example request body:
+ * {
+ *   "error": "Customer cus_123 not found"
+ * }
+ */
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { AckWebhookDto } from './ack-webhook.dto';
+
+export class FailWebhookDto extends AckWebhookDto {
+  /**
+   * What went wrong (stored on the webhook as `error`)
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  error!: string;
+}
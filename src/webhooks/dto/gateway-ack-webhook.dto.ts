@@ -0,0 +1,22 @@
+/**
+ * Gateway Ack Webhook DTO
+ *
+ * Data of the "ack" WebSocket message (see WebhooksGateway) - the
+ * WebSocket counterpart of POST /webhooks/:id/ack.
+ *
+ * Example message (for a webhook claimed through POST /webhooks/claim):
+ * { "event": "ack", "data": { "id": "550e8400-...", "leaseId": "9b2f6c1e-..." } }
+ */
+import { IsOptional, IsUUID } from 'class-validator';
+import { GatewayWebhookIdDto } from './gateway-webhook-id.dto';
+
+export class GatewayAckWebhookDto extends GatewayWebhookIdDto {
+  /**
+   * The lease the webhook was claimed under
+   *
+   * - Required while another lease on the webhook is active
+   */
+  @IsOptional()
+  @IsUUID()
+  leaseId?: string;
+}
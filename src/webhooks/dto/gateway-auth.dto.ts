@@ -0,0 +1,21 @@
+/**
+ * Gateway Auth DTO
+ *
+ * Data of the "auth" message - the first message a WebSocket client must
+ * send after connecting (see WebhooksGateway).
+ *
+ * Example message:
+ * { "event": "auth", "data": { "token": "..." } }
+ */
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class GatewayAuthDto {
+  /**
+   * An API key with the "read" scope, or one of the (read-only) tokens
+   * configured in WS_AUTH_TOKENS
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(512)
+  token!: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Gateway Webhook ID DTO
+ *
+ * Data of the "delete" WebSocket message, and the base of "ack"'s
+ * (see WebhooksGateway).
+ *
+ * Example message:
+ * { "event": "ack", "data": { "id": "550e8400-e29b-41d4-a716-446655440000" } }
+ */
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class GatewayWebhookIdDto {
+  /**
+   * The webhook UUID (unknown IDs get a 404 error message)
+   */
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+}
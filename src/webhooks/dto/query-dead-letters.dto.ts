@@ -0,0 +1,22 @@
+/**
+ * Query Dead Letters DTO
+ *
+ * Query parameters for GET /admin/dead-letters.
+ * Same pagination and filters as GET /webhooks (applied to each dead
+ * letter's webhook), plus:
+ * - subscriptionId: Only dead letters of one subscription
+ *
+ * Example usage:
+ * GET /api/v1/admin/dead-letters?source=stripe&event=payment.*&page=2
+ */
+import { IsOptional, IsUUID } from 'class-validator';
+import { QueryWebhooksDto } from './query-webhooks.dto';
+
+export class QueryDeadLettersDto extends QueryWebhooksDto {
+  /**
+   * Filter by the subscription that could not be reached
+   */
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+}
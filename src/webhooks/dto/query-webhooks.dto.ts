@@ -2,13 +2,71 @@
  * Query Webhooks DTO (Data Transfer Object)
  *
  * This class defines the expected query parameters for the GET /webhooks endpoint.
- * It handles pagination (page, limit) and filtering (source, event).
+ * It handles pagination (page, limit) and filtering (source, event, time range,
+ * verified status, processing status and payload fields).
  *
  * Example usage:
  * GET /api/v1/webhooks?page=2&limit=20&source=stripe&event=payment.completed
+ * GET /api/v1/webhooks?source=stripe&verified=false&receivedAfter=2024-06-01T18:00:00Z
+ * GET /api/v1/webhooks?event=invoice.*&payload.data.status=failed
+ * GET /api/v1/webhooks?status=received (work not picked up yet)
+ * GET /api/v1/webhooks?limit=50&cursor=<nextCursor of the previous page>
  */
-import { IsOptional, IsInt, Min, Max, IsString } from 'class-validator';
-import { Transform } from 'class-transformer';
+import {
+  IsOptional,
+  IsInt,
+  Min,
+  Max,
+  IsString,
+  IsDate,
+  IsBoolean,
+  IsIn,
+  MaxLength,
+  ValidateBy,
+  ValidationOptions,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { WebhookStatus } from '../interfaces/webhook.interface';
+import { WEBHOOK_STATUSES } from '../status/webhook-status';
+
+/** Most payload field filters allowed in one query */
+const MAX_PAYLOAD_FILTERS = 10;
+
+/**
+ * Validates payload field filters: an object of dot path -> string value,
+ * where every path segment is non-empty. A field given twice in the query
+ * arrives as an array and is rejected.
+ */
+function IsPayloadFilter(validationOptions?: ValidationOptions) {
+  return ValidateBy(
+    {
+      name: 'isPayloadFilter',
+      validator: {
+        validate: (value: unknown): boolean => {
+          if (
+            typeof value !== 'object' ||
+            value === null ||
+            Array.isArray(value)
+          ) {
+            return false;
+          }
+          const entries = Object.entries(value);
+          return (
+            entries.length <= MAX_PAYLOAD_FILTERS &&
+            entries.every(
+              ([path, expected]) =>
+                typeof expected === 'string' &&
+                path.split('.').every((segment) => segment.length > 0),
+            )
+          );
+        },
+        defaultMessage: () =>
+          `payload filters must look like payload.<path>=<value>, each field at most once (max ${MAX_PAYLOAD_FILTERS})`,
+      },
+    },
+    validationOptions,
+  );
+}
 
 export class QueryWebhooksDto {
   /**
@@ -42,6 +100,22 @@ export class QueryWebhooksDto {
   @Max(100)
   limit?: number = 10;
 
+  /**
+   * Cursor from the previous page's nextCursor
+   *
+   * - Optional: continues right after the last webhook of that page
+   * - Pages stay stable while webhooks keep arriving, unlike ?page=
+   *   (new webhooks would shift every page by one)
+   * - Takes precedence over page
+   * - Opaque: pass it back unchanged
+   *
+   * Example: ?cursor=WzE3MTcyNDMyMDAwMDAsIjU1MGU4NDAwLi4uIl0
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  cursor?: string;
+
   /**
    * Filter by webhook source
    *
@@ -58,11 +132,85 @@ export class QueryWebhooksDto {
    * Filter by event type
    *
    * - Optional: if not provided, returns all event types
-   * - Case-sensitive exact match
+   * - Case-sensitive exact match, or a pattern where "*" matches any characters
    *
    * Example: ?event=payment.completed returns only payment.completed events
+   * Example: ?event=payment.* returns every event starting with "payment."
    */
   @IsOptional()
   @IsString()
   event?: string;
+
+  /**
+   * Only webhooks received at or after this time (inclusive)
+   *
+   * - Optional: ISO 8601 date or date-time
+   *
+   * Example: ?receivedAfter=2024-06-01T18:00:00Z
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'receivedAfter must be an ISO 8601 date' })
+  receivedAfter?: Date;
+
+  /**
+   * Only webhooks received before this time (exclusive)
+   *
+   * - Optional: ISO 8601 date or date-time
+   * - Together with receivedAfter this is a half-open range, so consecutive
+   *   windows (e.g. one per night) never overlap
+   *
+   * Example: ?receivedBefore=2024-06-02T06:00:00Z
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: 'receivedBefore must be an ISO 8601 date' })
+  receivedBefore?: Date;
+
+  /**
+   * Filter by signature verification result
+   *
+   * - Optional: "true" or "false"
+   * - @Transform: Reads the raw string (implicit conversion would turn
+   *   the string "false" into true)
+   *
+   * Example: ?verified=false returns only unverified webhooks
+   */
+  @IsOptional()
+  @Transform(({ obj }: { obj: Record<string, unknown> }) =>
+    obj.verified === 'true'
+      ? true
+      : obj.verified === 'false'
+        ? false
+        : obj.verified,
+  )
+  @IsBoolean()
+  verified?: boolean;
+
+  /**
+   * Filter by processing status
+   *
+   * - Optional: received, processing, processed or failed
+   *
+   * Example: ?status=failed returns webhooks a consumer could not handle
+   */
+  @IsOptional()
+  @IsIn(WEBHOOK_STATUSES, {
+    message: `status must be one of: ${WEBHOOK_STATUSES.join(', ')}`,
+  })
+  status?: WebhookStatus;
+
+  /**
+   * Filter by payload fields: dot path -> value, compared as text
+   *
+   * - Optional: sent as payload.<path>=<value> query parameters, which the
+   *   query parser groups into this object (see parseQueryString)
+   * - Numbers, booleans and null match their text form ("100", "true", "null")
+   * - All filters must match
+   *
+   * Example: ?payload.data.status=failed&payload.customer.id=cus_123
+   */
+  @IsOptional()
+  @IsPayloadFilter()
+  payload?: Record<string, string>;
 }
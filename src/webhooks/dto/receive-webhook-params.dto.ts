@@ -0,0 +1,20 @@
+/**
+ * Receive Webhook Params DTO
+ *
+ * Route params of POST /webhooks/:source, where providers post their own
+ * body. The source follows the same rules as in CreateWebhookDto.
+ *
+ * Example request:
+ * POST /api/v1/webhooks/github
+ */
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ReceiveWebhookParamsDto {
+  /**
+   * The source/origin of the webhook (e.g., "stripe", "github")
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  source!: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * Release Lease DTO
+ *
+ * Body for POST /webhooks/:id/lease/release - a worker gives a claimed
+ * webhook back unfinished, so another worker can claim it right away.
+ *
+ * Example request body:
+ * {
+ *   "leaseId": "9b2f6c1e-3d4a-4f5b-8c7d-2e1f0a9b8c7d"
+ * }
+ */
+import { IsUUID } from 'class-validator';
+
+export class ReleaseLeaseDto {
+  /**
+   * The leaseId returned by POST /webhooks/claim
+   */
+  @IsUUID()
+  leaseId!: string;
+}
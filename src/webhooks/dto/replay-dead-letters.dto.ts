@@ -0,0 +1,37 @@
+/**
+ * Replay Dead Letters DTO
+ *
+ * Filter for POST /admin/dead-letters/replay - every dead letter that
+ * matches all given fields is replayed. An empty body replays them all.
+ *
+ * Example request body:
+ * {
+ *   "source": "stripe",
+ *   "event": "payment.*",
+ *   "subscriptionId": "..."
+ * }
+ */
+import { IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class ReplayDeadLettersDto {
+  /**
+   * Only dead letters of this webhook source (exact match)
+   */
+  @IsOptional()
+  @IsString()
+  source?: string;
+
+  /**
+   * Only dead letters of matching events ("*" matches any characters)
+   */
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  /**
+   * Only dead letters of this subscription
+   */
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+}
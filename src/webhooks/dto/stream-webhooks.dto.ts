@@ -0,0 +1,34 @@
+/**
+ * Stream Webhooks DTO
+ *
+ * Query parameters for GET /webhooks/stream: the source and event filters
+ * of GET /webhooks (pagination doesn't apply to a live stream).
+ *
+ * Example usage:
+ * GET /api/v1/webhooks/stream?source=stripe&event=payment.*
+ */
+import { IsOptional, IsString } from 'class-validator';
+
+export class StreamWebhooksDto {
+  /**
+   * Only stream webhooks from this source
+   *
+   * - Optional: if not provided, streams webhooks from all sources
+   * - Case-sensitive exact match
+   */
+  @IsOptional()
+  @IsString()
+  source?: string;
+
+  /**
+   * Only stream webhooks with this event type
+   *
+   * - Optional: if not provided, streams all event types
+   * - Case-sensitive exact match, or a pattern where "*" matches any characters
+   *
+   * Example: ?event=payment.* streams every event starting with "payment."
+   */
+  @IsOptional()
+  @IsString()
+  event?: string;
+}
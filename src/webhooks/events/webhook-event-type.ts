@@ -0,0 +1,45 @@
+/**
+ * Webhook Event Type
+ *
+ * Providers posting to POST /webhooks/:source send their own body, not our
+ * { source, event, payload } envelope, so the event type has to be found
+ * where each provider puts it (first match wins):
+ * 1. X-GitHub-Event header (GitHub, e.g. "push")
+ * 2. X-Shopify-Topic header (Shopify, e.g. "orders/create")
+ * 3. The payload's "type" field (Stripe, e.g. "invoice.paid"; Slack)
+ *
+ * Headers are looked up whatever the source is called, so a source mapped
+ * to a provider's scheme (SIGNATURE_SCHEMES=ci:github) works too.
+ */
+import { IncomingHttpHeaders } from 'http';
+import { getHeader } from '../verifiers/verifier.utils';
+
+/** Headers carrying the event type, in the order they are tried */
+export const EVENT_TYPE_HEADERS = ['x-github-event', 'x-shopify-topic'];
+
+/** Event types longer than this are refused, like in CreateWebhookDto */
+const MAX_EVENT_TYPE_LENGTH = 100;
+
+/**
+ * Find the event type of a webhook posted as its provider sent it
+ *
+ * @param headers - Request headers
+ * @param payload - The request body
+ * @returns The event type, or undefined if there is none (or it is too long)
+ */
+export function resolveEventType(
+  headers: IncomingHttpHeaders,
+  payload: Record<string, unknown>,
+): string | undefined {
+  const candidates: unknown[] = [
+    ...EVENT_TYPE_HEADERS.map((name) => getHeader(headers, name)),
+    payload.type,
+  ];
+  const event = candidates.find(
+    (candidate): candidate is string =>
+      typeof candidate === 'string' && candidate.trim() !== '',
+  );
+  return event !== undefined && event.length <= MAX_EVENT_TYPE_LENGTH
+    ? event.trim()
+    : undefined;
+}
@@ -0,0 +1,437 @@
+/**
+ * Webhooks Gateway Tests
+ *
+ * These tests verify the WebSocket gateway:
+ * - The auth handshake (API key or token, timeout)
+ * - Subscribing to topics and receiving matching webhooks
+ * - Acknowledging and deleting webhooks, with the checks of the HTTP routes
+ */
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { WsException } from '@nestjs/websockets';
+import { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import {
+  WebhooksGateway,
+  WS_UNAUTHORIZED_CLOSE_CODE,
+} from './webhooks.gateway';
+import { WebhooksService } from '../webhooks.service';
+import { WebhooksStorage } from '../webhooks.storage';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { SignatureVerifierRegistry } from '../verifiers/signature-verifier.registry';
+import { ReplayProtectionService } from '../verifiers/replay-protection.service';
+import { IdempotencyKeyResolver } from '../idempotency/idempotency-key.resolver';
+import { VerificationPolicyResolver } from '../verifiers/verification-policy.resolver';
+import { QuarantineService } from '../quarantine/quarantine.service';
+import { DeadLettersService } from '../dead-letters/dead-letters.service';
+import { WebhookStreamService } from '../stream/webhook-stream.service';
+import { LeasesService } from '../leases/leases.service';
+import { WebhookHandlersService } from '../handlers/webhook-handlers.service';
+import { QUARANTINE_STORAGE } from '../storage/storage.factory';
+import { SecretsService } from '../../secrets/secrets.service';
+import { ForwardingService } from '../../forwarding/forwarding.service';
+import { SchemasService } from '../../schemas/schemas.service';
+import { CatalogService } from '../../catalog/catalog.service';
+import { SourceQuotasService } from '../quotas/source-quotas.service';
+import { IpAllowlistService } from '../ip-allowlist/ip-allowlist.service';
+import { RedactionService } from '../redaction/redaction.service';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { ApiKeyScope } from '../../api-keys/interfaces/api-key.interface';
+import { RateLimitStore } from '../../common/rate-limit/rate-limit.store';
+import { InMemoryRateLimitStore } from '../../common/rate-limit/in-memory-rate-limit.store';
+
+/** A fake WebSocket client that records what it was sent */
+const createTestClient = () =>
+  ({
+    readyState: WebSocket.OPEN,
+    send: jest.fn(),
+    close: jest.fn(),
+  }) as unknown as WebSocket & { send: jest.Mock; close: jest.Mock };
+
+/** The upgrade request of a client */
+const upgradeRequest = {
+  headers: {},
+  socket: { remoteAddress: '10.0.0.1' },
+} as unknown as IncomingMessage;
+
+/** Get the "webhook" messages a client was sent */
+const receivedWebhookIds = (client: { send: jest.Mock }) =>
+  client.send.mock.calls
+    .map(([message]) => JSON.parse(message as string))
+    .filter((message) => message.event === 'webhook')
+    .map((message) => message.data.id as string);
+
+describe('WebhooksGateway', () => {
+  let gateway: WebhooksGateway;
+  let service: WebhooksService;
+  let apiKeys: ApiKeysService;
+  let leases: LeasesService;
+
+  /** Connect a client and (optionally) authenticate it */
+  const connect = (authenticate = true, token = 'dashboard-token') => {
+    const client = createTestClient();
+    gateway.handleConnection(client, upgradeRequest);
+    if (authenticate) {
+      gateway.authenticate(client, { token });
+    }
+    return client;
+  };
+
+  /** Connect a client authenticated with a new API key */
+  const connectWithKey = (scopes: ApiKeyScope[], sources: string[] = []) =>
+    connect(true, apiKeys.issue('dashboard', scopes, sources).key);
+
+  /** Store a webhook and return its ID */
+  const createWebhook = (source = 'stripe') =>
+    service.create({ source, event: 'payment', payload: {} }).id;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    process.env.WS_AUTH_TOKENS = 'dashboard-token, other-token';
+    process.env.WS_AUTH_TIMEOUT_MS = '1000';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksGateway,
+        WebhooksService,
+        SignatureVerifierRegistry,
+        SecretsService,
+        ReplayProtectionService,
+        IdempotencyKeyResolver,
+        VerificationPolicyResolver,
+        QuarantineService,
+        ForwardingService,
+        DeadLettersService,
+        WebhookStreamService,
+        LeasesService,
+        WebhookHandlersService,
+        SchemasService,
+        CatalogService,
+        SourceQuotasService,
+        IpAllowlistService,
+        RedactionService,
+        ApiKeysService,
+        { provide: RateLimitStore, useClass: InMemoryRateLimitStore },
+        { provide: WebhooksStorage, useClass: InMemoryWebhooksStorage },
+        { provide: QUARANTINE_STORAGE, useClass: InMemoryWebhooksStorage },
+      ],
+    }).compile();
+
+    gateway = module.get<WebhooksGateway>(WebhooksGateway);
+    service = module.get<WebhooksService>(WebhooksService);
+    apiKeys = module.get<ApiKeysService>(ApiKeysService);
+    leases = module.get<LeasesService>(LeasesService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.WS_AUTH_TOKENS;
+    delete process.env.WS_AUTH_TIMEOUT_MS;
+  });
+
+  // ==================== Auth Handshake Tests ====================
+  describe('auth', () => {
+    /**
+     * Test: A configured token authenticates the client
+     */
+    it('should authenticate with a valid token', () => {
+      // Arrange
+      const client = connect(false);
+
+      // Act
+      const result = gateway.authenticate(client, { token: 'other-token' });
+
+      // Assert
+      expect(result).toEqual({ event: 'authenticated', data: {} });
+      expect(client.close).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: An API key with the "read" scope authenticates the client; one
+     * without it is closed with 4401
+     */
+    it('should authenticate with an API key that may read', () => {
+      // Act
+      const reader = connectWithKey(['read']);
+      const ingester = connectWithKey(['ingest']);
+
+      // Assert
+      expect(reader.close).not.toHaveBeenCalled();
+      expect(ingester.close).toHaveBeenCalledWith(
+        WS_UNAUTHORIZED_CLOSE_CODE,
+        'API key lacks the "read" scope',
+      );
+    });
+
+    /**
+     * Test: A wrong token closes the connection with 4401
+     */
+    it('should disconnect a client with an invalid token', () => {
+      // Arrange
+      const client = connect(false);
+
+      // Act
+      const result = gateway.authenticate(client, { token: 'wrong' });
+
+      // Assert
+      expect(result).toBeUndefined();
+      expect(client.close).toHaveBeenCalledWith(
+        WS_UNAUTHORIZED_CLOSE_CODE,
+        'Invalid token',
+      );
+    });
+
+    /**
+     * Test: A client that never authenticates is disconnected
+     * after WS_AUTH_TIMEOUT_MS
+     */
+    it('should disconnect a client that does not authenticate in time', () => {
+      // Arrange
+      const silent = connect(false);
+      const authenticated = connect();
+
+      // Act
+      jest.advanceTimersByTime(1000);
+
+      // Assert
+      expect(silent.close).toHaveBeenCalledWith(
+        WS_UNAUTHORIZED_CLOSE_CODE,
+        'Authentication timeout',
+      );
+      expect(authenticated.close).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: Nothing but "auth" is allowed before authenticating
+     */
+    it('should refuse other messages before auth', () => {
+      // Arrange
+      const client = connect(false);
+
+      // Act & Assert
+      expect(() => gateway.subscribe(client, {})).toThrow(WsException);
+      expect(() =>
+        gateway.delete(client, { id: 'e3b0c442-98fc-4c14-9afb-f4c8996fb924' }),
+      ).toThrow(WsException);
+    });
+
+    /**
+     * Test: Without WS_AUTH_TOKENS, every client is refused
+     */
+    it('should refuse every token when none are configured', async () => {
+      // Arrange
+      delete process.env.WS_AUTH_TOKENS;
+      const module = await Test.createTestingModule({
+        providers: [
+          WebhooksGateway,
+          { provide: WebhooksService, useValue: {} },
+          WebhookStreamService,
+          ApiKeysService,
+          { provide: RateLimitStore, useClass: InMemoryRateLimitStore },
+          { provide: WebhooksStorage, useClass: InMemoryWebhooksStorage },
+        ],
+      }).compile();
+      gateway = module.get<WebhooksGateway>(WebhooksGateway);
+      const client = connect(false);
+
+      // Act
+      gateway.authenticate(client, { token: '' });
+
+      // Assert
+      expect(client.close).toHaveBeenCalledWith(
+        WS_UNAUTHORIZED_CLOSE_CODE,
+        'Invalid token',
+      );
+    });
+  });
+
+  // ==================== Topic Tests ====================
+  describe('topics', () => {
+    /**
+     * Test: Clients receive new webhooks matching one of their topics,
+     * once each, and nothing else
+     */
+    it('should send new webhooks matching a topic', () => {
+      // Arrange
+      const payments = connect();
+      gateway.subscribe(payments, { source: 'stripe', event: 'payment.*' });
+      gateway.subscribe(payments, { source: 'stripe' });
+      const github = connect();
+      gateway.subscribe(github, { source: 'github' });
+      const idle = connect();
+
+      // Act
+      const paid = service.create({
+        source: 'stripe',
+        event: 'payment.succeeded',
+        payload: {},
+      });
+      const pushed = service.create({
+        source: 'github',
+        event: 'push',
+        payload: {},
+      });
+
+      // Assert
+      expect(receivedWebhookIds(payments)).toEqual([paid.id]);
+      expect(receivedWebhookIds(github)).toEqual([pushed.id]);
+      expect(receivedWebhookIds(idle)).toEqual([]);
+    });
+
+    /**
+     * Test: Unsubscribing stops the topic; unknown topics are an error
+     */
+    it('should stop sending after unsubscribe', () => {
+      // Arrange
+      const client = connect();
+      gateway.subscribe(client, { source: 'stripe' });
+
+      // Act
+      const result = gateway.unsubscribe(client, { source: 'stripe' });
+      service.create({ source: 'stripe', event: 'payment', payload: {} });
+
+      // Assert
+      expect(result.data.topics).toBe(0);
+      expect(receivedWebhookIds(client)).toEqual([]);
+      expect(() => gateway.unsubscribe(client, { source: 'stripe' })).toThrow(
+        WsException,
+      );
+    });
+
+    /**
+     * Test: A key bound to sources only receives (and may only subscribe
+     * to) webhooks of those sources
+     */
+    it('should only send webhooks of its sources to a bound key', () => {
+      // Arrange
+      const client = connectWithKey(['read'], ['stripe']);
+      gateway.subscribe(client, {});
+
+      // Act
+      const paid = createWebhook('stripe');
+      createWebhook('github');
+
+      // Assert
+      expect(receivedWebhookIds(client)).toEqual([paid]);
+      expect(() => gateway.subscribe(client, { source: 'github' })).toThrow(
+        ForbiddenException,
+      );
+    });
+
+    /**
+     * Test: Disconnected clients are forgotten
+     */
+    it('should not send to disconnected clients', () => {
+      // Arrange
+      const client = connect();
+      gateway.subscribe(client, {});
+
+      // Act
+      gateway.handleDisconnect(client);
+      service.create({ source: 'stripe', event: 'payment', payload: {} });
+
+      // Assert
+      expect(client.send).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==================== ack / delete Tests ====================
+  describe('ack and delete', () => {
+    /**
+     * Test: "ack" marks the webhook as processed, for keys with "process"
+     */
+    it('should acknowledge a webhook', () => {
+      // Arrange
+      const client = connectWithKey(['read', 'process']);
+      const id = createWebhook();
+
+      // Act
+      const result = gateway.acknowledge(client, { id });
+
+      // Assert
+      expect(result.event).toBe('acknowledged');
+      expect(result.data.status).toBe('processed');
+      expect(service.findOne(id).processedAt).toBeInstanceOf(Date);
+    });
+
+    /**
+     * Test: "delete" removes the webhook, for keys with "delete"; a second
+     * delete is a 404
+     */
+    it('should delete a webhook', () => {
+      // Arrange
+      const client = connectWithKey(['read', 'delete']);
+      const id = createWebhook();
+
+      // Act
+      const result = gateway.delete(client, { id });
+
+      // Assert
+      expect(result).toEqual({ event: 'deleted', data: { id } });
+      expect(() => service.findOne(id)).toThrow(NotFoundException);
+      expect(() => gateway.delete(client, { id })).toThrow(NotFoundException);
+    });
+
+    /**
+     * Test: Shared WS_AUTH_TOKENS clients are read-only, and keys need the
+     * scope of the HTTP route
+     */
+    it('should refuse changes without the scope', () => {
+      // Arrange
+      const tokenClient = connect();
+      const reader = connectWithKey(['read']);
+      const id = createWebhook();
+
+      // Act & Assert
+      expect(() => gateway.acknowledge(tokenClient, { id })).toThrow(
+        ForbiddenException,
+      );
+      expect(() => gateway.delete(tokenClient, { id })).toThrow(
+        ForbiddenException,
+      );
+      expect(() => gateway.acknowledge(reader, { id })).toThrow(
+        ForbiddenException,
+      );
+      expect(() => gateway.delete(reader, { id })).toThrow(ForbiddenException);
+      expect(service.findOne(id).status).toBe('received');
+    });
+
+    /**
+     * Test: A key bound to other sources can't touch the webhook
+     */
+    it('should refuse changes to webhooks of other sources', () => {
+      // Arrange
+      const client = connectWithKey(['admin'], ['github']);
+      const id = createWebhook('stripe');
+
+      // Act & Assert
+      expect(() => gateway.acknowledge(client, { id })).toThrow(
+        ForbiddenException,
+      );
+      expect(() => gateway.delete(client, { id })).toThrow(ForbiddenException);
+    });
+
+    /**
+     * Test: A webhook claimed by a worker can only be acknowledged with
+     * its lease
+     */
+    it('should respect leases', () => {
+      // Arrange
+      const client = connectWithKey(['read', 'process']);
+      const id = createWebhook();
+      const { leaseId } = leases.claim({ max: 1 });
+
+      // Act & Assert
+      expect(() => gateway.acknowledge(client, { id })).toThrow(
+        ConflictException,
+      );
+      expect(gateway.acknowledge(client, { id, leaseId }).data.status).toBe(
+        'processed',
+      );
+    });
+  });
+});
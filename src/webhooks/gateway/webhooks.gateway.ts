@@ -0,0 +1,464 @@
+/**
+ * Webhooks Gateway (WebSocket)
+ *
+ * A two-way channel for dashboards: clients subscribe to source/event
+ * topics, receive new webhooks as they are stored, and acknowledge or
+ * delete them without separate HTTP calls.
+ *
+ * URL: ws://<host>:<port>/api/v1/webhooks/ws
+ *
+ * Every message, both ways, is JSON: { "event": "<name>", "data": {...} }
+ *
+ * Client -> server:
+ * - auth         { token }           - Must come first (see below)
+ * - subscribe    { source?, event? } - Receive webhooks matching the topic
+ * - unsubscribe  { source?, event? } - Stop receiving a topic
+ * - ack          { id, leaseId? }    - Acknowledge a webhook as processed
+ * - delete       { id }              - Delete a webhook
+ *
+ * Server -> client:
+ * - authenticated, subscribed, unsubscribed, acknowledged, deleted - replies
+ * - webhook  - A new webhook matching at least one topic (sent once)
+ * - error    - A message failed (see WsExceptionFilter)
+ *
+ * Topics use the filters of GET /webhooks/stream: source is an exact match,
+ * event may contain "*" wildcards, and an omitted field matches everything.
+ *
+ * Auth handshake: a client must send a valid "auth" message within
+ * WS_AUTH_TIMEOUT_MS of connecting, or it is disconnected (close code 4401).
+ * The token is either an API key with the "read" scope, or one of the
+ * shared WS_AUTH_TOKENS:
+ * - API key clients are held to the same rules as over HTTP: "ack" needs
+ *   the "process" scope, "delete" the "delete" scope, and a key bound to
+ *   sources only receives, acknowledges and deletes webhooks of those
+ * - WS_AUTH_TOKENS clients can't tell who they are, so they are read-only:
+ *   they may subscribe, but not acknowledge or delete
+ * Leases apply either way: a webhook claimed by a worker can only be
+ * acknowledged with its leaseId.
+ *
+ * Rate limiting: global guards only cover HTTP, so RateLimitGuard is applied
+ * here explicitly - every message counts as a request from the client's IP,
+ * against the "default" limit (RATE_LIMIT_MAX / RATE_LIMIT_WINDOW_MS, or
+ * the "default" entry of RATE_LIMITS).
+ *
+ * Configuration:
+ * - WS_AUTH_TOKENS: Comma-separated read-only tokens accepted by "auth"
+ * - WS_AUTH_TIMEOUT_MS: Time allowed for the auth message (default: 10000)
+ */
+import {
+  Logger,
+  OnModuleDestroy,
+  UseFilters,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WsException,
+  WsResponse,
+} from '@nestjs/websockets';
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+import { WebSocket } from 'ws';
+import { WebhooksService } from '../webhooks.service';
+import { WebhookStreamService } from '../stream/webhook-stream.service';
+import { matchesWebhookQuery } from '../storage/webhook-filter';
+import {
+  RateLimitedSocket,
+  RateLimitGuard,
+} from '../../common/guards/rate-limit.guard';
+import { WsExceptionFilter } from '../../common/filters/ws-exception.filter';
+import {
+  getClientIp,
+  getTrustedProxies,
+} from '../../common/utils/client-ip.util';
+import { CidrList } from '../../common/utils/cidr.util';
+import {
+  ApiAuthContext,
+  assertScope,
+  assertSourceAccess,
+  canAccessSource,
+} from '../../common/guards/api-key.guard';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { ApiKeyScope } from '../../api-keys/interfaces/api-key.interface';
+import { GatewayAuthDto } from '../dto/gateway-auth.dto';
+import { GatewayAckWebhookDto } from '../dto/gateway-ack-webhook.dto';
+import { GatewayWebhookIdDto } from '../dto/gateway-webhook-id.dto';
+import { StreamWebhooksDto } from '../dto/stream-webhooks.dto';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** Close code for clients that failed (or never sent) the auth message */
+export const WS_UNAUTHORIZED_CLOSE_CODE = 4401;
+
+/** Most topics one client can subscribe to */
+const MAX_TOPICS_PER_CLIENT = 50;
+
+/**
+ * A connected client
+ */
+type GatewayClient = WebSocket & RateLimitedSocket;
+
+/**
+ * What the gateway tracks for each connected client
+ */
+interface ClientState {
+  /** Whether the client sent a valid auth message */
+  authenticated: boolean;
+
+  /** The client's API key (undefined for read-only WS_AUTH_TOKENS clients) */
+  auth?: ApiAuthContext;
+
+  /** Subscribed topics, keyed by topicKey() */
+  topics: Map<string, StreamWebhooksDto>;
+
+  /** Disconnects the client if it doesn't authenticate in time */
+  authTimer?: NodeJS.Timeout;
+}
+
+@WebSocketGateway({ path: '/api/v1/webhooks/ws' })
+@UseGuards(RateLimitGuard)
+@UseFilters(WsExceptionFilter)
+@UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+export class WebhooksGateway
+  implements OnGatewayConnection, OnGatewayDisconnect, OnModuleDestroy
+{
+  /** Logger instance for this class */
+  private readonly logger = new Logger(WebhooksGateway.name);
+
+  /** Connected clients and their state */
+  private readonly clients = new Map<GatewayClient, ClientState>();
+
+  /** SHA-256 digests of the accepted tokens (compared in constant time) */
+  private readonly tokenDigests: Buffer[];
+
+  /** Time allowed for the auth message */
+  private readonly authTimeoutMs: number;
+
+  /** Proxies whose X-Forwarded-For entries are believed */
+  private readonly trustedProxies: CidrList = getTrustedProxies();
+
+  /** Stops receiving webhooks from the stream service */
+  private readonly stopListening: () => void;
+
+  /**
+   * Constructor - reads the tokens and starts listening for new webhooks
+   *
+   * @param webhooksService - Acknowledges and deletes webhooks
+   * @param apiKeys - Looks up the API keys clients authenticate with
+   * @param stream - Publishes every newly stored webhook
+   */
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly apiKeys: ApiKeysService,
+    stream: WebhookStreamService,
+  ) {
+    this.tokenDigests = (process.env.WS_AUTH_TOKENS || '')
+      .split(',')
+      .map((token) => token.trim())
+      .filter((token) => token.length > 0)
+      .map((token) => this.digest(token));
+    this.authTimeoutMs = parseInt(
+      process.env.WS_AUTH_TIMEOUT_MS || '10000',
+      10,
+    );
+
+    if (this.tokenDigests.length === 0) {
+      this.logger.warn(
+        'No WS_AUTH_TOKENS configured. Only API keys can authenticate WebSocket clients.',
+      );
+    }
+
+    this.stopListening = stream.listen((webhook) => this.broadcast(webhook));
+  }
+
+  /**
+   * Called when the application shuts down - stop receiving webhooks
+   */
+  onModuleDestroy(): void {
+    this.stopListening();
+  }
+
+  /**
+   * A client connected - start its auth timer
+   *
+   * @param client - The new client
+   * @param request - The HTTP upgrade request (used for the client's IP)
+   */
+  handleConnection(client: GatewayClient, request: IncomingMessage): void {
+    client.clientIp = getClientIp(request, this.trustedProxies);
+
+    const state: ClientState = { authenticated: false, topics: new Map() };
+    state.authTimer = setTimeout(() => {
+      this.logger.warn(
+        `WebSocket client ${client.clientIp} did not authenticate`,
+      );
+      client.close(WS_UNAUTHORIZED_CLOSE_CODE, 'Authentication timeout');
+    }, this.authTimeoutMs);
+    this.clients.set(client, state);
+  }
+
+  /**
+   * A client disconnected - forget it
+   *
+   * @param client - The client that left
+   */
+  handleDisconnect(client: GatewayClient): void {
+    const state = this.clients.get(client);
+    clearTimeout(state?.authTimer);
+    this.clients.delete(client);
+  }
+
+  /**
+   * "auth" - Authenticate with an API key or a token from WS_AUTH_TOKENS
+   *
+   * A wrong token, or an API key without the "read" scope, closes the
+   * connection (close code 4401).
+   *
+   * @param client - The sending client
+   * @param body - { token }
+   * @returns { event: "authenticated" }
+   */
+  @SubscribeMessage('auth')
+  authenticate(
+    @ConnectedSocket() client: GatewayClient,
+    @MessageBody() body: GatewayAuthDto,
+  ): WsResponse<Record<string, never>> | undefined {
+    const state = this.getState(client);
+
+    const apiKey = this.apiKeys.authenticate(body.token);
+    if (apiKey && !this.apiKeys.hasScope(apiKey, 'read')) {
+      this.logger.warn(
+        `WebSocket client ${client.clientIp} sent an API key without the "read" scope`,
+      );
+      client.close(
+        WS_UNAUTHORIZED_CLOSE_CODE,
+        'API key lacks the "read" scope',
+      );
+      return undefined;
+    }
+
+    const digest = this.digest(body.token);
+    if (
+      !apiKey &&
+      !this.tokenDigests.some((known) => timingSafeEqual(known, digest))
+    ) {
+      this.logger.warn(
+        `WebSocket client ${client.clientIp} sent an invalid token`,
+      );
+      client.close(WS_UNAUTHORIZED_CLOSE_CODE, 'Invalid token');
+      return undefined;
+    }
+
+    clearTimeout(state.authTimer);
+    state.authenticated = true;
+    state.auth = apiKey ? { apiKey, requireSignature: false } : undefined;
+    this.logger.log(
+      `WebSocket client ${client.clientIp} authenticated (${this.clients.size} connected)`,
+    );
+    return { event: 'authenticated', data: {} };
+  }
+
+  /**
+   * "subscribe" - Receive new webhooks matching a topic
+   *
+   * @param client - The sending client
+   * @param topic - { source?, event? } (no data = every webhook)
+   * @returns { event: "subscribed", data: { source, event, topics } }
+   * @throws ForbiddenException if the API key is bound to other sources
+   */
+  @SubscribeMessage('subscribe')
+  subscribe(
+    @ConnectedSocket() client: GatewayClient,
+    @MessageBody() topic: StreamWebhooksDto = {},
+  ): WsResponse<StreamWebhooksDto & { topics: number }> {
+    const { topics, auth } = this.getAuthenticatedState(client);
+    if (topic.source !== undefined) {
+      assertSourceAccess(auth, topic.source);
+    }
+    const key = this.topicKey(topic);
+    if (!topics.has(key) && topics.size >= MAX_TOPICS_PER_CLIENT) {
+      throw new WsException(
+        `Too many topics (max ${MAX_TOPICS_PER_CLIENT} per client)`,
+      );
+    }
+
+    topics.set(key, { source: topic.source, event: topic.event });
+    return {
+      event: 'subscribed',
+      data: { source: topic.source, event: topic.event, topics: topics.size },
+    };
+  }
+
+  /**
+   * "unsubscribe" - Stop receiving a topic
+   *
+   * @param client - The sending client
+   * @param topic - { source?, event? } (as sent with "subscribe")
+   * @returns { event: "unsubscribed", data: { source, event, topics } }
+   */
+  @SubscribeMessage('unsubscribe')
+  unsubscribe(
+    @ConnectedSocket() client: GatewayClient,
+    @MessageBody() topic: StreamWebhooksDto = {},
+  ): WsResponse<StreamWebhooksDto & { topics: number }> {
+    const { topics } = this.getAuthenticatedState(client);
+    if (!topics.delete(this.topicKey(topic))) {
+      throw new WsException('Not subscribed to this topic');
+    }
+
+    return {
+      event: 'unsubscribed',
+      data: { source: topic.source, event: topic.event, topics: topics.size },
+    };
+  }
+
+  /**
+   * "ack" - Acknowledge a webhook as processed (like POST /webhooks/:id/ack)
+   *
+   * @param client - The sending client
+   * @param body - { id, leaseId? }
+   * @returns { event: "acknowledged", data: { id, status, processedAt } }
+   * @throws ForbiddenException without an API key with the "process"
+   *   scope, or if it is bound to other sources
+   * @throws ConflictException if the webhook is leased to another worker
+   */
+  @SubscribeMessage('ack')
+  acknowledge(
+    @ConnectedSocket() client: GatewayClient,
+    @MessageBody() body: GatewayAckWebhookDto,
+  ): WsResponse<Pick<Webhook, 'id' | 'status' | 'processedAt'>> {
+    this.assertMayChange(client, 'process', body.id);
+    const webhook = this.webhooksService.acknowledge(body.id, body.leaseId);
+    return {
+      event: 'acknowledged',
+      data: {
+        id: webhook.id,
+        status: webhook.status,
+        processedAt: webhook.processedAt,
+      },
+    };
+  }
+
+  /**
+   * "delete" - Delete a webhook
+   *
+   * @param client - The sending client
+   * @param body - { id }
+   * @returns { event: "deleted", data: { id } }
+   * @throws ForbiddenException without an API key with the "delete" scope,
+   *   or if it is bound to other sources
+   */
+  @SubscribeMessage('delete')
+  delete(
+    @ConnectedSocket() client: GatewayClient,
+    @MessageBody() body: GatewayWebhookIdDto,
+  ): WsResponse<{ id: string }> {
+    this.assertMayChange(client, 'delete', body.id);
+    this.webhooksService.delete(body.id);
+    return { event: 'deleted', data: { id: body.id } };
+  }
+
+  /**
+   * Send a new webhook to every authenticated client with a matching topic
+   * (and, for API keys bound to sources, one of the webhook's source)
+   *
+   * @param webhook - The newly stored webhook
+   */
+  private broadcast(webhook: Webhook): void {
+    let message: string | undefined;
+
+    this.clients.forEach((state, client) => {
+      if (
+        !state.authenticated ||
+        client.readyState !== WebSocket.OPEN ||
+        !canAccessSource(state.auth, webhook.source) ||
+        ![...state.topics.values()].some((topic) =>
+          matchesWebhookQuery(webhook, topic),
+        )
+      ) {
+        return;
+      }
+      message ??= JSON.stringify({ event: 'webhook', data: webhook });
+      client.send(message);
+    });
+  }
+
+  /**
+   * Get the state of a client
+   *
+   * @param client - A connected client
+   * @returns Its state
+   * @throws WsException if the client is unknown (already disconnected)
+   */
+  private getState(client: GatewayClient): ClientState {
+    const state = this.clients.get(client);
+    if (!state) {
+      throw new WsException('Not connected');
+    }
+    return state;
+  }
+
+  /**
+   * Get the state of a client that must be authenticated
+   *
+   * @param client - A connected client
+   * @returns Its state
+   * @throws WsException if the client has not authenticated
+   */
+  private getAuthenticatedState(client: GatewayClient): ClientState {
+    const state = this.getState(client);
+    if (!state.authenticated) {
+      throw new WsException('Not authenticated - send "auth" first');
+    }
+    return state;
+  }
+
+  /**
+   * Refuse a change to a webhook the client's API key may not make - the
+   * checks ApiKeyGuard and WebhooksController make for the HTTP route
+   *
+   * @param client - A connected client
+   * @param scope - The scope the change needs
+   * @param id - The webhook UUID
+   * @throws WsException if the client has not authenticated
+   * @throws ForbiddenException without an API key with the scope (shared
+   *   WS_AUTH_TOKENS clients are read-only), or if it is bound to other
+   *   sources than the webhook's
+   * @throws NotFoundException if the webhook doesn't exist
+   */
+  private assertMayChange(
+    client: GatewayClient,
+    scope: ApiKeyScope,
+    id: string,
+  ): void {
+    const { auth } = this.getAuthenticatedState(client);
+    assertScope(auth, scope);
+    assertSourceAccess(auth, this.webhooksService.findOne(id).source);
+  }
+
+  /**
+   * Identify a topic, so subscribing twice to it counts once
+   *
+   * @param topic - { source?, event? }
+   * @returns A key unique to the topic
+   */
+  private topicKey(topic: StreamWebhooksDto): string {
+    return JSON.stringify([topic.source ?? null, topic.event ?? null]);
+  }
+
+  /**
+   * Hash a token, so every comparison has the same length
+   *
+   * @param token - A token
+   * @returns Its SHA-256 digest
+   */
+  private digest(token: string): Buffer {
+    return createHash('sha256').update(token).digest();
+  }
+}
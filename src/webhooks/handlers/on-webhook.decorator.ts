@@ -0,0 +1,52 @@
+/**
+ * OnWebhook Decorator
+ *
+ * Marks a provider method as an in-process webhook handler. After
+ * WebhooksService stores a webhook whose source and event match the
+ * patterns, the method is called with the webhook - in the background,
+ * so it never delays or fails the response to the sender.
+ *
+ * The class only has to be a provider of some module in the application;
+ * WebhookHandlersExplorer finds the decorated methods on startup.
+ *
+ * Usage:
+ *   @Injectable()
+ *   export class PaymentHandlers {
+ *     @OnWebhook('stripe', 'payment.*', { timeoutMs: 5000 })
+ *     async onPayment(webhook: Webhook): Promise<void> { ... }
+ *   }
+ */
+import { SetMetadata } from '@nestjs/common';
+import { WebhookHandlerOptions } from '../interfaces/webhook-handler.interface';
+
+/** Metadata key under which @OnWebhook() stores its arguments */
+export const ON_WEBHOOK_METADATA = 'webhooks:on-webhook';
+
+/**
+ * What @OnWebhook() stores on the decorated method
+ */
+export interface OnWebhookMetadata extends WebhookHandlerOptions {
+  /** Source pattern ("*" matches any characters) */
+  source: string;
+
+  /** Event pattern ("*" matches any characters) */
+  event: string;
+}
+
+/**
+ * Register a method as a handler for matching webhooks
+ *
+ * @param source - Source pattern (default: every source)
+ * @param event - Event pattern, e.g. "payment.*" (default: every event)
+ * @param options - Per-handler concurrency and timeout
+ */
+export const OnWebhook = (
+  source = '*',
+  event = '*',
+  options: WebhookHandlerOptions = {},
+) =>
+  SetMetadata<string, OnWebhookMetadata>(ON_WEBHOOK_METADATA, {
+    source,
+    event,
+    ...options,
+  });
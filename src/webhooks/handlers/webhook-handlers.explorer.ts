@@ -0,0 +1,74 @@
+/**
+ * Webhook Handlers Explorer
+ *
+ * Finds every provider method decorated with @OnWebhook() when the
+ * application starts and registers it with WebhookHandlersService.
+ *
+ * Kept apart from WebhookHandlersService so the service itself doesn't
+ * depend on Nest's DiscoveryModule (and is easy to use in tests).
+ */
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { WebhookHandlersService } from './webhook-handlers.service';
+import { ON_WEBHOOK_METADATA, OnWebhookMetadata } from './on-webhook.decorator';
+
+@Injectable()
+export class WebhookHandlersExplorer implements OnModuleInit {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(WebhookHandlersExplorer.name);
+
+  /**
+   * Constructor - NestJS automatically injects the dependencies
+   *
+   * @param discovery - Lists every provider of the application
+   * @param metadataScanner - Lists the methods of a provider
+   * @param reflector - Reads the @OnWebhook() metadata
+   * @param handlers - Where the handlers are registered
+   */
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    private readonly handlers: WebhookHandlersService,
+  ) {}
+
+  /**
+   * Register the decorated methods of every provider
+   */
+  onModuleInit(): void {
+    for (const wrapper of this.discovery.getProviders()) {
+      const instance: unknown = wrapper.instance;
+      // Request-scoped providers have no single instance to call
+      if (
+        !instance ||
+        typeof instance !== 'object' ||
+        !wrapper.isDependencyTreeStatic()
+      ) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance) as Record<
+        string,
+        unknown
+      >;
+      for (const method of this.metadataScanner.getAllMethodNames(prototype)) {
+        const metadata = this.reflector.get<OnWebhookMetadata | undefined>(
+          ON_WEBHOOK_METADATA,
+          prototype[method] as () => unknown,
+        );
+        if (!metadata) {
+          continue;
+        }
+
+        const handle = prototype[method] as (webhook: unknown) => unknown;
+        this.handlers.register({
+          ...metadata,
+          name: `${instance.constructor.name}.${method}`,
+          handle: handle.bind(instance),
+        });
+      }
+    }
+
+    this.logger.log(`${this.handlers.count()} webhook handler(s) registered`);
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Webhook Handlers Tests
+ *
+ * These tests verify the in-process @OnWebhook() handlers:
+ * - Discovering decorated provider methods
+ * - Running matching handlers and recording their outcomes
+ * - Timeouts, the concurrency limits and the queue limit
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { WebhookHandlersService } from './webhook-handlers.service';
+import { WebhookHandlersExplorer } from './webhook-handlers.explorer';
+import { OnWebhook } from './on-webhook.decorator';
+import { WebhooksStorage } from '../webhooks.storage';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+import { WebhookHandler } from '../interfaces/webhook-handler.interface';
+
+/** Create a stored webhook */
+const createTestWebhook = (
+  id: string,
+  source = 'stripe',
+  event = 'payment.succeeded',
+): Webhook => ({
+  id,
+  source,
+  event,
+  payload: {},
+  receivedAt: new Date(),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+});
+
+/** A handler for every webhook, with the given implementation */
+const createTestHandler = (
+  name: string,
+  handle: WebhookHandler['handle'],
+  options: Partial<WebhookHandler> = {},
+): WebhookHandler => ({ name, source: '*', event: '*', handle, ...options });
+
+/** A promise that can be resolved from the outside */
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+};
+
+/** Let queued runs start (they start on the next event loop turn) */
+const nextTurn = () => new Promise((resolve) => setImmediate(resolve));
+
+/** A provider with decorated methods, found by the explorer */
+@Injectable()
+class PaymentHandlers {
+  readonly handled: string[] = [];
+
+  @OnWebhook('stripe', 'payment.*', { timeoutMs: 500 })
+  onPayment(webhook: Webhook): void {
+    this.handled.push(webhook.id);
+  }
+
+  @OnWebhook()
+  onAnything(): void {}
+
+  notAHandler(): void {}
+}
+
+describe('WebhookHandlersService', () => {
+  let storage: InMemoryWebhooksStorage;
+  let service: WebhookHandlersService;
+
+  /** Store a webhook and dispatch it */
+  const dispatch = (webhook: Webhook) => {
+    storage.save(webhook);
+    return service.dispatch(webhook);
+  };
+
+  beforeEach(() => {
+    storage = new InMemoryWebhooksStorage();
+    service = new WebhookHandlersService(storage);
+  });
+
+  afterEach(() => {
+    delete process.env.HANDLER_CONCURRENCY;
+    delete process.env.HANDLER_TIMEOUT_MS;
+    delete process.env.HANDLER_MAX_QUEUE;
+  });
+
+  // ==================== Discovery Tests ====================
+  describe('@OnWebhook', () => {
+    /**
+     * Test: Decorated methods of any provider are registered on startup
+     *
+     * They run bound to their provider, under "Class.method"
+     */
+    it('should register decorated provider methods', async () => {
+      // Arrange
+      const module = await Test.createTestingModule({
+        imports: [DiscoveryModule],
+        providers: [
+          WebhookHandlersService,
+          WebhookHandlersExplorer,
+          PaymentHandlers,
+          { provide: WebhooksStorage, useValue: storage },
+        ],
+      }).compile();
+      await module.init();
+      service = module.get(WebhookHandlersService);
+      const handlers = module.get(PaymentHandlers);
+
+      // Act
+      await dispatch(createTestWebhook('w-1'));
+      await dispatch(createTestWebhook('w-2', 'github', 'push'));
+
+      // Assert
+      expect(service.count()).toBe(2);
+      expect(handlers.handled).toEqual(['w-1']);
+      expect(
+        storage.getById('w-1')?.handlerRuns?.map((run) => run.handler),
+      ).toEqual(['PaymentHandlers.onPayment', 'PaymentHandlers.onAnything']);
+      expect(
+        storage.getById('w-2')?.handlerRuns?.map((run) => run.handler),
+      ).toEqual(['PaymentHandlers.onAnything']);
+    });
+  });
+
+  // ==================== Outcome Tests ====================
+  describe('outcomes', () => {
+    /**
+     * Test: Every run is recorded on the webhook
+     *
+     * Sync and async errors are recorded as failed, never thrown
+     */
+    it('should record succeeded and failed runs', async () => {
+      // Arrange
+      service.register(createTestHandler('ok', () => undefined));
+      service.register(
+        createTestHandler('sync-error', () => {
+          throw new Error('Customer not found');
+        }),
+      );
+      service.register(
+        createTestHandler('async-error', () =>
+          Promise.reject(new Error('Database down')),
+        ),
+      );
+
+      // Act
+      await dispatch(createTestWebhook('w-1'));
+
+      // Assert
+      const runs = storage.getById('w-1')!.handlerRuns!;
+      expect(runs).toHaveLength(3);
+      expect(runs.find((run) => run.handler === 'ok')).toEqual({
+        handler: 'ok',
+        status: 'succeeded',
+        startedAt: expect.any(Date),
+        durationMs: expect.any(Number),
+      });
+      expect(runs.find((run) => run.handler === 'sync-error')).toMatchObject({
+        status: 'failed',
+        error: 'Customer not found',
+      });
+      expect(runs.find((run) => run.handler === 'async-error')).toMatchObject({
+        status: 'failed',
+        error: 'Database down',
+      });
+    });
+
+    /**
+     * Test: A handler that takes too long is recorded as timed out
+     */
+    it('should time out slow handlers', async () => {
+      // Arrange
+      process.env.HANDLER_TIMEOUT_MS = '20';
+      service = new WebhookHandlersService(storage);
+      service.register(createTestHandler('hangs', () => new Promise(() => {})));
+
+      // Act
+      await dispatch(createTestWebhook('w-1'));
+
+      // Assert
+      expect(storage.getById('w-1')?.handlerRuns).toEqual([
+        expect.objectContaining({
+          handler: 'hangs',
+          status: 'timed_out',
+          error: 'Handler timed out after 20ms',
+        }),
+      ]);
+    });
+
+    /**
+     * Test: Only handlers whose patterns match run
+     */
+    it('should only run matching handlers', async () => {
+      // Arrange
+      const handle = jest.fn();
+      service.register(
+        createTestHandler('payments', handle, {
+          source: 'stripe',
+          event: 'payment.*',
+        }),
+      );
+
+      // Act
+      await dispatch(createTestWebhook('w-1', 'stripe', 'invoice.paid'));
+
+      // Assert
+      expect(handle).not.toHaveBeenCalled();
+      expect(storage.getById('w-1')?.handlerRuns).toBeUndefined();
+    });
+
+    /**
+     * Test: Handlers start after dispatch() returns
+     *
+     * So the request that stored the webhook is answered first
+     */
+    it('should run handlers in the background', async () => {
+      // Arrange
+      const handle = jest.fn();
+      service.register(createTestHandler('later', handle));
+
+      // Act
+      const done = dispatch(createTestWebhook('w-1'));
+
+      // Assert
+      expect(handle).not.toHaveBeenCalled();
+      await done;
+      expect(handle).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ==================== Limit Tests ====================
+  describe('limits', () => {
+    /**
+     * Test: At most HANDLER_CONCURRENCY runs happen at once
+     */
+    it('should limit concurrent runs', async () => {
+      // Arrange
+      process.env.HANDLER_CONCURRENCY = '2';
+      service = new WebhookHandlersService(storage);
+      const gate = deferred();
+      let running = 0;
+      let peak = 0;
+      service.register(
+        createTestHandler('slow', async () => {
+          peak = Math.max(peak, ++running);
+          await gate.promise;
+          running--;
+        }),
+      );
+
+      // Act
+      const done = Promise.all(
+        [1, 2, 3, 4].map((i) => dispatch(createTestWebhook(`w-${i}`))),
+      );
+      await nextTurn();
+
+      // Assert
+      expect(running).toBe(2);
+      gate.resolve();
+      await done;
+      expect(peak).toBe(2);
+    });
+
+    /**
+     * Test: A handler's own concurrency limit leaves room for others
+     */
+    it('should apply per-handler concurrency', async () => {
+      // Arrange
+      const gate = deferred();
+      const serial = jest.fn(() => gate.promise);
+      const parallel = jest.fn();
+      service.register(createTestHandler('serial', serial, { concurrency: 1 }));
+      service.register(createTestHandler('parallel', parallel));
+
+      // Act
+      const done = Promise.all([
+        dispatch(createTestWebhook('w-1')),
+        dispatch(createTestWebhook('w-2')),
+      ]);
+      await nextTurn();
+
+      // Assert
+      expect(serial).toHaveBeenCalledTimes(1);
+      expect(parallel).toHaveBeenCalledTimes(2);
+      gate.resolve();
+      await done;
+      expect(serial).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Test: A run that can't record its outcome still frees its slot, so
+     * the runs queued behind it start
+     */
+    it('should free the slot when recording a run fails', async () => {
+      // Arrange
+      process.env.HANDLER_CONCURRENCY = '1';
+      service = new WebhookHandlersService(storage);
+      const handle = jest.fn();
+      service.register(createTestHandler('handler', handle));
+      jest.spyOn(storage, 'getById').mockImplementationOnce(() => {
+        throw new Error('Storage unavailable');
+      });
+      const errorSpy = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => undefined);
+
+      // Act
+      await Promise.all([
+        dispatch(createTestWebhook('w-1')),
+        dispatch(createTestWebhook('w-2')),
+      ]);
+
+      // Assert
+      expect(handle).toHaveBeenCalledTimes(2);
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('w-1'),
+        expect.any(Error),
+      );
+      expect(storage.getById('w-2')?.handlerRuns?.[0].status).toBe('succeeded');
+      errorSpy.mockRestore();
+    });
+
+    /**
+     * Test: Runs over HANDLER_MAX_QUEUE are dropped (and recorded)
+     */
+    it('should drop runs when the queue is full', async () => {
+      // Arrange
+      process.env.HANDLER_MAX_QUEUE = '1';
+      service = new WebhookHandlersService(storage);
+      service.register(createTestHandler('handler', () => undefined));
+
+      // Act
+      await Promise.all([
+        dispatch(createTestWebhook('w-1')),
+        dispatch(createTestWebhook('w-2')),
+      ]);
+
+      // Assert
+      expect(storage.getById('w-1')?.handlerRuns?.[0].status).toBe('succeeded');
+      expect(storage.getById('w-2')?.handlerRuns?.[0].status).toBe('dropped');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Webhook Handlers Service
+ *
+ * Runs the in-process @OnWebhook() handlers for stored webhooks.
+ *
+ * - WebhooksService calls dispatch() after storing a new webhook
+ * - Every handler whose source and event patterns match gets a run
+ * - Runs start in the background, after the current request has been
+ *   answered - a slow or throwing handler never changes the response
+ * - At most HANDLER_CONCURRENCY runs happen at once (and at most the
+ *   handler's own `concurrency`); the rest wait in a queue
+ * - A run that takes longer than its timeout counts as timed out (it can't
+ *   be cancelled, but it stops holding a concurrency slot)
+ * - Every outcome is recorded on the webhook (Webhook.handlerRuns)
+ *
+ * Configuration:
+ * - HANDLER_CONCURRENCY: Runs at the same time, across handlers (default: 10)
+ * - HANDLER_TIMEOUT_MS: Default timeout of one run (default: 10000)
+ * - HANDLER_MAX_QUEUE: Runs waiting before new ones are dropped (default: 1000)
+ */
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { WebhooksStorage } from '../webhooks.storage';
+import { matchesPattern } from '../../common/utils/pattern.util';
+import { Webhook } from '../interfaces/webhook.interface';
+import {
+  WebhookHandler,
+  WebhookHandlerRun,
+  WebhookHandlerRunStatus,
+} from '../interfaces/webhook-handler.interface';
+
+/** A handler run waiting for a free slot */
+interface QueuedRun {
+  handler: WebhookHandler;
+  webhook: Webhook;
+
+  /** Called once the run has finished and been recorded */
+  done: () => void;
+}
+
+@Injectable()
+export class WebhookHandlersService implements OnModuleDestroy {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(WebhookHandlersService.name);
+
+  /** Registered handlers, in registration order */
+  private readonly handlers: WebhookHandler[] = [];
+
+  /** Runs waiting for a free slot, oldest first */
+  private readonly queue: QueuedRun[] = [];
+
+  /** Runs in progress, per handler name */
+  private readonly running: Map<string, number> = new Map();
+
+  /** Runs in progress, across handlers */
+  private active = 0;
+
+  /** Set on shutdown - no new runs are started afterwards */
+  private stopped = false;
+
+  /** Max runs at the same time */
+  private readonly concurrency: number;
+
+  /** Default timeout of one run */
+  private readonly timeoutMs: number;
+
+  /** Max runs waiting in the queue */
+  private readonly maxQueue: number;
+
+  /**
+   * Constructor - reads the limits from the environment
+   *
+   * @param storage - Where the outcomes are recorded
+   */
+  constructor(private readonly storage: WebhooksStorage) {
+    this.concurrency = parseInt(process.env.HANDLER_CONCURRENCY || '10', 10);
+    this.timeoutMs = parseInt(process.env.HANDLER_TIMEOUT_MS || '10000', 10);
+    this.maxQueue = parseInt(process.env.HANDLER_MAX_QUEUE || '1000', 10);
+  }
+
+  /**
+   * Register a handler (WebhookHandlersExplorer does this for every
+   * @OnWebhook() method)
+   *
+   * @param handler - The handler and its patterns
+   */
+  register(handler: WebhookHandler): void {
+    this.handlers.push(handler);
+    this.logger.log(
+      `Handler ${handler.name} registered for ${handler.source}/${handler.event}`,
+    );
+  }
+
+  /**
+   * Get the number of registered handlers
+   *
+   * @returns How many handlers are registered
+   */
+  count(): number {
+    return this.handlers.length;
+  }
+
+  /**
+   * Run every matching handler for a stored webhook, in the background
+   *
+   * @param webhook - The webhook that was just stored
+   * @returns Resolves once every run has finished and been recorded
+   *   (never rejects - handler errors are recorded, not thrown)
+   */
+  dispatch(webhook: Webhook): Promise<void> {
+    const matching = this.handlers.filter(
+      (handler) =>
+        matchesPattern(webhook.source, handler.source) &&
+        matchesPattern(webhook.event, handler.event),
+    );
+    if (matching.length === 0 || this.stopped) {
+      return Promise.resolve();
+    }
+
+    const runs = matching.map((handler) => this.enqueue(handler, webhook));
+    // Start on the next turn of the event loop, after the response is sent
+    setImmediate(() => this.startQueued());
+    return Promise.all(runs).then(() => undefined);
+  }
+
+  /**
+   * Drop queued runs when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.stopped = true;
+    this.queue.splice(0).forEach((run) => run.done());
+  }
+
+  /**
+   * Queue a run, or record it as dropped if the queue is full
+   *
+   * @param handler - The matching handler
+   * @param webhook - The stored webhook
+   * @returns Resolves when the run has finished
+   */
+  private enqueue(handler: WebhookHandler, webhook: Webhook): Promise<void> {
+    if (this.queue.length >= this.maxQueue) {
+      this.logger.warn(
+        `Handler queue full (${this.maxQueue}), dropped ${handler.name} for webhook ${webhook.id}`,
+      );
+      this.record(webhook, {
+        handler: handler.name,
+        status: 'dropped',
+        startedAt: new Date(),
+        durationMs: 0,
+      });
+      return Promise.resolve();
+    }
+
+    return new Promise((done) => this.queue.push({ handler, webhook, done }));
+  }
+
+  /**
+   * Start queued runs while there are free slots
+   *
+   * A run whose handler is at its own concurrency limit stays queued;
+   * runs of other handlers behind it may start first.
+   */
+  private startQueued(): void {
+    let index = 0;
+    while (index < this.queue.length && this.active < this.concurrency) {
+      const { handler } = this.queue[index];
+      const limit = handler.concurrency ?? this.concurrency;
+      if ((this.running.get(handler.name) ?? 0) >= limit) {
+        index++;
+        continue;
+      }
+      const [run] = this.queue.splice(index, 1);
+      void this.run(run);
+    }
+  }
+
+  /**
+   * Run a handler once, record the outcome and free the slot
+   *
+   * Never rejects: startQueued() doesn't wait for runs, so an error here
+   * (e.g. storage failing to record the outcome) is logged, and the slot
+   * is freed whatever happens - otherwise it would be lost for good.
+   *
+   * @param run - The queued run
+   */
+  private async run({ handler, webhook, done }: QueuedRun): Promise<void> {
+    this.active++;
+    this.running.set(handler.name, (this.running.get(handler.name) ?? 0) + 1);
+
+    try {
+      const startedAt = new Date();
+      const { status, error } = await this.callWithTimeout(handler, webhook);
+      const durationMs = Date.now() - startedAt.getTime();
+
+      if (status === 'succeeded') {
+        this.logger.log(
+          `Handler ${handler.name} succeeded for webhook ${webhook.id} (${durationMs}ms)`,
+        );
+      } else {
+        this.logger.warn(
+          `Handler ${handler.name} ${status} for webhook ${webhook.id}: ${error}`,
+        );
+      }
+      this.record(webhook, {
+        handler: handler.name,
+        status,
+        startedAt,
+        durationMs,
+        ...(error !== undefined && { error }),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Handler ${handler.name} run for webhook ${webhook.id} could not be completed`,
+        error,
+      );
+    } finally {
+      this.active--;
+      this.running.set(handler.name, this.running.get(handler.name)! - 1);
+
+      done();
+      if (!this.stopped) {
+        this.startQueued();
+      }
+    }
+  }
+
+  /**
+   * Call a handler and wait for it, at most for its timeout
+   *
+   * @param handler - The handler to call
+   * @param webhook - The stored webhook
+   * @returns How the run ended (never rejects)
+   */
+  private callWithTimeout(
+    handler: WebhookHandler,
+    webhook: Webhook,
+  ): Promise<{ status: WebhookHandlerRunStatus; error?: string }> {
+    const timeoutMs = handler.timeoutMs ?? this.timeoutMs;
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(
+        () =>
+          resolve({
+            status: 'timed_out',
+            error: `Handler timed out after ${timeoutMs}ms`,
+          }),
+        timeoutMs,
+      );
+      timer.unref(); // Don't keep the process alive just for the timeout
+
+      // Promise.resolve().then() also catches synchronous throws
+      Promise.resolve()
+        .then(() => handler.handle(webhook))
+        .then(
+          () => resolve({ status: 'succeeded' }),
+          (error: unknown) =>
+            resolve({
+              status: 'failed',
+              error: error instanceof Error ? error.message : String(error),
+            }),
+        )
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
+  /**
+   * Add a run to the webhook's handlerRuns
+   *
+   * Reads the webhook again, so other changes made meanwhile (e.g. an ack)
+   * are kept. Webhooks deleted meanwhile are skipped.
+   *
+   * @param webhook - The webhook the handler ran for
+   * @param run - The outcome
+   */
+  private record(webhook: Webhook, run: WebhookHandlerRun): void {
+    const stored = this.storage.getById(webhook.id);
+    if (!stored) {
+      return;
+    }
+    stored.handlerRuns = [...(stored.handlerRuns ?? []), run];
+    this.storage.save(stored);
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Idempotency Key Resolver
+ *
+ * Providers retry deliveries (timeouts, 5xx responses, manual redelivery).
+ * Each retry carries the same delivery ID, so we use it as an idempotency key
+ * and store each delivery only once.
+ *
+ * Where the key comes from (first match wins):
+ * 1. The Idempotency-Key header (any source)
+ * 2. A per-source rule:
+ *    - github  -> X-GitHub-Delivery header
+ *    - shopify -> X-Shopify-Webhook-Id header
+ *    - stripe  -> payload.id (the event ID)
+ *    - slack   -> payload.event_id
+ *
+ * Extra rules can be configured with the IDEMPOTENCY_KEYS env variable:
+ *   IDEMPOTENCY_KEYS=billing:header:x-delivery-id,orders:payload:data.order.id
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import { IncomingHttpHeaders } from 'http';
+import { getHeader } from '../verifiers/verifier.utils';
+import { getValueAtPath } from '../../common/utils/object-path.util';
+
+/**
+ * Where to find the idempotency key for one source
+ */
+interface IdempotencyKeyRule {
+  /** Read the key from a request header, or from a field in the payload */
+  from: 'header' | 'payload';
+
+  /** Lower-case header name, or dot path into the payload */
+  path: string;
+}
+
+/** Keys longer than this are ignored (protects the storage index) */
+const MAX_KEY_LENGTH = 255;
+
+@Injectable()
+export class IdempotencyKeyResolver {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(IdempotencyKeyResolver.name);
+
+  /** Generic header accepted from every source */
+  readonly header = 'idempotency-key';
+
+  /** Per-source rules, keyed by source name */
+  private readonly rules: Map<string, IdempotencyKeyRule> = new Map([
+    ['github', { from: 'header', path: 'x-github-delivery' }],
+    ['shopify', { from: 'header', path: 'x-shopify-webhook-id' }],
+    ['stripe', { from: 'payload', path: 'id' }],
+    ['slack', { from: 'payload', path: 'event_id' }],
+  ]);
+
+  /**
+   * Constructor - adds the rules configured in IDEMPOTENCY_KEYS
+   */
+  constructor() {
+    // Format: "source:header:name,source:payload:dot.path"
+    (process.env.IDEMPOTENCY_KEYS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [source, from, path] = entry.split(':').map((p) => p.trim());
+        if (!source || !path || (from !== 'header' && from !== 'payload')) {
+          this.logger.warn(
+            `Ignoring malformed IDEMPOTENCY_KEYS entry: ${entry}`,
+          );
+          return;
+        }
+        this.rules.set(source, {
+          from,
+          path: from === 'header' ? path.toLowerCase() : path,
+        });
+      });
+  }
+
+  /**
+   * Find the idempotency key of an incoming webhook
+   *
+   * @param source - The webhook source
+   * @param headers - Request headers
+   * @param payload - The webhook payload
+   * @returns The key, or undefined if the delivery has none
+   */
+  resolve(
+    source: string,
+    headers: IncomingHttpHeaders,
+    payload: Record<string, unknown>,
+  ): string | undefined {
+    // 1. An explicit Idempotency-Key header always wins
+    const explicit = getHeader(headers, this.header);
+    if (explicit) {
+      return this.normalize(explicit);
+    }
+
+    // 2. The source's own delivery ID
+    const rule = this.rules.get(source);
+    if (!rule) {
+      return undefined;
+    }
+
+    const value =
+      rule.from === 'header'
+        ? getHeader(headers, rule.path)
+        : getValueAtPath(payload, rule.path);
+
+    // Only plain strings and numbers make sensible keys
+    if (typeof value === 'string' || typeof value === 'number') {
+      return this.normalize(String(value));
+    }
+    return undefined;
+  }
+
+  /**
+   * Trim a key and drop it if it is empty or too long
+   *
+   * @param key - The raw key
+   * @returns The usable key, or undefined
+   */
+  private normalize(key: string): string | undefined {
+    const trimmed = key.trim();
+    if (trimmed === '' || trimmed.length > MAX_KEY_LENGTH) {
+      return undefined;
+    }
+    return trimmed;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Dead Letter Interfaces
+ *
+ * A dead letter is a webhook whose processing failed for good
+ * (e.g. forwarding to a subscription ran out of retries). It keeps the
+ * original webhook and the failure history, so it can be inspected and
+ * replayed later.
+ */
+import { Webhook } from './webhook.interface';
+import { DeliveryAttempt } from '../../forwarding/interfaces/subscription.interface';
+
+/**
+ * Which stage of the pipeline gave up on the webhook
+ *
+ * - forwarding: Delivery to a subscription failed after all retries
+ */
+export type DeadLetterOrigin = 'forwarding';
+
+/**
+ * A webhook parked after a permanent failure
+ */
+export interface DeadLetter {
+  /** Unique identifier (UUID v4) of the dead letter itself */
+  id: string;
+
+  /** The original webhook, as it was when it failed */
+  webhook: Webhook;
+
+  /** Which stage failed */
+  origin: DeadLetterOrigin;
+
+  /** Short description of the failure */
+  reason: string;
+
+  /** The subscription that could not be reached (forwarding only) */
+  subscriptionId?: string;
+
+  /** Every failed attempt, oldest first */
+  failures: DeliveryAttempt[];
+
+  /** When the webhook was dead-lettered */
+  createdAt: Date;
+}
+
+/**
+ * Dead Letters List Response Interface
+ *
+ * The response returned when listing dead letters.
+ */
+export interface DeadLettersListResponse {
+  /** Dead letters on the current page, newest first */
+  deadLetters: DeadLetter[];
+
+  /** Number of dead letters in this response (current page) */
+  count: number;
+
+  /** Current page number (1-indexed) */
+  page: number;
+
+  /** Number of items per page */
+  limit: number;
+
+  /** Total number of pages available */
+  totalPages: number;
+
+  /** Exact number of dead letters matching the filters (across all pages) */
+  total: number;
+
+  /**
+   * Cursor for the next page (pass it back as ?cursor=...),
+   * or null on the last page
+   */
+  nextCursor: string | null;
+}
@@ -0,0 +1,55 @@
+/**
+ * IP Allowlist Interfaces
+ *
+ * An allowlist limits which networks may post webhooks for a source, e.g.
+ * only GitHub's published hook ranges for "github". Sources without an
+ * allowlist accept webhooks from anywhere.
+ */
+
+/**
+ * Why a webhook was refused by its source's allowlist
+ *
+ * - ip_not_allowed: The client's address is outside every allowed range
+ * - ip_unresolved: The client's address couldn't be determined, so it
+ *   can't be checked
+ */
+export type IpRejectionReason = 'ip_not_allowed' | 'ip_unresolved';
+
+/**
+ * Allowlist refusals since startup
+ */
+export interface IpAllowlistStats {
+  /** Refused for coming from outside the allowed ranges */
+  notAllowed: number;
+
+  /** Refused because the client's address was unknown */
+  unresolved: number;
+}
+
+/**
+ * An allowlist in GET /admin/ip-allowlists
+ */
+export interface IpAllowlistSummary {
+  /** Source pattern the allowlist applies to ("*" matches any characters) */
+  source: string;
+
+  /** The allowed ranges, as "address/prefix" */
+  ranges: string[];
+
+  /** Webhooks refused by this allowlist since startup */
+  rejected: IpAllowlistStats;
+}
+
+/**
+ * Response of GET /admin/ip-allowlists
+ */
+export interface IpAllowlistStatusResponse {
+  /** Proxies whose X-Forwarded-For entries are believed (TRUSTED_PROXIES) */
+  trustedProxies: string[];
+
+  /** The allowlists, in match order */
+  allowlists: IpAllowlistSummary[];
+
+  /** Refusals of all allowlists since startup */
+  rejected: IpAllowlistStats;
+}
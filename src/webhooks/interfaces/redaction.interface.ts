@@ -0,0 +1,99 @@
+/**
+ * Redaction Interfaces
+ *
+ * Redaction rules take sensitive values (card fingerprints, emails,
+ * addresses, ...) out of payloads before they are stored. A rule applies
+ * to a source + event, points at fields with a JSON path or a key name
+ * pattern, and masks, hashes or drops what it finds.
+ */
+
+/**
+ * What a rule does to the values it finds
+ *
+ * - mask: Replace with asterisks, keeping the last 4 characters of
+ *   strings longer than 8 (e.g. "************4242")
+ * - hash: Replace with "sha256:<hex>", the HMAC-SHA256 of the value under
+ *   REDACTION_HASH_KEY, so equal values can still be matched
+ * - drop: Remove the key (array items become null, so indexes hold)
+ */
+export type RedactionAction = 'mask' | 'hash' | 'drop';
+
+/**
+ * A field a rule redacted in a stored webhook
+ */
+export interface RedactedField {
+  /** Where the value was, as a JSON path (e.g. "$.customer.email") */
+  path: string;
+
+  /** What was done to it */
+  action: RedactionAction;
+}
+
+/**
+ * How a stored webhook was redacted
+ */
+export interface WebhookRedaction {
+  /** The redacted fields, in the order the rules applied */
+  fields: RedactedField[];
+
+  /**
+   * The original values of fields whose rule keeps them encrypted
+   * (AES-256-GCM with REDACTION_ENCRYPTION_KEY), along with the raw body.
+   * Only readers with the "read:unredacted" scope get them back.
+   */
+  sealed?: string;
+}
+
+/**
+ * What is left of a payload to store, once the rules applied
+ */
+export interface RedactedPayload {
+  /** The payload (a redacted copy when a rule found something) */
+  payload: Record<string, unknown>;
+
+  /** The raw body (undefined when the payload was redacted) */
+  rawBody?: string;
+
+  /** How the payload was redacted (undefined when it wasn't) */
+  redaction?: WebhookRedaction;
+}
+
+/**
+ * A rule in GET /admin/redaction
+ */
+export interface RedactionRuleSummary {
+  /** Source pattern ("*" matches any characters) */
+  source: string;
+
+  /** Event pattern ("*" matches any characters) */
+  event: string;
+
+  /** JSON path (starting with "$") or key name pattern */
+  target: string;
+
+  /** What the rule does to the values it finds */
+  action: RedactionAction;
+
+  /** Whether the original values are kept, encrypted */
+  encrypt: boolean;
+
+  /** Values redacted by this rule since startup */
+  redacted: number;
+}
+
+/**
+ * Response of GET /admin/redaction
+ */
+export interface RedactionStatusResponse {
+  /** Whether REDACTION_ENCRYPTION_KEY is set, so originals can be kept */
+  encryption: boolean;
+
+  /** Whether REDACTION_HASH_KEY is set (hash rules need it) */
+  keyedHashes: boolean;
+
+  /** The rules, in the order they apply */
+  rules: RedactionRuleSummary[];
+
+  /** Webhooks redacted since startup */
+  webhooks: number;
+}
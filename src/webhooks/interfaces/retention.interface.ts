@@ -0,0 +1,76 @@
+/**
+ * Retention Interfaces
+ *
+ * Retention rules say how long stored webhooks are kept (by age) and how
+ * many are kept (by count). The retention sweeper deletes what falls
+ * outside them and reports it through GET /admin/retention.
+ */
+
+/**
+ * How long and how many webhooks are kept
+ *
+ * A limit of 0 means "no limit".
+ */
+export interface RetentionRule {
+  /** Source pattern the rule applies to ("*" matches any characters) */
+  source: string;
+
+  /** Event pattern the rule applies to ("*" matches any characters) */
+  event: string;
+
+  /** Webhooks older than this many milliseconds expire */
+  maxAgeMs: number;
+
+  /** Webhooks kept per source + event pair (the newest ones) */
+  maxCount: number;
+}
+
+/**
+ * A rule in GET /admin/retention
+ */
+export interface RetentionRuleStats extends RetentionRule {
+  /** Webhooks this rule expired since startup */
+  expired: number;
+}
+
+/**
+ * What one sweep deleted
+ */
+export interface RetentionSweepResult {
+  /** When the sweep ran */
+  sweptAt: Date;
+
+  /** How long it took */
+  durationMs: number;
+
+  /** Webhooks deleted for being older than maxAgeMs */
+  expiredByAge: number;
+
+  /** Webhooks deleted for being past maxCount */
+  expiredByCount: number;
+
+  /** Webhooks the MAX_WEBHOOKS_STORAGE limit evicted since the sweep before */
+  evictedByStorageLimit: number;
+}
+
+/**
+ * Response of GET /admin/retention
+ */
+export interface RetentionStatusResponse {
+  /** How often the sweeper runs, in milliseconds */
+  sweepIntervalMs: number;
+
+  /** The per source/event rules in match order, then the global default */
+  rules: RetentionRuleStats[];
+
+  /** Sweeps run since startup */
+  sweeps: number;
+
+  /** Totals since startup (see RetentionSweepResult) */
+  expiredByAge: number;
+  expiredByCount: number;
+  evictedByStorageLimit: number;
+
+  /** The most recent sweep, if any ran yet */
+  lastSweep?: RetentionSweepResult;
+}
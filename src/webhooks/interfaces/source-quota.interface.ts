@@ -0,0 +1,55 @@
+/**
+ * Source Quota Interfaces
+ *
+ * A quota caps how much storage one source may use, so a single noisy
+ * source can't take the space every other source needs.
+ */
+
+/**
+ * What happens to a webhook that would put its source over quota
+ *
+ * - evict: The source's oldest webhooks are deleted to make room
+ * - reject: The webhook is refused with 507 Insufficient Storage
+ * - throttle: The webhook is refused with 429 Too Many Requests, so the
+ *   sender retries later (e.g. after retention has freed space)
+ */
+export type QuotaPolicy = 'evict' | 'reject' | 'throttle';
+
+/**
+ * The storage quota of a source
+ *
+ * A limit of 0 means "no limit".
+ */
+export interface SourceQuota {
+  /** Webhooks the source may store */
+  maxCount: number;
+
+  /** Total payload bytes the source may store */
+  maxBytes: number;
+
+  /** What happens when a new webhook doesn't fit */
+  policy: QuotaPolicy;
+}
+
+/**
+ * Response of GET /sources/:source/usage
+ */
+export interface SourceUsageResponse {
+  /** The webhook source */
+  source: string;
+
+  /** Stored webhooks from the source */
+  count: number;
+
+  /** Total size of their payloads, in bytes of JSON */
+  payloadBytes: number;
+
+  /** The quota that applies to the source */
+  quota: SourceQuota;
+
+  /** Webhooks of the source evicted to stay within quota since startup */
+  evicted: number;
+
+  /** Webhooks of the source refused for being over quota since startup */
+  rejected: number;
+}
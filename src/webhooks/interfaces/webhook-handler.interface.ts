@@ -0,0 +1,67 @@
+/**
+ * Webhook Handler Interfaces
+ *
+ * In-process handlers are provider methods decorated with @OnWebhook().
+ * They run in the background after a webhook is stored, and the outcome of
+ * every run is recorded on the webhook (see Webhook.handlerRuns).
+ */
+import { Webhook } from './webhook.interface';
+
+/**
+ * Options of @OnWebhook()
+ */
+export interface WebhookHandlerOptions {
+  /** Max runs of this handler at the same time (default: HANDLER_CONCURRENCY) */
+  concurrency?: number;
+
+  /** How long one run may take (ms) before it counts as timed out (default: HANDLER_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+/**
+ * A registered handler
+ */
+export interface WebhookHandler extends WebhookHandlerOptions {
+  /** Name recorded with every run, e.g. "PaymentHandlers.onPayment" */
+  name: string;
+
+  /** Source pattern ("*" matches any characters) */
+  source: string;
+
+  /** Event pattern ("*" matches any characters, e.g. "payment.*") */
+  event: string;
+
+  /** The handler itself (already bound to its provider) */
+  handle: (webhook: Webhook) => unknown;
+}
+
+/**
+ * Outcome of a handler run
+ *
+ * - succeeded: The handler returned (or its promise resolved)
+ * - failed: The handler threw (or its promise rejected)
+ * - timed_out: The handler didn't finish within its timeout
+ * - dropped: Never run, because the handler queue was full
+ */
+export type WebhookHandlerRunStatus =
+  'succeeded' | 'failed' | 'timed_out' | 'dropped';
+
+/**
+ * One run of a handler for a webhook
+ */
+export interface WebhookHandlerRun {
+  /** The handler's name */
+  handler: string;
+
+  /** How the run ended */
+  status: WebhookHandlerRunStatus;
+
+  /** When the run started (when it was dropped, for dropped runs) */
+  startedAt: Date;
+
+  /** How long the run took (ms) */
+  durationMs: number;
+
+  /** Error message (failed and timed out runs) */
+  error?: string;
+}
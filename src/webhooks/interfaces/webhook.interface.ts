@@ -4,6 +4,11 @@
  * Defines the shape of a stored webhook object.
  * This is the main data model for webhooks in our system.
  */
+import { WebhookHandlerRun } from './webhook-handler.interface';
+import { SchemaValidationError } from '../../schemas/interfaces/payload-schema.interface';
+import { IpAllowlistStats } from './ip-allowlist.interface';
+import { WebhookRedaction } from './redaction.interface';
+
 export interface Webhook {
   /** Unique identifier (UUID v4) for the webhook */
   id: string;
@@ -20,13 +25,117 @@ export interface Webhook {
   /** Timestamp when we received the webhook */
   receivedAt: Date;
 
-  /** The signature header value (if provided) for verification */
+  /** The signature header value (if provided) for verification - the header depends on the scheme */
   signature?: string;
 
   /** Whether the webhook signature was successfully verified */
   verified: boolean;
+
+  /**
+   * Which signature scheme was applied to this webhook
+   * (e.g. "hmac-sha256", "stripe", "github", "shopify", "slack")
+   */
+  signatureScheme?: string;
+
+  /**
+   * Version of the signing secret that verified this webhook
+   * (only set when verified - see SecretsService for rotation)
+   */
+  secretVersion?: number;
+
+  /**
+   * The exact request body as received (UTF-8), before any parsing.
+   * Kept so the signature can be verified again later - unless the
+   * payload was redacted, as it would give the values away.
+   */
+  rawBody?: string;
+
+  /** SHA-256 hash (hex) of the raw request body, for integrity checks */
+  rawBodySha256?: string;
+
+  /**
+   * Provider delivery ID used to deduplicate retries
+   * (Idempotency-Key header, X-GitHub-Delivery, Stripe event ID, ...)
+   */
+  idempotencyKey?: string;
+
+  /** How many duplicate deliveries of this webhook were received */
+  duplicateCount: number;
+
+  /** When the most recent duplicate delivery was received */
+  lastDuplicateAt?: Date;
+
+  /**
+   * When this webhook was released from quarantine into normal storage
+   * (only set for webhooks that were quarantined and then promoted)
+   */
+  promotedAt?: Date;
+
+  /**
+   * Where downstream consumers are with this webhook
+   * (see WebhookStatus - new webhooks start as "received")
+   */
+  status: WebhookStatus;
+
+  /** When the webhook last moved to "processing" */
+  processingAt?: Date;
+
+  /** When the webhook was acknowledged as processed */
+  processedAt?: Date;
+
+  /** When processing last failed */
+  failedAt?: Date;
+
+  /** Error message of the most recent failure (kept after a later success) */
+  error?: string;
+
+  /**
+   * ID of the lease under which a worker claimed this webhook
+   * (only while it is "processing" through POST /webhooks/claim)
+   */
+  leaseId?: string;
+
+  /** When the lease runs out and the webhook goes back to "received" */
+  leaseExpiresAt?: Date;
+
+  /**
+   * Outcomes of the in-process @OnWebhook() handlers that ran for this
+   * webhook, in the order they finished
+   */
+  handlerRuns?: WebhookHandlerRun[];
+
+  /**
+   * How the payload doesn't match the schema of its source + event
+   * (only set when it doesn't, and the schema's policy is "flag")
+   */
+  validationErrors?: SchemaValidationError[];
+
+  /**
+   * Which payload fields the redaction rules masked, hashed or dropped
+   * before storage (only set when a rule matched)
+   */
+  redaction?: WebhookRedaction;
 }
 
+/**
+ * Processing status of a stored webhook
+ *
+ * - received: Stored, not picked up by a consumer yet
+ * - processing: A consumer is working on it
+ * - processed: A consumer acknowledged it as handled (final)
+ * - failed: A consumer reported an error (can be retried)
+ */
+export type WebhookStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+/**
+ * What happens to a webhook whose signature did not verify
+ *
+ * - accept: Store it normally with verified: false
+ * - quarantine: Store it in the separate quarantine storage, outside GET /webhooks
+ * - reject: Return 401 and store nothing
+ */
+export type VerificationPolicy = 'accept' | 'quarantine' | 'reject';
+
 /**
  * Webhook Response Interface
  *
@@ -39,6 +148,18 @@ export interface WebhookResponse {
 
   /** Confirmation message */
   message: string;
+
+  /**
+   * true when this delivery was a duplicate of an already stored webhook
+   * (the returned id is the original one, and the status is 200 instead of 201)
+   */
+  duplicate?: boolean;
+
+  /**
+   * true when the webhook was not verified and went to quarantine
+   * (the status is 202 instead of 201)
+   */
+  quarantined?: boolean;
 }
 
 /**
@@ -62,4 +183,89 @@ export interface WebhooksListResponse {
 
   /** Total number of pages available */
   totalPages: number;
+
+  /** Exact number of webhooks matching the filters (across all pages) */
+  total: number;
+
+  /**
+   * Cursor for the next page (pass it back as ?cursor=...),
+   * or null on the last page
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Claim Response Interface
+ *
+ * The response returned by POST /webhooks/claim: a batch of webhooks
+ * leased to one worker until expiresAt.
+ */
+export interface ClaimResponse {
+  /** ID of the lease - needed to ack, fail, extend or release its webhooks */
+  leaseId: string;
+
+  /** When the lease runs out unless it is extended */
+  expiresAt: Date;
+
+  /** The claimed webhooks, oldest first (empty when nothing is waiting) */
+  webhooks: Webhook[];
+}
+
+/**
+ * Replay Stats Interface
+ *
+ * Counters of requests rejected as replays (valid signature, but reused).
+ */
+export interface ReplayStats {
+  /** Signed timestamp was outside the tolerance window */
+  staleTimestamps: number;
+
+  /** Signature was already seen within the tolerance window */
+  duplicateSignatures: number;
+}
+
+/**
+ * Webhook Stats Response Interface
+ *
+ * The response returned by GET /webhooks/stats.
+ */
+export interface WebhookStatsResponse {
+  /** Number of webhooks currently stored */
+  stored: number;
+
+  /** Number of webhooks currently held in quarantine */
+  inQuarantine: number;
+
+  /** Signature verification outcomes since the service started */
+  verification: {
+    /** Webhooks whose signature verified */
+    verified: number;
+
+    /** Webhooks stored without a valid signature (missing or wrong) */
+    unverified: number;
+
+    /** Unverified webhooks sent to quarantine (policy: quarantine) */
+    quarantined: number;
+
+    /** Unverified webhooks refused with 401 (policy: reject) */
+    rejected: number;
+
+    /** Requests rejected as replays (not stored) */
+    replaysRejected: ReplayStats;
+  };
+
+  /** Payloads that didn't match their schema since the service started */
+  schemaValidation: {
+    /** Refused with 400 (policy: reject) */
+    rejected: number;
+
+    /** Stored with validationErrors attached (policy: flag) */
+    flagged: number;
+
+    /** Stored unchanged (policy: ignore) */
+    ignored: number;
+  };
+
+  /** Webhooks refused by their source's IP allowlist since the service started */
+  ipAllowlist: IpAllowlistStats;
 }
@@ -0,0 +1,117 @@
+/**
+ * Webhooks Storage Interfaces
+ *
+ * Shapes shared by every WebhooksStorage driver (in-memory, JSONL file, SQLite).
+ * Keeping them here means the service and all drivers agree on the same
+ * query contract, no matter where the data actually lives.
+ */
+import { Webhook, WebhookStatus } from './webhook.interface';
+import { CursorPosition } from '../../common/utils/cursor.util';
+
+/**
+ * The storage drivers that can be selected with the STORAGE_DRIVER env variable
+ *
+ * - memory: Map in process memory (data is lost on restart)
+ * - jsonl: In-memory Map backed by an append-only JSON Lines file
+ * - sqlite: Embedded SQLite database file
+ */
+export type StorageDriver = 'memory' | 'jsonl' | 'sqlite';
+
+/**
+ * Options accepted by WebhooksStorage.getAll()
+ */
+export interface WebhookQueryOptions {
+  /** Page number (1-indexed, ignored when `after` is set) */
+  page?: number;
+
+  /** Number of items per page */
+  limit?: number;
+
+  /**
+   * Keyset pagination: only return webhooks that come after this position
+   * in newest-first (receivedAt, id) order - i.e. the next page after the
+   * webhook the position points at
+   */
+  after?: CursorPosition;
+
+  /**
+   * Walk the list oldest-first instead of newest-first
+   * (`after` then continues towards newer webhooks)
+   */
+  oldestFirst?: boolean;
+
+  /** Filter by source (exact match) */
+  source?: string;
+
+  /**
+   * Filter by event type
+   * Exact match, or a pattern where "*" matches any characters
+   * (e.g. "payment.*", "*.failed")
+   */
+  event?: string;
+
+  /** Only webhooks received at or after this time */
+  receivedAfter?: Date;
+
+  /** Only webhooks received before this time */
+  receivedBefore?: Date;
+
+  /** Only verified (true) or unverified (false) webhooks */
+  verified?: boolean;
+
+  /** Only webhooks with this processing status */
+  status?: WebhookStatus;
+
+  /**
+   * Payload field filters: dot path -> expected value, compared as text
+   * (e.g. { "data.status": "failed" } matches payload.data.status === "failed")
+   */
+  payload?: Record<string, string>;
+
+  /**
+   * Count every match into `total`
+   *
+   * Counting visits every match, not just the page, so only callers that
+   * show the total (the list endpoints) ask for it.
+   */
+  withTotal?: boolean;
+}
+
+/**
+ * Result returned by WebhooksStorage.getAll()
+ */
+export interface WebhookQueryResult {
+  /** The webhooks on the requested page */
+  webhooks: Webhook[];
+
+  /**
+   * Total number of webhooks matching the filters (across all pages),
+   * only counted with `withTotal`
+   */
+  total?: number;
+
+  /** Whether more matching webhooks follow this page */
+  hasMore: boolean;
+}
+
+/**
+ * What one source takes up in storage (see WebhooksStorage.getSourceUsage())
+ */
+export interface SourceUsage {
+  /** Number of stored webhooks from the source */
+  count: number;
+
+  /** Total size of their payloads, in bytes of JSON (see payloadSize()) */
+  payloadBytes: number;
+}
+
+/**
+ * Options passed to a storage driver when it is created
+ */
+export interface StorageDriverOptions {
+  /** Maximum number of webhooks to keep (defaults to MAX_WEBHOOKS_STORAGE) */
+  maxStorageSize?: number;
+
+  /** Path of the backing file (only used by the jsonl and sqlite drivers) */
+  filePath?: string;
+}
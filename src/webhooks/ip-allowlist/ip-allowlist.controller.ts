@@ -0,0 +1,33 @@
+/**
+ * IP Allowlist Controller (Admin API)
+ *
+ * Shows the trusted proxies and per-source IP allowlists, and how many
+ * webhooks each allowlist refused.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET /admin/ip-allowlists - Trusted proxies, allowlists and refusals
+ */
+import { Controller, Get } from '@nestjs/common';
+import { IpAllowlistService } from './ip-allowlist.service';
+import { IpAllowlistStatusResponse } from '../interfaces/ip-allowlist.interface';
+
+@Controller('admin/ip-allowlists')
+export class IpAllowlistController {
+  /**
+   * Constructor - NestJS automatically injects the service
+   *
+   * @param ipAllowlistService - The service holding the allowlists
+   */
+  constructor(private readonly ipAllowlistService: IpAllowlistService) {}
+
+  /**
+   * GET /admin/ip-allowlists
+   *
+   * @returns The trusted proxies, the allowlists in match order with the
+   *   webhooks each refused since startup, and the totals
+   */
+  @Get()
+  getStatus(): IpAllowlistStatusResponse {
+    return this.ipAllowlistService.getStatus();
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * IP Allowlist Guard
+ *
+ * Refuses webhooks posted from outside their source's IP allowlist
+ * (see IpAllowlistService), before they reach WebhooksService.create.
+ *
+ * Applied to POST /webhooks and POST /webhooks/:source with @UseGuards().
+ * Guards run before the ValidationPipe, so the source is read from the
+ * route param or the raw body; a missing or non-string source is left for
+ * validation to reject.
+ */
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { IpAllowlistService } from './ip-allowlist.service';
+
+@Injectable()
+export class IpAllowlistGuard implements CanActivate {
+  /**
+   * Constructor - NestJS automatically injects the service
+   *
+   * @param ipAllowlists - Holds the allowlists of the sources
+   */
+  constructor(private readonly ipAllowlists: IpAllowlistService) {}
+
+  /**
+   * Check the client's address against the source's allowlist
+   *
+   * @param context - Provides access to the request object
+   * @returns true if the request is allowed
+   * @throws ForbiddenException if the address is not allowed
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    const source =
+      request.params?.source ??
+      (request.body as { source?: unknown } | undefined)?.source;
+    if (typeof source === 'string') {
+      this.ipAllowlists.check(
+        source,
+        this.ipAllowlists.resolveClientIp(request),
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * IP Allowlist Service Tests
+ *
+ * These tests verify the per-source IP allowlists:
+ * - IPv4 and IPv6 CIDR ranges, including IPv4-mapped addresses
+ * - Distinct refusals for disallowed and unknown addresses, counted
+ * - Resolving the client's address through trusted proxies only
+ */
+import { ForbiddenException } from '@nestjs/common';
+import { IncomingMessage } from 'http';
+import { IpAllowlistService } from './ip-allowlist.service';
+
+/** Run check() and return the refusal reason (undefined if allowed) */
+const refusal = (
+  service: IpAllowlistService,
+  source: string,
+  clientIp: string,
+): string | undefined => {
+  try {
+    service.check(source, clientIp);
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ForbiddenException);
+    return ((error as ForbiddenException).getResponse() as { reason: string })
+      .reason;
+  }
+};
+
+/** A request from a connection, with an optional X-Forwarded-For header */
+const request = (remoteAddress: string, forwardedFor?: string) =>
+  ({
+    socket: { remoteAddress },
+    headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {},
+  }) as unknown as IncomingMessage;
+
+describe('IpAllowlistService', () => {
+  let service: IpAllowlistService;
+
+  beforeEach(() => {
+    process.env.SOURCE_IP_ALLOWLISTS =
+      'github:192.30.252.0/22+2a0a:a440::/29, internal-*:10.0.0.7, bad:10.0.0.0/33';
+    service = new IpAllowlistService();
+  });
+
+  afterEach(() => {
+    delete process.env.SOURCE_IP_ALLOWLISTS;
+    delete process.env.TRUSTED_PROXIES;
+  });
+
+  // ==================== check() Tests ====================
+  describe('check', () => {
+    /**
+     * Test: Addresses inside the ranges are allowed, in IPv4 and IPv6
+     */
+    it('should allow addresses in the source ranges', () => {
+      expect(refusal(service, 'github', '192.30.255.254')).toBeUndefined();
+      expect(refusal(service, 'github', '::ffff:192.30.252.1')).toBeUndefined();
+      expect(refusal(service, 'github', '2a0a:a447::1')).toBeUndefined();
+      expect(refusal(service, 'internal-billing', '10.0.0.7')).toBeUndefined();
+    });
+
+    /**
+     * Test: Other addresses are refused, and unknown ones separately
+     */
+    it('should refuse other and unknown addresses with their own reason', () => {
+      expect(refusal(service, 'github', '192.30.251.255')).toBe(
+        'ip_not_allowed',
+      );
+      expect(refusal(service, 'github', '2a0a:a448::1')).toBe('ip_not_allowed');
+      expect(refusal(service, 'github', 'unknown')).toBe('ip_unresolved');
+      expect(service.getStats()).toEqual({ notAllowed: 2, unresolved: 1 });
+    });
+
+    /**
+     * Test: Sources without an allowlist (or a malformed one) are open
+     */
+    it('should allow any address for sources without an allowlist', () => {
+      expect(refusal(service, 'stripe', '203.0.113.9')).toBeUndefined();
+      expect(refusal(service, 'bad', '203.0.113.9')).toBeUndefined();
+      expect(service.getStatus().allowlists.map((a) => a.source)).toEqual([
+        'github',
+        'internal-*',
+      ]);
+    });
+  });
+
+  // ==================== resolveClientIp() Tests ====================
+  describe('resolveClientIp', () => {
+    /**
+     * Test: X-Forwarded-For is ignored unless it came from a trusted proxy
+     */
+    it('should ignore X-Forwarded-For without trusted proxies', () => {
+      expect(
+        service.resolveClientIp(request('203.0.113.9', '192.30.252.1')),
+      ).toBe('203.0.113.9');
+    });
+
+    /**
+     * Test: Trusted proxies are skipped from the right; the first address
+     * they vouch for that isn't a proxy is the client - whatever the
+     * client itself put in front of it
+     */
+    it('should walk X-Forwarded-For back through trusted proxies', () => {
+      // Arrange
+      process.env.TRUSTED_PROXIES = '10.0.0.0/8,fd00::/8';
+      service = new IpAllowlistService();
+
+      // Act
+      const clientIp = service.resolveClientIp(
+        request('10.0.0.2', '1.2.3.4, 192.30.252.1, fd00::5'),
+      );
+
+      // Assert
+      expect(clientIp).toBe('192.30.252.1');
+      expect(service.getStatus().trustedProxies).toEqual([
+        '10.0.0.0/8',
+        'fd00::/8',
+      ]);
+    });
+  });
+});
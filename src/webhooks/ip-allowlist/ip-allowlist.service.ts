@@ -0,0 +1,184 @@
+/**
+ * IP Allowlist Service
+ *
+ * Limits which networks may post webhooks for a source. IpAllowlistGuard
+ * checks every POST /webhooks against the allowlist of its source before
+ * WebhooksService.create runs, so refused requests never reach
+ * verification or storage.
+ *
+ * - The first allowlist whose source pattern matches applies
+ * - Sources without an allowlist accept webhooks from anywhere
+ * - Refusals are 403s with a reason of their own (ip_not_allowed,
+ *   ip_unresolved), counted per allowlist
+ *
+ * The client's address is resolved with the trusted proxies (see
+ * getClientIp): without TRUSTED_PROXIES, the address of the connection
+ * is checked, so behind a load balancer it must be listed there.
+ *
+ * Configuration:
+ * - SOURCE_IP_ALLOWLISTS: Allowlists as "source:range+range", comma
+ *   separated. Ranges are IPv4 or IPv6 addresses or CIDR ranges; sources
+ *   accept "*" patterns
+ *   (e.g. "github:192.30.252.0/22+185.199.108.0/22+2a0a:a440::/29")
+ * - TRUSTED_PROXIES: Proxies whose X-Forwarded-For entries are believed
+ */
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { IncomingMessage } from 'http';
+import { matchesPattern } from '../../common/utils/pattern.util';
+import { CidrList, parseCidrList } from '../../common/utils/cidr.util';
+import {
+  getClientIp,
+  getTrustedProxies,
+} from '../../common/utils/client-ip.util';
+import {
+  IpAllowlistStats,
+  IpAllowlistStatusResponse,
+  IpRejectionReason,
+} from '../interfaces/ip-allowlist.interface';
+
+/** A SOURCE_IP_ALLOWLISTS entry */
+interface IpAllowlist {
+  /** Source pattern ("*" matches any characters) */
+  source: string;
+
+  /** The allowed ranges */
+  ranges: CidrList;
+
+  /** Webhooks refused by this allowlist since startup */
+  rejected: IpAllowlistStats;
+}
+
+@Injectable()
+export class IpAllowlistService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(IpAllowlistService.name);
+
+  /** Proxies whose X-Forwarded-For entries are believed */
+  private readonly trustedProxies: CidrList;
+
+  /** SOURCE_IP_ALLOWLISTS entries, in match order */
+  private readonly allowlists: IpAllowlist[] = [];
+
+  /**
+   * Constructor - reads the trusted proxies and allowlists from the
+   * environment
+   */
+  constructor() {
+    this.trustedProxies = getTrustedProxies((range) =>
+      this.logger.warn(`Ignoring malformed TRUSTED_PROXIES entry: ${range}`),
+    );
+
+    // Format: "source:range+range,..." - only the first colon separates
+    // the source, as IPv6 ranges contain colons
+    (process.env.SOURCE_IP_ALLOWLISTS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const separator = entry.indexOf(':');
+        const source = entry.slice(0, separator).trim();
+        let malformed = separator <= 0;
+        const ranges = parseCidrList(entry.slice(separator + 1), () => {
+          malformed = true;
+        });
+        if (malformed || ranges.size === 0) {
+          this.logger.warn(
+            `Ignoring malformed SOURCE_IP_ALLOWLISTS entry: ${entry}`,
+          );
+          return;
+        }
+        this.allowlists.push({
+          source,
+          ranges,
+          rejected: { notAllowed: 0, unresolved: 0 },
+        });
+      });
+  }
+
+  /**
+   * Find the IP address of the client behind a request
+   *
+   * @param request - The request
+   * @returns The address, resolved through the trusted proxies
+   */
+  resolveClientIp(request: IncomingMessage & { ip?: string }): string {
+    return getClientIp(request, this.trustedProxies);
+  }
+
+  /**
+   * Make sure a client may post webhooks for a source
+   *
+   * @param source - The webhook source
+   * @param clientIp - The client's address (see resolveClientIp)
+   * @throws ForbiddenException if the source has an allowlist and the
+   *   address is not in it, or unknown
+   */
+  check(source: string, clientIp: string): void {
+    const allowlist = this.allowlists.find((candidate) =>
+      matchesPattern(source, candidate.source),
+    );
+    if (!allowlist) {
+      return;
+    }
+
+    if (clientIp === 'unknown') {
+      allowlist.rejected.unresolved++;
+      this.refuse(source, clientIp, 'ip_unresolved', {
+        message: `Client address unknown, so it can't be checked against the allowlist of ${source}`,
+      });
+    }
+    if (!allowlist.ranges.contains(clientIp)) {
+      allowlist.rejected.notAllowed++;
+      this.refuse(source, clientIp, 'ip_not_allowed', {
+        message: `Source ${source} does not accept webhooks from ${clientIp}`,
+      });
+    }
+  }
+
+  /**
+   * Refusals of all allowlists since startup
+   */
+  getStats(): IpAllowlistStats {
+    return this.allowlists.reduce(
+      (totals, allowlist) => ({
+        notAllowed: totals.notAllowed + allowlist.rejected.notAllowed,
+        unresolved: totals.unresolved + allowlist.rejected.unresolved,
+      }),
+      { notAllowed: 0, unresolved: 0 },
+    );
+  }
+
+  /**
+   * Get the trusted proxies and allowlists, with their refusals
+   *
+   * @returns The configuration and refusals since startup
+   */
+  getStatus(): IpAllowlistStatusResponse {
+    return {
+      trustedProxies: this.trustedProxies.ranges,
+      allowlists: this.allowlists.map((allowlist) => ({
+        source: allowlist.source,
+        ranges: allowlist.ranges.ranges,
+        rejected: { ...allowlist.rejected },
+      })),
+      rejected: this.getStats(),
+    };
+  }
+
+  /**
+   * Log a refused webhook, then throw
+   *
+   * @throws ForbiddenException with the reason
+   */
+  private refuse(
+    source: string,
+    clientIp: string,
+    reason: IpRejectionReason,
+    error: { message: string },
+  ): never {
+    this.logger.warn(
+      `Webhook from ${source} refused: ${reason} (client: ${clientIp})`,
+    );
+    throw new ForbiddenException({ ...error, reason, clientIp });
+  }
+}
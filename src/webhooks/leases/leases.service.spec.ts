@@ -0,0 +1,280 @@
+/**
+ * Leases Service Tests
+ *
+ * These tests verify the claim API behind POST /webhooks/claim:
+ * - Leasing the oldest waiting webhooks, never the same one twice
+ * - Extending and releasing leases
+ * - Expired leases returning their webhooks to the pool
+ * - Refusing to settle webhooks leased to another worker
+ *
+ * Every test runs against the in-memory and the SQLite driver.
+ */
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LeasesService } from './leases.service';
+import { WebhooksStorage } from '../webhooks.storage';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { SqliteWebhooksStorage } from '../storage/sqlite.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** The storage drivers every test runs against */
+const drivers: Array<[string, (dir: string) => Promise<WebhooksStorage>]> = [
+  ['memory', () => Promise.resolve(new InMemoryWebhooksStorage())],
+  [
+    'sqlite',
+    (dir) =>
+      SqliteWebhooksStorage.create({ filePath: join(dir, 'webhooks.sqlite') }),
+  ],
+];
+
+/** Create a stored webhook, received `minute` minutes after noon */
+const createTestWebhook = (
+  id: string,
+  minute: number,
+  overrides?: Partial<Webhook>,
+): Webhook => ({
+  id,
+  source: 'stripe',
+  event: 'payment.succeeded',
+  payload: {},
+  receivedAt: new Date(Date.UTC(2024, 5, 1, 12, minute)),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+  ...overrides,
+});
+
+describe.each(drivers)('LeasesService (%s driver)', (_name, createStorage) => {
+  let storage: WebhooksStorage;
+  let service: LeasesService;
+  let dir: string;
+
+  /** IDs of the webhooks in a claim */
+  const ids = (webhooks: Webhook[]) => webhooks.map((w) => w.id);
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'webhooks-leases-'));
+    storage = await createStorage(dir);
+    jest.useFakeTimers({ now: new Date('2024-06-01T13:00:00.000Z') });
+    process.env.LEASE_VISIBILITY_TIMEOUT_MS = '30000';
+    process.env.LEASE_SWEEP_INTERVAL_MS = '5000';
+    service = new LeasesService(storage);
+
+    storage.save(createTestWebhook('w-1', 1));
+    storage.save(createTestWebhook('w-2', 2));
+    storage.save(createTestWebhook('w-3', 3, { event: 'invoice.paid' }));
+    storage.save(createTestWebhook('w-4', 4, { source: 'github' }));
+    storage.save(createTestWebhook('w-5', 5, { status: 'processed' }));
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    delete process.env.LEASE_VISIBILITY_TIMEOUT_MS;
+    delete process.env.LEASE_SWEEP_INTERVAL_MS;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // ==================== claim() Tests ====================
+  describe('claim', () => {
+    /**
+     * Test: The oldest waiting webhooks are leased
+     *
+     * They become "processing" with the lease's ID and expiry;
+     * processed webhooks are never claimed
+     */
+    it('should lease the oldest received webhooks', () => {
+      // Act
+      const lease = service.claim({ max: 10 });
+
+      // Assert
+      expect(ids(lease.webhooks)).toEqual(['w-1', 'w-2', 'w-3', 'w-4']);
+      expect(lease.expiresAt).toEqual(new Date('2024-06-01T13:00:30.000Z'));
+      const stored = storage.getById('w-1')!;
+      expect(stored.status).toBe('processing');
+      expect(stored.leaseId).toBe(lease.leaseId);
+      expect(stored.leaseExpiresAt).toEqual(lease.expiresAt);
+    });
+
+    /**
+     * Test: source, event and max narrow the claim
+     */
+    it('should apply the filters and the batch size', () => {
+      // Act
+      const payments = service.claim({
+        source: 'stripe',
+        event: 'payment.*',
+        max: 1,
+      });
+
+      // Assert
+      expect(ids(payments.webhooks)).toEqual(['w-1']);
+      expect(storage.getById('w-2')?.status).toBe('received');
+    });
+
+    /**
+     * Test: Claims never hand out the same webhook twice
+     */
+    it('should not lease a webhook that is already leased', () => {
+      // Act
+      const first = service.claim({ max: 2 });
+      const second = service.claim({ max: 10 });
+      const third = service.claim({ max: 10 });
+
+      // Assert
+      expect(ids(first.webhooks)).toEqual(['w-1', 'w-2']);
+      expect(ids(second.webhooks)).toEqual(['w-3', 'w-4']);
+      expect(third.webhooks).toEqual([]);
+      expect(second.leaseId).not.toBe(first.leaseId);
+    });
+
+    /**
+     * Test: visibilityTimeoutMs overrides LEASE_VISIBILITY_TIMEOUT_MS
+     */
+    it('should use the requested visibility timeout', () => {
+      // Act
+      const lease = service.claim({ max: 1, visibilityTimeoutMs: 120000 });
+
+      // Assert
+      expect(lease.expiresAt).toEqual(new Date('2024-06-01T13:02:00.000Z'));
+    });
+  });
+
+  // ==================== Expiry Tests ====================
+  describe('expired leases', () => {
+    /**
+     * Test: A webhook whose lease ran out can be claimed again
+     */
+    it('should return expired webhooks to the pool', () => {
+      // Arrange
+      const first = service.claim({ max: 1 });
+
+      // Act
+      jest.setSystemTime(new Date('2024-06-01T13:00:31.000Z'));
+      const second = service.claim({ max: 1 });
+
+      // Assert
+      expect(ids(second.webhooks)).toEqual(['w-1']);
+      expect(second.webhooks[0].leaseId).toBe(second.leaseId);
+      expect(second.leaseId).not.toBe(first.leaseId);
+    });
+
+    /**
+     * Test: The sweeper releases expired leases without a new claim
+     */
+    it('should release expired leases every LEASE_SWEEP_INTERVAL_MS', () => {
+      // Arrange
+      service.claim({ max: 2 });
+
+      // Act
+      jest.advanceTimersByTime(35000);
+
+      // Assert
+      const stored = storage.getById('w-1')!;
+      expect(stored.status).toBe('received');
+      expect(stored.leaseId).toBeUndefined();
+      expect(stored.leaseExpiresAt).toBeUndefined();
+      expect(storage.getAll({ status: 'processing' }).webhooks).toHaveLength(0);
+    });
+  });
+
+  // ==================== extend() / release() Tests ====================
+  describe('extend and release', () => {
+    /**
+     * Test: Extending restarts the visibility timeout from now
+     */
+    it('should extend a lease', () => {
+      // Arrange
+      const { leaseId } = service.claim({ max: 1 });
+      jest.setSystemTime(new Date('2024-06-01T13:00:20.000Z'));
+
+      // Act
+      const webhook = service.extend('w-1', leaseId, 60000);
+      jest.setSystemTime(new Date('2024-06-01T13:01:00.000Z'));
+
+      // Assert: Still leased after the original expiry
+      expect(webhook.leaseExpiresAt).toEqual(
+        new Date('2024-06-01T13:01:20.000Z'),
+      );
+      expect(ids(service.claim({ max: 1 }).webhooks)).toEqual(['w-2']);
+    });
+
+    /**
+     * Test: Releasing makes the webhook claimable right away
+     */
+    it('should release a webhook', () => {
+      // Arrange
+      const { leaseId } = service.claim({ max: 1 });
+
+      // Act
+      const webhook = service.release('w-1', leaseId);
+
+      // Assert
+      expect(webhook.status).toBe('received');
+      expect(webhook.leaseId).toBeUndefined();
+      expect(ids(service.claim({ max: 1 }).webhooks)).toEqual(['w-1']);
+    });
+
+    /**
+     * Test: Only the current, unexpired lease can extend or release
+     */
+    it('should throw ConflictException for another or an expired lease', () => {
+      // Arrange
+      const first = service.claim({ max: 1 });
+      jest.setSystemTime(new Date('2024-06-01T13:00:31.000Z'));
+      const second = service.claim({ max: 1 });
+
+      // Act & Assert: The first worker's lease is gone
+      expect(() => service.extend('w-1', first.leaseId)).toThrow(
+        ConflictException,
+      );
+      expect(() => service.release('w-1', first.leaseId)).toThrow(
+        ConflictException,
+      );
+
+      // The second one expires too
+      jest.setSystemTime(new Date('2024-06-01T13:01:02.000Z'));
+      expect(() => service.extend('w-1', second.leaseId)).toThrow(
+        ConflictException,
+      );
+    });
+
+    /**
+     * Test: Unknown webhooks are a 404
+     */
+    it('should throw NotFoundException for an unknown webhook', () => {
+      const { leaseId } = service.claim({ max: 1 });
+
+      expect(() => service.release('unknown', leaseId)).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  // ==================== assertNotLeasedElsewhere() Tests ====================
+  describe('assertNotLeasedElsewhere', () => {
+    /**
+     * Test: Only the lease holder may settle a leased webhook
+     *
+     * Once the lease has expired, anyone may
+     */
+    it('should only allow the lease holder while the lease is active', () => {
+      // Arrange
+      const { leaseId } = service.claim({ max: 1 });
+      const webhook = storage.getById('w-1')!;
+
+      // Act & Assert
+      expect(() => service.assertNotLeasedElsewhere(webhook)).toThrow(
+        ConflictException,
+      );
+      expect(() =>
+        service.assertNotLeasedElsewhere(webhook, leaseId),
+      ).not.toThrow();
+
+      jest.setSystemTime(new Date('2024-06-01T13:00:31.000Z'));
+      expect(() => service.assertNotLeasedElsewhere(webhook)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Leases Service
+ *
+ * Lets several workers consume stored webhooks without processing the same
+ * one twice (POST /webhooks/claim).
+ *
+ * A claim leases a batch of "received" webhooks (oldest first) to one
+ * worker for a visibility timeout: they become "processing" and carry the
+ * lease's ID and expiry, so other claims skip them. The worker then:
+ * - acks or fails each webhook (POST /webhooks/:id/ack, /fail)
+ * - extends the lease when it needs more time
+ * - releases a webhook it can't handle right now
+ *
+ * A lease that runs out puts its webhooks back to "received", where the
+ * next claim picks them up. Expired leases are swept on a timer and before
+ * every claim.
+ *
+ * Storage calls are synchronous, so a claim runs start to finish without
+ * another request in between: two workers can never lease the same webhook.
+ * This holds for every WebhooksStorage driver.
+ *
+ * Configuration:
+ * - LEASE_VISIBILITY_TIMEOUT_MS: Default lease duration (default: 30000)
+ * - LEASE_SWEEP_INTERVAL_MS: How often expired leases are released (default: 5000)
+ */
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { WebhooksStorage } from '../webhooks.storage';
+import { applyTransition } from '../status/webhook-status';
+import { CursorPosition } from '../../common/utils/cursor.util';
+import { ClaimResponse, Webhook } from '../interfaces/webhook.interface';
+import { ClaimWebhooksDto } from '../dto/claim-webhooks.dto';
+
+/** Webhooks read per storage page while looking for expired leases */
+const SWEEP_PAGE_SIZE = 100;
+
+@Injectable()
+export class LeasesService implements OnModuleDestroy {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(LeasesService.name);
+
+  /** Lease duration when the worker doesn't ask for one */
+  private readonly visibilityTimeoutMs: number;
+
+  /** Timer that releases expired leases */
+  private readonly sweeper: NodeJS.Timeout;
+
+  /**
+   * Constructor - reads the lease configuration and starts the sweeper
+   *
+   * @param storage - The storage the webhooks are claimed from
+   */
+  constructor(private readonly storage: WebhooksStorage) {
+    this.visibilityTimeoutMs = parseInt(
+      process.env.LEASE_VISIBILITY_TIMEOUT_MS || '30000',
+      10,
+    );
+    this.sweeper = setInterval(
+      () => this.releaseExpired(),
+      parseInt(process.env.LEASE_SWEEP_INTERVAL_MS || '5000', 10),
+    );
+    this.sweeper.unref(); // Don't keep the process alive just for the sweeper
+  }
+
+  /**
+   * Lease the oldest waiting webhooks to a worker
+   *
+   * @param options - Source/event filter, batch size and visibility timeout
+   * @returns The lease and its webhooks (none when nothing is waiting)
+   */
+  claim(options: ClaimWebhooksDto): ClaimResponse {
+    // Webhooks of expired leases are waiting again
+    this.releaseExpired();
+
+    const leaseId = randomUUID();
+    const expiresAt = this.expiryFrom(options.visibilityTimeoutMs);
+    const { webhooks } = this.storage.getAll({
+      source: options.source,
+      event: options.event,
+      status: 'received',
+      limit: options.max ?? 10,
+      oldestFirst: true,
+    });
+
+    for (const webhook of webhooks) {
+      applyTransition(webhook, 'processing');
+      webhook.leaseId = leaseId;
+      webhook.leaseExpiresAt = expiresAt;
+      this.storage.save(webhook);
+    }
+
+    if (webhooks.length > 0) {
+      this.logger.log(
+        `Lease ${leaseId}: ${webhooks.length} webhook(s) until ${expiresAt.toISOString()}`,
+      );
+    }
+    return { leaseId, expiresAt, webhooks };
+  }
+
+  /**
+   * Give a worker more time for a claimed webhook
+   *
+   * @param id - The webhook UUID
+   * @param leaseId - The lease the webhook was claimed under
+   * @param visibilityTimeoutMs - New timeout, from now (default: LEASE_VISIBILITY_TIMEOUT_MS)
+   * @returns The webhook with its new leaseExpiresAt
+   * @throws NotFoundException if the webhook doesn't exist
+   * @throws ConflictException if the lease has expired or is not this one
+   */
+  extend(id: string, leaseId: string, visibilityTimeoutMs?: number): Webhook {
+    const webhook = this.findLeased(id, leaseId);
+    webhook.leaseExpiresAt = this.expiryFrom(visibilityTimeoutMs);
+    this.storage.save(webhook);
+    return webhook;
+  }
+
+  /**
+   * Give a claimed webhook back unfinished (status: received)
+   *
+   * @param id - The webhook UUID
+   * @param leaseId - The lease the webhook was claimed under
+   * @returns The webhook, waiting to be claimed again
+   * @throws NotFoundException if the webhook doesn't exist
+   * @throws ConflictException if the lease has expired or is not this one
+   */
+  release(id: string, leaseId: string): Webhook {
+    const webhook = this.findLeased(id, leaseId);
+    applyTransition(webhook, 'received');
+    this.storage.save(webhook);
+    this.logger.log(`Webhook ${id} released from lease ${leaseId}`);
+    return webhook;
+  }
+
+  /**
+   * Make sure nobody else holds an active lease on a webhook
+   *
+   * Called before acknowledging or failing a webhook, so a worker whose
+   * lease ran out can't settle a webhook another worker has claimed since.
+   * Webhooks without an active lease can be settled by anyone.
+   *
+   * @param webhook - The stored webhook
+   * @param leaseId - The caller's lease, if it has one
+   * @throws ConflictException if the webhook is leased to another worker
+   */
+  assertNotLeasedElsewhere(webhook: Webhook, leaseId?: string): void {
+    if (this.isLeased(webhook) && webhook.leaseId !== leaseId) {
+      throw new ConflictException(
+        `Webhook is leased until ${webhook.leaseExpiresAt!.toISOString()}`,
+      );
+    }
+  }
+
+  /**
+   * Put the webhooks of every expired lease back to "received"
+   *
+   * @returns How many webhooks were released
+   */
+  releaseExpired(): number {
+    const expired: Webhook[] = [];
+    let after: CursorPosition | undefined;
+    for (;;) {
+      const { webhooks, hasMore } = this.storage.getAll({
+        status: 'processing',
+        limit: SWEEP_PAGE_SIZE,
+        after,
+      });
+      for (const webhook of webhooks) {
+        if (webhook.leaseExpiresAt && !this.isLeased(webhook)) {
+          expired.push(webhook);
+        }
+        after = { timestamp: webhook.receivedAt, id: webhook.id };
+      }
+      if (!hasMore) {
+        break;
+      }
+    }
+
+    for (const webhook of expired) {
+      this.logger.warn(
+        `Lease ${webhook.leaseId} expired, webhook ${webhook.id} is waiting again`,
+      );
+      applyTransition(webhook, 'received');
+      this.storage.save(webhook);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Stop the sweeper when the application shuts down
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.sweeper);
+  }
+
+  /**
+   * Find a webhook that is currently leased under the given lease
+   *
+   * @param id - The webhook UUID
+   * @param leaseId - The lease the caller holds
+   * @returns The stored webhook
+   * @throws NotFoundException if the webhook doesn't exist
+   * @throws ConflictException if the lease has expired or is not this one
+   */
+  private findLeased(id: string, leaseId: string): Webhook {
+    const webhook = this.storage.getById(id);
+    if (!webhook) {
+      throw new NotFoundException('Webhook not found');
+    }
+    if (!this.isLeased(webhook) || webhook.leaseId !== leaseId) {
+      throw new ConflictException(
+        'Lease has expired or belongs to another worker',
+      );
+    }
+    return webhook;
+  }
+
+  /**
+   * Check whether a webhook is held by a lease that hasn't run out
+   *
+   * @param webhook - The stored webhook
+   * @returns true while the lease is active
+   */
+  private isLeased(webhook: Webhook): boolean {
+    return (
+      webhook.status === 'processing' &&
+      webhook.leaseExpiresAt !== undefined &&
+      webhook.leaseExpiresAt.getTime() > Date.now()
+    );
+  }
+
+  /**
+   * When a lease starting now runs out
+   *
+   * @param visibilityTimeoutMs - Requested timeout (default: LEASE_VISIBILITY_TIMEOUT_MS)
+   * @returns The expiry time
+   */
+  private expiryFrom(visibilityTimeoutMs?: number): Date {
+    return new Date(
+      Date.now() + (visibilityTimeoutMs ?? this.visibilityTimeoutMs),
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Quarantine Controller (Admin API)
+ *
+ * Review webhooks that were quarantined because their signature did not
+ * verify (sources with VERIFICATION_POLICY / VERIFICATION_POLICIES = quarantine).
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET    /admin/quarantine              - List quarantined webhooks
+ * - GET    /admin/quarantine/:id          - Get one quarantined webhook
+ * - POST   /admin/quarantine/:id/promote  - Move it into normal storage
+ * - DELETE /admin/quarantine/:id          - Purge one
+ * - DELETE /admin/quarantine?source=...   - Purge all (optionally one source)
+ */
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { QuarantineService } from './quarantine.service';
+import { WebhooksService } from '../webhooks.service';
+import { QueryWebhooksDto } from '../dto/query-webhooks.dto';
+import { Webhook, WebhooksListResponse } from '../interfaces/webhook.interface';
+
+@Controller('admin/quarantine')
+export class QuarantineController {
+  /**
+   * Constructor - NestJS automatically injects the services
+   *
+   * @param quarantineService - The service managing quarantined webhooks
+   * @param webhooksService - Promotes webhooks into normal storage
+   */
+  constructor(
+    private readonly quarantineService: QuarantineService,
+    private readonly webhooksService: WebhooksService,
+  ) {}
+
+  /**
+   * GET /api/v1/admin/quarantine
+   *
+   * Same pagination and filters as GET /webhooks.
+   *
+   * @param query - Validated query parameters (same as GET /webhooks)
+   * @returns { webhooks: [], count, page, limit, totalPages, total, nextCursor }
+   */
+  @Get()
+  findAll(@Query() query: QueryWebhooksDto): WebhooksListResponse {
+    return this.quarantineService.findAll(query);
+  }
+
+  /**
+   * GET /api/v1/admin/quarantine/:id
+   *
+   * @param id - The webhook UUID
+   * @returns The quarantined webhook
+   * @throws 404 Not Found if it is not in quarantine
+   */
+  @Get(':id')
+  findOne(@Param('id') id: string): Webhook {
+    return this.quarantineService.findOne(id);
+  }
+
+  /**
+   * POST /api/v1/admin/quarantine/:id/promote
+   *
+   * Move a webhook into normal storage, where it shows up in GET /webhooks.
+   *
+   * @param id - The webhook UUID
+   * @returns The promoted webhook (with promotedAt set)
+   * @throws 404 Not Found if it is not in quarantine
+   */
+  @Post(':id/promote')
+  @HttpCode(HttpStatus.OK)
+  promote(@Param('id') id: string): Webhook {
+    return this.webhooksService.promote(id);
+  }
+
+  /**
+   * DELETE /api/v1/admin/quarantine
+   *
+   * Purge the whole quarantine, or only one source with ?source=...
+   *
+   * @param source - Only purge this source (optional)
+   * @returns { purged: number }
+   */
+  @Delete()
+  @HttpCode(HttpStatus.OK)
+  purgeAll(@Query('source') source?: string): { purged: number } {
+    return this.quarantineService.purgeAll(source);
+  }
+
+  /**
+   * DELETE /api/v1/admin/quarantine/:id
+   *
+   * @param id - The webhook UUID
+   * @returns { message: "Quarantined webhook purged" }
+   * @throws 404 Not Found if it is not in quarantine
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  purge(@Param('id') id: string): { message: string } {
+    return this.quarantineService.purge(id);
+  }
+}
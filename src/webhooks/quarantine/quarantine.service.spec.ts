@@ -0,0 +1,97 @@
+/**
+ * Quarantine Service Tests
+ *
+ * These tests verify how quarantined webhooks are managed:
+ * - Listing and finding quarantined webhooks
+ * - Releasing a webhook so it can be promoted
+ * - Purging one, all, or one source's webhooks
+ */
+import { NotFoundException } from '@nestjs/common';
+import { QuarantineService } from './quarantine.service';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** Create an unverified webhook as it would be quarantined */
+const createQuarantinedWebhook = (id: string, source = 'test'): Webhook => ({
+  id,
+  source,
+  event: 'test.event',
+  payload: {},
+  receivedAt: new Date(),
+  verified: false,
+  duplicateCount: 0,
+  status: 'received',
+});
+
+describe('QuarantineService', () => {
+  let service: QuarantineService;
+  let quarantine: InMemoryWebhooksStorage;
+
+  beforeEach(() => {
+    quarantine = new InMemoryWebhooksStorage();
+    service = new QuarantineService(quarantine);
+  });
+
+  /**
+   * Test: Quarantined webhooks are kept apart from normal storage
+   */
+  it('should store quarantined webhooks separately', () => {
+    service.add(createQuarantinedWebhook('q-1'));
+
+    expect(service.findAll({}).webhooks.map((w) => w.id)).toEqual(['q-1']);
+    expect(quarantine.count()).toBe(1);
+  });
+
+  /**
+   * Test: Unknown IDs are a 404
+   */
+  it('should throw NotFoundException for an unknown id', () => {
+    expect(() => service.findOne('missing')).toThrow(NotFoundException);
+    expect(() => service.release('missing')).toThrow(NotFoundException);
+    expect(() => service.purge('missing')).toThrow(NotFoundException);
+  });
+
+  /**
+   * Test: Releasing takes the webhook out of quarantine
+   *
+   * It keeps its ID and verified: false, and records when it was promoted
+   * (WebhooksService.promote then stores it)
+   */
+  it('should release a webhook for promotion', () => {
+    service.add(createQuarantinedWebhook('q-1'));
+
+    const promoted = service.release('q-1');
+
+    expect(promoted.id).toBe('q-1');
+    expect(promoted.verified).toBe(false);
+    expect(promoted.promotedAt).toBeInstanceOf(Date);
+    expect(service.count()).toBe(0);
+  });
+
+  /**
+   * Test: Purging a single webhook
+   */
+  it('should purge a single webhook', () => {
+    service.add(createQuarantinedWebhook('q-1'));
+    service.add(createQuarantinedWebhook('q-2'));
+
+    service.purge('q-1');
+
+    expect(service.findAll({}).webhooks.map((w) => w.id)).toEqual(['q-2']);
+  });
+
+  /**
+   * Test: Purging everything, or only one source
+   */
+  it('should purge all webhooks or only one source', () => {
+    service.add(createQuarantinedWebhook('a-1', 'alpha'));
+    service.add(createQuarantinedWebhook('a-2', 'alpha'));
+    service.add(createQuarantinedWebhook('b-1', 'beta'));
+
+    expect(service.purgeAll('alpha')).toEqual({ purged: 2 });
+    expect(service.findOne('b-1')).toBeDefined();
+
+    expect(service.purgeAll()).toEqual({ purged: 1 });
+    expect(service.count()).toBe(0);
+  });
+});
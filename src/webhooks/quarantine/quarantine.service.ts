@@ -0,0 +1,195 @@
+/**
+ * Quarantine Service
+ *
+ * Holds webhooks that failed signature verification for sources whose
+ * verification policy is "quarantine" (see VerificationPolicyResolver).
+ *
+ * Quarantined webhooks live in their own storage (QUARANTINE_STORAGE):
+ * - They never show up in GET /webhooks
+ * - They can't evict real webhooks - the quarantine has its own size limit
+ *
+ * An operator can inspect them, promote the genuine ones into normal
+ * storage (see WebhooksService.promote), or purge them.
+ */
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { WebhooksStorage } from '../webhooks.storage';
+import { QUARANTINE_STORAGE } from '../storage/storage.factory';
+import { decodeCursor, encodeCursor } from '../../common/utils/cursor.util';
+import { QueryWebhooksDto } from '../dto/query-webhooks.dto';
+import { Webhook, WebhooksListResponse } from '../interfaces/webhook.interface';
+
+@Injectable()
+export class QuarantineService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(QuarantineService.name);
+
+  /**
+   * Constructor - NestJS automatically injects the quarantine storage
+   *
+   * @param quarantine - Storage holding the quarantined webhooks
+   */
+  constructor(
+    @Inject(QUARANTINE_STORAGE) private readonly quarantine: WebhooksStorage,
+  ) {}
+
+  /**
+   * Put a webhook into quarantine
+   *
+   * @param webhook - The unverified webhook
+   * @returns The quarantined webhook
+   */
+  add(webhook: Webhook): Webhook {
+    this.quarantine.save(webhook);
+    this.logger.warn(
+      `Webhook quarantined from ${webhook.source}: ${webhook.event} (${webhook.id})`,
+    );
+    return webhook;
+  }
+
+  /**
+   * Save changes to a webhook that is already in quarantine
+   *
+   * @param webhook - The quarantined webhook
+   * @returns The saved webhook
+   */
+  update(webhook: Webhook): Webhook {
+    return this.quarantine.save(webhook);
+  }
+
+  /**
+   * Find a quarantined webhook by its idempotency key
+   *
+   * @param source - The webhook source
+   * @param key - The idempotency key
+   * @returns The webhook if found, undefined otherwise
+   */
+  findByIdempotencyKey(source: string, key: string): Webhook | undefined {
+    return this.quarantine.getByIdempotencyKey(source, key);
+  }
+
+  /**
+   * List quarantined webhooks with pagination and optional filtering
+   *
+   * @param query - Query parameters (same as GET /webhooks)
+   * @returns Paginated list of quarantined webhooks
+   * @throws BadRequestException if the cursor is malformed
+   */
+  findAll(query: QueryWebhooksDto): WebhooksListResponse {
+    const { page = 1, limit = 10, cursor, ...filters } = query;
+    const after = cursor ? decodeCursor(cursor) : undefined;
+    if (cursor && !after) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const { webhooks, total = 0, hasMore } = this.quarantine.getAll({
+      page,
+      limit,
+      after,
+      ...filters,
+      withTotal: true,
+    });
+
+    const last = webhooks[webhooks.length - 1];
+    return {
+      webhooks,
+      count: webhooks.length,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      total,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ timestamp: last.receivedAt, id: last.id })
+          : null,
+    };
+  }
+
+  /**
+   * Find a single quarantined webhook
+   *
+   * @param id - The webhook UUID
+   * @returns The webhook
+   * @throws NotFoundException if it is not in quarantine
+   */
+  findOne(id: string): Webhook {
+    const webhook = this.quarantine.getById(id);
+    if (!webhook) {
+      throw new NotFoundException('Quarantined webhook not found');
+    }
+    return webhook;
+  }
+
+  /**
+   * Take a webhook out of quarantine so it can be promoted
+   *
+   * @param id - The webhook UUID
+   * @returns The webhook, with promotedAt set
+   * @throws NotFoundException if it is not in quarantine
+   */
+  release(id: string): Webhook {
+    const webhook = this.findOne(id);
+
+    const promoted: Webhook = { ...webhook, promotedAt: new Date() };
+    this.quarantine.delete(id);
+
+    this.logger.log(`Webhook promoted from quarantine: ${id}`);
+    return promoted;
+  }
+
+  /**
+   * Delete a single quarantined webhook
+   *
+   * @param id - The webhook UUID
+   * @returns Success message
+   * @throws NotFoundException if it is not in quarantine
+   */
+  purge(id: string): { message: string } {
+    if (!this.quarantine.delete(id)) {
+      throw new NotFoundException('Quarantined webhook not found');
+    }
+    return { message: 'Quarantined webhook purged' };
+  }
+
+  /**
+   * Delete every quarantined webhook, or only those from one source
+   *
+   * @param source - Only purge this source (optional)
+   * @returns How many webhooks were purged
+   */
+  purgeAll(source?: string): { purged: number } {
+    if (!source) {
+      const purged = this.quarantine.count();
+      this.quarantine.clear();
+      this.logger.log(`Quarantine purged (${purged} webhooks)`);
+      return { purged };
+    }
+
+    // Fetch every match in one page, then delete them one by one
+    const { webhooks } = this.quarantine.getAll({
+      source,
+      page: 1,
+      limit: Math.max(this.quarantine.count(), 1),
+    });
+    webhooks.forEach((webhook) => this.quarantine.delete(webhook.id));
+
+    this.logger.log(
+      `Quarantine purged for ${source} (${webhooks.length} webhooks)`,
+    );
+    return { purged: webhooks.length };
+  }
+
+  /**
+   * Get the number of quarantined webhooks
+   *
+   * @returns The count of webhooks in quarantine
+   */
+  count(): number {
+    return this.quarantine.count();
+  }
+}
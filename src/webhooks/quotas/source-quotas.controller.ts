@@ -0,0 +1,41 @@
+/**
+ * Source Quotas Controller
+ *
+ * Reports how much storage a source uses against its quota.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET /sources/:source/usage - Usage, quota, evictions and refusals
+ *
+ * Needs the "read" API key scope, for the source.
+ */
+import { Controller, Get, Param } from '@nestjs/common';
+import { SourceQuotasService } from './source-quotas.service';
+import { RequireScope } from '../../common/decorators/require-scope.decorator';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { SourceUsageResponse } from '../interfaces/source-quota.interface';
+
+@RequireScope('read', { source: 'request' })
+@RateLimit('read')
+@Controller('sources')
+export class SourceQuotasController {
+  /**
+   * Constructor - NestJS automatically injects the service
+   *
+   * @param quotasService - The service enforcing the source quotas
+   */
+  constructor(private readonly quotasService: SourceQuotasService) {}
+
+  /**
+   * GET /sources/:source/usage
+   *
+   * Sources that never sent anything simply report zero usage.
+   *
+   * @param source - The webhook source
+   * @returns Stored count and payload bytes, the quota that applies, and the
+   *   webhooks evicted or refused to stay within it since startup
+   */
+  @Get(':source/usage')
+  getUsage(@Param('source') source: string): SourceUsageResponse {
+    return this.quotasService.getUsage(source);
+  }
+}
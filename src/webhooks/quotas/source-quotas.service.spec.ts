@@ -0,0 +1,203 @@
+/**
+ * Source Quotas Service Tests
+ *
+ * These tests verify the per-source storage quotas:
+ * - Evicting only the source's own oldest webhooks to make room
+ * - Refusing webhooks with 507 or 429, depending on the policy
+ * - Per-source overrides of the default quota
+ * - Reporting usage against the quota
+ */
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { SourceQuotasService } from './source-quotas.service';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** Create a stored webhook, received `minute` minutes after noon */
+const createTestWebhook = (
+  id: string,
+  minute: number,
+  overrides?: Partial<Webhook>,
+): Webhook => ({
+  id,
+  source: 'stripe',
+  event: 'payment.succeeded',
+  payload: { n: minute },
+  receivedAt: new Date(Date.UTC(2024, 5, 1, 12, minute)),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+  ...overrides,
+});
+
+/** Run admit() and return the HTTP status it threw (undefined if admitted) */
+const admitStatus = (
+  service: SourceQuotasService,
+  source: string,
+  payload: Record<string, unknown> = {},
+): number | undefined => {
+  try {
+    service.admit(source, payload);
+    return undefined;
+  } catch (error) {
+    return (error as HttpException).getStatus();
+  }
+};
+
+describe('SourceQuotasService', () => {
+  let storage: InMemoryWebhooksStorage;
+  let service: SourceQuotasService;
+
+  /** IDs left in storage, oldest first */
+  const storedIds = () =>
+    storage.getAll({ limit: 100, oldestFirst: true }).webhooks.map((w) => w.id);
+
+  beforeEach(() => {
+    storage = new InMemoryWebhooksStorage();
+  });
+
+  afterEach(() => {
+    delete process.env.SOURCE_QUOTA_MAX_COUNT;
+    delete process.env.SOURCE_QUOTA_MAX_BYTES;
+    delete process.env.SOURCE_QUOTA_POLICY;
+    delete process.env.SOURCE_QUOTAS;
+  });
+
+  // ==================== evict Policy Tests ====================
+  describe('evict policy', () => {
+    /**
+     * Test: Only the source's own oldest webhooks make room
+     */
+    it("should evict the source's oldest webhooks by count", () => {
+      // Arrange
+      process.env.SOURCE_QUOTA_MAX_COUNT = '2';
+      service = new SourceQuotasService(storage);
+      storage.save(createTestWebhook('github-1', 0, { source: 'github' }));
+      storage.save(createTestWebhook('stripe-1', 1));
+      storage.save(createTestWebhook('stripe-2', 2));
+
+      // Act
+      service.admit('stripe', {});
+
+      // Assert
+      expect(storedIds()).toEqual(['github-1', 'stripe-2']);
+      expect(service.getUsage('stripe').evicted).toBe(1);
+    });
+
+    /**
+     * Test: Enough old webhooks go to free the payload bytes needed
+     *
+     * Each stored payload {"n":1} is 7 bytes
+     */
+    it('should evict as many webhooks as the payload bytes need', () => {
+      // Arrange
+      process.env.SOURCE_QUOTA_MAX_BYTES = '21';
+      service = new SourceQuotasService(storage);
+      storage.save(createTestWebhook('stripe-1', 1));
+      storage.save(createTestWebhook('stripe-2', 2));
+      storage.save(createTestWebhook('stripe-3', 3));
+
+      // Act: {"t":"hello"} is 13 bytes, so two of them must go
+      service.admit('stripe', { t: 'hello' });
+
+      // Assert
+      expect(storedIds()).toEqual(['stripe-3']);
+    });
+
+    /**
+     * Test: Leased webhooks are not evicted, even if that means refusing
+     */
+    it('should refuse with 507 when only leased webhooks could make room', () => {
+      // Arrange
+      process.env.SOURCE_QUOTA_MAX_COUNT = '1';
+      service = new SourceQuotasService(storage);
+      storage.save(createTestWebhook('stripe-1', 1, { status: 'processing' }));
+
+      // Act & Assert
+      expect(admitStatus(service, 'stripe')).toBe(
+        HttpStatus.INSUFFICIENT_STORAGE,
+      );
+      expect(storedIds()).toEqual(['stripe-1']);
+    });
+  });
+
+  // ==================== reject / throttle Policy Tests ====================
+  describe('reject and throttle policies', () => {
+    /**
+     * Test: "reject" answers 507 and "throttle" 429, without evicting
+     */
+    it('should refuse webhooks over quota', () => {
+      // Arrange
+      process.env.SOURCE_QUOTA_MAX_COUNT = '1';
+      process.env.SOURCE_QUOTAS = 'stripe:::reject,github:::throttle';
+      service = new SourceQuotasService(storage);
+      storage.save(createTestWebhook('stripe-1', 1));
+      storage.save(createTestWebhook('github-1', 2, { source: 'github' }));
+
+      // Act & Assert
+      expect(admitStatus(service, 'stripe')).toBe(
+        HttpStatus.INSUFFICIENT_STORAGE,
+      );
+      expect(admitStatus(service, 'github')).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(storedIds()).toEqual(['stripe-1', 'github-1']);
+      expect(service.getUsage('stripe').rejected).toBe(1);
+    });
+
+    /**
+     * Test: A payload larger than the whole quota can never fit
+     */
+    it('should refuse a payload larger than maxBytes with 507', () => {
+      // Arrange
+      process.env.SOURCE_QUOTA_MAX_BYTES = '10';
+      service = new SourceQuotasService(storage);
+
+      // Act & Assert
+      expect(admitStatus(service, 'stripe', { text: 'too long' })).toBe(
+        HttpStatus.INSUFFICIENT_STORAGE,
+      );
+    });
+  });
+
+  // ==================== getUsage() Tests ====================
+  describe('getUsage', () => {
+    /**
+     * Test: Usage is reported against the quota of the first matching entry
+     *
+     * Empty parts keep the default; malformed entries are skipped
+     */
+    it('should report usage against the quota', () => {
+      // Arrange
+      process.env.SOURCE_QUOTA_MAX_COUNT = '100';
+      process.env.SOURCE_QUOTAS = 'str*::1000:reject,stripe:5::,github:x::';
+      service = new SourceQuotasService(storage);
+      storage.save(createTestWebhook('stripe-1', 1));
+
+      // Act
+      const usage = service.getUsage('stripe');
+
+      // Assert
+      expect(usage).toEqual({
+        source: 'stripe',
+        count: 1,
+        payloadBytes: 7,
+        quota: { maxCount: 100, maxBytes: 1000, policy: 'reject' },
+        evicted: 0,
+        rejected: 0,
+      });
+      expect(service.getQuota('github')).toEqual({
+        maxCount: 100,
+        maxBytes: 0,
+        policy: 'evict',
+      });
+    });
+
+    /**
+     * Test: Without quotas nothing is ever refused
+     */
+    it('should admit everything by default', () => {
+      service = new SourceQuotasService(storage);
+      storage.save(createTestWebhook('stripe-1', 1));
+
+      expect(admitStatus(service, 'stripe')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Source Quotas Service
+ *
+ * Caps how many webhooks, and how many payload bytes, each source may keep
+ * in storage. WebhooksService calls admit() before storing a new webhook;
+ * when it would put its source over quota, the source's policy decides:
+ * - evict: delete the source's oldest webhooks until the new one fits
+ *   (other sources are never touched)
+ * - reject: refuse it with 507 Insufficient Storage
+ * - throttle: refuse it with 429 Too Many Requests
+ *
+ * Eviction skips webhooks leased to a worker ("processing"). If there is
+ * still no room - or the payload alone is larger than maxBytes - the
+ * webhook is refused with 507 whatever the policy.
+ *
+ * Quotas apply to newly received webhooks and to webhooks promoted out of
+ * quarantine, not to quarantine itself (which has its own storage).
+ *
+ * Configuration:
+ * - SOURCE_QUOTA_MAX_COUNT: Default webhooks per source (default: 0 = no limit)
+ * - SOURCE_QUOTA_MAX_BYTES: Default payload bytes per source (default: 0 = no limit)
+ * - SOURCE_QUOTA_POLICY: Default policy - evict, reject or throttle (default: evict)
+ * - SOURCE_QUOTAS: Per-source quotas as "source:maxCount:maxBytes:policy",
+ *   comma separated. Sources accept "*" patterns; an empty part keeps the
+ *   default (e.g. "stripe:50000::reject,test-*:100:1048576:")
+ */
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { WebhooksStorage } from '../webhooks.storage';
+import { matchesPattern } from '../../common/utils/pattern.util';
+import { CursorPosition } from '../../common/utils/cursor.util';
+import { payloadSize } from '../storage/webhook-serializer';
+import { Webhook } from '../interfaces/webhook.interface';
+import {
+  QuotaPolicy,
+  SourceQuota,
+  SourceUsageResponse,
+} from '../interfaces/source-quota.interface';
+
+/** Webhooks read per storage page while looking for ones to evict */
+const EVICTION_PAGE_SIZE = 100;
+
+/** The policies accepted in SOURCE_QUOTA_POLICY and SOURCE_QUOTAS */
+const QUOTA_POLICIES: QuotaPolicy[] = ['evict', 'reject', 'throttle'];
+
+/** A SOURCE_QUOTAS entry */
+interface SourceQuotaRule extends SourceQuota {
+  /** Source pattern ("*" matches any characters) */
+  source: string;
+}
+
+@Injectable()
+export class SourceQuotasService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(SourceQuotasService.name);
+
+  /** Quota of sources no SOURCE_QUOTAS entry matches */
+  private readonly defaultQuota: SourceQuota;
+
+  /** SOURCE_QUOTAS entries, in match order */
+  private readonly rules: SourceQuotaRule[] = [];
+
+  /** Evictions and refusals since startup, per source */
+  private readonly stats: Map<string, { evicted: number; rejected: number }> =
+    new Map();
+
+  /**
+   * Constructor - reads the quotas from the environment
+   *
+   * @param storage - The storage the quotas apply to
+   */
+  constructor(private readonly storage: WebhooksStorage) {
+    const policy = process.env.SOURCE_QUOTA_POLICY || 'evict';
+    if (!this.isPolicy(policy)) {
+      this.logger.warn(
+        `Unknown SOURCE_QUOTA_POLICY "${policy}", using "evict"`,
+      );
+    }
+    this.defaultQuota = {
+      maxCount: parseInt(process.env.SOURCE_QUOTA_MAX_COUNT || '0', 10),
+      maxBytes: parseInt(process.env.SOURCE_QUOTA_MAX_BYTES || '0', 10),
+      policy: this.isPolicy(policy) ? policy : 'evict',
+    };
+
+    // Format: "source:maxCount:maxBytes:policy,..."
+    (process.env.SOURCE_QUOTAS || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const parts = entry.split(':').map((part) => part.trim());
+        const [source] = parts;
+        const maxCount = this.parseLimit(parts[1], this.defaultQuota.maxCount);
+        const maxBytes = this.parseLimit(parts[2], this.defaultQuota.maxBytes);
+        const policy = parts[3] || this.defaultQuota.policy;
+        if (
+          !source ||
+          isNaN(maxCount) ||
+          isNaN(maxBytes) ||
+          !this.isPolicy(policy)
+        ) {
+          this.logger.warn(`Ignoring malformed SOURCE_QUOTAS entry: ${entry}`);
+          return;
+        }
+        this.rules.push({ source, maxCount, maxBytes, policy });
+      });
+  }
+
+  /**
+   * Make sure a new webhook fits in its source's quota
+   *
+   * With the "evict" policy, the source's oldest webhooks are deleted
+   * to make room.
+   *
+   * @param source - The webhook source
+   * @param payload - The webhook payload
+   * @throws HttpException 507 if it doesn't fit and the policy is "reject",
+   *   or nothing can be evicted to make room
+   * @throws HttpException 429 if it doesn't fit and the policy is "throttle"
+   */
+  admit(source: string, payload: Webhook['payload']): void {
+    const quota = this.getQuota(source);
+    if (quota.maxCount <= 0 && quota.maxBytes <= 0) {
+      return;
+    }
+
+    const size = payloadSize(payload);
+    if (quota.maxBytes > 0 && size > quota.maxBytes) {
+      this.refuse(source, quota, HttpStatus.INSUFFICIENT_STORAGE, {
+        message: `Payload is larger than the storage quota of ${source}`,
+        reason: 'payload_exceeds_quota',
+      });
+    }
+
+    const usage = this.storage.getSourceUsage(source);
+    const excessCount =
+      quota.maxCount > 0 ? usage.count + 1 - quota.maxCount : 0;
+    const excessBytes =
+      quota.maxBytes > 0 ? usage.payloadBytes + size - quota.maxBytes : 0;
+    if (excessCount <= 0 && excessBytes <= 0) {
+      return;
+    }
+
+    if (quota.policy !== 'evict') {
+      this.refuse(
+        source,
+        quota,
+        quota.policy === 'throttle'
+          ? HttpStatus.TOO_MANY_REQUESTS
+          : HttpStatus.INSUFFICIENT_STORAGE,
+        {
+          message: `Storage quota of ${source} exceeded`,
+          reason: 'quota_exceeded',
+        },
+      );
+    }
+
+    const ids = this.findEvictable(source, excessCount, excessBytes);
+    if (!ids) {
+      this.refuse(source, quota, HttpStatus.INSUFFICIENT_STORAGE, {
+        message: `Storage quota of ${source} exceeded`,
+        reason: 'quota_exceeded',
+      });
+    }
+    const evicted = this.storage.deleteMany(ids);
+    this.statsFor(source).evicted += evicted;
+    this.logger.debug(
+      `Quota of ${source} reached. Evicted ${evicted} oldest webhook(s)`,
+    );
+  }
+
+  /**
+   * Get a source's storage usage against its quota
+   *
+   * @param source - The webhook source
+   * @returns Count, payload bytes, the quota and what it evicted or refused
+   */
+  getUsage(source: string): SourceUsageResponse {
+    return {
+      source,
+      ...this.storage.getSourceUsage(source),
+      quota: this.getQuota(source),
+      evicted: this.stats.get(source)?.evicted ?? 0,
+      rejected: this.stats.get(source)?.rejected ?? 0,
+    };
+  }
+
+  /**
+   * Get the quota of a source (first matching SOURCE_QUOTAS entry, else
+   * the default)
+   *
+   * @param source - The webhook source
+   * @returns Its quota
+   */
+  getQuota(source: string): SourceQuota {
+    const rule = this.rules.find((candidate) =>
+      matchesPattern(source, candidate.source),
+    );
+    const { maxCount, maxBytes, policy } = rule ?? this.defaultQuota;
+    return { maxCount, maxBytes, policy };
+  }
+
+  /**
+   * Find the source's oldest webhooks that free enough room
+   *
+   * @param source - The webhook source
+   * @param count - Webhooks that must go
+   * @param bytes - Payload bytes that must be freed
+   * @returns Their IDs, or undefined if the evictable webhooks don't
+   *   free enough
+   */
+  private findEvictable(
+    source: string,
+    count: number,
+    bytes: number,
+  ): string[] | undefined {
+    const ids: string[] = [];
+    let freedBytes = 0;
+    let after: CursorPosition | undefined;
+    let hasMore = true;
+    while (hasMore) {
+      const page = this.storage.getAll({
+        source,
+        oldestFirst: true,
+        limit: EVICTION_PAGE_SIZE,
+        after,
+      });
+      for (const webhook of page.webhooks) {
+        // Leased webhooks are being worked on right now
+        if (webhook.status === 'processing') {
+          continue;
+        }
+        ids.push(webhook.id);
+        freedBytes += payloadSize(webhook.payload);
+        if (ids.length >= count && freedBytes >= bytes) {
+          return ids;
+        }
+      }
+      hasMore = page.hasMore;
+      const last = page.webhooks[page.webhooks.length - 1];
+      after = last && { timestamp: last.receivedAt, id: last.id };
+    }
+    return undefined;
+  }
+
+  /**
+   * Count and log a refused webhook, then throw
+   *
+   * @throws HttpException with the given status
+   */
+  private refuse(
+    source: string,
+    quota: SourceQuota,
+    status: HttpStatus,
+    error: { message: string; reason: string },
+  ): never {
+    this.statsFor(source).rejected++;
+    this.logger.warn(
+      `Webhook from ${source} refused: ${error.reason} (policy: ${quota.policy})`,
+    );
+    throw new HttpException(
+      {
+        ...error,
+        usage: this.storage.getSourceUsage(source),
+        quota,
+      },
+      status,
+    );
+  }
+
+  /**
+   * Get (or start) a source's eviction and refusal counters
+   */
+  private statsFor(source: string): { evicted: number; rejected: number } {
+    let stats = this.stats.get(source);
+    if (!stats) {
+      stats = { evicted: 0, rejected: 0 };
+      this.stats.set(source, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Whether a configured value is a known quota policy
+   */
+  private isPolicy(value: string): value is QuotaPolicy {
+    return (QUOTA_POLICIES as string[]).includes(value);
+  }
+
+  /**
+   * Parse one limit of a SOURCE_QUOTAS entry
+   *
+   * @param value - The configured limit ("" or missing keeps the default)
+   * @param fallback - The default limit
+   * @returns The limit, or NaN if it is not a non-negative number
+   */
+  private parseLimit(value: string | undefined, fallback: number): number {
+    if (!value) {
+      return fallback;
+    }
+    return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Redaction Controller (Admin API)
+ *
+ * Shows the redaction rules, and how many values each took out of
+ * payloads.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET /admin/redaction - Rules, keys in use and counts
+ */
+import { Controller, Get } from '@nestjs/common';
+import { RedactionService } from './redaction.service';
+import { RedactionStatusResponse } from '../interfaces/redaction.interface';
+
+@Controller('admin/redaction')
+export class RedactionController {
+  /**
+   * Constructor - NestJS automatically injects the service
+   *
+   * @param redactionService - The service holding the rules
+   */
+  constructor(private readonly redactionService: RedactionService) {}
+
+  /**
+   * GET /admin/redaction
+   *
+   * @returns Whether originals can be kept encrypted and hashes are keyed,
+   *   the rules in the order they apply with the values each redacted since
+   *   startup, and the number of webhooks redacted
+   */
+  @Get()
+  getStatus(): RedactionStatusResponse {
+    return this.redactionService.getStatus();
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Redaction Service Tests
+ *
+ * These tests verify how sensitive values are taken out of payloads:
+ * - Rules apply per source + event, through JSON paths or key patterns
+ * - Values are masked, hashed or dropped, and the raw body goes with them
+ * - Originals of "encrypt" rules are sealed, and only come back with the key
+ * - Hash rules need REDACTION_HASH_KEY to start
+ */
+import { Logger } from '@nestjs/common';
+import { createHmac, randomBytes } from 'crypto';
+import { RedactionService } from './redaction.service';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** A 32-byte key, as REDACTION_ENCRYPTION_KEY would hold it */
+const ENCRYPTION_KEY = randomBytes(32).toString('base64');
+
+/** A payload with the kind of values the rules are for */
+const payload = () => ({
+  id: 'ch_1',
+  card: { fingerprint: 'Xt5EWLLDS7FJjR1c', last4: '4242' },
+  customer: { Email: 'jane@example.com', address: '1 Main St' },
+  items: [
+    { sku: 'a', billing_address: 'x' },
+    { sku: 'b', billing_address: 'y' },
+  ],
+});
+
+/** A stored webhook around a redacted payload */
+const stored = (redacted: ReturnType<RedactionService['redact']>): Webhook => ({
+  id: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+  source: 'stripe',
+  event: 'charge.succeeded',
+  payload: redacted.payload,
+  rawBody: redacted.rawBody,
+  redaction: redacted.redaction,
+  receivedAt: new Date(),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+});
+
+describe('RedactionService', () => {
+  /** Build the service from the given rules (or raw REDACTION_RULES) */
+  const createService = (rules: unknown[] | string) => {
+    process.env.REDACTION_RULES =
+      typeof rules === 'string' ? rules : JSON.stringify(rules);
+    return new RedactionService();
+  };
+
+  /** A REDACTION_RULES entry */
+  const rule = (
+    source: string,
+    event: string,
+    target: string,
+    action: string,
+    encrypt?: boolean,
+  ) => ({ source, event, target, action, ...(encrypt && { encrypt }) });
+
+  beforeEach(() => {
+    process.env.REDACTION_HASH_KEY = 'pepper';
+  });
+
+  afterEach(() => {
+    delete process.env.REDACTION_RULES;
+    delete process.env.REDACTION_ENCRYPTION_KEY;
+    delete process.env.REDACTION_HASH_KEY;
+    jest.restoreAllMocks();
+  });
+
+  // ==================== Rule Tests ====================
+  describe('rules', () => {
+    /**
+     * Test: Only rules matching the source and event apply; others leave
+     * the payload and raw body as they are
+     */
+    it('should apply the rules of the source and event only', () => {
+      // Arrange
+      const service = createService([
+        rule('stripe', 'charge.*', '$.card.fingerprint', 'mask'),
+        rule('github', '*', 'email', 'drop'),
+      ]);
+      const original = payload();
+
+      // Act
+      const charge = service.redact('stripe', 'charge.succeeded', original);
+      const refund = service.redact('stripe', 'refund.created', original, '{}');
+
+      // Assert
+      expect(charge.payload.card).toEqual({
+        fingerprint: '************jR1c',
+        last4: '4242',
+      });
+      expect(charge.redaction?.fields).toEqual([
+        { path: '$.card.fingerprint', action: 'mask' },
+      ]);
+      expect(original.card.fingerprint).toBe('Xt5EWLLDS7FJjR1c');
+      expect(refund).toEqual({ payload: original, rawBody: '{}' });
+    });
+
+    /**
+     * Test: JSON paths reach array items and any depth
+     */
+    it('should find values with JSON paths', () => {
+      // Arrange
+      const service = createService([
+        rule('stripe', '*', '$.items[*].sku', 'hash'),
+        rule('stripe', '*', '$..last4', 'mask'),
+        rule('stripe', '*', '$.items[1]', 'drop'),
+      ]);
+
+      // Act
+      const { redaction } = service.redact('stripe', 'charge', payload());
+
+      // Assert
+      expect(redaction?.fields.map((field) => field.path)).toEqual([
+        '$.items[0].sku',
+        '$.items[1].sku',
+        '$.card.last4',
+        '$.items[1]',
+      ]);
+    });
+
+    /**
+     * Test: Key patterns match at any depth, ignoring case
+     */
+    it('should find values with key name patterns', () => {
+      // Arrange
+      const service = createService([
+        rule('*', '*', 'email', 'mask'),
+        rule('*', '*', '*address', 'drop'),
+      ]);
+
+      // Act
+      const redacted = service.redact('stripe', 'charge', payload()).payload;
+
+      // Assert
+      expect(redacted.customer).toEqual({ Email: '************.com' });
+      expect(redacted.items).toEqual([{ sku: 'a' }, { sku: 'b' }]);
+    });
+
+    /**
+     * Test: Malformed entries are skipped with a warning
+     */
+    it('should ignore malformed entries', () => {
+      // Arrange
+      const warnSpy = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+
+      // Act
+      const service = createService([
+        rule('*', '*', 'email', 'shred'),
+        rule('*', '*', '$.items[', 'mask'),
+        rule('*', '*', '$', 'drop'),
+        { ...rule('*', '*', 'email', 'mask'), encrypt: 'later' },
+        { ...rule('*', '*', 'email', 'mask'), encrypted: true },
+        { source: '*', target: 'email', action: 'mask' },
+        '*:*:email:mask',
+        rule('*', '*', 'email', 'hash'),
+      ]);
+
+      // Assert
+      expect(warnSpy).toHaveBeenCalledTimes(7);
+      expect(service.getStatus().rules).toEqual([
+        {
+          source: '*',
+          event: '*',
+          target: 'email',
+          action: 'hash',
+          encrypt: false,
+          redacted: 0,
+        },
+      ]);
+    });
+
+    /**
+     * Test: Targets may hold the commas and colons a delimited format
+     * would have split on
+     */
+    it('should read targets with commas and colons', () => {
+      // Arrange
+      const service = createService([rule('*', '*', "$['a:b,c']", 'drop')]);
+
+      // Act
+      const redacted = service.redact('s', 'e', { 'a:b,c': 1, d: 2 });
+
+      // Assert
+      expect(redacted.payload).toEqual({ d: 2 });
+    });
+
+    /**
+     * Test: Rules that aren't a JSON array stop the service from starting
+     */
+    it('should refuse rules that are not a JSON array', () => {
+      // Act & Assert
+      expect(() => createService('*:*:email:mask')).toThrow(/not valid JSON/);
+      expect(() => createService('{"source":"*"}')).toThrow(/JSON array/);
+      expect(createService('').getStatus().rules).toEqual([]);
+    });
+  });
+
+  // ==================== Action Tests ====================
+  describe('actions', () => {
+    /**
+     * Test: Masks keep the end of long strings; short strings and other
+     * values are masked whole
+     */
+    it('should mask values', () => {
+      // Arrange
+      const service = createService([rule('*', '*', '$.*', 'mask')]);
+
+      // Act
+      const redacted = service.redact('s', 'e', {
+        card: '4242424242424242',
+        pin: '1234',
+        amount: 100,
+      }).payload;
+
+      // Assert
+      expect(redacted).toEqual({
+        card: '************4242',
+        pin: '****',
+        amount: '****',
+      });
+    });
+
+    /**
+     * Test: Hashes are HMAC-SHA256 under REDACTION_HASH_KEY, so equal
+     * values still match each other
+     */
+    it('should hash values', () => {
+      // Arrange
+      const service = createService([rule('*', '*', 'email', 'hash')]);
+      const body = { email: 'jane@example.com' };
+
+      // Act & Assert
+      expect(service.redact('s', 'e', body).payload.email).toBe(
+        `sha256:${createHmac('sha256', 'pepper').update(body.email).digest('hex')}`,
+      );
+      expect(service.getStatus().keyedHashes).toBe(true);
+    });
+
+    /**
+     * Test: Hash rules without REDACTION_HASH_KEY stop the service from
+     * starting; other rules don't need the key
+     */
+    it('should refuse hash rules without a hash key', () => {
+      // Arrange
+      delete process.env.REDACTION_HASH_KEY;
+
+      // Act & Assert
+      expect(() => createService([rule('*', '*', 'email', 'hash')])).toThrow(
+        /REDACTION_HASH_KEY is not set/,
+      );
+      expect(
+        createService([rule('*', '*', 'email', 'mask')]).getStatus(),
+      ).toMatchObject({ keyedHashes: false, rules: [{ action: 'mask' }] });
+    });
+
+    /**
+     * Test: Dropped array items become null, so the other indexes hold
+     */
+    it('should drop values', () => {
+      // Arrange
+      const service = createService([
+        rule('*', '*', '$.items[0]', 'drop'),
+        rule('*', '*', '$.card', 'drop'),
+      ]);
+
+      // Act
+      const redacted = service.redact('s', 'e', payload()).payload;
+
+      // Assert
+      expect(redacted).not.toHaveProperty('card');
+      expect(redacted.items).toEqual([
+        null,
+        { sku: 'b', billing_address: 'y' },
+      ]);
+    });
+
+    /**
+     * Test: The raw body holds the originals, so it isn't kept; values are
+     * redacted once, by the first rule finding them
+     */
+    it('should drop the raw body and redact each value once', () => {
+      // Arrange
+      const service = createService([
+        rule('*', '*', 'email', 'mask'),
+        rule('*', '*', '$..Email', 'hash'),
+      ]);
+
+      // Act
+      const redacted = service.redact('s', 'e', payload(), '{"raw":true}');
+
+      // Assert
+      expect(redacted.rawBody).toBeUndefined();
+      expect(redacted.redaction?.fields).toEqual([
+        { path: '$.customer.Email', action: 'mask' },
+      ]);
+      expect(service.getStatus()).toMatchObject({
+        rules: [{ redacted: 1 }, { redacted: 0 }],
+        webhooks: 1,
+      });
+    });
+  });
+
+  // ==================== Encryption Tests ====================
+  describe('encryption', () => {
+    /**
+     * Test: Originals of "encrypt" rules are sealed, and come back with
+     * the raw body; other redacted values stay redacted
+     */
+    it('should seal the originals and reveal them', () => {
+      // Arrange
+      process.env.REDACTION_ENCRYPTION_KEY = ENCRYPTION_KEY;
+      const service = createService([
+        rule('stripe', '*', 'email', 'mask', true),
+        rule('stripe', '*', '$.items[*].sku', 'hash'),
+        rule('stripe', '*', '$.card', 'drop', true),
+      ]);
+      const redacted = service.redact(
+        'stripe',
+        'charge',
+        payload(),
+        '{"raw":1}',
+      );
+
+      // Act
+      const revealed = service.reveal(stored(redacted));
+
+      // Assert: Nothing readable is stored
+      expect(redacted.redaction?.sealed).toMatch(/^v1\./);
+      expect(redacted.redaction?.sealed).not.toContain('jane');
+      expect(revealed.payload).toEqual({
+        ...payload(),
+        items: [
+          expect.objectContaining({ sku: expect.stringMatching(/^sha256:/) }),
+          expect.objectContaining({ sku: expect.stringMatching(/^sha256:/) }),
+        ],
+      });
+      expect(revealed.rawBody).toBe('{"raw":1}');
+    });
+
+    /**
+     * Test: Values redacted inside a dropped parent come back into it
+     */
+    it('should restore nested originals in order', () => {
+      // Arrange
+      process.env.REDACTION_ENCRYPTION_KEY = ENCRYPTION_KEY;
+      const service = createService([
+        rule('*', '*', 'email', 'mask', true),
+        rule('*', '*', 'customer', 'drop', true),
+      ]);
+
+      // Act
+      const webhook = stored(service.redact('s', 'e', payload()));
+
+      // Assert
+      expect(webhook.payload).not.toHaveProperty('customer');
+      expect(service.reveal(webhook).payload.customer).toEqual(
+        payload().customer,
+      );
+    });
+
+    /**
+     * Test: Without the right key the webhook is returned as stored
+     */
+    it('should not reveal anything without the key', () => {
+      // Arrange
+      jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      process.env.REDACTION_ENCRYPTION_KEY = ENCRYPTION_KEY;
+      const webhook = stored(
+        createService([rule('*', '*', 'email', 'mask', true)]).redact(
+          's',
+          'e',
+          payload(),
+        ),
+      );
+
+      // Act
+      process.env.REDACTION_ENCRYPTION_KEY = randomBytes(32).toString('hex');
+      const otherKey = createService([rule('*', '*', 'email', 'mask', true)]);
+      delete process.env.REDACTION_ENCRYPTION_KEY;
+      const noKey = createService([rule('*', '*', 'email', 'mask', true)]);
+
+      // Assert
+      expect(otherKey.reveal(webhook)).toBe(webhook);
+      expect(noKey.reveal(webhook)).toBe(webhook);
+    });
+
+    /**
+     * Test: "encrypt" rules without a key still redact, keeping no copy
+     */
+    it('should redact without a copy when no key is set', () => {
+      // Arrange
+      const warnSpy = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+      const service = createService([rule('*', '*', 'email', 'mask', true)]);
+
+      // Act
+      const redacted = service.redact('s', 'e', payload());
+
+      // Assert
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(redacted.redaction).toEqual({
+        fields: [{ path: '$.customer.Email', action: 'mask' }],
+        sealed: undefined,
+      });
+    });
+  });
+});
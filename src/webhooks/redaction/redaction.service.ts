@@ -0,0 +1,511 @@
+/**
+ * Redaction Service
+ *
+ * Takes sensitive values out of payloads before they are stored.
+ * WebhooksService.create runs the rules right after verification and
+ * schema validation, so storage, quarantine, the catalog, the live stream,
+ * handlers and forwarding only ever see the redacted payload.
+ *
+ * - Every rule matching the webhook's source and event applies, in order
+ * - A rule points at fields with a JSON path ("$.customer.email",
+ *   "$.items[*].card", "$..iban" - see json-path.util) or a key name
+ *   pattern matched at any depth, ignoring case ("email", "*_address")
+ * - Each value found is masked, hashed or dropped (see RedactionAction),
+ *   once: values an earlier rule redacted are left alone
+ * - Rules flagged "encrypt" keep the original values, sealed with
+ *   AES-256-GCM in webhook.redaction.sealed. Keys with the
+ *   "read:unredacted" scope get them back with
+ *   GET /webhooks/:id?unredacted=true
+ * - The raw body would give the values away, so it isn't stored once a
+ *   field was redacted (it is sealed with the originals, if any).
+ *   rawBodySha256 is kept.
+ *
+ * Configuration:
+ * - REDACTION_RULES: Rules as a JSON array of
+ *   { source, event, target, action, encrypt? } objects. Source and event
+ *   accept "*" patterns; action is mask, hash or drop (e.g.
+ *   [{"source":"*","event":"*","target":"email","action":"mask","encrypt":true}]).
+ *   JSON, because targets may hold the commas and colons a delimited
+ *   format would split on (e.g. "$['a:b']")
+ * - REDACTION_ENCRYPTION_KEY: 32-byte key sealing the originals, as 64 hex
+ *   characters or base64 (without it, "encrypt" rules just redact)
+ * - REDACTION_HASH_KEY: Secret of the hashes (HMAC-SHA256), so short
+ *   values like emails can't be found by hashing guesses. Required by
+ *   "hash" rules: the service refuses to start without it
+ */
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  randomBytes,
+} from 'crypto';
+import { matchesPattern } from '../../common/utils/pattern.util';
+import {
+  findJsonPath,
+  findKeys,
+  formatJsonPath,
+  JsonPathLocation,
+  parseJsonPath,
+} from '../../common/utils/json-path.util';
+import { Webhook } from '../interfaces/webhook.interface';
+import {
+  RedactedField,
+  RedactedPayload,
+  RedactionAction,
+  RedactionRuleSummary,
+  RedactionStatusResponse,
+} from '../interfaces/redaction.interface';
+
+/** A REDACTION_RULES entry */
+interface RedactionRule extends RedactionRuleSummary {
+  /** Find the values the rule applies to in a payload */
+  find(payload: Record<string, unknown>): JsonPathLocation[];
+}
+
+/** What a sealed blob holds */
+interface SealedContents {
+  /** The original values, in the order they were redacted */
+  values: { location: JsonPathLocation; value: unknown }[];
+
+  /** The raw request body */
+  rawBody?: string;
+}
+
+/** Keys of a REDACTION_RULES entry */
+const RULE_KEYS = ['source', 'event', 'target', 'action', 'encrypt'];
+
+/** Actions a rule can take */
+const ACTIONS: RedactionAction[] = ['mask', 'hash', 'drop'];
+
+/** What masked values other than strings become */
+const MASK = '****';
+
+/** Characters masked strings keep at the end, when longer than twice that */
+const MASK_KEEP = 4;
+
+/** Version prefix of sealed blobs */
+const SEALED_VERSION = 'v1';
+
+@Injectable()
+export class RedactionService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(RedactionService.name);
+
+  /** REDACTION_RULES entries, in the order they apply */
+  private readonly rules: RedactionRule[] = [];
+
+  /** Key sealing the original values (AES-256-GCM) */
+  private readonly encryptionKey?: Buffer;
+
+  /** Secret of the hashes (HMAC-SHA256) */
+  private readonly hashKey?: string;
+
+  /** Webhooks redacted since startup */
+  private redactedWebhooks = 0;
+
+  /**
+   * Constructor - reads the rules and keys from the environment
+   *
+   * @throws Error if REDACTION_RULES isn't a JSON array, or has hash
+   *   rules while REDACTION_HASH_KEY is not set (fails fast at startup)
+   */
+  constructor() {
+    this.encryptionKey = this.parseEncryptionKey(
+      process.env.REDACTION_ENCRYPTION_KEY,
+    );
+    this.hashKey = process.env.REDACTION_HASH_KEY || undefined;
+
+    this.parseRules(process.env.REDACTION_RULES).forEach((entry) => {
+      const rule = this.parseRule(entry);
+      if (!rule) {
+        this.logger.warn(
+          `Ignoring malformed REDACTION_RULES entry: ${JSON.stringify(entry)}`,
+        );
+        return;
+      }
+      this.rules.push(rule);
+    });
+
+    if (this.rules.some((rule) => rule.action === 'hash') && !this.hashKey) {
+      throw new Error(
+        'REDACTION_RULES hash values, but REDACTION_HASH_KEY is not set. Set a secret, so hashed values cannot be found by hashing guesses.',
+      );
+    }
+    if (this.rules.some((rule) => rule.encrypt) && !this.encryptionKey) {
+      this.logger.warn(
+        'REDACTION_RULES keep originals encrypted, but REDACTION_ENCRYPTION_KEY is not set. They are redacted without a copy.',
+      );
+    }
+  }
+
+  /**
+   * Apply the rules of a source + event to a payload
+   *
+   * @param source - The webhook source
+   * @param event - The event type
+   * @param payload - The payload as received (left untouched)
+   * @param rawBody - The raw request body (UTF-8), if any
+   * @returns The payload and raw body to store, and how they were redacted
+   *   (no redaction when no rule found anything)
+   */
+  redact(
+    source: string,
+    event: string,
+    payload: Record<string, unknown>,
+    rawBody?: string,
+  ): RedactedPayload {
+    const rules = this.rules.filter(
+      (rule) =>
+        matchesPattern(source, rule.source) &&
+        matchesPattern(event, rule.event),
+    );
+    if (rules.length === 0) {
+      return { payload, rawBody };
+    }
+
+    const redacted = structuredClone(payload);
+    const fields: RedactedField[] = [];
+    const originals: SealedContents['values'] = [];
+    for (const rule of rules) {
+      for (const location of rule.find(redacted)) {
+        const path = formatJsonPath(location);
+        const parent = this.parentOf(redacted, location);
+        const key = location[location.length - 1];
+        if (
+          !this.holds(parent, key) ||
+          fields.some((field) => field.path === path)
+        ) {
+          continue; // Gone with a redacted parent, or already redacted
+        }
+
+        if (rule.encrypt && this.encryptionKey) {
+          originals.push({ location, value: parent[key] });
+        }
+        this.apply(rule.action, parent, key);
+        fields.push({ path, action: rule.action });
+        rule.redacted++;
+      }
+    }
+    if (fields.length === 0) {
+      return { payload, rawBody };
+    }
+
+    this.redactedWebhooks++;
+    return {
+      payload: redacted,
+      redaction: {
+        fields,
+        sealed:
+          originals.length > 0
+            ? this.seal({ values: originals, rawBody })
+            : undefined,
+      },
+    };
+  }
+
+  /**
+   * Put the original values back into a redacted webhook
+   *
+   * Only fields whose rule kept them encrypted come back; the others stay
+   * as stored.
+   *
+   * @param webhook - The stored webhook
+   * @returns A copy with the original values and raw body, or the webhook
+   *   itself if nothing was sealed (or the seal can't be opened)
+   */
+  reveal(webhook: Webhook): Webhook {
+    const sealed = webhook.redaction?.sealed;
+    if (!sealed) {
+      return webhook;
+    }
+    const contents = this.unseal(webhook.id, sealed);
+    if (!contents) {
+      return webhook;
+    }
+
+    // Latest first, so values redacted inside a dropped parent go back
+    // into the restored parent
+    const payload = structuredClone(webhook.payload);
+    [...contents.values].reverse().forEach(({ location, value }) => {
+      const parent = this.parentOf(payload, location);
+      if (parent) {
+        parent[location[location.length - 1]] = value;
+      }
+    });
+    return { ...webhook, payload, rawBody: contents.rawBody };
+  }
+
+  /**
+   * Get the rules, with the values each redacted
+   *
+   * @returns The configuration and counts since startup
+   */
+  getStatus(): RedactionStatusResponse {
+    return {
+      encryption: this.encryptionKey !== undefined,
+      keyedHashes: this.hashKey !== undefined,
+      rules: this.rules.map((rule) => ({
+        source: rule.source,
+        event: rule.event,
+        target: rule.target,
+        action: rule.action,
+        encrypt: rule.encrypt,
+        redacted: rule.redacted,
+      })),
+      webhooks: this.redactedWebhooks,
+    };
+  }
+
+  /**
+   * Read REDACTION_RULES (a JSON array)
+   *
+   * @returns The entries, not yet checked (none if unset)
+   * @throws Error if the value isn't a JSON array
+   */
+  private parseRules(value?: string): unknown[] {
+    if (!value?.trim()) {
+      return [];
+    }
+    let entries: unknown;
+    try {
+      entries = JSON.parse(value);
+    } catch (error) {
+      throw new Error(
+        `REDACTION_RULES is not valid JSON: ${(error as Error).message}`,
+      );
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error(
+        'REDACTION_RULES must be a JSON array of { source, event, target, action, encrypt? } objects',
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Check a REDACTION_RULES entry
+   *
+   * @param entry - One item of the array
+   * @returns The rule, or undefined if the entry is malformed (a missing
+   *   or empty field, an unknown action or key, a malformed target)
+   */
+  private parseRule(entry: unknown): RedactionRule | undefined {
+    if (entry === null || typeof entry !== 'object' || Array.isArray(entry)) {
+      return undefined;
+    }
+    const { source, event, target, action, encrypt } = entry as Record<
+      string,
+      unknown
+    >;
+    if (
+      typeof source !== 'string' ||
+      typeof event !== 'string' ||
+      typeof target !== 'string' ||
+      source === '' ||
+      event === '' ||
+      !ACTIONS.includes(action as RedactionAction) ||
+      (encrypt !== undefined && typeof encrypt !== 'boolean') ||
+      Object.keys(entry).some((key) => !RULE_KEYS.includes(key))
+    ) {
+      return undefined;
+    }
+    const find = this.parseTarget(target);
+    if (!find) {
+      return undefined;
+    }
+    return {
+      source,
+      event,
+      target,
+      action: action as RedactionAction,
+      encrypt: encrypt === true,
+      redacted: 0,
+      find,
+    };
+  }
+
+  /**
+   * Turn a rule's target into a search
+   *
+   * @param target - A JSON path ("$..."), or a key name pattern
+   * @returns The search, or undefined if the target is malformed
+   */
+  private parseTarget(target: string): RedactionRule['find'] | undefined {
+    if (target.startsWith('$')) {
+      const segments = parseJsonPath(target);
+      return segments && segments.length > 0
+        ? (payload) => findJsonPath(payload, segments)
+        : undefined;
+    }
+    if (target === '') {
+      return undefined;
+    }
+    const pattern = target.toLowerCase();
+    return (payload) =>
+      findKeys(payload, (key) => matchesPattern(key.toLowerCase(), pattern));
+  }
+
+  /**
+   * The object or array that holds (or held) the value at a location
+   *
+   * @returns The container, or undefined if the way to it is gone
+   */
+  private parentOf(
+    document: unknown,
+    location: JsonPathLocation,
+  ): Record<string | number, unknown> | undefined {
+    let current = document;
+    for (const step of location.slice(0, -1)) {
+      if (!this.holds(current, step)) {
+        return undefined;
+      }
+      current = current[step];
+    }
+    return current !== null && typeof current === 'object'
+      ? (current as Record<string | number, unknown>)
+      : undefined;
+  }
+
+  /**
+   * Whether a value is an object or array with an own key
+   */
+  private holds(
+    value: unknown,
+    key: string | number,
+  ): value is Record<string | number, unknown> {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      Object.prototype.hasOwnProperty.call(value, key)
+    );
+  }
+
+  /**
+   * Mask, hash or drop the value under a key
+   */
+  private apply(
+    action: RedactionAction,
+    parent: Record<string | number, unknown>,
+    key: string | number,
+  ): void {
+    switch (action) {
+      case 'mask':
+        parent[key] = this.mask(parent[key]);
+        break;
+      case 'hash':
+        parent[key] = this.hash(parent[key]);
+        break;
+      case 'drop':
+        if (Array.isArray(parent)) {
+          parent[key as number] = null; // Keep the other items' indexes
+        } else {
+          delete parent[key];
+        }
+        break;
+    }
+  }
+
+  /**
+   * Mask a value, keeping the end of long strings
+   * (e.g. "4242424242424242" becomes "************4242")
+   */
+  private mask(value: unknown): string {
+    if (typeof value !== 'string') {
+      return MASK;
+    }
+    const kept = value.length > MASK_KEEP * 2 ? MASK_KEEP : 0;
+    return '*'.repeat(value.length - kept) + value.slice(value.length - kept);
+  }
+
+  /**
+   * Hash a value as "sha256:<hex>", the HMAC-SHA256 of it under
+   * REDACTION_HASH_KEY (strings as they are, others as JSON)
+   */
+  private hash(value: unknown): string {
+    const data = typeof value === 'string' ? value : JSON.stringify(value);
+    return `sha256:${createHmac('sha256', this.hashKey as string)
+      .update(data)
+      .digest('hex')}`;
+  }
+
+  /**
+   * Encrypt original values as "v1.<iv>.<tag>.<ciphertext>" (base64url)
+   */
+  private seal(contents: SealedContents): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      this.encryptionKey as Buffer,
+      iv,
+    );
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(contents), 'utf8'),
+      cipher.final(),
+    ]);
+    return [SEALED_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) =>
+        typeof part === 'string' ? part : part.toString('base64url'),
+      )
+      .join('.');
+  }
+
+  /**
+   * Decrypt the original values of a webhook
+   *
+   * @returns Them, or undefined (logged) if the key is missing or wrong,
+   *   or the blob was tampered with
+   */
+  private unseal(id: string, sealed: string): SealedContents | undefined {
+    if (!this.encryptionKey) {
+      this.logger.warn(
+        `Originals of webhook ${id} requested, but REDACTION_ENCRYPTION_KEY is not set`,
+      );
+      return undefined;
+    }
+
+    const [version, iv, tag, ciphertext] = sealed.split('.');
+    try {
+      if (version !== SEALED_VERSION || ciphertext === undefined) {
+        throw new Error(`unknown format ${version}`);
+      }
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.encryptionKey,
+        Buffer.from(iv, 'base64url'),
+      );
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64url')),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString('utf8')) as SealedContents;
+    } catch (error) {
+      this.logger.warn(
+        `Originals of webhook ${id} could not be decrypted: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Read REDACTION_ENCRYPTION_KEY (64 hex characters, or base64)
+   *
+   * @returns The 32-byte key, or undefined if unset or malformed
+   */
+  private parseEncryptionKey(value?: string): Buffer | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const key = /^[0-9a-f]{64}$/i.test(value)
+      ? Buffer.from(value, 'hex')
+      : Buffer.from(value, 'base64');
+    if (key.length !== 32) {
+      this.logger.warn(
+        'Ignoring REDACTION_ENCRYPTION_KEY: it must be 32 bytes, as 64 hex characters or base64',
+      );
+      return undefined;
+    }
+    return key;
+  }
+}
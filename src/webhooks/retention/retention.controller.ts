@@ -0,0 +1,51 @@
+/**
+ * Retention Controller (Admin API)
+ *
+ * Shows the retention rules and what the sweeper expired, and runs a
+ * sweep on demand.
+ *
+ * Routes (all prefixed with /api/v1):
+ * - GET  /admin/retention        - Rules and expiry stats
+ * - POST /admin/retention/sweep  - Sweep now
+ */
+import { Controller, Get, Post, HttpCode, HttpStatus } from '@nestjs/common';
+import { RetentionService } from './retention.service';
+import {
+  RetentionStatusResponse,
+  RetentionSweepResult,
+} from '../interfaces/retention.interface';
+
+@Controller('admin/retention')
+export class RetentionController {
+  /**
+   * Constructor - NestJS automatically injects the service
+   *
+   * @param retentionService - The service enforcing the retention rules
+   */
+  constructor(private readonly retentionService: RetentionService) {}
+
+  /**
+   * GET /admin/retention
+   *
+   * @returns The rules (overrides first, then the global default), the
+   *   webhooks expired and evicted since startup, and the last sweep
+   */
+  @Get()
+  getStatus(): RetentionStatusResponse {
+    return this.retentionService.getStatus();
+  }
+
+  /**
+   * POST /admin/retention/sweep
+   *
+   * Deletes the expired webhooks right away instead of waiting for the
+   * next scheduled sweep.
+   *
+   * @returns What the sweep deleted
+   */
+  @Post('sweep')
+  @HttpCode(HttpStatus.OK)
+  sweep(): RetentionSweepResult {
+    return this.retentionService.sweep();
+  }
+}
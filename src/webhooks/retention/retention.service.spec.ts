@@ -0,0 +1,269 @@
+/**
+ * Retention Service Tests
+ *
+ * These tests verify the retention sweeper:
+ * - Expiring webhooks by age and by count, globally
+ * - Per source/event overrides (first match wins, empty limits inherit)
+ * - Leaving leased webhooks alone
+ * - Reporting expiries and storage-limit evictions
+ */
+import { RetentionService } from './retention.service';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** Sweeps measure ages from 13:00 */
+const now = new Date(Date.UTC(2024, 5, 1, 13, 0));
+
+/** Create a stored webhook, received `minute` minutes after noon */
+const createTestWebhook = (
+  id: string,
+  minute: number,
+  overrides?: Partial<Webhook>,
+): Webhook => ({
+  id,
+  source: 'stripe',
+  event: 'payment.succeeded',
+  payload: {},
+  receivedAt: new Date(Date.UTC(2024, 5, 1, 12, minute)),
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+  ...overrides,
+});
+
+describe('RetentionService', () => {
+  let storage: InMemoryWebhooksStorage;
+  let service: RetentionService;
+
+  /** IDs left in storage, newest first */
+  const storedIds = () =>
+    storage.getAll({ limit: 100 }).webhooks.map((w) => w.id);
+
+  /** Create the service with the current environment */
+  const createService = () => {
+    service?.onModuleDestroy();
+    service = new RetentionService(storage);
+  };
+
+  beforeEach(() => {
+    storage = new InMemoryWebhooksStorage({ maxStorageSize: 10 });
+    createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    delete process.env.RETENTION_MAX_AGE_MS;
+    delete process.env.RETENTION_MAX_COUNT;
+    delete process.env.RETENTION_RULES;
+  });
+
+  // ==================== Global Rule Tests ====================
+  describe('global rule', () => {
+    /**
+     * Test: Webhooks older than RETENTION_MAX_AGE_MS expire
+     */
+    it('should expire webhooks by age', () => {
+      // Arrange: Keep 30 minutes
+      process.env.RETENTION_MAX_AGE_MS = String(30 * 60 * 1000);
+      createService();
+      storage.save(createTestWebhook('old', 10));
+      storage.save(createTestWebhook('recent', 45));
+
+      // Act
+      const result = service.sweep(now);
+
+      // Assert
+      expect(storedIds()).toEqual(['recent']);
+      expect(result).toEqual(
+        expect.objectContaining({ expiredByAge: 1, expiredByCount: 0 }),
+      );
+    });
+
+    /**
+     * Test: Only the newest RETENTION_MAX_COUNT of each source + event stay
+     *
+     * Counts are per pair, so a busy event doesn't push out a quiet one
+     */
+    it('should expire webhooks by count per source and event', () => {
+      // Arrange
+      process.env.RETENTION_MAX_COUNT = '2';
+      createService();
+      storage.save(createTestWebhook('p-1', 1));
+      storage.save(createTestWebhook('p-2', 2));
+      storage.save(createTestWebhook('p-3', 3));
+      storage.save(
+        createTestWebhook('push-1', 0, { source: 'github', event: 'push' }),
+      );
+
+      // Act
+      const result = service.sweep(now);
+
+      // Assert
+      expect(storedIds()).toEqual(['p-3', 'p-2', 'push-1']);
+      expect(result.expiredByCount).toBe(1);
+    });
+
+    /**
+     * Test: Without limits nothing is deleted
+     */
+    it('should keep everything by default', () => {
+      storage.save(createTestWebhook('old', 0));
+
+      expect(service.sweep(now).expiredByAge).toBe(0);
+      expect(storedIds()).toEqual(['old']);
+    });
+  });
+
+  // ==================== RETENTION_RULES Tests ====================
+  describe('RETENTION_RULES', () => {
+    /**
+     * Test: The first matching override governs a webhook
+     *
+     * An empty limit keeps the global one; malformed entries are skipped
+     */
+    it('should apply the first matching override', () => {
+      // Arrange: Global 30 minutes, stripe 5 minutes, pings only the last one
+      process.env.RETENTION_MAX_AGE_MS = String(30 * 60 * 1000);
+      process.env.RETENTION_RULES =
+        'stripe:*:300000:,*:ping::1,github:push:soon:1';
+      createService();
+      storage.save(createTestWebhook('stripe-old', 50));
+      storage.save(createTestWebhook('stripe-new', 58));
+      storage.save(
+        createTestWebhook('ping-1', 40, { source: 'github', event: 'ping' }),
+      );
+      storage.save(
+        createTestWebhook('ping-2', 41, { source: 'github', event: 'ping' }),
+      );
+      storage.save(
+        createTestWebhook('ping-old', 20, { source: 'shop', event: 'ping' }),
+      );
+      storage.save(
+        createTestWebhook('push-1', 40, { source: 'github', event: 'push' }),
+      );
+      storage.save(
+        createTestWebhook('push-2', 41, { source: 'github', event: 'push' }),
+      );
+
+      // Act
+      service.sweep(now);
+
+      // Assert
+      expect(storedIds()).toEqual(['stripe-new', 'push-2', 'ping-2', 'push-1']);
+      expect(service.getStatus().rules).toEqual([
+        {
+          source: 'stripe',
+          event: '*',
+          maxAgeMs: 300000,
+          maxCount: 0,
+          expired: 1,
+        },
+        {
+          source: '*',
+          event: 'ping',
+          maxAgeMs: 1800000,
+          maxCount: 1,
+          expired: 2,
+        },
+        {
+          source: '*',
+          event: '*',
+          maxAgeMs: 1800000,
+          maxCount: 0,
+          expired: 0,
+        },
+      ]);
+    });
+  });
+
+  // ==================== sweep() Tests ====================
+  describe('sweep', () => {
+    /**
+     * Test: Webhooks leased to a worker are not deleted mid-processing
+     */
+    it('should not expire webhooks that are being processed', () => {
+      // Arrange
+      process.env.RETENTION_MAX_AGE_MS = '60000';
+      createService();
+      storage.save(createTestWebhook('leased', 0, { status: 'processing' }));
+      storage.save(createTestWebhook('done', 1, { status: 'processed' }));
+
+      // Act
+      service.sweep(now);
+
+      // Assert
+      expect(storedIds()).toEqual(['leased']);
+    });
+
+    /**
+     * Test: Sweeps walk past the first storage page
+     */
+    it('should sweep every page of storage', () => {
+      // Arrange
+      storage = new InMemoryWebhooksStorage({ maxStorageSize: 300 });
+      process.env.RETENTION_MAX_COUNT = '1';
+      createService();
+      for (let i = 0; i < 250; i++) {
+        storage.save(
+          createTestWebhook(`w-${String(i).padStart(3, '0')}`, 0, {
+            receivedAt: new Date(now.getTime() - i * 1000),
+          }),
+        );
+      }
+
+      // Act
+      const result = service.sweep(now);
+
+      // Assert
+      expect(result.expiredByCount).toBe(249);
+      expect(storedIds()).toEqual(['w-000']);
+    });
+
+    /**
+     * Test: Storage-limit evictions are reported once, by the next sweep
+     */
+    it('should report the evictions since the last sweep', () => {
+      // Arrange: The storage holds 10
+      for (let i = 0; i < 12; i++) {
+        storage.save(createTestWebhook(`w-${i}`, i));
+      }
+
+      // Act
+      const first = service.sweep(now);
+      const second = service.sweep(now);
+
+      // Assert
+      expect(first.evictedByStorageLimit).toBe(2);
+      expect(second.evictedByStorageLimit).toBe(0);
+      expect(service.getStatus()).toEqual(
+        expect.objectContaining({
+          sweeps: 2,
+          evictedByStorageLimit: 2,
+          lastSweep: second,
+        }),
+      );
+    });
+
+    /**
+     * Test: The sweeper runs on its own every RETENTION_SWEEP_INTERVAL_MS
+     */
+    it('should sweep on a timer', () => {
+      // Arrange
+      jest.useFakeTimers();
+      process.env.RETENTION_SWEEP_INTERVAL_MS = '1000';
+      createService();
+
+      try {
+        // Act
+        jest.advanceTimersByTime(2500);
+
+        // Assert
+        expect(service.getStatus().sweeps).toBe(2);
+      } finally {
+        delete process.env.RETENTION_SWEEP_INTERVAL_MS;
+        service.onModuleDestroy();
+        jest.useRealTimers();
+      }
+    });
+  });
+});
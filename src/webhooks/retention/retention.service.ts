@@ -0,0 +1,277 @@
+/**
+ * Retention Service
+ *
+ * Deletes stored webhooks that fall outside the retention rules, so one
+ * noisy source can't push everything else out of storage.
+ *
+ * Each webhook is governed by one rule: the first RETENTION_RULES entry
+ * matching its source and event, or else the global default. A rule can
+ * limit:
+ * - age: webhooks received more than maxAgeMs ago expire
+ * - count: only the newest maxCount webhooks of each source + event pair
+ *   are kept
+ *
+ * A background sweeper walks the storage and deletes the expired webhooks
+ * in one batch. Webhooks leased to a worker ("processing") are left alone
+ * until they are acked, failed or released.
+ *
+ * MAX_WEBHOOKS_STORAGE stays as a hard cap: drivers still evict the oldest
+ * webhook when storage is full. Those evictions are counted rather than
+ * logged one by one, and each sweep reports them in a single line.
+ *
+ * Configuration:
+ * - RETENTION_MAX_AGE_MS: Global maximum age (default: 0 = keep forever)
+ * - RETENTION_MAX_COUNT: Global maximum per source + event (default: 0 = no limit)
+ * - RETENTION_RULES: Overrides as "source:event:maxAgeMs:maxCount", comma
+ *   separated. Source and event accept "*" patterns; an empty limit keeps
+ *   the global one (e.g. "stripe:*:2592000000:,*:ping::100")
+ * - RETENTION_SWEEP_INTERVAL_MS: How often the sweeper runs (default: 60000)
+ */
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { WebhooksStorage } from '../webhooks.storage';
+import { matchesPattern } from '../../common/utils/pattern.util';
+import { CursorPosition } from '../../common/utils/cursor.util';
+import { Webhook } from '../interfaces/webhook.interface';
+import {
+  RetentionRule,
+  RetentionRuleStats,
+  RetentionStatusResponse,
+  RetentionSweepResult,
+} from '../interfaces/retention.interface';
+
+/** Webhooks read per storage page while sweeping */
+const SWEEP_PAGE_SIZE = 100;
+
+@Injectable()
+export class RetentionService implements OnModuleDestroy {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(RetentionService.name);
+
+  /** RETENTION_RULES overrides, in match order */
+  private readonly rules: RetentionRuleStats[] = [];
+
+  /** Rule for webhooks no override matches */
+  private readonly defaultRule: RetentionRuleStats;
+
+  /** How often the sweeper runs */
+  private readonly sweepIntervalMs: number;
+
+  /** Timer that runs the sweeps */
+  private readonly sweeper: NodeJS.Timeout;
+
+  /** Sweeps run since startup */
+  private sweeps = 0;
+
+  /** Totals since startup */
+  private expiredByAge = 0;
+  private expiredByCount = 0;
+
+  /** Storage evictions already reported by an earlier sweep */
+  private evictionsReported = 0;
+
+  /** The most recent sweep */
+  private lastSweep?: RetentionSweepResult;
+
+  /**
+   * Constructor - reads the retention rules and starts the sweeper
+   *
+   * @param storage - The storage to enforce the rules on
+   */
+  constructor(private readonly storage: WebhooksStorage) {
+    this.defaultRule = {
+      source: '*',
+      event: '*',
+      maxAgeMs: parseInt(process.env.RETENTION_MAX_AGE_MS || '0', 10),
+      maxCount: parseInt(process.env.RETENTION_MAX_COUNT || '0', 10),
+      expired: 0,
+    };
+
+    // Format: "source:event:maxAgeMs:maxCount,..."
+    (process.env.RETENTION_RULES || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [source, event, maxAge, maxCount] = entry
+          .split(':')
+          .map((part) => part.trim());
+        const rule = {
+          source,
+          event,
+          maxAgeMs: this.parseLimit(maxAge, this.defaultRule.maxAgeMs),
+          maxCount: this.parseLimit(maxCount, this.defaultRule.maxCount),
+          expired: 0,
+        };
+        if (!source || !event || isNaN(rule.maxAgeMs) || isNaN(rule.maxCount)) {
+          this.logger.warn(
+            `Ignoring malformed RETENTION_RULES entry: ${entry}`,
+          );
+          return;
+        }
+        this.rules.push(rule);
+      });
+
+    this.sweepIntervalMs = parseInt(
+      process.env.RETENTION_SWEEP_INTERVAL_MS || '60000',
+      10,
+    );
+    this.sweeper = setInterval(() => this.sweep(), this.sweepIntervalMs);
+    this.sweeper.unref(); // Don't keep the process alive just for the sweeper
+  }
+
+  /**
+   * Delete every webhook outside its retention rule
+   *
+   * Runs on a timer, and on demand via POST /admin/retention/sweep.
+   *
+   * @param now - The time ages are measured from
+   * @returns What the sweep deleted
+   */
+  sweep(now: Date = new Date()): RetentionSweepResult {
+    const startedAt = Date.now();
+    const byAge: string[] = [];
+    const byCount: string[] = [];
+
+    if (this.hasLimits()) {
+      // Webhooks seen so far per source + event pair (newest first)
+      const seen = new Map<string, number>();
+      let after: CursorPosition | undefined;
+      let hasMore = true;
+      while (hasMore) {
+        const page = this.storage.getAll({ limit: SWEEP_PAGE_SIZE, after });
+        for (const webhook of page.webhooks) {
+          const key = JSON.stringify([webhook.source, webhook.event]);
+          const position = (seen.get(key) ?? 0) + 1;
+          seen.set(key, position);
+
+          const rule = this.ruleFor(webhook);
+          const reason = this.expiryReason(webhook, rule, position, now);
+          if (reason && webhook.status !== 'processing') {
+            (reason === 'age' ? byAge : byCount).push(webhook.id);
+            rule.expired++;
+          }
+        }
+        hasMore = page.hasMore;
+        const last = page.webhooks[page.webhooks.length - 1];
+        after = last && { timestamp: last.receivedAt, id: last.id };
+      }
+
+      // Deleted after the walk, so the cursor never skips a webhook
+      this.storage.deleteMany([...byAge, ...byCount]);
+    }
+
+    const evicted = this.storage.getEvictedCount();
+    const result: RetentionSweepResult = {
+      sweptAt: now,
+      durationMs: Date.now() - startedAt,
+      expiredByAge: byAge.length,
+      expiredByCount: byCount.length,
+      evictedByStorageLimit: evicted - this.evictionsReported,
+    };
+    this.evictionsReported = evicted;
+    this.sweeps++;
+    this.expiredByAge += result.expiredByAge;
+    this.expiredByCount += result.expiredByCount;
+    this.lastSweep = result;
+
+    if (result.expiredByAge + result.expiredByCount > 0) {
+      this.logger.log(
+        `Retention sweep expired ${result.expiredByAge + result.expiredByCount} webhook(s) ` +
+          `(age: ${result.expiredByAge}, count: ${result.expiredByCount}) in ${result.durationMs}ms`,
+      );
+    }
+    if (result.evictedByStorageLimit > 0) {
+      this.logger.warn(
+        `Storage limit (MAX_WEBHOOKS_STORAGE) evicted ${result.evictedByStorageLimit} webhook(s) since the last sweep`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Get the retention rules and what was expired so far
+   *
+   * @returns Rules, totals since startup and the most recent sweep
+   */
+  getStatus(): RetentionStatusResponse {
+    return {
+      sweepIntervalMs: this.sweepIntervalMs,
+      rules: [...this.rules, this.defaultRule].map((rule) => ({ ...rule })),
+      sweeps: this.sweeps,
+      expiredByAge: this.expiredByAge,
+      expiredByCount: this.expiredByCount,
+      evictedByStorageLimit: this.storage.getEvictedCount(),
+      lastSweep: this.lastSweep,
+    };
+  }
+
+  /**
+   * Stop the sweeper when the application shuts down
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.sweeper);
+  }
+
+  /**
+   * Find the rule governing a webhook (first matching override, else default)
+   */
+  private ruleFor(webhook: Webhook): RetentionRuleStats {
+    return (
+      this.rules.find(
+        (rule) =>
+          matchesPattern(webhook.source, rule.source) &&
+          matchesPattern(webhook.event, rule.event),
+      ) ?? this.defaultRule
+    );
+  }
+
+  /**
+   * Why a webhook is past its rule, if it is
+   *
+   * @param webhook - The webhook
+   * @param rule - Its rule
+   * @param position - Its place among its source + event pair, newest = 1
+   * @param now - The time ages are measured from
+   * @returns "age", "count", or undefined if the webhook is kept
+   */
+  private expiryReason(
+    webhook: Webhook,
+    rule: RetentionRule,
+    position: number,
+    now: Date,
+  ): 'age' | 'count' | undefined {
+    if (
+      rule.maxAgeMs > 0 &&
+      now.getTime() - webhook.receivedAt.getTime() > rule.maxAgeMs
+    ) {
+      return 'age';
+    }
+    if (rule.maxCount > 0 && position > rule.maxCount) {
+      return 'count';
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether any rule limits anything (otherwise sweeps skip the walk)
+   */
+  private hasLimits(): boolean {
+    return [...this.rules, this.defaultRule].some(
+      (rule) => rule.maxAgeMs > 0 || rule.maxCount > 0,
+    );
+  }
+
+  /**
+   * Parse one limit of a RETENTION_RULES entry
+   *
+   * @param value - The configured limit ("" or missing keeps the global one)
+   * @param fallback - The global limit
+   * @returns The limit, or NaN if it is not a non-negative number
+   */
+  private parseLimit(value: string | undefined, fallback: number): number {
+    if (!value) {
+      return fallback;
+    }
+    return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Webhook Status
+ *
+ * The processing lifecycle of a stored webhook, so the service can be used
+ * as a simple work queue:
+ *
+ *   received ──> processing ──> processed
+ *      │  ▲          │  ▲
+ *      │  └──────────┘  │
+ *      └──> failed ─────┘
+ *
+ * - received -> processing: a worker claims it (POST /webhooks/claim)
+ * - processing -> received: the worker releases it, or its lease expires
+ * - received / processing / failed -> processed: POST /webhooks/:id/ack
+ * - received / processing -> failed: POST /webhooks/:id/fail
+ * - failed -> processing: retried
+ *
+ * processed is final: a handled webhook can't fail or be handled again.
+ */
+import { ConflictException } from '@nestjs/common';
+import { Webhook, WebhookStatus } from '../interfaces/webhook.interface';
+
+/** Every status, in lifecycle order (accepted by ?status=) */
+export const WEBHOOK_STATUSES: WebhookStatus[] = [
+  'received',
+  'processing',
+  'processed',
+  'failed',
+];
+
+/** The statuses each status can move to */
+const TRANSITIONS: Record<WebhookStatus, WebhookStatus[]> = {
+  received: ['processing', 'processed', 'failed'],
+  processing: ['received', 'processed', 'failed'],
+  processed: [],
+  failed: ['processing', 'processed'],
+};
+
+/**
+ * Check whether a webhook may move from one status to another
+ *
+ * @param from - The current status
+ * @param to - The requested status
+ * @returns true if the transition is allowed
+ */
+export function canTransition(from: WebhookStatus, to: WebhookStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a webhook to a new status (in place, without saving it)
+ *
+ * Records when the transition happened (processingAt, processedAt or
+ * failedAt) and, for failures, the error message. Leaving "processing"
+ * ends any lease on the webhook.
+ *
+ * @param webhook - The webhook to update
+ * @param status - The new status
+ * @param error - Error message (only for "failed")
+ * @throws ConflictException if the lifecycle doesn't allow the transition
+ */
+export function applyTransition(
+  webhook: Webhook,
+  status: WebhookStatus,
+  error?: string,
+): void {
+  if (!canTransition(webhook.status, status)) {
+    throw new ConflictException(
+      `Webhook is ${webhook.status} and cannot become ${status}`,
+    );
+  }
+
+  const now = new Date();
+  webhook.status = status;
+  if (status === 'processing') {
+    webhook.processingAt = now;
+  } else {
+    delete webhook.leaseId;
+    delete webhook.leaseExpiresAt;
+  }
+  if (status === 'processed') {
+    webhook.processedAt = now;
+  } else if (status === 'failed') {
+    webhook.failedAt = now;
+    webhook.error = error;
+  }
+}
@@ -0,0 +1,411 @@
+/**
+ * In-Memory Webhooks Storage Driver
+ *
+ * Stores webhooks in a Map inside the process. Fast and dependency-free,
+ * but everything is lost when the process restarts.
+ *
+ * Key features:
+ * - O(1) lookups using Map instead of Array
+ * - Automatic cleanup when storage limit is reached
+ * - Pagination and filtering support, over an index kept sorted by
+ *   (receivedAt, id) so reads never sort
+ *
+ * Selected with STORAGE_DRIVER=memory (the default).
+ */
+import { Logger } from '@nestjs/common';
+import { WebhooksStorage } from '../webhooks.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+import {
+  SourceUsage,
+  StorageDriverOptions,
+  WebhookQueryOptions,
+  WebhookQueryResult,
+} from '../interfaces/webhooks-storage.interface';
+import { hasFilters, matchesWebhookQuery } from './webhook-filter';
+import { payloadSize } from './webhook-serializer';
+import {
+  compareCursorPositions,
+  CursorPosition,
+} from '../../common/utils/cursor.util';
+
+export class InMemoryWebhooksStorage extends WebhooksStorage {
+  /** Logger instance for this class - outputs to console with class name prefix */
+  protected readonly logger: Logger = new Logger(InMemoryWebhooksStorage.name);
+
+  /**
+   * In-memory storage using Map for O(1) lookups by ID
+   * Map preserves insertion order, so first key = oldest webhook
+   */
+  protected webhooks: Map<string, Webhook> = new Map();
+
+  /**
+   * Secondary index for idempotency lookups
+   * Key: source + idempotency key, Value: webhook ID
+   */
+  protected idempotencyIndex: Map<string, string> = new Map();
+
+  /**
+   * Every webhook's position, sorted ascending by (receivedAt, id)
+   * Kept sorted on every write (binary search + insert), so getAll() can
+   * walk it newest-first without sorting. New webhooks almost always go
+   * at the end, which makes the insert cheap.
+   */
+  protected order: CursorPosition[] = [];
+
+  /**
+   * Count and payload bytes per source, kept up to date on every write
+   * Key: source, Value: its usage
+   */
+  protected usage: Map<string, SourceUsage> = new Map();
+
+  /**
+   * Payload size of every stored webhook (so updates and removals can be
+   * subtracted from the usage without measuring the payload again)
+   * Key: webhook ID, Value: payload bytes
+   */
+  protected payloadSizes: Map<string, number> = new Map();
+
+  /** Maximum number of webhooks to store before removing oldest */
+  protected readonly maxStorageSize: number;
+
+  /**
+   * Constructor - reads the max storage size from options or environment
+   *
+   * @param options - Optional driver options (maxStorageSize)
+   */
+  constructor(options: StorageDriverOptions = {}) {
+    super();
+    // Parse env variable, default to 10000 if not set
+    this.maxStorageSize =
+      options.maxStorageSize ??
+      parseInt(process.env.MAX_WEBHOOKS_STORAGE || '10000', 10);
+  }
+
+  /**
+   * Save a webhook to storage
+   *
+   * If storage is full, removes the oldest webhook first (FIFO - First In, First Out)
+   * This prevents unbounded memory growth.
+   * Updating an existing webhook never evicts anything (the count doesn't grow).
+   *
+   * @param webhook - The webhook object to save
+   * @returns The saved webhook
+   */
+  save(webhook: Webhook): Webhook {
+    // Check if we've hit the storage limit
+    const isNew = !this.webhooks.has(webhook.id);
+    if (isNew && this.webhooks.size >= this.maxStorageSize) {
+      // Get the first (oldest) key from the Map
+      const oldestKey = this.webhooks.keys().next().value;
+      if (oldestKey) {
+        // Remove the oldest webhook to make room (reported by retention)
+        this.remove(oldestKey);
+        this.evicted++;
+        this.logger.debug(
+          `Storage limit reached. Removed oldest webhook: ${oldestKey}`,
+        );
+      }
+    }
+
+    // Keep the sorted index in step (an update may change receivedAt)
+    const previous = this.webhooks.get(webhook.id);
+    if (previous?.receivedAt.getTime() !== webhook.receivedAt.getTime()) {
+      if (previous) {
+        this.removeFromOrder(previous);
+      }
+      this.insertIntoOrder(webhook);
+    }
+
+    // Keep the per-source usage in step (an update may change the payload)
+    if (previous) {
+      this.untrackUsage(previous);
+    }
+    this.trackUsage(webhook);
+
+    // Add the new webhook to the Map (an existing ID keeps its position)
+    this.webhooks.set(webhook.id, webhook);
+    if (webhook.idempotencyKey) {
+      this.idempotencyIndex.set(
+        this.indexKey(webhook.source, webhook.idempotencyKey),
+        webhook.id,
+      );
+    }
+    this.logger.log(`Webhook saved: ${webhook.id}`);
+    return webhook;
+  }
+
+  /**
+   * Get all webhooks with optional filtering and pagination
+   *
+   * @param options - Optional filtering and pagination parameters
+   * @returns Object containing webhooks array (and total count, if asked)
+   */
+  getAll(options?: WebhookQueryOptions): WebhookQueryResult {
+    const page = options?.page || 1;
+    const limit = options?.limit || 10;
+
+    // Start right after the cursor, or skip whole pages (offset pagination)
+    const step = options?.oldestFirst ? 1 : -1;
+    let index = options?.after
+      ? this.startAfter(options.after, step)
+      : step > 0
+        ? 0
+        : this.order.length - 1;
+    let skip = options?.after ? 0 : (page - 1) * limit;
+
+    // Walk the sorted index newest-first (or oldest-first), applying the
+    // filters (source, event pattern, date range, verified, payload fields)
+    const webhooks: Webhook[] = [];
+    let hasMore = false;
+    for (; index >= 0 && index < this.order.length; index += step) {
+      const webhook = this.webhooks.get(this.order[index].id)!;
+      if (!matchesWebhookQuery(webhook, options)) {
+        continue;
+      }
+      if (skip > 0) {
+        skip--;
+      } else if (webhooks.length < limit) {
+        webhooks.push(webhook);
+      } else {
+        hasMore = true;
+        break;
+      }
+    }
+
+    if (!options?.withTotal) {
+      return { webhooks, hasMore };
+    }
+
+    // Without filters every webhook matches; otherwise count the matches
+    const total = hasFilters(options)
+      ? this.order.filter((position) =>
+          matchesWebhookQuery(this.webhooks.get(position.id)!, options),
+        ).length
+      : this.webhooks.size;
+
+    return { webhooks, total, hasMore };
+  }
+
+  /**
+   * Get a single webhook by its ID
+   *
+   * Uses Map.get() for O(1) lookup time
+   *
+   * @param id - The webhook UUID to find
+   * @returns The webhook if found, undefined otherwise
+   */
+  getById(id: string): Webhook | undefined {
+    return this.webhooks.get(id);
+  }
+
+  /**
+   * Find a webhook by its idempotency key
+   *
+   * Uses the secondary index for an O(1) lookup
+   *
+   * @param source - The webhook source
+   * @param key - The idempotency key
+   * @returns The webhook if found, undefined otherwise
+   */
+  getByIdempotencyKey(source: string, key: string): Webhook | undefined {
+    const id = this.idempotencyIndex.get(this.indexKey(source, key));
+    return id ? this.webhooks.get(id) : undefined;
+  }
+
+  /**
+   * Get the total number of stored webhooks
+   *
+   * @returns The count of webhooks in storage
+   */
+  count(): number {
+    return this.webhooks.size;
+  }
+
+  /**
+   * Get how many webhooks a source has stored, and their payload size
+   *
+   * @param source - The webhook source
+   * @returns Count and payload bytes (zero for unknown sources)
+   */
+  getSourceUsage(source: string): SourceUsage {
+    const usage = this.usage.get(source);
+    return usage ? { ...usage } : { count: 0, payloadBytes: 0 };
+  }
+
+  /**
+   * Clear all webhooks from storage
+   *
+   * Primarily used for testing purposes
+   */
+  clear(): void {
+    this.webhooks.clear();
+    this.idempotencyIndex.clear();
+    this.order = [];
+    this.usage.clear();
+    this.payloadSizes.clear();
+    this.logger.log('Storage cleared');
+  }
+
+  /**
+   * Delete a webhook by its ID
+   *
+   * @param id - The webhook UUID to delete
+   * @returns true if the webhook was found and deleted, false otherwise
+   */
+  delete(id: string): boolean {
+    const deleted = this.remove(id);
+    if (deleted) {
+      this.logger.log(`Webhook deleted: ${id}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete several webhooks at once
+   *
+   * @param ids - The webhook UUIDs to delete
+   * @returns How many webhooks were found and deleted
+   */
+  deleteMany(ids: string[]): number {
+    const deleted = ids.filter((id) => this.remove(id)).length;
+    if (deleted > 0) {
+      this.logger.log(`Webhooks deleted: ${deleted}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Remove a webhook from the Map and from the idempotency index
+   *
+   * @param id - The webhook UUID to remove
+   * @returns true if the webhook existed
+   */
+  protected remove(id: string): boolean {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) {
+      return false;
+    }
+
+    this.webhooks.delete(id);
+    this.removeFromOrder(webhook);
+    this.untrackUsage(webhook);
+    if (webhook.idempotencyKey) {
+      const key = this.indexKey(webhook.source, webhook.idempotencyKey);
+      // Only drop the index entry if it still points at this webhook
+      if (this.idempotencyIndex.get(key) === id) {
+        this.idempotencyIndex.delete(key);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Add a webhook to its source's usage
+   *
+   * @param webhook - The webhook being stored
+   */
+  protected trackUsage(webhook: Webhook): void {
+    const size = payloadSize(webhook.payload);
+    const usage = this.usage.get(webhook.source) ?? {
+      count: 0,
+      payloadBytes: 0,
+    };
+    usage.count++;
+    usage.payloadBytes += size;
+    this.usage.set(webhook.source, usage);
+    this.payloadSizes.set(webhook.id, size);
+  }
+
+  /**
+   * Take a webhook out of its source's usage
+   *
+   * @param webhook - The webhook as it was stored
+   */
+  protected untrackUsage(webhook: Webhook): void {
+    const usage = this.usage.get(webhook.source);
+    if (!usage) {
+      return;
+    }
+    usage.count--;
+    usage.payloadBytes -= this.payloadSizes.get(webhook.id) ?? 0;
+    this.payloadSizes.delete(webhook.id);
+    if (usage.count <= 0) {
+      this.usage.delete(webhook.source);
+    }
+  }
+
+  /**
+   * Insert a webhook's position into the sorted index
+   *
+   * @param webhook - The webhook being added
+   */
+  protected insertIntoOrder(webhook: Webhook): void {
+    const position = { timestamp: webhook.receivedAt, id: webhook.id };
+    this.order.splice(this.lowerBound(position), 0, position);
+  }
+
+  /**
+   * Remove a webhook's position from the sorted index
+   *
+   * @param webhook - The webhook being removed (as it was stored)
+   */
+  protected removeFromOrder(webhook: Webhook): void {
+    const index = this.lowerBound({
+      timestamp: webhook.receivedAt,
+      id: webhook.id,
+    });
+    if (this.order[index]?.id === webhook.id) {
+      this.order.splice(index, 1);
+    }
+  }
+
+  /**
+   * Index of the first entry past a cursor position, walking in `step`
+   * direction (the cursor's own webhook may have been deleted meanwhile)
+   *
+   * @param position - The cursor position
+   * @param step - -1 to walk newest-first, 1 to walk oldest-first
+   * @returns Index to start walking from
+   */
+  protected startAfter(position: CursorPosition, step: number): number {
+    const index = this.lowerBound(position);
+    if (step < 0) {
+      return index - 1;
+    }
+    const current = this.order[index];
+    return current && compareCursorPositions(current, position) === 0
+      ? index + 1
+      : index;
+  }
+
+  /**
+   * Binary search: index of the first entry that is not before `position`
+   *
+   * @param position - The (receivedAt, id) position to look for
+   * @returns Insertion index (order.length if every entry comes first)
+   */
+  protected lowerBound(position: CursorPosition): number {
+    let low = 0;
+    let high = this.order.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compareCursorPositions(this.order[middle], position) < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Build the idempotency index key (keys are scoped per source)
+   *
+   * @param source - The webhook source
+   * @param key - The idempotency key
+   * @returns A key that can't collide across sources
+   */
+  protected indexKey(source: string, key: string): string {
+    return JSON.stringify([source, key]);
+  }
+}
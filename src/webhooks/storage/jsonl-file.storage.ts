@@ -0,0 +1,192 @@
+/**
+ * JSONL File Webhooks Storage Driver
+ *
+ * Keeps the same in-memory Map as InMemoryWebhooksStorage for fast reads,
+ * and records every change as one line in an append-only JSON Lines file:
+ *
+ *   {"op":"put","webhook":{...}}
+ *   {"op":"delete","id":"550e8400-..."}
+ *
+ * On startup the file is replayed line by line to rebuild the Map, so
+ * webhooks survive restarts. Because replay runs the same save() logic
+ * (including FIFO eviction), the rebuilt state matches what was in memory.
+ *
+ * The file only ever grows, so when it holds far more lines than live
+ * webhooks it is compacted on startup (rewritten with one "put" per webhook).
+ *
+ * Selected with STORAGE_DRIVER=jsonl.
+ */
+import { Logger } from '@nestjs/common';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import { InMemoryWebhooksStorage } from './in-memory.storage';
+import { reviveWebhook } from './webhook-serializer';
+import { Webhook } from '../interfaces/webhook.interface';
+import { StorageDriverOptions } from '../interfaces/webhooks-storage.interface';
+
+/** Default file location when no path is configured */
+const DEFAULT_FILE_PATH = 'data/webhooks.jsonl';
+
+/** Don't bother compacting files smaller than this many lines */
+const MIN_COMPACTION_LINES = 1000;
+
+/**
+ * A single line in the JSONL file
+ */
+type JournalEntry =
+  | { op: 'put'; webhook: Webhook }
+  | { op: 'delete'; id: string };
+
+export class JsonlFileWebhooksStorage extends InMemoryWebhooksStorage {
+  /** Logger instance for this class */
+  protected readonly logger: Logger = new Logger(JsonlFileWebhooksStorage.name);
+
+  /** Path of the JSONL file backing this storage */
+  private readonly filePath: string;
+
+  /**
+   * Constructor - opens (or creates) the file and replays it into memory
+   *
+   * @param options - Driver options (filePath, maxStorageSize)
+   */
+  constructor(options: StorageDriverOptions = {}) {
+    super(options);
+    this.filePath = options.filePath || DEFAULT_FILE_PATH;
+
+    // Make sure the parent directory exists (e.g. ./data)
+    mkdirSync(dirname(this.filePath), { recursive: true });
+
+    this.load();
+    // Evictions during replay already happened (and were counted) before
+    this.evicted = 0;
+  }
+
+  /**
+   * Save a webhook and append a "put" line to the file
+   *
+   * @param webhook - The webhook object to save
+   * @returns The saved webhook
+   */
+  save(webhook: Webhook): Webhook {
+    const saved = super.save(webhook);
+    this.append({ op: 'put', webhook });
+    return saved;
+  }
+
+  /**
+   * Delete a webhook and append a "delete" line to the file
+   *
+   * @param id - The webhook UUID to delete
+   * @returns true if the webhook was found and deleted, false otherwise
+   */
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.append({ op: 'delete', id });
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete several webhooks and append their "delete" lines in one write
+   *
+   * @param ids - The webhook UUIDs to delete
+   * @returns How many webhooks were found and deleted
+   */
+  deleteMany(ids: string[]): number {
+    const existing = ids.filter((id) => this.webhooks.has(id));
+    const deleted = super.deleteMany(existing);
+    this.append(...existing.map((id): JournalEntry => ({ op: 'delete', id })));
+    return deleted;
+  }
+
+  /**
+   * Clear all webhooks and truncate the file
+   */
+  clear(): void {
+    super.clear();
+    writeFileSync(this.filePath, '');
+  }
+
+  /**
+   * Append journal entries to the end of the file
+   *
+   * Uses a synchronous write so the entries are on disk before we respond.
+   *
+   * @param entries - The changes to record
+   */
+  private append(...entries: JournalEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+    appendFileSync(
+      this.filePath,
+      entries.map((entry) => JSON.stringify(entry) + '\n').join(''),
+    );
+  }
+
+  /**
+   * Rebuild the in-memory Map by replaying the file
+   *
+   * Lines that can't be parsed (e.g. a half-written last line after a crash)
+   * are skipped with a warning instead of stopping the service from starting.
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = readFileSync(this.filePath, 'utf8')
+      .split('\n')
+      .filter((line) => line.trim() !== '');
+
+    lines.forEach((line, index) => {
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (entry.op === 'put') {
+          // Call the parent directly so replaying doesn't append again
+          super.save(reviveWebhook(entry.webhook));
+        } else if (entry.op === 'delete') {
+          super.delete(entry.id);
+        }
+      } catch {
+        this.logger.warn(
+          `Skipping unreadable line ${index + 1} in ${this.filePath}`,
+        );
+      }
+    });
+
+    this.logger.log(
+      `Loaded ${this.count()} webhooks from ${this.filePath} (${lines.length} lines)`,
+    );
+
+    // Compact when the file is mostly superseded/deleted entries
+    if (lines.length > MIN_COMPACTION_LINES && lines.length > this.count() * 2) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the file with exactly one "put" line per live webhook
+   *
+   * Writes to a temporary file first and then renames it, so a crash
+   * mid-compaction never leaves a half-written file behind.
+   */
+  private compact(): void {
+    const tempPath = `${this.filePath}.tmp`;
+    const content = Array.from(this.webhooks.values())
+      .map((webhook) => JSON.stringify({ op: 'put', webhook }) + '\n')
+      .join('');
+
+    writeFileSync(tempPath, content);
+    renameSync(tempPath, this.filePath);
+    this.logger.log(`Compacted ${this.filePath} to ${this.count()} lines`);
+  }
+}
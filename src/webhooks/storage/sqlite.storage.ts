@@ -0,0 +1,492 @@
+/**
+ * SQLite Webhooks Storage Driver
+ *
+ * Stores webhooks in an embedded SQLite database using sql.js
+ * (SQLite compiled to WebAssembly - no native build step required).
+ *
+ * Table layout:
+ * - seq:         Auto-increment insertion order (used for FIFO eviction)
+ * - id:          Webhook UUID (unique)
+ * - source/event/received_at: Indexed columns used for filtering and sorting
+ *   ((received_at, id) is the list order, see idx_webhooks_order)
+ * - idempotency_key: Provider delivery ID (indexed together with source)
+ * - payload_bytes: Size of the payload (summed per source for the quotas)
+ * - data:        The full webhook serialized as JSON
+ *
+ * Event patterns and payload field filters are checked by JavaScript
+ * functions registered with SQLite (matches_pattern, payload_matches),
+ * so they behave exactly like the in-memory driver (see webhook-filter.ts).
+ *
+ * sql.js keeps the database in memory, so after every change the whole
+ * database is exported and written back to the file. This keeps the data
+ * durable across restarts at the cost of extra disk writes.
+ *
+ * Selected with STORAGE_DRIVER=sqlite.
+ */
+import { Logger } from '@nestjs/common';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { WebhooksStorage } from '../webhooks.storage';
+import { Webhook } from '../interfaces/webhook.interface';
+import {
+  SourceUsage,
+  StorageDriverOptions,
+  WebhookQueryOptions,
+  WebhookQueryResult,
+} from '../interfaces/webhooks-storage.interface';
+import {
+  deserializeWebhook,
+  payloadSize,
+  serializeWebhook,
+} from './webhook-serializer';
+import { matchesPayloadFilter } from './webhook-filter';
+import { matchesPattern } from '../../common/utils/pattern.util';
+
+/** Default database location when no path is configured */
+const DEFAULT_FILE_PATH = 'data/webhooks.sqlite';
+
+export class SqliteWebhooksStorage extends WebhooksStorage {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(SqliteWebhooksStorage.name);
+
+  /** Maximum number of webhooks to store before removing oldest */
+  private readonly maxStorageSize: number;
+
+  /**
+   * Private constructor - use SqliteWebhooksStorage.create() instead,
+   * because loading the SQLite WebAssembly module is asynchronous.
+   *
+   * @param db - The open sql.js database
+   * @param filePath - Where the database file is written after each change
+   * @param options - Driver options (maxStorageSize)
+   */
+  private constructor(
+    private readonly db: Database,
+    private readonly filePath: string,
+    options: StorageDriverOptions,
+  ) {
+    super();
+    this.maxStorageSize =
+      options.maxStorageSize ??
+      parseInt(process.env.MAX_WEBHOOKS_STORAGE || '10000', 10);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        source TEXT NOT NULL,
+        event TEXT NOT NULL,
+        received_at INTEGER NOT NULL,
+        idempotency_key TEXT,
+        payload_bytes INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      )
+    `);
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS idx_webhooks_received_at ON webhooks (received_at)',
+    );
+    this.migrate();
+    this.registerFunctions();
+  }
+
+  /**
+   * Open (or create) the SQLite database file
+   *
+   * @param options - Driver options (filePath, maxStorageSize)
+   * @returns A ready-to-use storage driver
+   */
+  static async create(
+    options: StorageDriverOptions = {},
+  ): Promise<SqliteWebhooksStorage> {
+    const filePath = options.filePath || DEFAULT_FILE_PATH;
+
+    // Load the SQLite WebAssembly module
+    const SQL = await initSqlJs();
+
+    // Make sure the parent directory exists (e.g. ./data)
+    mkdirSync(dirname(filePath), { recursive: true });
+
+    // Open the existing database file, or start with an empty one
+    const db = existsSync(filePath)
+      ? new SQL.Database(readFileSync(filePath))
+      : new SQL.Database();
+
+    const storage = new SqliteWebhooksStorage(db, filePath, options);
+    storage.logger.log(
+      `Opened ${filePath} with ${storage.count()} stored webhooks`,
+    );
+    return storage;
+  }
+
+  /**
+   * Save a webhook to storage
+   *
+   * If storage is full, removes the oldest webhook first (FIFO).
+   * Saving an existing ID updates the row in place (and never evicts).
+   *
+   * @param webhook - The webhook object to save
+   * @returns The saved webhook
+   */
+  save(webhook: Webhook): Webhook {
+    // Check if we've hit the storage limit
+    const isNew = !this.queryOne('SELECT 1 FROM webhooks WHERE id = ?', [
+      webhook.id,
+    ]);
+    if (isNew && this.count() >= this.maxStorageSize) {
+      const oldest = this.queryOne(
+        'SELECT id FROM webhooks ORDER BY seq ASC LIMIT 1',
+      );
+      if (oldest) {
+        this.db.run('DELETE FROM webhooks WHERE id = ?', [oldest.id]);
+        this.evicted++;
+        this.logger.debug(
+          `Storage limit reached. Removed oldest webhook: ${oldest.id}`,
+        );
+      }
+    }
+
+    // Insert, or update in place if the ID already exists (keeps its seq)
+    this.db.run(
+      `INSERT INTO webhooks (id, source, event, received_at, idempotency_key, payload_bytes, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         source = excluded.source,
+         event = excluded.event,
+         received_at = excluded.received_at,
+         idempotency_key = excluded.idempotency_key,
+         payload_bytes = excluded.payload_bytes,
+         data = excluded.data`,
+      [
+        webhook.id,
+        webhook.source,
+        webhook.event,
+        webhook.receivedAt.getTime(),
+        webhook.idempotencyKey ?? null,
+        payloadSize(webhook.payload),
+        serializeWebhook(webhook),
+      ],
+    );
+
+    this.persist();
+    this.logger.log(`Webhook saved: ${webhook.id}`);
+    return webhook;
+  }
+
+  /**
+   * Get all webhooks with optional filtering and pagination
+   *
+   * Filtering, sorting and pagination all happen inside SQLite.
+   *
+   * @param options - Optional filtering and pagination parameters
+   * @returns Object containing webhooks array (and total count, if asked)
+   */
+  getAll(options?: WebhookQueryOptions): WebhookQueryResult {
+    // Build the WHERE clause from the provided filters
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (options?.source) {
+      conditions.push('source = ?');
+      params.push(options.source);
+    }
+
+    if (options?.event) {
+      // Plain names can use a simple comparison; patterns need the "*" matcher
+      conditions.push(
+        options.event.includes('*')
+          ? 'matches_pattern(event, ?) = 1'
+          : 'event = ?',
+      );
+      params.push(options.event);
+    }
+
+    if (options?.receivedAfter) {
+      conditions.push('received_at >= ?');
+      params.push(options.receivedAfter.getTime());
+    }
+
+    if (options?.receivedBefore) {
+      conditions.push('received_at < ?');
+      params.push(options.receivedBefore.getTime());
+    }
+
+    if (options?.verified !== undefined) {
+      conditions.push("json_extract(data, '$.verified') = ?");
+      params.push(options.verified ? 1 : 0);
+    }
+
+    if (options?.status) {
+      // Rows written before statuses were tracked count as received
+      conditions.push(
+        "COALESCE(json_extract(data, '$.status'), 'received') = ?",
+      );
+      params.push(options.status);
+    }
+
+    for (const [path, expected] of Object.entries(options?.payload ?? {})) {
+      conditions.push('payload_matches(data, ?, ?) = 1');
+      params.push(path, expected);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Count all matches (ignoring pagination), if asked to
+    const total = options?.withTotal
+      ? Number(
+          this.queryOne(
+            `SELECT COUNT(*) AS total FROM webhooks ${where}`,
+            params,
+          )?.total ?? 0,
+        )
+      : undefined;
+
+    // Calculate pagination: start right after the cursor, or skip whole pages
+    const page = options?.page || 1;
+    const limit = options?.limit || 10;
+    const offset = options?.after ? 0 : (page - 1) * limit;
+    const direction = options?.oldestFirst ? 'ASC' : 'DESC';
+    if (options?.after) {
+      conditions.push(
+        options.oldestFirst
+          ? '(received_at, id) > (?, ?)'
+          : '(received_at, id) < (?, ?)',
+      );
+      params.push(options.after.timestamp.getTime(), options.after.id);
+    }
+    const pageWhere = conditions.length
+      ? `WHERE ${conditions.join(' AND ')}`
+      : '';
+
+    // Newest first, ties by id (same order as the in-memory driver).
+    // Walks idx_webhooks_order backwards (forwards for oldestFirst), so no
+    // sort is needed. One extra row is fetched to tell whether another
+    // page follows.
+    const rows = this.query(
+      `SELECT data FROM webhooks ${pageWhere}
+       ORDER BY received_at ${direction}, id ${direction}
+       LIMIT ? OFFSET ?`,
+      [...params, limit + 1, offset],
+    );
+
+    return {
+      webhooks: rows
+        .slice(0, limit)
+        .map((row) => deserializeWebhook(String(row.data))),
+      total,
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /**
+   * Get a single webhook by its ID
+   *
+   * @param id - The webhook UUID to find
+   * @returns The webhook if found, undefined otherwise
+   */
+  getById(id: string): Webhook | undefined {
+    const row = this.queryOne('SELECT data FROM webhooks WHERE id = ?', [id]);
+    return row ? deserializeWebhook(String(row.data)) : undefined;
+  }
+
+  /**
+   * Find a webhook by its idempotency key
+   *
+   * @param source - The webhook source
+   * @param key - The idempotency key
+   * @returns The most recently saved webhook with that key, or undefined
+   */
+  getByIdempotencyKey(source: string, key: string): Webhook | undefined {
+    const row = this.queryOne(
+      `SELECT data FROM webhooks
+       WHERE source = ? AND idempotency_key = ?
+       ORDER BY seq DESC LIMIT 1`,
+      [source, key],
+    );
+    return row ? deserializeWebhook(String(row.data)) : undefined;
+  }
+
+  /**
+   * Get the total number of stored webhooks
+   *
+   * @returns The count of webhooks in storage
+   */
+  count(): number {
+    return Number(
+      this.queryOne('SELECT COUNT(*) AS total FROM webhooks')?.total ?? 0,
+    );
+  }
+
+  /**
+   * Get how many webhooks a source has stored, and their payload size
+   *
+   * @param source - The webhook source
+   * @returns Count and payload bytes (zero for unknown sources)
+   */
+  getSourceUsage(source: string): SourceUsage {
+    const row = this.queryOne(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(payload_bytes), 0) AS bytes
+       FROM webhooks WHERE source = ?`,
+      [source],
+    );
+    return {
+      count: Number(row?.count ?? 0),
+      payloadBytes: Number(row?.bytes ?? 0),
+    };
+  }
+
+  /**
+   * Clear all webhooks from storage
+   *
+   * Primarily used for testing purposes
+   */
+  clear(): void {
+    this.db.run('DELETE FROM webhooks');
+    this.persist();
+    this.logger.log('Storage cleared');
+  }
+
+  /**
+   * Delete a webhook by its ID
+   *
+   * @param id - The webhook UUID to delete
+   * @returns true if the webhook was found and deleted, false otherwise
+   */
+  delete(id: string): boolean {
+    this.db.run('DELETE FROM webhooks WHERE id = ?', [id]);
+    const deleted = this.db.getRowsModified() > 0;
+    if (deleted) {
+      this.persist();
+      this.logger.log(`Webhook deleted: ${id}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete several webhooks at once
+   *
+   * The database file is written once for the whole batch.
+   *
+   * @param ids - The webhook UUIDs to delete
+   * @returns How many webhooks were found and deleted
+   */
+  deleteMany(ids: string[]): number {
+    let deleted = 0;
+    for (const id of ids) {
+      this.db.run('DELETE FROM webhooks WHERE id = ?', [id]);
+      deleted += this.db.getRowsModified();
+    }
+    if (deleted > 0) {
+      this.persist();
+      this.logger.log(`Webhooks deleted: ${deleted}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Bring databases created by older versions up to the current schema
+   *
+   * CREATE TABLE IF NOT EXISTS won't add new columns to an existing table,
+   * so each column added later is checked for and added here.
+   */
+  private migrate(): void {
+    const columns = this.query('PRAGMA table_info(webhooks)').map((row) =>
+      String(row.name),
+    );
+
+    if (!columns.includes('idempotency_key')) {
+      this.db.run('ALTER TABLE webhooks ADD COLUMN idempotency_key TEXT');
+    }
+    if (!columns.includes('payload_bytes')) {
+      this.db.run(
+        'ALTER TABLE webhooks ADD COLUMN payload_bytes INTEGER NOT NULL DEFAULT 0',
+      );
+      // Measure the payloads stored before sizes were tracked
+      for (const row of this.query('SELECT id, data FROM webhooks')) {
+        this.db.run('UPDATE webhooks SET payload_bytes = ? WHERE id = ?', [
+          payloadSize(deserializeWebhook(String(row.data)).payload),
+          row.id,
+        ]);
+      }
+    }
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS idx_webhooks_idempotency ON webhooks (source, idempotency_key)',
+    );
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS idx_webhooks_order ON webhooks (received_at, id)',
+    );
+  }
+
+  /**
+   * Register the JavaScript functions used by getAll() filters
+   *
+   * Called on open and after every export() (see persist()).
+   *
+   * - matches_pattern(value, pattern): 1 if value matches the "*" pattern
+   * - payload_matches(data, path, expected): 1 if the serialized webhook's
+   *   payload has the expected value at the dot path
+   */
+  private registerFunctions(): void {
+    this.db.create_function('matches_pattern', (value, pattern) =>
+      matchesPattern(String(value), String(pattern)) ? 1 : 0,
+    );
+    this.db.create_function('payload_matches', (data, path, expected) =>
+      matchesPayloadFilter(
+        (JSON.parse(String(data)) as Webhook).payload,
+        String(path),
+        String(expected),
+      )
+        ? 1
+        : 0,
+    );
+  }
+
+  /**
+   * Run a SELECT and return every row as a plain object
+   *
+   * @param sql - The SQL query (with ? placeholders)
+   * @param params - Values for the placeholders
+   * @returns Array of rows keyed by column name
+   */
+  private query(
+    sql: string,
+    params: SqlValue[] = [],
+  ): Record<string, SqlValue>[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      // Prepared statements hold WebAssembly memory and must be freed
+      statement.free();
+    }
+  }
+
+  /**
+   * Run a SELECT and return only the first row
+   *
+   * @param sql - The SQL query (with ? placeholders)
+   * @param params - Values for the placeholders
+   * @returns The first row, or undefined if there were no results
+   */
+  private queryOne(
+    sql: string,
+    params: SqlValue[] = [],
+  ): Record<string, SqlValue> | undefined {
+    return this.query(sql, params)[0];
+  }
+
+  /**
+   * Write the whole database back to its file
+   */
+  private persist(): void {
+    writeFileSync(this.filePath, Buffer.from(this.db.export()));
+
+    // export() closes and reopens the database, which drops custom functions
+    this.registerFunctions();
+  }
+}
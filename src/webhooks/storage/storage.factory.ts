@@ -0,0 +1,85 @@
+/**
+ * Webhooks Storage Factory
+ *
+ * Creates the storage driver selected by the STORAGE_DRIVER env variable.
+ * Used by WebhooksModule to bind the WebhooksStorage token, and the
+ * QUARANTINE_STORAGE token (a second, separate store for quarantined webhooks).
+ *
+ * Environment variables:
+ * - STORAGE_DRIVER: memory (default) | jsonl | sqlite
+ * - STORAGE_PATH: File used by the jsonl/sqlite drivers
+ *   (defaults to data/webhooks.jsonl or data/webhooks.sqlite)
+ * - QUARANTINE_STORAGE_PATH: File used for quarantine
+ *   (defaults to data/quarantine.jsonl or data/quarantine.sqlite)
+ * - MAX_QUARANTINE_STORAGE: Max quarantined webhooks (default: 1000)
+ */
+import { WebhooksStorage } from '../webhooks.storage';
+import {
+  StorageDriver,
+  StorageDriverOptions,
+} from '../interfaces/webhooks-storage.interface';
+import { InMemoryWebhooksStorage } from './in-memory.storage';
+import { JsonlFileWebhooksStorage } from './jsonl-file.storage';
+import { SqliteWebhooksStorage } from './sqlite.storage';
+
+/** Every driver name accepted by STORAGE_DRIVER */
+export const STORAGE_DRIVERS: StorageDriver[] = ['memory', 'jsonl', 'sqlite'];
+
+/**
+ * Injection token for the quarantine storage
+ *
+ * Quarantine uses the same WebhooksStorage contract, so it can't have a
+ * class of its own as the token - it is injected with @Inject(QUARANTINE_STORAGE).
+ */
+export const QUARANTINE_STORAGE = 'QUARANTINE_STORAGE';
+
+/** Default quarantine file per driver (must not share the main file) */
+const QUARANTINE_FILE_PATHS: Record<string, string> = {
+  jsonl: 'data/quarantine.jsonl',
+  sqlite: 'data/quarantine.sqlite',
+};
+
+/**
+ * Create a storage driver
+ *
+ * @param driver - Which driver to use (defaults to STORAGE_DRIVER or "memory")
+ * @param options - Driver options (defaults to STORAGE_PATH for the file path)
+ * @returns The ready-to-use storage driver
+ * @throws Error if the driver name is unknown (fails fast at startup)
+ */
+export async function createWebhooksStorage(
+  driver: string = process.env.STORAGE_DRIVER || 'memory',
+  options: StorageDriverOptions = { filePath: process.env.STORAGE_PATH },
+): Promise<WebhooksStorage> {
+  switch (driver) {
+    case 'memory':
+      return new InMemoryWebhooksStorage(options);
+    case 'jsonl':
+      return new JsonlFileWebhooksStorage(options);
+    case 'sqlite':
+      return SqliteWebhooksStorage.create(options);
+    default:
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${driver}". Expected one of: ${STORAGE_DRIVERS.join(', ')}`,
+      );
+  }
+}
+
+/**
+ * Create the storage used for quarantined webhooks
+ *
+ * Same driver as the main storage, but a different file and its own limit,
+ * so a flood of unverified requests can only evict other quarantined ones.
+ *
+ * @param driver - Which driver to use (defaults to STORAGE_DRIVER or "memory")
+ * @returns The ready-to-use storage driver
+ */
+export async function createQuarantineStorage(
+  driver: string = process.env.STORAGE_DRIVER || 'memory',
+): Promise<WebhooksStorage> {
+  return createWebhooksStorage(driver, {
+    filePath:
+      process.env.QUARANTINE_STORAGE_PATH || QUARANTINE_FILE_PATHS[driver],
+    maxStorageSize: parseInt(process.env.MAX_QUARANTINE_STORAGE || '1000', 10),
+  });
+}
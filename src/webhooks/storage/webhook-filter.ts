@@ -0,0 +1,128 @@
+/**
+ * Webhook Filter
+ *
+ * The filter semantics of WebhooksStorage.getAll(), in one place:
+ * - source: exact match
+ * - event: exact match, or a pattern where "*" matches any characters
+ *   (e.g. "payment.*" for a prefix, "*.failed", "invoice.*.paid")
+ * - receivedAfter / receivedBefore: half-open range [after, before)
+ * - verified: exact match
+ * - status: exact match
+ * - payload: dot path -> value, compared as text
+ *   (e.g. { "data.status": "failed" } matches payload.data.status === "failed")
+ *
+ * The in-memory driver filters with matchesWebhookQuery() directly.
+ * The SQLite driver runs the same checks inside its queries, and uses
+ * matchesPattern() / matchesPayloadFilter() for the parts SQL can't express
+ * the same way - so every driver returns the same results.
+ */
+import { Webhook } from '../interfaces/webhook.interface';
+import { WebhookQueryOptions } from '../interfaces/webhooks-storage.interface';
+import { matchesPattern } from '../../common/utils/pattern.util';
+import { getValueAtPath } from '../../common/utils/object-path.util';
+
+/**
+ * Check whether a webhook passes every filter in a query
+ *
+ * Pagination options (page, limit) are ignored.
+ *
+ * @param webhook - The webhook to test
+ * @param options - The filters (all optional, combined with AND)
+ * @returns true if the webhook matches
+ */
+export function matchesWebhookQuery(
+  webhook: Webhook,
+  options: WebhookQueryOptions = {},
+): boolean {
+  const {
+    source,
+    event,
+    receivedAfter,
+    receivedBefore,
+    verified,
+    status,
+    payload,
+  } = options;
+
+  if (source && webhook.source !== source) {
+    return false;
+  }
+  if (event && !matchesPattern(webhook.event, event)) {
+    return false;
+  }
+  if (receivedAfter && webhook.receivedAt < receivedAfter) {
+    return false;
+  }
+  if (receivedBefore && webhook.receivedAt >= receivedBefore) {
+    return false;
+  }
+  if (verified !== undefined && webhook.verified !== verified) {
+    return false;
+  }
+  if (status && webhook.status !== status) {
+    return false;
+  }
+
+  return Object.entries(payload ?? {}).every(([path, expected]) =>
+    matchesPayloadFilter(webhook.payload, path, expected),
+  );
+}
+
+/**
+ * Check whether a query has any filter at all (pagination aside)
+ *
+ * @param options - The query options
+ * @returns true if at least one filter is set
+ */
+export function hasFilters(options: WebhookQueryOptions = {}): boolean {
+  const {
+    source,
+    event,
+    receivedAfter,
+    receivedBefore,
+    verified,
+    status,
+    payload,
+  } = options;
+  return Boolean(
+    source ||
+    event ||
+    receivedAfter ||
+    receivedBefore ||
+    verified !== undefined ||
+    status ||
+    Object.keys(payload ?? {}).length > 0,
+  );
+}
+
+/**
+ * Check whether the payload value at a dot path equals a query value
+ *
+ * Query values are always strings, so scalars are compared as text:
+ * "failed" matches "failed", "100" matches 100, "true" matches true and
+ * "null" matches null. Objects, arrays and missing fields never match.
+ *
+ * @param payload - The webhook payload
+ * @param path - Dot path inside the payload (e.g. "data.status")
+ * @param expected - The value from the query
+ * @returns true if the value at the path equals the expected text
+ */
+export function matchesPayloadFilter(
+  payload: unknown,
+  path: string,
+  expected: string,
+): boolean {
+  const value = getValueAtPath(payload, path);
+
+  if (value === null) {
+    return expected === 'null';
+  }
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return String(value) === expected;
+  }
+  return false;
+}
@@ -0,0 +1,75 @@
+/**
+ * Webhook Serializer
+ *
+ * Helpers used by the file-backed drivers (JSONL and SQLite) to turn a
+ * Webhook into a JSON string and back again.
+ *
+ * Why not just JSON.parse()?
+ * - JSON has no Date type, so receivedAt comes back as an ISO string
+ * - We revive only the known date fields; payload values are left untouched
+ *   (a payload string that happens to look like a date must stay a string)
+ */
+import { Webhook } from '../interfaces/webhook.interface';
+
+/**
+ * Convert a webhook into a JSON string
+ *
+ * @param webhook - The webhook to serialize
+ * @returns JSON representation (Dates become ISO strings)
+ */
+export function serializeWebhook(webhook: Webhook): string {
+  return JSON.stringify(webhook);
+}
+
+/**
+ * Convert a JSON string produced by serializeWebhook() back into a Webhook
+ *
+ * @param json - The serialized webhook
+ * @returns The webhook with its Date fields restored
+ */
+export function deserializeWebhook(json: string): Webhook {
+  return reviveWebhook(JSON.parse(json) as Webhook);
+}
+
+/**
+ * Size of a payload as stored: its JSON encoding, in UTF-8 bytes
+ *
+ * Drivers add this up per source for the storage quotas.
+ *
+ * @param payload - The webhook payload
+ * @returns Size in bytes
+ */
+export function payloadSize(payload: Webhook['payload']): number {
+  return Buffer.byteLength(JSON.stringify(payload), 'utf8');
+}
+
+/**
+ * Restore the Date fields of a webhook that was parsed from JSON
+ *
+ * @param raw - The parsed object (dates are still ISO strings)
+ * @returns The webhook with its Date fields restored
+ */
+export function reviveWebhook(raw: Webhook): Webhook {
+  return {
+    ...raw,
+    receivedAt: new Date(raw.receivedAt),
+    // Records written before duplicates were counted have no counter yet
+    duplicateCount: raw.duplicateCount ?? 0,
+    lastDuplicateAt: raw.lastDuplicateAt
+      ? new Date(raw.lastDuplicateAt)
+      : undefined,
+    promotedAt: raw.promotedAt ? new Date(raw.promotedAt) : undefined,
+    // Records written before statuses were tracked count as received
+    status: raw.status ?? 'received',
+    processingAt: raw.processingAt ? new Date(raw.processingAt) : undefined,
+    processedAt: raw.processedAt ? new Date(raw.processedAt) : undefined,
+    failedAt: raw.failedAt ? new Date(raw.failedAt) : undefined,
+    leaseExpiresAt: raw.leaseExpiresAt
+      ? new Date(raw.leaseExpiresAt)
+      : undefined,
+    handlerRuns: raw.handlerRuns?.map((run) => ({
+      ...run,
+      startedAt: new Date(run.startedAt),
+    })),
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Webhook Stream Service Tests
+ *
+ * These tests verify the live stream behind GET /webhooks/stream:
+ * - Publishing webhooks to matching subscribers
+ * - Catching up after a reconnect (Last-Event-ID)
+ * - Heartbeats
+ * - The subscriber limit (STREAM_MAX_SUBSCRIBERS)
+ */
+import { ServiceUnavailableException } from '@nestjs/common';
+import { WebhookStreamService } from './webhook-stream.service';
+import { InMemoryWebhooksStorage } from '../storage/in-memory.storage';
+import { encodeCursor } from '../../common/utils/cursor.util';
+import { Webhook } from '../interfaces/webhook.interface';
+
+/** Create a stored webhook */
+const createTestWebhook = (
+  id: string,
+  receivedAt: Date,
+  source = 'stripe',
+  event = 'payment.completed',
+): Webhook => ({
+  id,
+  source,
+  event,
+  payload: {},
+  receivedAt,
+  verified: true,
+  duplicateCount: 0,
+  status: 'received',
+});
+
+/** The event ID the stream sends for a webhook */
+const eventId = (webhook: Webhook) =>
+  encodeCursor({ timestamp: webhook.receivedAt, id: webhook.id });
+
+/** Get the webhook IDs from the events written to a subscriber */
+const sentIds = (chunks: string[]) =>
+  chunks
+    .filter((chunk) => chunk.startsWith('id: '))
+    .map((chunk) => {
+      const data = chunk.split('\n').find((line) => line.startsWith('data: '));
+      return (JSON.parse(data!.slice('data: '.length)) as Webhook).id;
+    });
+
+describe('WebhookStreamService', () => {
+  let storage: InMemoryWebhooksStorage;
+  let service: WebhookStreamService;
+  const unsubscribers: Array<() => void> = [];
+
+  /** Subscribe and collect everything written to the subscriber */
+  const subscribe = (
+    filter: { source?: string; event?: string } = {},
+    lastEventId?: string,
+  ): string[] => {
+    const chunks: string[] = [];
+    unsubscribers.push(
+      service.subscribe(filter, lastEventId, (chunk) => chunks.push(chunk)),
+    );
+    return chunks;
+  };
+
+  beforeEach(() => {
+    storage = new InMemoryWebhooksStorage();
+    service = new WebhookStreamService(storage);
+  });
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    jest.useRealTimers();
+    delete process.env.STREAM_MAX_SUBSCRIBERS;
+    delete process.env.STREAM_HEARTBEAT_MS;
+  });
+
+  // ==================== Publish Tests ====================
+  describe('publish', () => {
+    /**
+     * Test: A published webhook is written as an SSE event
+     *
+     * The event has the webhook's cursor as ID, type "webhook" and the
+     * webhook as JSON data, and ends with a blank line
+     */
+    it('should write the webhook as an event', () => {
+      // Arrange
+      const chunks = subscribe();
+      const webhook = createTestWebhook('w-1', new Date());
+
+      // Act
+      service.publish(webhook);
+
+      // Assert
+      expect(chunks).toEqual([
+        `id: ${eventId(webhook)}\nevent: webhook\ndata: ${JSON.stringify(webhook)}\n\n`,
+      ]);
+    });
+
+    /**
+     * Test: Only subscribers whose filter matches receive a webhook
+     */
+    it('should apply the source and event filters', () => {
+      // Arrange
+      const all = subscribe();
+      const payments = subscribe({ source: 'stripe', event: 'payment.*' });
+      const github = subscribe({ source: 'github' });
+
+      // Act
+      service.publish(createTestWebhook('w-1', new Date()));
+      service.publish(
+        createTestWebhook('w-2', new Date(), 'stripe', 'invoice.paid'),
+      );
+
+      // Assert
+      expect(sentIds(all)).toEqual(['w-1', 'w-2']);
+      expect(sentIds(payments)).toEqual(['w-1']);
+      expect(sentIds(github)).toEqual([]);
+    });
+
+    /**
+     * Test: Unsubscribed clients receive nothing more
+     */
+    it('should stop writing after unsubscribe', () => {
+      // Arrange
+      const chunks = subscribe();
+      unsubscribers.pop()!();
+
+      // Act
+      service.publish(createTestWebhook('w-1', new Date()));
+
+      // Assert
+      expect(chunks).toEqual([]);
+      expect(service.count()).toBe(0);
+    });
+  });
+
+  // ==================== Last-Event-ID Tests ====================
+  describe('resume', () => {
+    /**
+     * Test: A reconnecting client first gets what it missed
+     *
+     * Stored webhooks after the Last-Event-ID position are sent oldest
+     * first (filtered like live ones), then live webhooks follow
+     */
+    it('should send missed webhooks after Last-Event-ID', () => {
+      // Arrange: w-1 was the last event seen, w-2..w-4 arrived meanwhile
+      const base = Date.now();
+      const stored = [1, 2, 3, 4].map((i) =>
+        createTestWebhook(`w-${i}`, new Date(base + i * 1000)),
+      );
+      stored[2].source = 'github';
+      stored.forEach((webhook) => storage.save(webhook));
+
+      // Act
+      const chunks = subscribe({ source: 'stripe' }, eventId(stored[0]));
+      service.publish(createTestWebhook('w-5', new Date(base + 5000)));
+
+      // Assert
+      expect(sentIds(chunks)).toEqual(['w-2', 'w-4', 'w-5']);
+    });
+
+    /**
+     * Test: Catching up walks through more than one storage page
+     */
+    it('should send every missed webhook', () => {
+      // Arrange
+      const base = Date.now();
+      const first = createTestWebhook('w-000', new Date(base));
+      storage.save(first);
+      const missed: string[] = [];
+      for (let i = 1; i <= 250; i++) {
+        const id = `w-${String(i).padStart(3, '0')}`;
+        storage.save(createTestWebhook(id, new Date(base + i)));
+        missed.push(id);
+      }
+
+      // Act
+      const chunks = subscribe({}, eventId(first));
+
+      // Assert
+      expect(sentIds(chunks)).toEqual(missed);
+    });
+
+    /**
+     * Test: A malformed Last-Event-ID is ignored
+     */
+    it('should only send live webhooks for an invalid Last-Event-ID', () => {
+      // Arrange
+      storage.save(createTestWebhook('w-1', new Date()));
+
+      // Act
+      const chunks = subscribe({}, 'not-an-event-id');
+
+      // Assert
+      expect(chunks).toEqual([]);
+    });
+  });
+
+  // ==================== Heartbeat Tests ====================
+  describe('heartbeats', () => {
+    /**
+     * Test: A comment is written every STREAM_HEARTBEAT_MS
+     *
+     * Comments (lines starting with ":") are ignored by EventSource
+     * and don't change the last event ID
+     */
+    it('should write a heartbeat comment on every interval', () => {
+      // Arrange
+      jest.useFakeTimers();
+      process.env.STREAM_HEARTBEAT_MS = '1000';
+      service = new WebhookStreamService(storage);
+      const chunks = subscribe();
+
+      // Act
+      jest.advanceTimersByTime(3500);
+
+      // Assert
+      expect(chunks).toEqual([
+        ': heartbeat\n\n',
+        ': heartbeat\n\n',
+        ': heartbeat\n\n',
+      ]);
+
+      // Heartbeats stop with the subscription
+      unsubscribers.pop()!();
+      jest.advanceTimersByTime(3000);
+      expect(chunks).toHaveLength(3);
+    });
+  });
+
+  // ==================== Subscriber Limit Tests ====================
+  describe('subscriber limit', () => {
+    /**
+     * Test: Subscribers over STREAM_MAX_SUBSCRIBERS are refused
+     *
+     * A slot frees up again when a subscriber disconnects
+     */
+    it('should throw ServiceUnavailableException when full', () => {
+      // Arrange
+      process.env.STREAM_MAX_SUBSCRIBERS = '2';
+      service = new WebhookStreamService(storage);
+      subscribe();
+      subscribe();
+
+      // Act & Assert
+      expect(() => subscribe()).toThrow(ServiceUnavailableException);
+      unsubscribers.pop()!();
+      expect(() => subscribe()).not.toThrow();
+      expect(service.count()).toBe(2);
+    });
+  });
+});
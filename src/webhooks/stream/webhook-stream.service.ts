@@ -0,0 +1,234 @@
+/**
+ * Webhook Stream Service
+ *
+ * Pushes webhooks to live subscribers as Server-Sent Events
+ * (GET /webhooks/stream), as soon as WebhooksService stores them.
+ *
+ * Each event looks like:
+ *
+ *   id: <cursor of the webhook>
+ *   event: webhook
+ *   data: {"id":"...","source":"stripe","event":"payment.completed",...}
+ *
+ * The event ID is the webhook's position in the (receivedAt, id) ordering
+ * (see cursor.util). When a client reconnects, EventSource sends the last
+ * ID it saw as the Last-Event-ID header, and every stored webhook after
+ * that position is sent first (oldest first) before live ones.
+ *
+ * A comment line is sent on every heartbeat so proxies and clients can
+ * tell an idle stream from a dead connection.
+ *
+ * In-process consumers (the WebSocket gateway) register with listen()
+ * and get every published webhook as an object instead.
+ *
+ * Configuration:
+ * - STREAM_MAX_SUBSCRIBERS: Concurrent subscribers allowed (default: 100)
+ * - STREAM_HEARTBEAT_MS: Interval between heartbeats (default: 15000)
+ */
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { WebhooksStorage } from '../webhooks.storage';
+import { matchesWebhookQuery } from '../storage/webhook-filter';
+import {
+  compareCursorPositions,
+  CursorPosition,
+  decodeCursor,
+  encodeCursor,
+} from '../../common/utils/cursor.util';
+import { Webhook } from '../interfaces/webhook.interface';
+import { StreamWebhooksDto } from '../dto/stream-webhooks.dto';
+
+/** Webhooks read per storage page while catching up after a reconnect */
+const CATCH_UP_PAGE_SIZE = 100;
+
+/**
+ * A connected subscriber
+ */
+interface StreamSubscriber {
+  /** Only webhooks matching this filter are sent */
+  filter: StreamWebhooksDto;
+
+  /** Writes raw event stream text to the client */
+  write: (chunk: string) => void;
+}
+
+@Injectable()
+export class WebhookStreamService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(WebhookStreamService.name);
+
+  /** Currently connected subscribers */
+  private readonly subscribers = new Set<StreamSubscriber>();
+
+  /** In-process listeners (not counted against the subscriber limit) */
+  private readonly listeners = new Set<(webhook: Webhook) => void>();
+
+  /** Concurrent subscribers allowed */
+  private readonly maxSubscribers: number;
+
+  /** Interval between heartbeats */
+  private readonly heartbeatMs: number;
+
+  /**
+   * Constructor - reads the limits from the environment
+   *
+   * @param storage - Where missed webhooks are read from on reconnect
+   */
+  constructor(private readonly storage: WebhooksStorage) {
+    this.maxSubscribers = parseInt(
+      process.env.STREAM_MAX_SUBSCRIBERS || '100',
+      10,
+    );
+    this.heartbeatMs = parseInt(process.env.STREAM_HEARTBEAT_MS || '15000', 10);
+  }
+
+  /**
+   * Start streaming to a new subscriber
+   *
+   * If lastEventId is a valid event ID, the stored webhooks received after
+   * it are written first. A malformed one is ignored (live events only).
+   *
+   * @param filter - source (exact) and event ("*" wildcards)
+   * @param lastEventId - The Last-Event-ID header of a reconnecting client
+   * @param write - Writes raw event stream text to the client
+   * @returns A function that ends the subscription (call it on disconnect)
+   * @throws ServiceUnavailableException if too many subscribers are connected
+   */
+  subscribe(
+    filter: StreamWebhooksDto,
+    lastEventId: string | undefined,
+    write: (chunk: string) => void,
+  ): () => void {
+    if (this.subscribers.size >= this.maxSubscribers) {
+      throw new ServiceUnavailableException(
+        `Too many stream subscribers (max ${this.maxSubscribers})`,
+      );
+    }
+
+    // Storage and publish() are synchronous, so nothing can be stored
+    // between catching up and joining the live subscribers
+    const since = lastEventId ? decodeCursor(lastEventId) : undefined;
+    if (since) {
+      this.missedSince(filter, since).forEach((webhook) =>
+        write(this.formatEvent(webhook)),
+      );
+    }
+
+    const subscriber: StreamSubscriber = { filter, write };
+    this.subscribers.add(subscriber);
+
+    const heartbeat = setInterval(
+      () => write(': heartbeat\n\n'),
+      this.heartbeatMs,
+    );
+    heartbeat.unref(); // Don't keep the process alive just for heartbeats
+
+    this.logger.log(
+      `Stream subscriber connected (${this.subscribers.size}/${this.maxSubscribers})`,
+    );
+
+    return () => {
+      clearInterval(heartbeat);
+      if (this.subscribers.delete(subscriber)) {
+        this.logger.log(
+          `Stream subscriber disconnected (${this.subscribers.size}/${this.maxSubscribers})`,
+        );
+      }
+    };
+  }
+
+  /**
+   * Send a newly stored webhook to every subscriber whose filter matches
+   *
+   * @param webhook - The stored webhook
+   */
+  publish(webhook: Webhook): void {
+    this.listeners.forEach((listener) => listener(webhook));
+
+    if (this.subscribers.size === 0) {
+      return;
+    }
+
+    const event = this.formatEvent(webhook);
+    this.subscribers.forEach((subscriber) => {
+      if (matchesWebhookQuery(webhook, subscriber.filter)) {
+        subscriber.write(event);
+      }
+    });
+  }
+
+  /**
+   * Register an in-process listener for every published webhook
+   *
+   * Listeners get every webhook (no filter) and must not throw.
+   *
+   * @param listener - Called with each newly stored webhook
+   * @returns A function that removes the listener
+   */
+  listen(listener: (webhook: Webhook) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the number of connected subscribers
+   *
+   * @returns Number of subscribers
+   */
+  count(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Find the stored webhooks a reconnecting subscriber missed
+   *
+   * @param filter - The subscriber's filter
+   * @param since - Position of the last event the subscriber received
+   * @returns Matching webhooks after that position, oldest first
+   */
+  private missedSince(
+    filter: StreamWebhooksDto,
+    since: CursorPosition,
+  ): Webhook[] {
+    const missed: Webhook[] = [];
+    let after: CursorPosition | undefined;
+
+    // Pages are newest first, so walk back until reaching the position
+    for (;;) {
+      const { webhooks, hasMore } = this.storage.getAll({
+        source: filter.source,
+        event: filter.event,
+        receivedAfter: since.timestamp,
+        limit: CATCH_UP_PAGE_SIZE,
+        after,
+      });
+      for (const webhook of webhooks) {
+        const position = { timestamp: webhook.receivedAt, id: webhook.id };
+        if (compareCursorPositions(position, since) <= 0) {
+          return missed.reverse();
+        }
+        missed.push(webhook);
+        after = position;
+      }
+      if (!hasMore) {
+        return missed.reverse();
+      }
+    }
+  }
+
+  /**
+   * Format a webhook as an event stream message
+   *
+   * @param webhook - The webhook to send
+   * @returns The message text, ending with a blank line
+   */
+  private formatEvent(webhook: Webhook): string {
+    const id = encodeCursor({ timestamp: webhook.receivedAt, id: webhook.id });
+    return `id: ${id}\nevent: webhook\ndata: ${JSON.stringify(webhook)}\n\n`;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Generic HMAC Signature Verifier
+ *
+ * The default scheme for sources without a provider-specific verifier.
+ *
+ * - Header:         x-webhook-signature
+ * - Encoding:       hex
+ * - Signed content: the raw request body, or "{timestamp}.{raw body}"
+ *                   when the optional x-webhook-timestamp header is sent
+ *
+ * Example headers:
+ *   x-webhook-timestamp: 1700000000
+ *   x-webhook-signature: 5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ *
+ * Signing the timestamp lets the service reject replayed requests.
+ */
+import { SignatureVerifier, SignedRequest } from './signature-verifier.interface';
+import {
+  decodeHex,
+  getHeader,
+  hmacSha256,
+  parseTimestamp,
+  safeEqual,
+} from './verifier.utils';
+
+export class GenericHmacVerifier implements SignatureVerifier {
+  readonly scheme = 'hmac-sha256';
+  readonly header = 'x-webhook-signature';
+
+  /** Optional header carrying a signed Unix timestamp (seconds) */
+  readonly timestampHeader = 'x-webhook-timestamp';
+
+  verify(request: SignedRequest, secret: string): boolean {
+    const signature = getHeader(request.headers, this.header);
+    const provided = signature ? decodeHex(signature) : undefined;
+    if (!provided) {
+      return false;
+    }
+
+    // With a timestamp, the sender signs "timestamp.body"
+    const timestamp = getHeader(request.headers, this.timestampHeader);
+    const content =
+      timestamp !== undefined
+        ? Buffer.concat([Buffer.from(`${timestamp}.`), request.rawBody])
+        : request.rawBody;
+
+    const expected = hmacSha256(secret, content);
+    return safeEqual(expected, provided);
+  }
+
+  getTimestamp(request: SignedRequest): number | undefined {
+    return parseTimestamp(getHeader(request.headers, this.timestampHeader));
+  }
+}
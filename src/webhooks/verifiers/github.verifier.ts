@@ -0,0 +1,34 @@
+/**
+ * GitHub Signature Verifier
+ *
+ * - Header:         X-Hub-Signature-256
+ * - Encoding:       "sha256=" followed by hex
+ * - Signed content: the raw request body
+ *
+ * Example header:
+ *   X-Hub-Signature-256: sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17
+ *
+ * @see https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
+ */
+import { SignatureVerifier, SignedRequest } from './signature-verifier.interface';
+import { decodeHex, getHeader, hmacSha256, safeEqual } from './verifier.utils';
+
+export class GithubSignatureVerifier implements SignatureVerifier {
+  readonly scheme = 'github';
+  readonly header = 'x-hub-signature-256';
+
+  verify(request: SignedRequest, secret: string): boolean {
+    const signature = getHeader(request.headers, this.header);
+    if (!signature?.startsWith('sha256=')) {
+      return false;
+    }
+
+    const provided = decodeHex(signature.slice('sha256='.length));
+    if (!provided) {
+      return false;
+    }
+
+    const expected = hmacSha256(secret, request.rawBody);
+    return safeEqual(expected, provided);
+  }
+}
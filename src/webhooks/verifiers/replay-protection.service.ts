@@ -0,0 +1,163 @@
+/**
+ * Replay Protection Service
+ *
+ * A valid signed request captured by an attacker could otherwise be sent
+ * again forever - each copy would verify and create a new webhook.
+ *
+ * For schemes that sign a timestamp (generic x-webhook-timestamp, Stripe, Slack):
+ * 1. The timestamp must be within REPLAY_TOLERANCE_SECONDS of our clock
+ *    -> older (or far-future) requests are rejected
+ * 2. Within that window, each signed request may only be used once
+ *    -> a cache of recently seen requests rejects duplicates
+ *
+ * Together these make replays impossible: a copy is either too old, or
+ * it is recent enough that we still remember it.
+ *
+ * Requests are remembered by what was signed (timestamp and body), not by
+ * the signature header: a header can be rewritten without changing what it
+ * vouches for (spacing, reordered or extra Stripe v1 entries, hex case),
+ * and each rewrite would otherwise count as a new request.
+ *
+ * Replays are counted and logged here, separately from ordinary
+ * signature verification failures.
+ */
+import { createHash } from 'crypto';
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ReplayStats } from '../interfaces/webhook.interface';
+
+@Injectable()
+export class ReplayProtectionService {
+  /** Logger instance for this class */
+  private readonly logger = new Logger(ReplayProtectionService.name);
+
+  /** Allowed difference (ms) between the signed timestamp and our clock */
+  private readonly toleranceMs: number;
+
+  /**
+   * Recently seen signed requests
+   * Key: "source:timestamp:sha256(body)", Value: time (ms) after which it
+   * can be forgotten
+   *
+   * Every entry lives for the same amount of time, so Map insertion order
+   * is also expiry order - pruning can stop at the first live entry.
+   */
+  private readonly seen: Map<string, number> = new Map();
+
+  /** Counters of rejected replays */
+  private readonly stats: ReplayStats = {
+    staleTimestamps: 0,
+    duplicateSignatures: 0,
+  };
+
+  /**
+   * Constructor - reads the tolerance window from the environment
+   */
+  constructor() {
+    // Default: 5 minutes (same as Stripe and Slack recommend)
+    this.toleranceMs =
+      parseInt(process.env.REPLAY_TOLERANCE_SECONDS || '300', 10) * 1000;
+  }
+
+  /**
+   * Check a verified, timestamped request for replays
+   *
+   * Only call this for requests whose signature verified - an invalid
+   * signature is an ordinary verification failure, not a replay.
+   *
+   * @param source - The webhook source
+   * @param rawBody - The signed request body
+   * @param timestamp - The signed Unix timestamp (seconds)
+   * @throws UnauthorizedException (401) if the timestamp is outside the window
+   * @throws ConflictException (409) if the request was already seen
+   */
+  check(source: string, rawBody: Buffer, timestamp: number): void {
+    const now = Date.now();
+    this.prune(now);
+
+    // 1. The signed timestamp must be recent
+    if (Math.abs(now - timestamp * 1000) > this.toleranceMs) {
+      this.stats.staleTimestamps++;
+      this.logger.warn(
+        `Replay rejected from ${source}: timestamp ${timestamp} is outside the ${this.toleranceMs / 1000}s tolerance`,
+      );
+      throw new UnauthorizedException({
+        message: 'Webhook timestamp is outside the allowed tolerance',
+        reason: 'stale_timestamp',
+      });
+    }
+
+    // 2. Each signed request may only be used once within the window
+    const key = this.replayKey(source, rawBody, timestamp);
+    if (this.seen.has(key)) {
+      this.stats.duplicateSignatures++;
+      this.logger.warn(`Replay rejected from ${source}: duplicate signature`);
+      throw new ConflictException({
+        message: 'Duplicate webhook delivery (replay detected)',
+        reason: 'duplicate_signature',
+      });
+    }
+
+    // Remember it for as long as its timestamp could still be accepted.
+    // The timestamp may be up to one tolerance ahead of us, so it stays
+    // valid for at most 2x tolerance from now. Using a fixed lifetime keeps
+    // the Map ordered by expiry.
+    this.seen.set(key, now + 2 * this.toleranceMs);
+  }
+
+  /**
+   * Forget a request check() recorded, because it was refused afterwards
+   * - the sender may retry it with the same signature
+   *
+   * @param source - The webhook source
+   * @param rawBody - The signed request body
+   * @param timestamp - The signed Unix timestamp (seconds)
+   */
+  release(source: string, rawBody: Buffer, timestamp: number): void {
+    this.seen.delete(this.replayKey(source, rawBody, timestamp));
+  }
+
+  /**
+   * Get the replay counters
+   *
+   * @returns A copy of the counters
+   */
+  getStats(): ReplayStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Build the cache key of a signed request
+   *
+   * @param source - The webhook source
+   * @param rawBody - The signed request body
+   * @param timestamp - The signed Unix timestamp (seconds)
+   * @returns "source:timestamp:sha256(body)"
+   */
+  private replayKey(
+    source: string,
+    rawBody: Buffer,
+    timestamp: number,
+  ): string {
+    const digest = createHash('sha256').update(rawBody).digest('hex');
+    return `${source}:${timestamp}:${digest}`;
+  }
+
+  /**
+   * Forget requests whose tolerance window has passed
+   *
+   * @param now - Current time in ms
+   */
+  private prune(now: number): void {
+    for (const [key, expiresAt] of this.seen) {
+      if (expiresAt > now) {
+        break; // Everything after this entry expires later
+      }
+      this.seen.delete(key);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Shopify Signature Verifier
+ *
+ * - Header:         X-Shopify-Hmac-Sha256
+ * - Encoding:       base64
+ * - Signed content: the raw request body
+ *
+ * Example header:
+ *   X-Shopify-Hmac-Sha256: XWmrwMey6OsLMeiZKwP4FppHH3cmAiiJJAweH5Jo4bM=
+ *
+ * @see https://shopify.dev/docs/apps/build/webhooks/subscribe/https#step-5-verify-the-webhook
+ */
+import { SignatureVerifier, SignedRequest } from './signature-verifier.interface';
+import {
+  decodeBase64,
+  getHeader,
+  hmacSha256,
+  safeEqual,
+} from './verifier.utils';
+
+export class ShopifySignatureVerifier implements SignatureVerifier {
+  readonly scheme = 'shopify';
+  readonly header = 'x-shopify-hmac-sha256';
+
+  verify(request: SignedRequest, secret: string): boolean {
+    const signature = getHeader(request.headers, this.header);
+    const provided = signature ? decodeBase64(signature) : undefined;
+    if (!provided) {
+      return false;
+    }
+
+    const expected = hmacSha256(secret, request.rawBody);
+    return safeEqual(expected, provided);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Signature Verifier Interfaces
+ *
+ * Every webhook provider signs its requests differently:
+ * - Different header names (x-webhook-signature, Stripe-Signature, ...)
+ * - Different encodings (hex, base64, "sha256=" prefixes, ...)
+ * - Different signed content (raw body, "timestamp.body", "v0:timestamp:body")
+ *
+ * A SignatureVerifier knows all three details for one scheme.
+ * The SignatureVerifierRegistry picks the right verifier for each `source`.
+ */
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * Everything a verifier needs from the incoming request
+ */
+export interface SignedRequest {
+  /** The exact request bytes as received */
+  rawBody: Buffer;
+
+  /** All request headers (Node lower-cases header names) */
+  headers: IncomingHttpHeaders;
+}
+
+/**
+ * A signature verification scheme for one kind of provider
+ */
+export interface SignatureVerifier {
+  /** Scheme name recorded on the stored webhook (e.g. "stripe") */
+  readonly scheme: string;
+
+  /** Lower-case name of the header that carries the signature */
+  readonly header: string;
+
+  /**
+   * Check the request's signature
+   *
+   * @param request - Raw body and headers of the incoming request
+   * @param secret - The shared signing secret
+   * @returns true if the signature is present and valid
+   */
+  verify(request: SignedRequest, secret: string): boolean;
+
+  /**
+   * Read the signed timestamp from the request (if the scheme has one)
+   *
+   * Schemes that include a timestamp in the signed content can be
+   * protected against replays (see ReplayProtectionService).
+   *
+   * @param request - Raw body and headers of the incoming request
+   * @returns Unix timestamp in seconds, or undefined if not present
+   */
+  getTimestamp?(request: SignedRequest): number | undefined;
+}
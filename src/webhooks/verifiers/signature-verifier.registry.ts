@@ -0,0 +1,105 @@
+/**
+ * Signature Verifier Registry
+ *
+ * Maps each webhook `source` to the SignatureVerifier that understands how
+ * that provider signs its requests.
+ *
+ * Built-in mappings (source name -> scheme):
+ * - stripe  -> Stripe-Signature (t=..., v1=...)
+ * - github  -> X-Hub-Signature-256 (sha256=...)
+ * - shopify -> X-Shopify-Hmac-Sha256 (base64)
+ * - slack   -> X-Slack-Signature (v0=...) + X-Slack-Request-Timestamp
+ * - anything else -> generic x-webhook-signature (hex HMAC-SHA256)
+ *
+ * Extra mappings can be configured with the SIGNATURE_SCHEMES env variable,
+ * e.g. SIGNATURE_SCHEMES=billing:stripe,ci:github
+ */
+import { Injectable } from '@nestjs/common';
+import { SignatureVerifier } from './signature-verifier.interface';
+import { GenericHmacVerifier } from './generic-hmac.verifier';
+import { StripeSignatureVerifier } from './stripe.verifier';
+import { GithubSignatureVerifier } from './github.verifier';
+import { ShopifySignatureVerifier } from './shopify.verifier';
+import { SlackSignatureVerifier } from './slack.verifier';
+
+@Injectable()
+export class SignatureVerifierRegistry {
+  /** Used for every source without a registered verifier */
+  private readonly fallback: SignatureVerifier = new GenericHmacVerifier();
+
+  /** Every known verifier, keyed by scheme name */
+  private readonly schemes: Map<string, SignatureVerifier> = new Map();
+
+  /** Verifier per source, keyed by source name */
+  private readonly verifiers: Map<string, SignatureVerifier> = new Map();
+
+  /**
+   * Constructor - registers the built-in providers and any
+   * source-to-scheme mappings from SIGNATURE_SCHEMES
+   *
+   * @throws Error if SIGNATURE_SCHEMES names an unknown scheme
+   */
+  constructor() {
+    const builtIn: SignatureVerifier[] = [
+      this.fallback,
+      new StripeSignatureVerifier(),
+      new GithubSignatureVerifier(),
+      new ShopifySignatureVerifier(),
+      new SlackSignatureVerifier(),
+    ];
+    builtIn.forEach((verifier) => this.schemes.set(verifier.scheme, verifier));
+
+    // Providers are registered under their own name as the source
+    ['stripe', 'github', 'shopify', 'slack'].forEach((source) =>
+      this.register(source, this.getScheme(source)),
+    );
+
+    // Extra mappings: "source:scheme,source:scheme"
+    const configured = process.env.SIGNATURE_SCHEMES || '';
+    configured
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [source, scheme] = entry.split(':').map((part) => part.trim());
+        this.register(source, this.getScheme(scheme));
+      });
+  }
+
+  /**
+   * Register (or replace) the verifier used for a source
+   *
+   * @param source - The webhook source (e.g. "stripe")
+   * @param verifier - The verifier to use for that source
+   */
+  register(source: string, verifier: SignatureVerifier): void {
+    this.verifiers.set(source, verifier);
+  }
+
+  /**
+   * Get the verifier for a source
+   *
+   * @param source - The webhook source
+   * @returns The registered verifier, or the generic HMAC verifier
+   */
+  get(source: string): SignatureVerifier {
+    return this.verifiers.get(source) ?? this.fallback;
+  }
+
+  /**
+   * Look up a verifier by its scheme name
+   *
+   * @param scheme - Scheme name (e.g. "github", "hmac-sha256")
+   * @returns The verifier for that scheme
+   * @throws Error if the scheme is unknown (fails fast at startup)
+   */
+  private getScheme(scheme: string): SignatureVerifier {
+    const verifier = this.schemes.get(scheme);
+    if (!verifier) {
+      throw new Error(
+        `Unknown signature scheme "${scheme}". Expected one of: ${Array.from(this.schemes.keys()).join(', ')}`,
+      );
+    }
+    return verifier;
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Signature Verifier Tests
+ *
+ * These tests verify each provider-specific scheme:
+ * - Reads the right header
+ * - Decodes the right encoding (hex, base64, prefixes)
+ * - Signs the right content (raw body, timestamp + body, ...)
+ * - And that the registry picks the right verifier per source
+ */
+import { createHmac } from 'crypto';
+import { SignedRequest } from './signature-verifier.interface';
+import { SignatureVerifierRegistry } from './signature-verifier.registry';
+import { GenericHmacVerifier } from './generic-hmac.verifier';
+import { StripeSignatureVerifier } from './stripe.verifier';
+import { GithubSignatureVerifier } from './github.verifier';
+import { ShopifySignatureVerifier } from './shopify.verifier';
+import { SlackSignatureVerifier } from './slack.verifier';
+
+const secret = 'test-secret';
+const body = '{"source":"test","event":"test.event","payload":{"a":1}}';
+
+/** HMAC-SHA256 of some content, in the given encoding */
+const hmac = (content: string, encoding: 'hex' | 'base64' = 'hex'): string =>
+  createHmac('sha256', secret).update(content).digest(encoding);
+
+/** Build a request with the test body and the given headers */
+const request = (headers: Record<string, string>): SignedRequest => ({
+  rawBody: Buffer.from(body),
+  headers,
+});
+
+describe('Signature verifiers', () => {
+  // ==================== Generic HMAC ====================
+  describe('GenericHmacVerifier', () => {
+    const verifier = new GenericHmacVerifier();
+
+    it('should accept a hex HMAC of the raw body', () => {
+      expect(
+        verifier.verify(request({ 'x-webhook-signature': hmac(body) }), secret),
+      ).toBe(true);
+    });
+
+    /**
+     * Test: With x-webhook-timestamp, "timestamp.body" is signed
+     */
+    it('should include the optional timestamp in the signed content', () => {
+      const headers = {
+        'x-webhook-timestamp': '1700000000',
+        'x-webhook-signature': hmac(`1700000000.${body}`),
+      };
+
+      expect(verifier.verify(request(headers), secret)).toBe(true);
+      expect(verifier.getTimestamp(request(headers))).toBe(1700000000);
+    });
+
+    it('should reject a body-only signature when a timestamp is sent', () => {
+      const headers = {
+        'x-webhook-timestamp': '1700000000',
+        'x-webhook-signature': hmac(body),
+      };
+
+      expect(verifier.verify(request(headers), secret)).toBe(false);
+    });
+
+    it('should reject a signature made with another secret', () => {
+      const wrong = createHmac('sha256', 'other').update(body).digest('hex');
+      expect(
+        verifier.verify(request({ 'x-webhook-signature': wrong }), secret),
+      ).toBe(false);
+    });
+
+    /**
+     * Test: Hex is case-insensitive, but only a whole digest is accepted
+     */
+    it('should decode the hex digest strictly', () => {
+      expect(
+        verifier.verify(
+          request({ 'x-webhook-signature': hmac(body).toUpperCase() }),
+          secret,
+        ),
+      ).toBe(true);
+      expect(
+        verifier.verify(
+          request({ 'x-webhook-signature': `${hmac(body)} ` }),
+          secret,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  // ==================== Stripe ====================
+  describe('StripeSignatureVerifier', () => {
+    const verifier = new StripeSignatureVerifier();
+
+    /**
+     * Test: Stripe signs "t.body", not just the body
+     */
+    it('should accept a v1 signature over "timestamp.body"', () => {
+      const header = `t=1700000000,v1=${hmac(`1700000000.${body}`)}`;
+      expect(
+        verifier.verify(request({ 'stripe-signature': header }), secret),
+      ).toBe(true);
+    });
+
+    /**
+     * Test: Any matching v1 is enough (Stripe sends several during rotation)
+     */
+    it('should accept when one of several v1 signatures matches', () => {
+      const header = `t=1700000000,v1=${'0'.repeat(64)},v1=${hmac(`1700000000.${body}`)}`;
+      expect(
+        verifier.verify(request({ 'stripe-signature': header }), secret),
+      ).toBe(true);
+    });
+
+    it('should expose the signed timestamp', () => {
+      const header = `t=1700000000,v1=${hmac(`1700000000.${body}`)}`;
+      expect(verifier.getTimestamp(request({ 'stripe-signature': header }))).toBe(
+        1700000000,
+      );
+    });
+
+    it('should reject when the timestamp was changed', () => {
+      const header = `t=1700000001,v1=${hmac(`1700000000.${body}`)}`;
+      expect(
+        verifier.verify(request({ 'stripe-signature': header }), secret),
+      ).toBe(false);
+    });
+
+    it('should reject a header without a timestamp', () => {
+      const header = `v1=${hmac(body)}`;
+      expect(
+        verifier.verify(request({ 'stripe-signature': header }), secret),
+      ).toBe(false);
+    });
+
+    /**
+     * Test: A v1 with anything after the digest is malformed - Node's hex
+     * decoder would otherwise drop the tail and let it match
+     */
+    it('should reject a v1 signature with trailing characters', () => {
+      const header = `t=1700000000,v1=${hmac(`1700000000.${body}`)}zz`;
+      expect(
+        verifier.verify(request({ 'stripe-signature': header }), secret),
+      ).toBe(false);
+    });
+  });
+
+  // ==================== GitHub ====================
+  describe('GithubSignatureVerifier', () => {
+    const verifier = new GithubSignatureVerifier();
+
+    it('should accept "sha256=<hex>" over the raw body', () => {
+      expect(
+        verifier.verify(
+          request({ 'x-hub-signature-256': `sha256=${hmac(body)}` }),
+          secret,
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject a signature without the sha256= prefix', () => {
+      expect(
+        verifier.verify(request({ 'x-hub-signature-256': hmac(body) }), secret),
+      ).toBe(false);
+    });
+
+    it('should reject a digest with trailing characters', () => {
+      expect(
+        verifier.verify(
+          request({ 'x-hub-signature-256': `sha256=${hmac(body)}0` }),
+          secret,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  // ==================== Shopify ====================
+  describe('ShopifySignatureVerifier', () => {
+    const verifier = new ShopifySignatureVerifier();
+
+    it('should accept a base64 HMAC of the raw body', () => {
+      expect(
+        verifier.verify(
+          request({ 'x-shopify-hmac-sha256': hmac(body, 'base64') }),
+          secret,
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject a hex-encoded HMAC', () => {
+      expect(
+        verifier.verify(request({ 'x-shopify-hmac-sha256': hmac(body) }), secret),
+      ).toBe(false);
+    });
+
+    /**
+     * Test: Characters outside base64 are refused, not skipped over
+     */
+    it('should reject a base64 HMAC with stray characters', () => {
+      expect(
+        verifier.verify(
+          request({ 'x-shopify-hmac-sha256': `${hmac(body, 'base64')}!` }),
+          secret,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  // ==================== Slack ====================
+  describe('SlackSignatureVerifier', () => {
+    const verifier = new SlackSignatureVerifier();
+
+    it('should accept "v0=<hex>" over "v0:timestamp:body"', () => {
+      expect(
+        verifier.verify(
+          request({
+            'x-slack-request-timestamp': '1700000000',
+            'x-slack-signature': `v0=${hmac(`v0:1700000000:${body}`)}`,
+          }),
+          secret,
+        ),
+      ).toBe(true);
+    });
+
+    it('should reject when the timestamp header is missing', () => {
+      expect(
+        verifier.verify(
+          request({ 'x-slack-signature': `v0=${hmac(`v0:1700000000:${body}`)}` }),
+          secret,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  // ==================== Registry ====================
+  describe('SignatureVerifierRegistry', () => {
+    afterEach(() => {
+      delete process.env.SIGNATURE_SCHEMES;
+    });
+
+    it('should map provider sources to their scheme', () => {
+      const registry = new SignatureVerifierRegistry();
+
+      expect(registry.get('stripe').scheme).toBe('stripe');
+      expect(registry.get('github').scheme).toBe('github');
+      expect(registry.get('shopify').scheme).toBe('shopify');
+      expect(registry.get('slack').scheme).toBe('slack');
+    });
+
+    it('should fall back to the generic scheme for unknown sources', () => {
+      const registry = new SignatureVerifierRegistry();
+
+      expect(registry.get('my-service').scheme).toBe('hmac-sha256');
+    });
+
+    it('should apply source mappings from SIGNATURE_SCHEMES', () => {
+      process.env.SIGNATURE_SCHEMES = 'billing:stripe, ci:github';
+      const registry = new SignatureVerifierRegistry();
+
+      expect(registry.get('billing').scheme).toBe('stripe');
+      expect(registry.get('ci').scheme).toBe('github');
+    });
+
+    it('should throw on an unknown scheme in SIGNATURE_SCHEMES', () => {
+      process.env.SIGNATURE_SCHEMES = 'billing:paypal';
+
+      expect(() => new SignatureVerifierRegistry()).toThrow(
+        'Unknown signature scheme',
+      );
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Stripe Signature Verifier
+ *
+ * - Header:         Stripe-Signature
+ * - Encoding:       comma-separated "key=value" pairs; v1 values are hex
+ * - Signed content: "{t}.{raw body}" where t is the timestamp from the header
+ *
+ * Example header:
+ *   Stripe-Signature: t=1492774577,v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd
+ *
+ * The header may contain several v1 signatures (e.g. while Stripe rolls a
+ * secret); the request is valid if ANY of them matches.
+ *
+ * @see https://docs.stripe.com/webhooks#verify-manually
+ */
+import { SignatureVerifier, SignedRequest } from './signature-verifier.interface';
+import {
+  decodeHex,
+  getHeader,
+  hmacSha256,
+  parseTimestamp,
+  safeEqual,
+} from './verifier.utils';
+
+export class StripeSignatureVerifier implements SignatureVerifier {
+  readonly scheme = 'stripe';
+  readonly header = 'stripe-signature';
+
+  verify(request: SignedRequest, secret: string): boolean {
+    const { timestamp, signatures } = this.parseHeader(request);
+    if (!timestamp || signatures.length === 0) {
+      return false;
+    }
+
+    // Stripe signs "timestamp.body"
+    const expected = hmacSha256(
+      secret,
+      Buffer.concat([Buffer.from(`${timestamp}.`), request.rawBody]),
+    );
+    return signatures.some((signature) => {
+      const provided = decodeHex(signature);
+      return provided !== undefined && safeEqual(expected, provided);
+    });
+  }
+
+  getTimestamp(request: SignedRequest): number | undefined {
+    return parseTimestamp(this.parseHeader(request).timestamp);
+  }
+
+  /**
+   * Split "t=...,v1=...,v1=..." into the timestamp and v1 signatures
+   *
+   * @param request - The incoming request
+   * @returns The raw timestamp (if any) and every v1 signature
+   */
+  private parseHeader(request: SignedRequest): {
+    timestamp?: string;
+    signatures: string[];
+  } {
+    const header = getHeader(request.headers, this.header);
+    let timestamp: string | undefined;
+    const signatures: string[] = [];
+
+    for (const part of (header || '').split(',')) {
+      const [key, value] = part.trim().split('=', 2);
+      if (key === 't') {
+        timestamp = value;
+      } else if (key === 'v1' && value) {
+        signatures.push(value);
+      }
+    }
+
+    return { timestamp, signatures };
+  }
+}
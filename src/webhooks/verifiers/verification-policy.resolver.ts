@@ -0,0 +1,81 @@
+/**
+ * Verification Policy Resolver
+ *
+ * Decides what happens to a webhook whose signature did NOT verify.
+ * Without a policy, anything on the internet could fill storage with
+ * unsigned requests and push real events out through FIFO eviction.
+ *
+ * Policies (see VerificationPolicy):
+ * - accept     -> store with verified: false (the default)
+ * - quarantine -> store in the separate quarantine storage
+ * - reject     -> 401, nothing is stored
+ *
+ * Configuration:
+ * - VERIFICATION_POLICY: Policy for every source without its own (default: accept)
+ * - VERIFICATION_POLICIES: Per-source policies, e.g. stripe:reject,github:quarantine
+ */
+import { Injectable } from '@nestjs/common';
+import { VerificationPolicy } from '../interfaces/webhook.interface';
+
+/** Every policy name accepted by the env variables */
+export const VERIFICATION_POLICIES: VerificationPolicy[] = [
+  'accept',
+  'quarantine',
+  'reject',
+];
+
+@Injectable()
+export class VerificationPolicyResolver {
+  /** Policy for sources without their own */
+  private readonly defaultPolicy: VerificationPolicy;
+
+  /** Policy per source, keyed by source name */
+  private readonly policies: Map<string, VerificationPolicy> = new Map();
+
+  /**
+   * Constructor - reads the default and per-source policies from the environment
+   *
+   * @throws Error if a policy name is unknown (fails fast at startup)
+   */
+  constructor() {
+    this.defaultPolicy = this.parsePolicy(
+      process.env.VERIFICATION_POLICY || 'accept',
+    );
+
+    // Per-source policies: "source:policy,source:policy"
+    (process.env.VERIFICATION_POLICIES || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== '')
+      .forEach((entry) => {
+        const [source, policy] = entry.split(':').map((part) => part.trim());
+        this.policies.set(source, this.parsePolicy(policy));
+      });
+  }
+
+  /**
+   * Get the policy for a source
+   *
+   * @param source - The webhook source
+   * @returns The source's own policy, or the default one
+   */
+  get(source: string): VerificationPolicy {
+    return this.policies.get(source) ?? this.defaultPolicy;
+  }
+
+  /**
+   * Validate a policy name from the environment
+   *
+   * @param policy - The configured value
+   * @returns The policy
+   * @throws Error if the policy is unknown
+   */
+  private parsePolicy(policy: string): VerificationPolicy {
+    if (!VERIFICATION_POLICIES.includes(policy as VerificationPolicy)) {
+      throw new Error(
+        `Unknown verification policy "${policy}". Expected one of: ${VERIFICATION_POLICIES.join(', ')}`,
+      );
+    }
+    return policy as VerificationPolicy;
+  }
+}
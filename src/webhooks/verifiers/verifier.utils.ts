@@ -0,0 +1,101 @@
+/**
+ * Verifier Utilities
+ *
+ * Small helpers shared by all signature verifiers.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+/**
+ * Compute an HMAC-SHA256 digest
+ *
+ * @param secret - The signing secret
+ * @param content - The bytes (or text) that were signed
+ * @returns The raw digest bytes
+ */
+export function hmacSha256(secret: string, content: Buffer | string): Buffer {
+  return createHmac('sha256', secret).update(content).digest();
+}
+
+/**
+ * Compare two byte sequences in constant time
+ *
+ * Why timing-safe comparison?
+ * - Regular comparison (===) exits early on the first mismatch
+ * - Attackers can measure response time to guess the signature byte by byte
+ * - timingSafeEqual always takes the same time regardless of match
+ *
+ * @param expected - The signature we computed
+ * @param provided - The signature from the request
+ * @returns true if both are identical
+ */
+export function safeEqual(expected: Buffer, provided: Buffer): boolean {
+  // Must be same length for timingSafeEqual to work
+  if (expected.length !== provided.length) {
+    return false;
+  }
+  return timingSafeEqual(expected, provided);
+}
+
+/** A SHA-256 digest in hex: exactly 64 hex digits */
+const HEX_DIGEST = /^[0-9a-f]{64}$/i;
+
+/** A SHA-256 digest in base64: 43 characters and one "=" of padding */
+const BASE64_DIGEST = /^[A-Za-z0-9+/]{43}=$/;
+
+/**
+ * Decode a hex-encoded SHA-256 digest
+ *
+ * Buffer.from(x, 'hex') stops at the first character that isn't hex and
+ * ignores the rest, so "<digest>zz" would decode like "<digest>". Only
+ * exactly one digest is accepted here.
+ *
+ * @param value - The encoded digest
+ * @returns The digest bytes, or undefined if the value is malformed
+ */
+export function decodeHex(value: string): Buffer | undefined {
+  return HEX_DIGEST.test(value) ? Buffer.from(value, 'hex') : undefined;
+}
+
+/**
+ * Decode a base64-encoded SHA-256 digest
+ *
+ * Like hex, Node's base64 decoder skips characters it doesn't know, so
+ * the value is checked to be exactly one digest first.
+ *
+ * @param value - The encoded digest
+ * @returns The digest bytes, or undefined if the value is malformed
+ */
+export function decodeBase64(value: string): Buffer | undefined {
+  return BASE64_DIGEST.test(value) ? Buffer.from(value, 'base64') : undefined;
+}
+
+/**
+ * Read a single header value
+ *
+ * Node gives repeated headers as arrays; we only ever want the first value.
+ *
+ * @param headers - The request headers
+ * @param name - Lower-case header name
+ * @returns The header value, or undefined if missing
+ */
+export function getHeader(
+  headers: IncomingHttpHeaders,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parse a Unix timestamp (seconds) from a header value
+ *
+ * @param value - The header value (e.g. "1700000000")
+ * @returns The timestamp, or undefined if missing or not a number
+ */
+export function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  return parseInt(value, 10);
+}
@@ -5,11 +5,62 @@
  * - Handles HTTP requests
  * - Passes data to the service
  * - Returns the expected responses
+ * - Takes provider deliveries as sent, over real HTTP (POST /webhooks/:source)
  */
+import {
+  ForbiddenException,
+  HttpStatus,
+  INestApplication,
+  ValidationPipe,
+} from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import type { Response } from 'express';
+import { createHmac } from 'crypto';
 import { WebhooksController } from './webhooks.controller';
 import { WebhooksService } from './webhooks.service';
 import { WebhooksStorage } from './webhooks.storage';
+import { InMemoryWebhooksStorage } from './storage/in-memory.storage';
+import { SignatureVerifierRegistry } from './verifiers/signature-verifier.registry';
+import { ReplayProtectionService } from './verifiers/replay-protection.service';
+import { IdempotencyKeyResolver } from './idempotency/idempotency-key.resolver';
+import { VerificationPolicyResolver } from './verifiers/verification-policy.resolver';
+import { QuarantineService } from './quarantine/quarantine.service';
+import { DeadLettersService } from './dead-letters/dead-letters.service';
+import { WebhookStreamService } from './stream/webhook-stream.service';
+import { LeasesService } from './leases/leases.service';
+import { WebhookHandlersService } from './handlers/webhook-handlers.service';
+import { QUARANTINE_STORAGE } from './storage/storage.factory';
+import { SecretsService } from '../secrets/secrets.service';
+import { ForwardingService } from '../forwarding/forwarding.service';
+import { SchemasService } from '../schemas/schemas.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { SourceQuotasService } from './quotas/source-quotas.service';
+import { IpAllowlistService } from './ip-allowlist/ip-allowlist.service';
+import { RedactionService } from './redaction/redaction.service';
+import { ApiKeyScope } from '../api-keys/interfaces/api-key.interface';
+
+/** Everything WebhooksController needs, with in-memory storage */
+const providers = [
+  WebhooksService,
+  SignatureVerifierRegistry,
+  SecretsService,
+  ReplayProtectionService,
+  IdempotencyKeyResolver,
+  VerificationPolicyResolver,
+  QuarantineService,
+  ForwardingService,
+  DeadLettersService,
+  WebhookStreamService,
+  LeasesService,
+  WebhookHandlersService,
+  SchemasService,
+  CatalogService,
+  SourceQuotasService,
+  IpAllowlistService,
+  RedactionService,
+  { provide: WebhooksStorage, useClass: InMemoryWebhooksStorage },
+  { provide: QUARANTINE_STORAGE, useClass: InMemoryWebhooksStorage },
+];
 
 // describe() groups related tests together
 describe('WebhooksController', () => {
@@ -23,7 +74,7 @@ describe('WebhooksController', () => {
     // Create a testing module (mini NestJS app for testing)
     const module: TestingModule = await Test.createTestingModule({
       controllers: [WebhooksController],
-      providers: [WebhooksService, WebhooksStorage],
+      providers,
     }).compile();
 
     // Get instances from the testing module
@@ -57,28 +108,77 @@ describe('WebhooksController', () => {
     });
 
     /**
-     * Test: Signature header is passed to service
+     * Test: Request headers are passed to service
      *
-     * When we include an x-webhook-signature header,
-     * the controller should pass it to the service for verification
+     * When we include a signature header (x-webhook-signature here),
+     * the controller should pass the headers to the service for verification
      */
-    it('should pass signature header to service', () => {
+    it('should pass request headers to service', () => {
       // Arrange: Set up test data
       const dto = {
         source: 'stripe',
         event: 'payment.completed',
         payload: { amount: 100 },
       };
-      const signature = 'abc123signature';
+      const headers = { 'x-webhook-signature': 'abc123signature' };
 
       // Spy on the service's create method to see what it receives
       const createSpy = jest.spyOn(service, 'create');
 
-      // Act: Call controller with signature
-      controller.create(dto, signature);
+      // Act: Call controller with the headers
+      controller.create(dto, headers);
+
+      // Assert: Service was called with both dto AND headers
+      // (no API auth context, so no signature is required)
+      expect(createSpy).toHaveBeenCalledWith(dto, headers, undefined, {
+        requireSignature: false,
+      });
+    });
+
+    /**
+     * Test: Raw body is passed to service
+     *
+     * The exact request bytes must reach the service untouched,
+     * because signatures are computed over them
+     */
+    it('should pass the raw body to service', () => {
+      // Arrange
+      const dto = {
+        source: 'stripe',
+        event: 'payment.completed',
+        payload: { amount: 100 },
+      };
+      const rawBody = Buffer.from(JSON.stringify(dto));
+      const createSpy = jest.spyOn(service, 'create');
+
+      // Act
+      const headers = { 'x-webhook-signature': 'abc123signature' };
+      controller.create(dto, headers, rawBody);
 
-      // Assert: Service was called with both dto AND signature
-      expect(createSpy).toHaveBeenCalledWith(dto, signature);
+      // Assert: Raw body forwarded as-is
+      expect(createSpy).toHaveBeenCalledWith(dto, headers, rawBody, {
+        requireSignature: false,
+      });
+    });
+
+    /**
+     * Test: A repeated delivery answers 200 OK instead of 201 Created
+     */
+    it('should respond 200 with the original id for a duplicate', () => {
+      const dto = {
+        source: 'custom',
+        event: 'payment.completed',
+        payload: { amount: 100 },
+      };
+      const headers = { 'idempotency-key': 'order-42' };
+      const res = { status: jest.fn() } as unknown as Response;
+
+      const first = controller.create(dto, headers, undefined, res);
+      const second = controller.create(dto, headers, undefined, res);
+
+      expect(second.id).toBe(first.id);
+      expect(res.status).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(HttpStatus.OK);
     });
   });
 
@@ -114,6 +214,50 @@ describe('WebhooksController', () => {
     });
   });
 
+  // ==================== GET /webhooks/stats Tests ====================
+  describe('getStats', () => {
+    /**
+     * Test: Stats include the stored count and verification counters
+     */
+    it('should return stored count and verification stats', () => {
+      controller.create({ source: 'test', event: 'test.event', payload: {} });
+
+      const result = controller.getStats();
+
+      expect(result.stored).toBe(1);
+      expect(result.verification).toHaveProperty('replaysRejected');
+    });
+
+    /**
+     * Test: Stats cover every source, so keys bound to sources need admin
+     */
+    it('should refuse keys bound to sources unless they are admin keys', () => {
+      // Arrange
+      const keyWith = (scopes: ApiKeyScope[], sources: string[]) => ({
+        apiKey: {
+          id: 'key-1',
+          name: 'dashboard',
+          hash: 'unused',
+          scopes,
+          sources,
+          createdAt: new Date(),
+        },
+        requireSignature: false,
+      });
+
+      // Act & Assert
+      expect(() => controller.getStats(keyWith(['read'], ['stripe']))).toThrow(
+        ForbiddenException,
+      );
+      expect(controller.getStats(keyWith(['read'], []))).toHaveProperty(
+        'stored',
+      );
+      expect(
+        controller.getStats(keyWith(['admin'], ['stripe'])),
+      ).toHaveProperty('stored');
+    });
+  });
+
   // ==================== GET /webhooks/:id Tests ====================
   describe('findOne', () => {
     /**
@@ -137,6 +281,87 @@ describe('WebhooksController', () => {
       expect(result.id).toBe(created.id); // Same ID
       expect(result.source).toBe('test'); // Same source
     });
+
+    /**
+     * Test: Originals of redacted fields need the "read:unredacted" scope,
+     * even while API authentication is disabled
+     */
+    it('should only reveal originals to keys with read:unredacted', () => {
+      // Arrange
+      const created = controller.create({
+        source: 'stripe',
+        event: 'test.event',
+        payload: {},
+      });
+      const revealSpy = jest.spyOn(service, 'reveal');
+      const withScopes = (scopes: ApiKeyScope[]) => ({
+        apiKey: {
+          id: 'key-1',
+          name: 'support',
+          hash: 'unused',
+          scopes,
+          sources: [],
+          createdAt: new Date(),
+        },
+        requireSignature: false,
+      });
+
+      // Act & Assert
+      expect(() => controller.findOne(created.id, true)).toThrow(
+        ForbiddenException,
+      );
+      expect(() =>
+        controller.findOne(created.id, true, withScopes(['read'])),
+      ).toThrow(ForbiddenException);
+      expect(revealSpy).not.toHaveBeenCalled();
+
+      controller.findOne(
+        created.id,
+        true,
+        withScopes(['read', 'read:unredacted']),
+      );
+      expect(revealSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ==================== POST /webhooks/:id/ack and /fail Tests ====================
+  describe('acknowledge and fail', () => {
+    /**
+     * Test: Acknowledge a webhook
+     */
+    it('should mark a webhook as processed', () => {
+      // Arrange
+      const created = controller.create({
+        source: 'test',
+        event: 'test.event',
+        payload: {},
+      });
+
+      // Act
+      const result = controller.acknowledge(created.id, {});
+
+      // Assert
+      expect(result.status).toBe('processed');
+    });
+
+    /**
+     * Test: Report a failed webhook
+     */
+    it('should mark a webhook as failed', () => {
+      // Arrange
+      const created = controller.create({
+        source: 'test',
+        event: 'test.event',
+        payload: {},
+      });
+
+      // Act
+      const result = controller.fail(created.id, { error: 'Timeout' });
+
+      // Assert
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('Timeout');
+    });
   });
 
   // ==================== DELETE /webhooks/:id Tests ====================
@@ -161,5 +386,187 @@ describe('WebhooksController', () => {
       // Assert: Got success message
       expect(result.message).toBe('Webhook deleted successfully');
     });
+
+    /**
+     * Test: A key bound to other sources can't delete the webhook
+     */
+    it('should refuse API keys bound to another source', () => {
+      // Arrange
+      const created = controller.create({
+        source: 'stripe',
+        event: 'test.event',
+        payload: {},
+      });
+      const auth = {
+        apiKey: {
+          id: 'key-1',
+          name: 'github-worker',
+          hash: 'unused',
+          scopes: ['delete' as const],
+          sources: ['github'],
+          createdAt: new Date(),
+        },
+        requireSignature: false,
+      };
+
+      // Act & Assert
+      expect(() => controller.delete(created.id, auth)).toThrow(
+        ForbiddenException,
+      );
+      expect(service.findOne(created.id).source).toBe('stripe');
+    });
+  });
+
+  // ==================== POST /webhooks/:source over HTTP ====================
+  describe('provider deliveries', () => {
+    let app: INestApplication;
+    let baseUrl: string;
+
+    /** A push event, shaped and signed the way GitHub sends it */
+    const githubBody = JSON.stringify({
+      ref: 'refs/heads/main',
+      before: '6113728f27ae82c7b1a177c8d03f9e96e0adf246',
+      repository: { id: 1296269, full_name: 'octocat/Hello-World' },
+      pusher: { name: 'octocat', email: 'octocat@github.com' },
+    });
+    const githubHeaders = (body: string) => ({
+      'content-type': 'application/json',
+      'x-github-event': 'push',
+      'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+      'x-hub-signature-256': `sha256=${createHmac('sha256', 'gh-secret').update(body).digest('hex')}`,
+    });
+
+    /** POST a body to the app as-is */
+    const post = (
+      path: string,
+      body: string,
+      headers: Record<string, string>,
+    ) => fetch(`${baseUrl}/api/v1${path}`, { method: 'POST', headers, body });
+
+    // A real HTTP server with the same pipes as main.ts, so the bytes
+    // reaching the verifier are exactly the ones sent
+    beforeEach(async () => {
+      process.env.WEBHOOK_SECRETS = 'github:gh-secret,stripe:whsec_test';
+      const module: TestingModule = await Test.createTestingModule({
+        controllers: [WebhooksController],
+        providers,
+      }).compile();
+      app = module.createNestApplication({ rawBody: true, logger: false });
+      app.useGlobalPipes(
+        new ValidationPipe({
+          whitelist: true,
+          forbidNonWhitelisted: true,
+          transform: true,
+          transformOptions: { enableImplicitConversion: true },
+        }),
+      );
+      app.setGlobalPrefix('api/v1');
+      await app.listen(0, '127.0.0.1');
+      baseUrl = await app.getUrl();
+      service = module.get<WebhooksService>(WebhooksService);
+    });
+
+    afterEach(async () => {
+      await app.close();
+      delete process.env.WEBHOOK_SECRETS;
+    });
+
+    /**
+     * Test: A GitHub delivery verifies, with the event from X-GitHub-Event
+     * and the body stored as the payload
+     */
+    it('should verify a GitHub delivery as sent', async () => {
+      // Act
+      const response = await post(
+        '/webhooks/github',
+        githubBody,
+        githubHeaders(githubBody),
+      );
+      const { id } = (await response.json()) as { id: string };
+
+      // Assert
+      expect(response.status).toBe(HttpStatus.CREATED);
+      const stored = service.findOne(id);
+      expect(stored).toMatchObject({
+        source: 'github',
+        event: 'push',
+        verified: true,
+        signatureScheme: 'github',
+        payload: JSON.parse(githubBody),
+      });
+    });
+
+    /**
+     * Test: A Stripe delivery verifies, with the event from its "type"
+     */
+    it('should verify a Stripe delivery as sent', async () => {
+      // Arrange
+      const body = JSON.stringify({
+        id: 'evt_1NG8Du2eZvKYlo2CUI79vXWy',
+        object: 'event',
+        type: 'invoice.paid',
+        data: { object: { id: 'in_1', object: 'invoice', amount_paid: 2000 } },
+      });
+      const t = Math.floor(Date.now() / 1000);
+      const v1 = createHmac('sha256', 'whsec_test')
+        .update(`${t}.${body}`)
+        .digest('hex');
+
+      // Act
+      const response = await post('/webhooks/stripe', body, {
+        'content-type': 'application/json',
+        'stripe-signature': `t=${t},v1=${v1}`,
+      });
+      const { id } = (await response.json()) as { id: string };
+
+      // Assert
+      expect(response.status).toBe(HttpStatus.CREATED);
+      expect(service.findOne(id)).toMatchObject({
+        event: 'invoice.paid',
+        verified: true,
+      });
+    });
+
+    /**
+     * Test: A tampered body doesn't verify; the envelope route refuses
+     * provider bodies outright
+     */
+    it('should only accept the bytes the provider signed', async () => {
+      // Arrange
+      const tampered = githubBody.replace('main', 'evil');
+
+      // Act
+      await post('/webhooks/github', tampered, githubHeaders(githubBody));
+      const envelope = await post(
+        '/webhooks',
+        githubBody,
+        githubHeaders(githubBody),
+      );
+
+      // Assert
+      expect(service.findAll({}).webhooks[0].verified).toBe(false);
+      expect(envelope.status).toBe(HttpStatus.BAD_REQUEST);
+    });
+
+    /**
+     * Test: Bodies without an event type, or that aren't objects, are a 400
+     */
+    it('should refuse bodies without an event type', async () => {
+      // Act
+      const untyped = await post('/webhooks/custom', '{"amount":1}', {
+        'content-type': 'application/json',
+      });
+      const list = await post('/webhooks/custom', '[1,2]', {
+        'content-type': 'application/json',
+      });
+
+      // Assert
+      expect(untyped.status).toBe(HttpStatus.BAD_REQUEST);
+      expect(await untyped.json()).toMatchObject({
+        reason: 'event_type_missing',
+      });
+      expect(list.status).toBe(HttpStatus.BAD_REQUEST);
+      expect(service.findAll({}).count).toBe(0);
+    });
   });
 });
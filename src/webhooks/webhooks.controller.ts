@@ -11,6 +11,13 @@
  *
  * It does NOT contain business logic - that's in the Service layer.
  *
+ * @RequireScope() declares the API key scope each route needs (see
+ * ApiKeyGuard). Routes acting on one stored webhook check that the key
+ * is allowed its source before acting.
+ *
+ * @RateLimit() puts ingestion and reads under their own rate limits
+ * (see RateLimitGuard).
+ *
  * @Controller('webhooks') sets the base route to /webhooks
  * Combined with global prefix, full paths are /api/v1/webhooks/*
  */
@@ -25,24 +32,57 @@ import {
   Headers,
   HttpCode,
   HttpStatus,
+  ParseBoolPipe,
+  Res,
+  UseGuards,
 } from '@nestjs/common';
+import type { Response } from 'express';
+import { IncomingHttpHeaders } from 'http';
 import { WebhooksService } from './webhooks.service';
+import { WebhookStreamService } from './stream/webhook-stream.service';
+import { LeasesService } from './leases/leases.service';
+import { IpAllowlistGuard } from './ip-allowlist/ip-allowlist.guard';
+import { RawBody } from '../common/decorators/raw-body.decorator';
+import { RequireScope } from '../common/decorators/require-scope.decorator';
+import { RateLimit } from '../common/decorators/rate-limit.decorator';
+import { ApiAuth } from '../common/decorators/api-auth.decorator';
+import {
+  ApiAuthContext,
+  assertAllSourcesAccess,
+  assertScope,
+  assertSourceAccess,
+} from '../common/guards/api-key.guard';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { ReceiveWebhookParamsDto } from './dto/receive-webhook-params.dto';
 import { QueryWebhooksDto } from './dto/query-webhooks.dto';
+import { StreamWebhooksDto } from './dto/stream-webhooks.dto';
+import { AckWebhookDto } from './dto/ack-webhook.dto';
+import { FailWebhookDto } from './dto/fail-webhook.dto';
+import { ClaimWebhooksDto } from './dto/claim-webhooks.dto';
+import { ExtendLeaseDto } from './dto/extend-lease.dto';
+import { ReleaseLeaseDto } from './dto/release-lease.dto';
 import {
+  ClaimResponse,
   Webhook,
   WebhookResponse,
   WebhooksListResponse,
+  WebhookStatsResponse,
 } from './interfaces/webhook.interface';
 
 @Controller('webhooks')
 export class WebhooksController {
   /**
-   * Constructor - NestJS automatically injects the WebhooksService
+   * Constructor - NestJS automatically injects the services
    *
    * @param webhooksService - The service containing business logic
+   * @param streamService - Pushes new webhooks to stream subscribers
+   * @param leasesService - Leases waiting webhooks to workers
    */
-  constructor(private readonly webhooksService: WebhooksService) {}
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    private readonly streamService: WebhookStreamService,
+    private readonly leasesService: LeasesService,
+  ) {}
 
   /**
    * POST /api/v1/webhooks
@@ -52,7 +92,20 @@ export class WebhooksController {
    * @Post() - Handles HTTP POST requests
    * @HttpCode(201) - Returns 201 Created instead of default 200 OK
    * @Body() - Extracts and validates the request body using CreateWebhookDto
-   * @Headers('x-webhook-signature') - Extracts the signature header (optional)
+   * @Headers() - All request headers; the signature header depends on the
+   *   source (x-webhook-signature, Stripe-Signature, X-Hub-Signature-256, ...)
+   * @RawBody() - The exact request bytes, used for signature verification
+   * @Res({ passthrough: true }) - Lets us change the status code while Nest
+   *   still serializes the returned object
+   *
+   * A repeated delivery (same Idempotency-Key / provider delivery ID) is not
+   * stored again: it returns 200 OK with the original webhook's ID.
+   * An unverified webhook from a source with the "quarantine" policy returns
+   * 202 Accepted; with the "reject" policy it returns 401.
+   * Senders may post without an API key, but then only a webhook with a
+   * valid signature is accepted.
+   * Sources with an IP allowlist refuse webhooks from other networks with
+   * 403 (IpAllowlistGuard), before anything else is checked.
    *
    * Example request:
    * POST /api/v1/webhooks
@@ -60,16 +113,31 @@ export class WebhooksController {
    * Body: { "source": "stripe", "event": "payment.completed", "payload": {...} }
    *
    * @param createWebhookDto - Validated request body
-   * @param signature - Optional signature header for verification
-   * @returns { id: string, message: string }
+   * @param headers - Request headers (signature headers are read from here)
+   * @param rawBody - Unparsed request body as received
+   * @param res - The response (only used to set 200/202 for duplicates/quarantine)
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns { id: string, message: string, duplicate?: true, quarantined?: true }
    */
+  @RequireScope('ingest', { source: 'body', allowSigned: true })
+  @RateLimit('ingest')
+  @UseGuards(IpAllowlistGuard)
   @Post()
   @HttpCode(HttpStatus.CREATED)
   create(
     @Body() createWebhookDto: CreateWebhookDto,
-    @Headers('x-webhook-signature') signature?: string,
+    @Headers() headers: IncomingHttpHeaders = {},
+    @RawBody() rawBody?: Buffer,
+    @Res({ passthrough: true }) res?: Response,
+    @ApiAuth() auth?: ApiAuthContext,
   ): WebhookResponse {
-    return this.webhooksService.create(createWebhookDto, signature);
+    const result = this.webhooksService.create(
+      createWebhookDto,
+      headers,
+      rawBody,
+      { requireSignature: auth?.requireSignature ?? false },
+    );
+    return this.withIngestStatus(result, res);
   }
 
   /**
@@ -85,15 +153,91 @@ export class WebhooksController {
    * GET /api/v1/webhooks?page=2&limit=20              - Page 2, 20 per page
    * GET /api/v1/webhooks?source=stripe                - Only Stripe webhooks
    * GET /api/v1/webhooks?source=stripe&event=payment  - Filtered by both
+   * GET /api/v1/webhooks?event=payment.*&verified=false - Pattern + verified
+   * GET /api/v1/webhooks?receivedAfter=2024-06-01T18:00:00Z&payload.data.status=failed
+   * GET /api/v1/webhooks?limit=50&cursor=<nextCursor> - Next page by cursor
    *
-   * @param query - Validated query parameters (page, limit, source, event)
-   * @returns { webhooks: [], count: number, page: number, limit: number, totalPages: number }
+   * @param query - Validated query parameters (page, limit, cursor, source,
+   *   event, receivedAfter, receivedBefore, verified, payload)
+   * @returns { webhooks: [], count, page, limit, totalPages, total, nextCursor }
    */
+  @RequireScope('read', { source: 'request' })
+  @RateLimit('read')
   @Get()
   findAll(@Query() query: QueryWebhooksDto): WebhooksListResponse {
     return this.webhooksService.findAll(query);
   }
 
+  /**
+   * GET /api/v1/webhooks/stats
+   *
+   * Service statistics: stored count, verification outcomes and
+   * rejected replays (counted separately from verification failures).
+   *
+   * Declared before GET /webhooks/:id, otherwise "stats" would be
+   * treated as a webhook ID.
+   *
+   * The counters cover every source, so keys bound to sources are
+   * refused unless they are admin keys.
+   *
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns { stored, inQuarantine, verification: { verified, unverified, quarantined, rejected, replaysRejected }, schemaValidation: { rejected, flagged, ignored } }
+   * @throws 403 Forbidden if the API key is bound to sources
+   */
+  @RequireScope('read')
+  @RateLimit('read')
+  @Get('stats')
+  getStats(@ApiAuth() auth?: ApiAuthContext): WebhookStatsResponse {
+    assertAllSourcesAccess(auth);
+    return this.webhooksService.getStats();
+  }
+
+  /**
+   * GET /api/v1/webhooks/stream
+   *
+   * Server-Sent Events stream of webhooks as they are stored, optionally
+   * filtered by source and event (same semantics as GET /webhooks).
+   * A reconnecting EventSource sends Last-Event-ID and first receives the
+   * stored webhooks it missed.
+   *
+   * @Res() - The response stays open; events are written as they happen
+   *
+   * Declared before GET /webhooks/:id, otherwise "stream" would be
+   * treated as a webhook ID.
+   *
+   * Example request:
+   * GET /api/v1/webhooks/stream?source=stripe&event=payment.*
+   * Headers: { "Accept": "text/event-stream" }
+   *
+   * @param query - Validated filters (source, event)
+   * @param lastEventId - ID of the last event a reconnecting client received
+   * @param res - The response the events are written to
+   * @throws 503 Service Unavailable if too many subscribers are connected
+   */
+  @RequireScope('read', { source: 'request' })
+  @RateLimit('read')
+  @Get('stream')
+  stream(
+    @Query() query: StreamWebhooksDto,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Res() res: Response,
+  ): void {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Stop nginx from buffering events
+    });
+
+    const unsubscribe = this.streamService.subscribe(
+      query,
+      lastEventId,
+      (chunk) => res.write(chunk),
+    );
+    res.flushHeaders();
+    res.on('close', unsubscribe);
+  }
+
   /**
    * GET /api/v1/webhooks/:id
    *
@@ -102,16 +246,236 @@ export class WebhooksController {
    * @Get(':id') - Handles GET requests with an ID parameter
    * @Param('id') - Extracts the 'id' from the URL path
    *
+   * The payload is returned as stored, after the redaction rules. With
+   * ?unredacted=true, values whose rule keeps them encrypted come back as
+   * received - this needs a key with the "read:unredacted" scope.
+   *
    * Example request:
    * GET /api/v1/webhooks/550e8400-e29b-41d4-a716-446655440000
    *
    * @param id - The webhook UUID from the URL
+   * @param unredacted - Return the original values of redacted fields
+   * @param auth - The caller's API key, if API authentication is enabled
    * @returns The full Webhook object
    * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources, or
+   *   originals were asked for without the "read:unredacted" scope
    */
+  @RequireScope('read', { source: 'webhook' })
+  @RateLimit('read')
   @Get(':id')
-  findOne(@Param('id') id: string): Webhook {
-    return this.webhooksService.findOne(id);
+  findOne(
+    @Param('id') id: string,
+    @Query('unredacted', new ParseBoolPipe({ optional: true }))
+    unredacted?: boolean,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): Webhook {
+    const webhook = this.webhooksService.findOne(id);
+    assertSourceAccess(auth, webhook.source);
+    if (unredacted) {
+      assertScope(auth, 'read:unredacted');
+      return this.webhooksService.reveal(webhook);
+    }
+    return webhook;
+  }
+
+  /**
+   * POST /api/v1/webhooks/claim
+   *
+   * Lease the oldest waiting webhooks (status: received) to a worker.
+   * They become "processing" until the worker acks, fails or releases
+   * them, or the lease runs out and they are waiting again.
+   *
+   * Example request:
+   * POST /api/v1/webhooks/claim?source=stripe&event=payment.*&max=5
+   *
+   * @param claimWebhooksDto - Validated query parameters
+   * @returns { leaseId, expiresAt, webhooks }
+   */
+  @RequireScope('process', { source: 'request' })
+  @Post('claim')
+  @HttpCode(HttpStatus.OK)
+  claim(@Query() claimWebhooksDto: ClaimWebhooksDto): ClaimResponse {
+    return this.leasesService.claim(claimWebhooksDto);
+  }
+
+  /**
+   * POST /api/v1/webhooks/:source
+   *
+   * Receive a webhook exactly as its provider sent it - the body is the
+   * provider's own payload, not the { source, event, payload } envelope,
+   * so its signature can be verified over the bytes the provider signed.
+   * This is the URL to give Stripe, GitHub, Shopify or Slack.
+   *
+   * The event type is read from X-GitHub-Event, X-Shopify-Topic or the
+   * body's "type" field. Everything else (keys, signatures, duplicates,
+   * quarantine, IP allowlists) works as for POST /webhooks.
+   *
+   * Declared after POST /webhooks/claim, otherwise "claim" would be
+   * treated as a source.
+   *
+   * Example request:
+   * POST /api/v1/webhooks/github
+   * Headers: { "x-github-event": "push", "x-hub-signature-256": "sha256=..." }
+   * Body: { "ref": "refs/heads/main", ... }
+   *
+   * @param params - Validated route params (the source)
+   * @param payload - The provider's body
+   * @param headers - Request headers (signature and event type)
+   * @param rawBody - Unparsed request body as received
+   * @param res - The response (only used to set 200/202 for duplicates/quarantine)
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns { id: string, message: string, duplicate?: true, quarantined?: true }
+   * @throws 400 Bad Request if the body is not a JSON object or has no event type
+   */
+  @RequireScope('ingest', { source: 'param', allowSigned: true })
+  @RateLimit('ingest')
+  @UseGuards(IpAllowlistGuard)
+  @Post(':source')
+  @HttpCode(HttpStatus.CREATED)
+  receive(
+    @Param() params: ReceiveWebhookParamsDto,
+    @Body() payload: unknown,
+    @Headers() headers: IncomingHttpHeaders = {},
+    @RawBody() rawBody?: Buffer,
+    @Res({ passthrough: true }) res?: Response,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): WebhookResponse {
+    const result = this.webhooksService.receive(
+      params.source,
+      payload,
+      headers,
+      rawBody,
+      { requireSignature: auth?.requireSignature ?? false },
+    );
+    return this.withIngestStatus(result, res);
+  }
+
+  /**
+   * POST /api/v1/webhooks/:id/ack
+   *
+   * Acknowledge a webhook as processed (status: processed).
+   * Acknowledging it again is harmless.
+   *
+   * Example request:
+   * POST /api/v1/webhooks/550e8400-e29b-41d4-a716-446655440000/ack
+   * Body (for claimed webhooks): { "leaseId": "9b2f6c1e-..." }
+   *
+   * @param id - The webhook UUID from the URL
+   * @param ackWebhookDto - Validated body with the optional lease ID
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns The updated Webhook object
+   * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources
+   * @throws 409 Conflict if the webhook is leased to another worker
+   */
+  @RequireScope('process', { source: 'webhook' })
+  @Post(':id/ack')
+  @HttpCode(HttpStatus.OK)
+  acknowledge(
+    @Param('id') id: string,
+    @Body() ackWebhookDto: AckWebhookDto,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): Webhook {
+    this.assertWebhookAccess(id, auth);
+    return this.webhooksService.acknowledge(id, ackWebhookDto.leaseId);
+  }
+
+  /**
+   * POST /api/v1/webhooks/:id/fail
+   *
+   * Report that processing a webhook failed (status: failed).
+   *
+   * Example request:
+   * POST /api/v1/webhooks/550e8400-e29b-41d4-a716-446655440000/fail
+   * Body: { "error": "Customer cus_123 not found" }
+   *
+   * @param id - The webhook UUID from the URL
+   * @param failWebhookDto - Validated body with the error message
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns The updated Webhook object
+   * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources
+   * @throws 409 Conflict if the webhook is already processed or failed,
+   *   or leased to another worker
+   */
+  @RequireScope('process', { source: 'webhook' })
+  @Post(':id/fail')
+  @HttpCode(HttpStatus.OK)
+  fail(
+    @Param('id') id: string,
+    @Body() failWebhookDto: FailWebhookDto,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): Webhook {
+    this.assertWebhookAccess(id, auth);
+    return this.webhooksService.fail(
+      id,
+      failWebhookDto.error,
+      failWebhookDto.leaseId,
+    );
+  }
+
+  /**
+   * POST /api/v1/webhooks/:id/lease/extend
+   *
+   * Keep a claimed webhook for another visibility timeout, from now.
+   *
+   * Example request:
+   * POST /api/v1/webhooks/550e8400-e29b-41d4-a716-446655440000/lease/extend
+   * Body: { "leaseId": "9b2f6c1e-...", "visibilityTimeoutMs": 60000 }
+   *
+   * @param id - The webhook UUID from the URL
+   * @param extendLeaseDto - Validated body with the lease ID
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns The webhook with its new leaseExpiresAt
+   * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources
+   * @throws 409 Conflict if the lease has expired or is not this one
+   */
+  @RequireScope('process', { source: 'webhook' })
+  @Post(':id/lease/extend')
+  @HttpCode(HttpStatus.OK)
+  extendLease(
+    @Param('id') id: string,
+    @Body() extendLeaseDto: ExtendLeaseDto,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): Webhook {
+    this.assertWebhookAccess(id, auth);
+    return this.leasesService.extend(
+      id,
+      extendLeaseDto.leaseId,
+      extendLeaseDto.visibilityTimeoutMs,
+    );
+  }
+
+  /**
+   * POST /api/v1/webhooks/:id/lease/release
+   *
+   * Give a claimed webhook back unfinished (status: received), so the
+   * next claim can pick it up without waiting for the lease to run out.
+   *
+   * Example request:
+   * POST /api/v1/webhooks/550e8400-e29b-41d4-a716-446655440000/lease/release
+   * Body: { "leaseId": "9b2f6c1e-..." }
+   *
+   * @param id - The webhook UUID from the URL
+   * @param releaseLeaseDto - Validated body with the lease ID
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @returns The webhook, waiting again
+   * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources
+   * @throws 409 Conflict if the lease has expired or is not this one
+   */
+  @RequireScope('process', { source: 'webhook' })
+  @Post(':id/lease/release')
+  @HttpCode(HttpStatus.OK)
+  releaseLease(
+    @Param('id') id: string,
+    @Body() releaseLeaseDto: ReleaseLeaseDto,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): Webhook {
+    this.assertWebhookAccess(id, auth);
+    return this.leasesService.release(id, releaseLeaseDto.leaseId);
   }
 
   /**
@@ -127,12 +491,53 @@ export class WebhooksController {
    * DELETE /api/v1/webhooks/550e8400-e29b-41d4-a716-446655440000
    *
    * @param id - The webhook UUID from the URL
+   * @param auth - The caller's API key, if API authentication is enabled
    * @returns { message: "Webhook deleted successfully" }
    * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources
    */
+  @RequireScope('delete', { source: 'webhook' })
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
-  delete(@Param('id') id: string): { message: string } {
+  delete(
+    @Param('id') id: string,
+    @ApiAuth() auth?: ApiAuthContext,
+  ): { message: string } {
+    this.assertWebhookAccess(id, auth);
     return this.webhooksService.delete(id);
   }
+
+  /**
+   * Answer a repeated delivery with 200 OK and a quarantined one with
+   * 202 Accepted, instead of 201 Created
+   *
+   * @param result - What WebhooksService made of the delivery
+   * @param res - The response
+   * @returns The result, unchanged
+   */
+  private withIngestStatus(
+    result: WebhookResponse,
+    res?: Response,
+  ): WebhookResponse {
+    if (result.duplicate) {
+      res?.status(HttpStatus.OK);
+    } else if (result.quarantined) {
+      res?.status(HttpStatus.ACCEPTED);
+    }
+    return result;
+  }
+
+  /**
+   * Refuse API keys bound to other sources than the webhook's
+   *
+   * @param id - The webhook UUID from the URL
+   * @param auth - The caller's API key, if API authentication is enabled
+   * @throws 404 Not Found if webhook doesn't exist
+   * @throws 403 Forbidden if the API key is bound to other sources
+   */
+  private assertWebhookAccess(id: string, auth?: ApiAuthContext): void {
+    if (auth?.apiKey) {
+      assertSourceAccess(auth, this.webhooksService.findOne(id).source);
+    }
+  }
 }
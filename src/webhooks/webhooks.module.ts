@@ -4,7 +4,7 @@
  * This module groups together all webhook-related components:
  * - Controller (HTTP endpoints)
  * - Service (business logic)
- * - Storage (data persistence)
+ * - Storage (data persistence, driver chosen via STORAGE_DRIVER)
  *
  * NestJS uses modules to organize the application into cohesive blocks.
  * Each module encapsulates a feature and its dependencies.
@@ -15,25 +15,138 @@
  * - exports: Services available to other modules that import this one
  */
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { WebhooksController } from './webhooks.controller';
 import { WebhooksService } from './webhooks.service';
 import { WebhooksStorage } from './webhooks.storage';
+import {
+  createQuarantineStorage,
+  createWebhooksStorage,
+  QUARANTINE_STORAGE,
+} from './storage/storage.factory';
+import { SignatureVerifierRegistry } from './verifiers/signature-verifier.registry';
+import { ReplayProtectionService } from './verifiers/replay-protection.service';
+import { IdempotencyKeyResolver } from './idempotency/idempotency-key.resolver';
+import { VerificationPolicyResolver } from './verifiers/verification-policy.resolver';
+import { QuarantineController } from './quarantine/quarantine.controller';
+import { QuarantineService } from './quarantine/quarantine.service';
+import { DeadLettersController } from './dead-letters/dead-letters.controller';
+import { DeadLettersService } from './dead-letters/dead-letters.service';
+import { WebhookStreamService } from './stream/webhook-stream.service';
+import { LeasesService } from './leases/leases.service';
+import { RetentionController } from './retention/retention.controller';
+import { RetentionService } from './retention/retention.service';
+import { SourceQuotasController } from './quotas/source-quotas.controller';
+import { SourceQuotasService } from './quotas/source-quotas.service';
+import { IpAllowlistController } from './ip-allowlist/ip-allowlist.controller';
+import { IpAllowlistService } from './ip-allowlist/ip-allowlist.service';
+import { RedactionController } from './redaction/redaction.controller';
+import { RedactionService } from './redaction/redaction.service';
+import { WebhookHandlersService } from './handlers/webhook-handlers.service';
+import { WebhookHandlersExplorer } from './handlers/webhook-handlers.explorer';
+import { WebhooksGateway } from './gateway/webhooks.gateway';
+import { SecretsModule } from '../secrets/secrets.module';
+import { ForwardingModule } from '../forwarding/forwarding.module';
+import { SchemasModule } from '../schemas/schemas.module';
+import { CatalogModule } from '../catalog/catalog.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { RateLimitModule } from '../common/rate-limit/rate-limit.module';
 
 @Module({
+  /**
+   * SecretsModule provides the per-source signing secrets
+   * used to verify incoming webhooks
+   * ForwardingModule forwards stored webhooks to subscriptions
+   * SchemasModule validates incoming payloads against their JSON Schema
+   * CatalogModule learns the payload structure of every source + event
+   * DiscoveryModule lets WebhookHandlersExplorer find @OnWebhook() methods
+   * ApiKeysModule and RateLimitModule serve the gateway: its clients
+   *   may authenticate with API keys, and its RateLimitGuard needs the keys
+   *   to tell clients apart and the store to count them in
+   */
+  imports: [
+    SecretsModule,
+    ForwardingModule,
+    SchemasModule,
+    CatalogModule,
+    DiscoveryModule,
+    ApiKeysModule,
+    RateLimitModule,
+  ],
+
   /**
    * Controllers handle incoming HTTP requests
    * WebhooksController defines: POST, GET, DELETE /webhooks endpoints
+   *   (and the GET /webhooks/stream live stream)
+   * QuarantineController defines the /admin/quarantine endpoints
+   * DeadLettersController defines the /admin/dead-letters endpoints
+   * RetentionController defines the /admin/retention endpoints
+   * SourceQuotasController defines GET /sources/:source/usage
+   * IpAllowlistController defines GET /admin/ip-allowlists
+   * RedactionController defines GET /admin/redaction
    */
-  controllers: [WebhooksController],
+  controllers: [
+    WebhooksController,
+    QuarantineController,
+    DeadLettersController,
+    RetentionController,
+    SourceQuotasController,
+    IpAllowlistController,
+    RedactionController,
+  ],
 
   /**
    * Providers are services that can be injected into other classes
    * NestJS automatically creates instances and injects them where needed
    *
    * WebhooksService: Business logic (create, find, delete webhooks)
-   * WebhooksStorage: Data persistence (in-memory Map storage)
+   * WebhooksStorage: Data persistence - an abstract token bound to the
+   *   driver selected by STORAGE_DRIVER (memory, jsonl or sqlite).
+   *   useFactory can be async, so NestJS waits for the SQLite driver to load.
+   * SignatureVerifierRegistry: Picks the signature scheme for each source
+   * ReplayProtectionService: Rejects replayed signed requests
+   * IdempotencyKeyResolver: Finds the delivery ID used to detect duplicates
+   * VerificationPolicyResolver: accept / quarantine / reject per source
+   * QuarantineService: Manages unverified webhooks held in quarantine
+   * DeadLettersService: Parks webhooks that could not be forwarded
+   * WebhookStreamService: Pushes new webhooks to GET /webhooks/stream
+   * LeasesService: Leases waiting webhooks to workers (POST /webhooks/claim)
+   * RetentionService: Deletes webhooks past their age/count retention rule
+   * SourceQuotasService: Keeps each source within its count/bytes quota
+   * IpAllowlistService: Per-source IP allowlists (IpAllowlistGuard on POST /webhooks)
+   * RedactionService: Masks, hashes or drops sensitive values before storage
+   * WebhookHandlersService: Runs @OnWebhook() handlers for new webhooks
+   * WebhookHandlersExplorer: Registers the @OnWebhook() methods on startup
+   * WebhooksGateway: WebSocket channel to subscribe to, ack and delete webhooks
+   * QUARANTINE_STORAGE: A second storage (same driver, own file and limit)
+   *   so quarantined webhooks can never evict real ones
    */
-  providers: [WebhooksService, WebhooksStorage],
+  providers: [
+    WebhooksService,
+    SignatureVerifierRegistry,
+    ReplayProtectionService,
+    IdempotencyKeyResolver,
+    VerificationPolicyResolver,
+    QuarantineService,
+    DeadLettersService,
+    WebhookStreamService,
+    LeasesService,
+    RetentionService,
+    SourceQuotasService,
+    IpAllowlistService,
+    RedactionService,
+    WebhookHandlersService,
+    WebhookHandlersExplorer,
+    WebhooksGateway,
+    {
+      provide: WebhooksStorage,
+      useFactory: () => createWebhooksStorage(),
+    },
+    {
+      provide: QUARANTINE_STORAGE,
+      useFactory: () => createQuarantineStorage(),
+    },
+  ],
 
   /**
    * Exports make services available to other modules
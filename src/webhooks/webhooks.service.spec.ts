@@ -6,26 +6,96 @@
  * - Storing webhooks correctly
  * - Finding webhooks (with pagination and filtering)
  * - Deleting webhooks
+ * - Validating payloads against their schema (reject / flag / ignore)
+ * - Refusing webhooks over their source's storage quota
+ * - Tracking the processing status (ack / fail)
+ * - Dead-lettering failed deliveries and replaying them
  * - Error handling (404 for not found)
  */
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, createHmac } from 'crypto';
 import { WebhooksService } from './webhooks.service';
 import { WebhooksStorage } from './webhooks.storage';
+import { InMemoryWebhooksStorage } from './storage/in-memory.storage';
+import { SignatureVerifierRegistry } from './verifiers/signature-verifier.registry';
+import { ReplayProtectionService } from './verifiers/replay-protection.service';
+import { IdempotencyKeyResolver } from './idempotency/idempotency-key.resolver';
+import { VerificationPolicyResolver } from './verifiers/verification-policy.resolver';
+import { QuarantineService } from './quarantine/quarantine.service';
+import { DeadLettersService } from './dead-letters/dead-letters.service';
+import { WebhookStreamService } from './stream/webhook-stream.service';
+import { LeasesService } from './leases/leases.service';
+import { WebhookHandlersService } from './handlers/webhook-handlers.service';
+import { QUARANTINE_STORAGE } from './storage/storage.factory';
+import { SecretsService } from '../secrets/secrets.service';
+import { ForwardingService } from '../forwarding/forwarding.service';
+import { SchemasService } from '../schemas/schemas.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { SourceQuotasService } from './quotas/source-quotas.service';
+import { IpAllowlistService } from './ip-allowlist/ip-allowlist.service';
+import { RedactionService } from './redaction/redaction.service';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { Delivery } from '../forwarding/interfaces/subscription.interface';
 
 describe('WebhooksService', () => {
   let service: WebhooksService;
   let storage: WebhooksStorage;
+  let forwarding: ForwardingService;
+  let deadLetters: DeadLettersService;
+  let leases: LeasesService;
+  let handlers: WebhookHandlersService;
+  let stream: WebhookStreamService;
+  let schemas: SchemasService;
+  let catalog: CatalogService;
+  let quotas: SourceQuotasService;
+  let redaction: RedactionService;
 
   // beforeEach: Runs before EVERY test - creates fresh instances
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [WebhooksService, WebhooksStorage],
+      providers: [
+        WebhooksService,
+        SignatureVerifierRegistry,
+        SecretsService,
+        ReplayProtectionService,
+        IdempotencyKeyResolver,
+        VerificationPolicyResolver,
+        QuarantineService,
+        ForwardingService,
+        DeadLettersService,
+        WebhookStreamService,
+        LeasesService,
+        WebhookHandlersService,
+        SchemasService,
+        CatalogService,
+        SourceQuotasService,
+        IpAllowlistService,
+        RedactionService,
+        { provide: WebhooksStorage, useClass: InMemoryWebhooksStorage },
+        { provide: QUARANTINE_STORAGE, useClass: InMemoryWebhooksStorage },
+      ],
     }).compile();
 
     service = module.get<WebhooksService>(WebhooksService);
     storage = module.get<WebhooksStorage>(WebhooksStorage);
+    forwarding = module.get<ForwardingService>(ForwardingService);
+    deadLetters = module.get<DeadLettersService>(DeadLettersService);
+    leases = module.get<LeasesService>(LeasesService);
+    handlers = module.get<WebhookHandlersService>(WebhookHandlersService);
+    stream = module.get<WebhookStreamService>(WebhookStreamService);
+    schemas = module.get<SchemasService>(SchemasService);
+    catalog = module.get<CatalogService>(CatalogService);
+    quotas = module.get<SourceQuotasService>(SourceQuotasService);
+    redaction = module.get<RedactionService>(RedactionService);
   });
 
   // afterEach: Runs after EVERY test - cleans up storage
@@ -109,6 +179,1179 @@ describe('WebhooksService', () => {
       // Assert: verified should be false
       expect(stored?.verified).toBe(false);
     });
+
+    /**
+     * Test: Stored webhooks are handed to ForwardingService
+     */
+    it('should forward the stored webhook', () => {
+      const dispatchSpy = jest.spyOn(forwarding, 'dispatch');
+
+      const result = service.create({ source: 'test', event: 'e', payload: {} });
+
+      expect(dispatchSpy).toHaveBeenCalledWith(storage.getById(result.id));
+    });
+
+    /**
+     * Test: Duplicates are not forwarded a second time
+     */
+    it('should not forward a duplicate delivery', () => {
+      const dispatchSpy = jest.spyOn(forwarding, 'dispatch');
+      const headers = { 'idempotency-key': 'order-42' };
+      const dto = { source: 'test', event: 'e', payload: {} };
+
+      service.create(dto, headers);
+      service.create(dto, headers);
+
+      expect(dispatchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test: A failing @OnWebhook() handler doesn't affect the result
+     *
+     * The error is recorded on the webhook once the handler has run
+     */
+    it('should record handler failures without failing create', async () => {
+      // Arrange
+      handlers.register({
+        name: 'Broken.handle',
+        source: '*',
+        event: '*',
+        handle: () => {
+          throw new Error('Handler bug');
+        },
+      });
+      const dispatchSpy = jest.spyOn(handlers, 'dispatch');
+
+      // Act
+      const result = service.create({ source: 'test', event: 'e', payload: {} });
+      await dispatchSpy.mock.results[0].value;
+
+      // Assert
+      expect(result.message).toBe('Webhook received');
+      expect(storage.getById(result.id)?.handlerRuns).toEqual([
+        expect.objectContaining({ status: 'failed', error: 'Handler bug' }),
+      ]);
+    });
+
+    /**
+     * Test: New webhooks are added to the event catalog
+     *
+     * Duplicate deliveries are not counted again
+     */
+    it('should add new webhooks to the catalog', () => {
+      // Arrange
+      const dto: CreateWebhookDto = {
+        source: 'stripe',
+        event: 'payment.completed',
+        payload: { amount: 100 },
+      };
+      const headers = { 'idempotency-key': 'delivery-1' };
+
+      // Act
+      service.create(dto, headers);
+      service.create(dto, headers);
+
+      // Assert
+      const entry = catalog.get('stripe', 'payment.completed');
+      expect(entry.samples).toBe(1);
+      expect(entry.fields.map((field) => field.path)).toEqual(['amount']);
+    });
+
+    /**
+     * Test: Webhooks refused by the source quota are not stored
+     *
+     * Nor added to the catalog - the sender will deliver them again
+     */
+    it('should not store webhooks refused by the source quota', () => {
+      // Arrange: The source is over a "reject" quota
+      const admitSpy = jest.spyOn(quotas, 'admit').mockImplementation(() => {
+        throw new HttpException(
+          'Storage quota of stripe exceeded',
+          HttpStatus.INSUFFICIENT_STORAGE,
+        );
+      });
+      const dto: CreateWebhookDto = {
+        source: 'stripe',
+        event: 'payment.completed',
+        payload: { amount: 100 },
+      };
+
+      // Act & Assert
+      expect(() => service.create(dto)).toThrow(HttpException);
+      expect(admitSpy).toHaveBeenCalledWith('stripe', { amount: 100 });
+      expect(storage.count()).toBe(0);
+      expect(catalog.list()).toEqual([]);
+    });
+
+    /**
+     * Test: Only the redacted payload is stored, counted against the quota
+     * and learned by the catalog - the raw body holding the originals isn't
+     */
+    it('should store the redacted payload', () => {
+      // Arrange: A rule masking the email
+      const redactSpy = jest.spyOn(redaction, 'redact').mockReturnValue({
+        payload: { email: '****' },
+        redaction: { fields: [{ path: '$.email', action: 'mask' }] },
+      });
+      const admitSpy = jest.spyOn(quotas, 'admit');
+      const dto: CreateWebhookDto = {
+        source: 'shop',
+        event: 'customer.created',
+        payload: { email: 'jane@example.com' },
+      };
+      const rawBody = Buffer.from(JSON.stringify(dto));
+
+      // Act
+      const result = service.create(dto, {}, rawBody);
+
+      // Assert
+      expect(redactSpy).toHaveBeenCalledWith(
+        'shop',
+        'customer.created',
+        { email: 'jane@example.com' },
+        rawBody.toString('utf8'),
+      );
+      expect(admitSpy).toHaveBeenCalledWith('shop', { email: '****' });
+      expect(storage.getById(result.id)).toMatchObject({
+        payload: { email: '****' },
+        rawBody: undefined,
+        rawBodySha256: expect.any(String),
+        redaction: { fields: [{ path: '$.email', action: 'mask' }] },
+      });
+      expect(
+        catalog.get('shop', 'customer.created').fields[0].examples,
+      ).toEqual(['****']);
+    });
+  });
+
+  // ==================== Payload Schema Tests ====================
+  describe('payload schemas', () => {
+    /** A payment must have an integer amount */
+    const paymentSchema = {
+      type: 'object',
+      required: ['amount'],
+      properties: { amount: { type: 'integer' } },
+    };
+    const dto: CreateWebhookDto = {
+      source: 'stripe',
+      event: 'payment.succeeded',
+      payload: { amount: '100' },
+    };
+
+    /**
+     * Test: policy "reject" refuses mismatching payloads with their errors
+     */
+    it('should reject payloads that do not match a "reject" schema', () => {
+      // Arrange
+      schemas.register('stripe', 'payment.succeeded', paymentSchema, 'reject');
+
+      // Act
+      let error: unknown;
+      try {
+        service.create(dto);
+      } catch (caught) {
+        error = caught;
+      }
+
+      // Assert: 400 with the errors, nothing stored
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toEqual({
+        message: 'Payload does not match the schema',
+        reason: 'schema_mismatch',
+        errors: [{ path: '/amount', message: 'must be integer' }],
+      });
+      expect(storage.count()).toBe(0);
+      expect(service.getStats().schemaValidation.rejected).toBe(1);
+    });
+
+    /**
+     * Test: policy "flag" stores the webhook with the errors attached
+     *
+     * Matching payloads get no validationErrors
+     */
+    it('should attach the errors for a "flag" schema', () => {
+      // Arrange
+      schemas.register('stripe', 'payment.succeeded', paymentSchema, 'flag');
+
+      // Act
+      const flagged = service.create(dto);
+      const valid = service.create({ ...dto, payload: { amount: 100 } });
+
+      // Assert
+      expect(storage.getById(flagged.id)?.validationErrors).toEqual([
+        { path: '/amount', message: 'must be integer' },
+      ]);
+      expect(storage.getById(valid.id)?.validationErrors).toBeUndefined();
+      expect(service.getStats().schemaValidation.flagged).toBe(1);
+    });
+
+    /**
+     * Test: policy "ignore" stores the webhook unchanged (only counted)
+     */
+    it('should store payloads unchanged for an "ignore" schema', () => {
+      // Arrange
+      schemas.register('stripe', 'payment.succeeded', paymentSchema, 'ignore');
+
+      // Act
+      const result = service.create(dto);
+
+      // Assert
+      expect(storage.getById(result.id)?.validationErrors).toBeUndefined();
+      expect(service.getStats().schemaValidation).toEqual({
+        rejected: 0,
+        flagged: 0,
+        ignored: 1,
+      });
+    });
+  });
+
+  // ==================== Dead Letter Tests ====================
+  describe('dead letters', () => {
+    /** A delivery that ran out of attempts (or succeeded) */
+    const failedDelivery = (
+      webhookId: string,
+      subscriptionId = '0b6f2c5e-8a1d-4c3b-9e7f-1a2b3c4d5e6f',
+      status: Delivery['status'] = 'failed',
+    ): Delivery => ({
+      id: 'delivery-1',
+      subscriptionId,
+      webhookId,
+      status,
+      attempts: [
+        { attempt: 1, startedAt: new Date(), statusCode: 500, latencyMs: 3 },
+      ],
+      createdAt: new Date(),
+    });
+
+    /** Make every dispatch fail, and return the resulting dead letters */
+    const failForwarding = (subscriptionId?: string) =>
+      jest
+        .spyOn(forwarding, 'dispatch')
+        .mockImplementation((webhook) =>
+          Promise.resolve([failedDelivery(webhook.id, subscriptionId)]),
+        );
+
+    /** Make every redelivery end with the given status */
+    const redeliverAs = (status: Delivery['status']) =>
+      jest
+        .spyOn(forwarding, 'redeliver')
+        .mockImplementation((webhook, subscriptionId) =>
+          Promise.resolve(failedDelivery(webhook.id, subscriptionId, status)),
+        );
+
+    /** A subscription the mocked deliveries fail for */
+    const subscribe = () =>
+      forwarding.subscribe({ targetUrl: 'http://127.0.0.1:9/hook' });
+
+    /** Let the background dispatch settle */
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    /**
+     * Test: A delivery that failed for good is dead-lettered
+     */
+    it('should dead-letter webhooks whose forwarding failed', async () => {
+      failForwarding();
+
+      const result = service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+
+      const [deadLetter] = deadLetters.find({});
+      expect(deadLetter.webhook.id).toBe(result.id);
+      expect(deadLetter.origin).toBe('forwarding');
+      expect(deadLetter.failures[0].statusCode).toBe(500);
+    });
+
+    /**
+     * Test: A forwarding error that isn't a failed delivery is logged, not
+     * left as an unhandled rejection - and the webhook is still stored
+     */
+    it('should log forwarding errors', async () => {
+      // Arrange
+      jest
+        .spyOn(forwarding, 'dispatch')
+        .mockRejectedValue(new Error('Subscription store unavailable'));
+      const errorSpy = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => undefined);
+
+      // Act
+      const result = service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+
+      // Assert
+      expect(storage.getById(result.id)).toBeDefined();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining(result.id),
+        expect.any(Error),
+      );
+      expect(deadLetters.count()).toBe(0);
+      errorSpy.mockRestore();
+    });
+
+    /**
+     * Test: Successful deliveries leave nothing behind
+     */
+    it('should not dead-letter successful deliveries', async () => {
+      service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+
+      expect(deadLetters.count()).toBe(0);
+    });
+
+    /**
+     * Test: Replaying forwards the webhook again and empties the queue
+     */
+    it('should replay a dead letter', async () => {
+      const subscription = subscribe();
+      failForwarding(subscription.id);
+      const result = service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      const [deadLetter] = deadLetters.find({});
+      const redeliverSpy = redeliverAs('succeeded');
+
+      const replayed = service.replayDeadLetter(deadLetter.id);
+      await flush();
+
+      expect(replayed).toEqual({ id: result.id, message: 'Webhook replayed' });
+      expect(redeliverSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ id: result.id }),
+        subscription.id,
+      );
+      expect(deadLetters.count()).toBe(0);
+    });
+
+    /**
+     * Test: A replay re-runs only the failed stage of the POST /webhooks
+     * pipeline - forwarding to the subscription that failed. The other
+     * subscriptions, handlers and live subscribers already had the webhook,
+     * and nothing is stored again
+     */
+    it('should replay to the failed subscription only', async () => {
+      // Arrange: Two subscriptions, only the second one failed
+      const delivered = subscribe();
+      const failed = subscribe();
+      const dispatchSpy = jest
+        .spyOn(forwarding, 'dispatch')
+        .mockImplementation((webhook) =>
+          Promise.resolve([
+            failedDelivery(webhook.id, delivered.id, 'succeeded'),
+            failedDelivery(webhook.id, failed.id),
+          ]),
+        );
+      service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      const [deadLetter] = deadLetters.find({});
+      const redeliverSpy = redeliverAs('succeeded');
+      const saveSpy = jest.spyOn(storage, 'save');
+      const handlersSpy = jest.spyOn(handlers, 'dispatch');
+      const publishSpy = jest.spyOn(stream, 'publish');
+
+      // Act
+      service.replayDeadLetter(deadLetter.id);
+      await flush();
+
+      // Assert
+      expect(deadLetter.subscriptionId).toBe(failed.id);
+      expect(dispatchSpy).toHaveBeenCalledTimes(1);
+      expect(redeliverSpy).toHaveBeenCalledTimes(1);
+      expect(redeliverSpy.mock.calls[0][1]).toBe(failed.id);
+      expect(saveSpy).not.toHaveBeenCalled();
+      expect(handlersSpy).not.toHaveBeenCalled();
+      expect(publishSpy).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: A dead letter without a subscription can't be replayed (409),
+     * rather than being sent to a subscription that doesn't exist
+     */
+    it('should refuse to replay a dead letter without a subscription', async () => {
+      // Arrange
+      failForwarding(subscribe().id);
+      service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      const [deadLetter] = deadLetters.find({});
+      jest
+        .spyOn(deadLetters, 'findOne')
+        .mockReturnValue({ ...deadLetter, subscriptionId: undefined });
+      const redeliverSpy = jest.spyOn(forwarding, 'redeliver');
+
+      // Act & Assert
+      expect(() => service.replayDeadLetter(deadLetter.id)).toThrow(
+        ConflictException,
+      );
+      expect(redeliverSpy).not.toHaveBeenCalled();
+      expect(deadLetters.count()).toBe(1);
+    });
+
+    /**
+     * Test: A redelivery that rejects is logged, not left unhandled
+     */
+    it('should log a replay whose redelivery rejects', async () => {
+      // Arrange
+      failForwarding(subscribe().id);
+      service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      const [deadLetter] = deadLetters.find({});
+      jest
+        .spyOn(forwarding, 'redeliver')
+        .mockRejectedValue(new Error('Subscription store unavailable'));
+      const errorSpy = jest
+        .spyOn(Logger.prototype, 'error')
+        .mockImplementation(() => undefined);
+
+      // Act
+      service.replayDeadLetter(deadLetter.id);
+      await flush();
+
+      // Assert
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining(deadLetter.id),
+        expect.any(Error),
+      );
+      errorSpy.mockRestore();
+    });
+
+    /**
+     * Test: A replay doesn't bring back a webhook deleted meanwhile
+     */
+    it('should not restore a deleted webhook when replaying', async () => {
+      failForwarding(subscribe().id);
+      const result = service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      storage.delete(result.id);
+      const redeliverSpy = redeliverAs('succeeded');
+
+      service.replayDeadLetter(deadLetters.find({})[0].id);
+
+      expect(redeliverSpy.mock.calls[0][0].id).toBe(result.id);
+      expect(storage.getById(result.id)).toBeUndefined();
+    });
+
+    /**
+     * Test: A replay that fails again becomes a new dead letter
+     */
+    it('should dead-letter a replay that fails again', async () => {
+      failForwarding(subscribe().id);
+      service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      const [first] = deadLetters.find({});
+      redeliverAs('failed');
+
+      service.replayDeadLetter(first.id);
+      await flush();
+
+      const [second] = deadLetters.find({});
+      expect(second.id).not.toBe(first.id);
+      expect(second.webhook.id).toBe(first.webhook.id);
+      expect(second.subscriptionId).toBe(first.subscriptionId);
+    });
+
+    /**
+     * Test: Bulk replay only touches matching dead letters
+     */
+    it('should replay dead letters matching a filter', async () => {
+      failForwarding(subscribe().id);
+      service.create({ source: 'stripe', event: 'payment.failed', payload: {} });
+      service.create({ source: 'stripe', event: 'refund.created', payload: {} });
+      service.create({ source: 'github', event: 'push', payload: {} });
+      await flush();
+      redeliverAs('succeeded');
+
+      const result = service.replayDeadLetters({
+        source: 'stripe',
+        event: 'payment.*',
+      });
+
+      expect(result).toEqual({ replayed: 1 });
+      expect(deadLetters.find({}).map((d) => d.webhook.event)).toEqual([
+        'refund.created',
+        'push',
+      ]);
+    });
+
+    /**
+     * Test: Dead letters of deleted subscriptions can't be replayed, and
+     * stay in the queue
+     */
+    it('should keep dead letters whose subscription was deleted', async () => {
+      const subscription = subscribe();
+      failForwarding(subscription.id);
+      service.create({ source: 'test', event: 'e', payload: {} });
+      await flush();
+      forwarding.unsubscribe(subscription.id);
+      const [deadLetter] = deadLetters.find({});
+
+      expect(() => service.replayDeadLetter(deadLetter.id)).toThrow(
+        NotFoundException,
+      );
+      expect(service.replayDeadLetters({})).toEqual({ replayed: 0 });
+      expect(deadLetters.count()).toBe(1);
+    });
+
+    /**
+     * Test: Unknown dead letters are a 404
+     */
+    it('should throw NotFoundException for an unknown dead letter', () => {
+      expect(() => service.replayDeadLetter('missing')).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  // ==================== Signature Verification Tests ====================
+  describe('signature verification', () => {
+    const secret = 'test-secret';
+    let signedService: WebhooksService;
+    let signedStorage: WebhooksStorage;
+    let secrets: SecretsService;
+    let quarantine: QuarantineService;
+    let signedForwarding: ForwardingService;
+    let signedQuotas: SourceQuotasService;
+    let signedHandlers: WebhookHandlersService;
+    let signedStream: WebhookStreamService;
+
+    // The secret is read in the constructor, so build a new module with it set
+    beforeEach(async () => {
+      process.env.WEBHOOK_SECRET = secret;
+      process.env.VERIFICATION_POLICIES = 'strict:reject,held:quarantine';
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          WebhooksService,
+          SignatureVerifierRegistry,
+          SecretsService,
+          ReplayProtectionService,
+          IdempotencyKeyResolver,
+          VerificationPolicyResolver,
+          QuarantineService,
+          ForwardingService,
+          DeadLettersService,
+          WebhookStreamService,
+          LeasesService,
+          WebhookHandlersService,
+          SchemasService,
+          CatalogService,
+          SourceQuotasService,
+          IpAllowlistService,
+          RedactionService,
+          { provide: WebhooksStorage, useClass: InMemoryWebhooksStorage },
+          { provide: QUARANTINE_STORAGE, useClass: InMemoryWebhooksStorage },
+        ],
+      }).compile();
+
+      signedService = module.get<WebhooksService>(WebhooksService);
+      signedStorage = module.get<WebhooksStorage>(WebhooksStorage);
+      secrets = module.get<SecretsService>(SecretsService);
+      quarantine = module.get<QuarantineService>(QuarantineService);
+      signedForwarding = module.get<ForwardingService>(ForwardingService);
+      signedQuotas = module.get<SourceQuotasService>(SourceQuotasService);
+      signedHandlers = module.get<WebhookHandlersService>(
+        WebhookHandlersService,
+      );
+      signedStream = module.get<WebhookStreamService>(WebhookStreamService);
+    });
+
+    afterEach(() => {
+      delete process.env.WEBHOOK_SECRET;
+      delete process.env.VERIFICATION_POLICIES;
+    });
+
+    /** Make the next quota check refuse the webhook with a 429 */
+    const throttleOnce = () =>
+      jest.spyOn(signedQuotas, 'admit').mockImplementationOnce(() => {
+        throw new HttpException(
+          'Storage quota of custom exceeded',
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      });
+
+    /** Compute the hex HMAC-SHA256 a sender would put in the header */
+    const sign = (body: string): string =>
+      createHmac('sha256', secret).update(body).digest('hex');
+
+    /**
+     * Test: Signature over the exact bytes verifies
+     *
+     * The raw body uses a key order and whitespace that JSON.stringify(dto)
+     * would NOT reproduce - verification must still succeed
+     */
+    it('should verify the signature against the raw body', () => {
+      // Arrange: Body as the provider sent it (odd spacing, different key order)
+      const rawBody =
+        '{ "payload": {"amount":100},  "event": "payment.completed", "source": "custom" }';
+      const dto: CreateWebhookDto = {
+        source: 'custom',
+        event: 'payment.completed',
+        payload: { amount: 100 },
+      };
+
+      // Act
+      const result = signedService.create(
+        dto,
+        { 'x-webhook-signature': sign(rawBody) },
+        Buffer.from(rawBody),
+      );
+
+      // Assert
+      expect(signedStorage.getById(result.id)?.verified).toBe(true);
+    });
+
+    /**
+     * Test: The source picks the scheme, and the scheme is recorded
+     *
+     * A "github" webhook is checked against X-Hub-Signature-256,
+     * not the generic x-webhook-signature header
+     */
+    it('should use and record the scheme registered for the source', () => {
+      const rawBody = '{"source":"github","event":"push","payload":{}}';
+
+      const result = signedService.create(
+        { source: 'github', event: 'push', payload: {} },
+        { 'x-hub-signature-256': `sha256=${sign(rawBody)}` },
+        Buffer.from(rawBody),
+      );
+      const stored = signedStorage.getById(result.id);
+
+      expect(stored?.verified).toBe(true);
+      expect(stored?.signatureScheme).toBe('github');
+      expect(stored?.signature).toBe(`sha256=${sign(rawBody)}`);
+    });
+
+    /**
+     * Test: Secret version is recorded, and rotation keeps the old one valid
+     *
+     * After rotating, a delivery signed with the old secret (v1) still
+     * verifies during the grace window, and one signed with v2 verifies too
+     */
+    it('should accept current and previous secrets after rotation', () => {
+      const rawBody = '{"source":"custom","event":"e","payload":{}}';
+      const dto = { source: 'custom', event: 'e', payload: {} };
+      const { secret: newSecret } = secrets.rotate('*', 'the-new-secret-value');
+
+      const oldResult = signedService.create(
+        dto,
+        { 'x-webhook-signature': sign(rawBody) },
+        Buffer.from(rawBody),
+      );
+      const newResult = signedService.create(
+        dto,
+        {
+          'x-webhook-signature': createHmac('sha256', newSecret)
+            .update(rawBody)
+            .digest('hex'),
+        },
+        Buffer.from(rawBody),
+      );
+
+      expect(signedStorage.getById(oldResult.id)?.secretVersion).toBe(1);
+      expect(signedStorage.getById(newResult.id)?.secretVersion).toBe(2);
+    });
+
+    /**
+     * Test: A source's own secret replaces the default one
+     */
+    it('should verify with the per-source secret', () => {
+      const rawBody = '{"source":"custom","event":"e","payload":{}}';
+      secrets.add('custom', 'custom-source-secret');
+
+      const result = signedService.create(
+        { source: 'custom', event: 'e', payload: {} },
+        { 'x-webhook-signature': sign(rawBody) }, // signed with the default
+        Buffer.from(rawBody),
+      );
+
+      expect(signedStorage.getById(result.id)?.verified).toBe(false);
+    });
+
+    /**
+     * Test: Senders without an API key must sign, whatever the policy
+     *
+     * "custom" accepts unverified webhooks, but not from keyless senders
+     */
+    it('should require a valid signature from senders without an API key', () => {
+      const rawBody = '{"source":"custom","event":"e","payload":{}}';
+      const dto = { source: 'custom', event: 'e', payload: {} };
+      const options = { requireSignature: true };
+
+      const signed = signedService.create(
+        dto,
+        { 'x-webhook-signature': sign(rawBody) },
+        Buffer.from(rawBody),
+        options,
+      );
+
+      expect(signedStorage.getById(signed.id)?.verified).toBe(true);
+      expect(() =>
+        signedService.create(dto, {}, Buffer.from(rawBody), options),
+      ).toThrow(UnauthorizedException);
+      expect(signedStorage.count()).toBe(1);
+    });
+
+    // ==================== Replay Protection ====================
+    describe('replay protection', () => {
+      const rawBody = '{"source":"custom","event":"e","payload":{}}';
+      const dto = { source: 'custom', event: 'e', payload: {} };
+
+      /** Headers for a request signed at the given Unix time (seconds) */
+      const signedAt = (timestamp: number) => ({
+        'x-webhook-timestamp': String(timestamp),
+        'x-webhook-signature': sign(`${timestamp}.${rawBody}`),
+      });
+
+      const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+      /**
+       * Test: A fresh timestamped request is accepted once
+       */
+      it('should accept a signed timestamp within the tolerance', () => {
+        const result = signedService.create(
+          dto,
+          signedAt(nowSeconds()),
+          Buffer.from(rawBody),
+        );
+
+        expect(signedStorage.getById(result.id)?.verified).toBe(true);
+      });
+
+      /**
+       * Test: Sending the exact same signed request again is rejected
+       */
+      it('should reject a duplicate signature within the window', () => {
+        const headers = signedAt(nowSeconds());
+        signedService.create(dto, headers, Buffer.from(rawBody));
+
+        expect(() =>
+          signedService.create(dto, headers, Buffer.from(rawBody)),
+        ).toThrow(ConflictException);
+        expect(signedStorage.count()).toBe(1); // The replay was not stored
+      });
+
+      /**
+       * Test: Rewriting the signature header doesn't make a copy new - the
+       * request is recognised by what was signed
+       */
+      it('should reject a replay with a reformatted signature header', () => {
+        // Arrange: A Stripe delivery, as sent
+        const stripeBody = '{"id":"evt_1","type":"invoice.paid"}';
+        const t = nowSeconds();
+        const v1 = sign(`${t}.${stripeBody}`);
+        const stripeDto = {
+          source: 'stripe',
+          event: 'invoice.paid',
+          payload: {},
+        };
+        signedService.create(
+          stripeDto,
+          { 'stripe-signature': `t=${t},v1=${v1}` },
+          Buffer.from(stripeBody),
+        );
+
+        // Act & Assert: Spaces, an extra v1 first and upper-case hex
+        expect(() =>
+          signedService.create(
+            stripeDto,
+            {
+              'stripe-signature': `t=${t}, v1=${'0'.repeat(64)}, v1=${v1.toUpperCase()}`,
+            },
+            Buffer.from(stripeBody),
+          ),
+        ).toThrow(ConflictException);
+        expect(signedStorage.count()).toBe(1);
+      });
+
+      /**
+       * Test: An old (captured) request is rejected
+       */
+      it('should reject a timestamp outside the tolerance', () => {
+        const tenMinutesAgo = nowSeconds() - 600;
+
+        expect(() =>
+          signedService.create(dto, signedAt(tenMinutesAgo), Buffer.from(rawBody)),
+        ).toThrow(UnauthorizedException);
+      });
+
+      /**
+       * Test: A request refused by the source quota was not taken, so the
+       * sender's retry of it is not a replay
+       */
+      it('should accept a retry of a request the quota refused', () => {
+        // Arrange
+        const headers = signedAt(nowSeconds());
+        throttleOnce();
+        expect(() =>
+          signedService.create(dto, headers, Buffer.from(rawBody)),
+        ).toThrow(HttpException);
+
+        // Act
+        const result = signedService.create(dto, headers, Buffer.from(rawBody));
+
+        // Assert: Stored, and the signature now counts for replays
+        expect(signedStorage.getById(result.id)?.verified).toBe(true);
+        expect(() =>
+          signedService.create(dto, headers, Buffer.from(rawBody)),
+        ).toThrow(ConflictException);
+      });
+
+      /**
+       * Test: Replays are counted separately from verification failures
+       */
+      it('should count replays separately from unverified webhooks', () => {
+        const headers = signedAt(nowSeconds());
+        signedService.create(dto, headers, Buffer.from(rawBody));
+        expect(() =>
+          signedService.create(dto, headers, Buffer.from(rawBody)),
+        ).toThrow(ConflictException);
+        signedService.create(dto, {}, Buffer.from(rawBody)); // Unsigned
+
+        const stats = signedService.getStats();
+
+        expect(stats.verification.verified).toBe(1);
+        expect(stats.verification.unverified).toBe(1);
+        expect(stats.verification.replaysRejected.duplicateSignatures).toBe(1);
+      });
+    });
+
+    // ==================== Verification Policies ====================
+    describe('verification policies', () => {
+      /** Body for a webhook from the given source */
+      const bodyFor = (source: string) =>
+        `{"source":"${source}","event":"e","payload":{}}`;
+      const dtoFor = (source: string) => ({ source, event: 'e', payload: {} });
+
+      /**
+       * Test: "reject" refuses unverified webhooks and stores nothing
+       */
+      it('should reject unverified webhooks with 401', () => {
+        const body = bodyFor('strict');
+
+        expect(() =>
+          signedService.create(dtoFor('strict'), {}, Buffer.from(body)),
+        ).toThrow(UnauthorizedException);
+        expect(signedStorage.count()).toBe(0);
+        expect(signedService.getStats().verification.rejected).toBe(1);
+      });
+
+      /**
+       * Test: "reject" still accepts a valid signature
+       */
+      it('should store verified webhooks of a rejecting source', () => {
+        const body = bodyFor('strict');
+
+        const result = signedService.create(
+          dtoFor('strict'),
+          { 'x-webhook-signature': sign(body) },
+          Buffer.from(body),
+        );
+
+        expect(signedStorage.getById(result.id)?.verified).toBe(true);
+      });
+
+      /**
+       * Test: "quarantine" keeps unverified webhooks out of normal storage
+       */
+      it('should quarantine unverified webhooks', () => {
+        const result = signedService.create(
+          dtoFor('held'),
+          {},
+          Buffer.from(bodyFor('held')),
+        );
+
+        expect(result.quarantined).toBe(true);
+        expect(signedStorage.count()).toBe(0);
+        expect(signedService.findAll({}).webhooks).toHaveLength(0);
+        expect(quarantine.findOne(result.id).verified).toBe(false);
+
+        const stats = signedService.getStats();
+        expect(stats.inQuarantine).toBe(1);
+        expect(stats.verification.quarantined).toBe(1);
+        expect(stats.verification.unverified).toBe(0);
+      });
+
+      /**
+       * Test: Retries of a quarantined delivery are not quarantined twice
+       */
+      it('should deduplicate retries of a quarantined webhook', () => {
+        const headers = { 'idempotency-key': 'held-1' };
+
+        const first = signedService.create(dtoFor('held'), headers);
+        const second = signedService.create(dtoFor('held'), headers);
+
+        expect(second).toMatchObject({
+          id: first.id,
+          duplicate: true,
+          quarantined: true,
+        });
+        expect(quarantine.count()).toBe(1);
+        expect(quarantine.findOne(first.id).duplicateCount).toBe(1);
+      });
+
+      /**
+       * Test: Verified webhooks of a quarantined source are stored normally
+       */
+      it('should store verified webhooks of a quarantined source', () => {
+        const body = bodyFor('held');
+
+        const result = signedService.create(
+          dtoFor('held'),
+          { 'x-webhook-signature': sign(body) },
+          Buffer.from(body),
+        );
+
+        expect(result.quarantined).toBeUndefined();
+        expect(signedStorage.getById(result.id)).toBeDefined();
+        expect(quarantine.count()).toBe(0);
+      });
+
+      /**
+       * Test: Promoting moves a quarantined webhook into normal storage
+       *
+       * It keeps its ID and verified: false, and is forwarded like any
+       * freshly stored webhook
+       */
+      it('should promote a quarantined webhook', () => {
+        const result = signedService.create(dtoFor('held'));
+        const dispatchSpy = jest.spyOn(signedForwarding, 'dispatch');
+
+        const promoted = signedService.promote(result.id);
+
+        expect(promoted.promotedAt).toBeInstanceOf(Date);
+        expect(signedStorage.getById(result.id)?.verified).toBe(false);
+        expect(quarantine.count()).toBe(0);
+        expect(dispatchSpy).toHaveBeenCalledWith(promoted);
+      });
+
+      /**
+       * Test: Promoting runs the @OnWebhook() handlers, which were skipped
+       * while the webhook was in quarantine
+       */
+      it('should run handlers for a promoted webhook', async () => {
+        // Arrange
+        const handle = jest.fn();
+        signedHandlers.register({
+          name: 'Audit.handle',
+          source: 'held',
+          event: '*',
+          handle,
+        });
+        const dispatchSpy = jest.spyOn(signedHandlers, 'dispatch');
+        const result = signedService.create(dtoFor('held'));
+        expect(dispatchSpy).not.toHaveBeenCalled();
+
+        // Act
+        signedService.promote(result.id);
+        await dispatchSpy.mock.results[0].value;
+
+        // Assert
+        expect(handle).toHaveBeenCalledWith(
+          expect.objectContaining({ id: result.id }),
+        );
+        expect(signedStorage.getById(result.id)?.handlerRuns).toEqual([
+          expect.objectContaining({ status: 'succeeded' }),
+        ]);
+      });
+
+      /**
+       * Test: Promoting pushes the webhook to live subscribers (SSE and
+       * WebSocket), which never saw it while it was in quarantine
+       */
+      it('should publish a promoted webhook to the stream', () => {
+        // Arrange
+        const published: string[] = [];
+        signedStream.listen((webhook) => published.push(webhook.id));
+        const result = signedService.create(dtoFor('held'));
+
+        // Act
+        signedService.promote(result.id);
+
+        // Assert
+        expect(published).toEqual([result.id]);
+      });
+
+      /**
+       * Test: A promoted webhook counts against its source's quota; if it
+       * doesn't fit, it stays in quarantine
+       */
+      it('should not promote a webhook the quota refuses', () => {
+        const result = signedService.create(dtoFor('held'));
+        const admitSpy = throttleOnce();
+
+        expect(() => signedService.promote(result.id)).toThrow(HttpException);
+        expect(admitSpy).toHaveBeenCalledWith('held', expect.anything());
+        expect(signedStorage.getById(result.id)).toBeUndefined();
+        expect(quarantine.count()).toBe(1);
+      });
+
+      /**
+       * Test: Sources without a policy keep today's behavior (accept)
+       */
+      it('should accept unverified webhooks by default', () => {
+        const result = signedService.create(dtoFor('custom'));
+
+        expect(signedStorage.getById(result.id)?.verified).toBe(false);
+      });
+    });
+
+    // ==================== Idempotency ====================
+    describe('idempotency', () => {
+      const rawBody = '{"source":"custom","event":"e","payload":{}}';
+      const dto = { source: 'custom', event: 'e', payload: {} };
+
+      /**
+       * Test: The same Idempotency-Key returns the original webhook
+       */
+      it('should return the original id for a repeated Idempotency-Key', () => {
+        const headers = { 'idempotency-key': 'order-42' };
+
+        const first = signedService.create(dto, headers, Buffer.from(rawBody));
+        const second = signedService.create(dto, headers, Buffer.from(rawBody));
+
+        expect(second).toEqual({
+          id: first.id,
+          message: 'Webhook already received',
+          duplicate: true,
+        });
+        expect(signedStorage.count()).toBe(1);
+        expect(signedStorage.getById(first.id)?.duplicateCount).toBe(1);
+        expect(signedStorage.getById(first.id)?.lastDuplicateAt).toBeInstanceOf(
+          Date,
+        );
+      });
+
+      /**
+       * Test: Providers' own delivery IDs are used without any configuration
+       */
+      it('should deduplicate by X-GitHub-Delivery', () => {
+        const body = '{"source":"github","event":"push","payload":{}}';
+        const headers = {
+          'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+          'x-hub-signature-256': `sha256=${sign(body)}`,
+        };
+        const githubDto = { source: 'github', event: 'push', payload: {} };
+
+        const first = signedService.create(
+          githubDto,
+          headers,
+          Buffer.from(body),
+        );
+        const second = signedService.create(
+          githubDto,
+          headers,
+          Buffer.from(body),
+        );
+
+        expect(second.id).toBe(first.id);
+        expect(signedStorage.getById(first.id)?.idempotencyKey).toBe(
+          '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+        );
+      });
+
+      /**
+       * Test: Stripe event IDs are read from the payload
+       */
+      it('should deduplicate Stripe events by payload id', () => {
+        const stripeDto = {
+          source: 'stripe',
+          event: 'payment_intent.succeeded',
+          payload: { id: 'evt_123' },
+        };
+
+        const first = signedService.create(stripeDto);
+        const second = signedService.create(stripeDto);
+        const other = signedService.create({
+          ...stripeDto,
+          payload: { id: 'evt_456' },
+        });
+
+        expect(second.id).toBe(first.id);
+        expect(other.id).not.toBe(first.id);
+        expect(signedStorage.count()).toBe(2);
+      });
+
+      /**
+       * Test: A provider retry of a signed, timestamped request is a
+       * duplicate (200), not a replay (409)
+       */
+      it('should treat a retried signed delivery as a duplicate', () => {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const headers = {
+          'idempotency-key': 'order-42',
+          'x-webhook-timestamp': String(timestamp),
+          'x-webhook-signature': sign(`${timestamp}.${rawBody}`),
+        };
+
+        const first = signedService.create(dto, headers, Buffer.from(rawBody));
+        const second = signedService.create(dto, headers, Buffer.from(rawBody));
+
+        expect(second.duplicate).toBe(true);
+        expect(second.id).toBe(first.id);
+      });
+
+      /**
+       * Test: An unsigned request can't pre-empt a genuine delivery
+       *
+       * If someone sends an unverified webhook with a guessed key first,
+       * the verified delivery must still be stored
+       */
+      it('should not fold a verified delivery into an unverified one', () => {
+        const forged = signedService.create(
+          dto,
+          { 'idempotency-key': 'order-42' },
+          Buffer.from(rawBody),
+        );
+        const genuine = signedService.create(
+          dto,
+          {
+            'idempotency-key': 'order-42',
+            'x-webhook-signature': sign(rawBody),
+          },
+          Buffer.from(rawBody),
+        );
+
+        expect(genuine.duplicate).toBeUndefined();
+        expect(genuine.id).not.toBe(forged.id);
+        expect(signedStorage.getById(genuine.id)?.verified).toBe(true);
+        // Later deliveries with that key now resolve to the verified webhook
+        expect(
+          signedStorage.getByIdempotencyKey('custom', 'order-42')?.id,
+        ).toBe(genuine.id);
+      });
+    });
+
+    /**
+     * Test: A signature for different bytes fails
+     */
+    it('should not verify when the raw body was changed', () => {
+      const rawBody = '{"source":"custom","event":"e","payload":{"amount":100}}';
+      const tampered = '{"source":"custom","event":"e","payload":{"amount":999}}';
+
+      const result = signedService.create(
+        { source: 'custom', event: 'e', payload: { amount: 999 } },
+        { 'x-webhook-signature': sign(rawBody) },
+        Buffer.from(tampered),
+      );
+
+      expect(signedStorage.getById(result.id)?.verified).toBe(false);
+    });
+
+    /**
+     * Test: Original bytes and their hash are stored
+     *
+     * Needed so verification can be re-run later
+     */
+    it('should store the raw body and its sha256 hash', () => {
+      const rawBody = '{"source":"github","event":"push","payload":{}}';
+
+      const result = signedService.create(
+        { source: 'github', event: 'push', payload: {} },
+        {},
+        Buffer.from(rawBody),
+      );
+      const stored = signedStorage.getById(result.id);
+
+      expect(stored?.rawBody).toBe(rawBody);
+      expect(stored?.rawBodySha256).toBe(
+        createHash('sha256').update(rawBody).digest('hex'),
+      );
+    });
   });
 
   // ==================== findAll() Tests ====================
@@ -192,6 +1435,81 @@ describe('WebhooksService', () => {
       expect(result.webhooks).toHaveLength(1);
       expect(result.webhooks[0].event).toBe('payment.completed');
     });
+
+    /**
+     * Test: Time range, verified and payload filters reach storage
+     *
+     * "All unverified stripe events since a given time, where
+     * payload.data.status is failed"
+     */
+    it('should filter by time range, verified status and payload', () => {
+      // Arrange
+      const since = new Date(Date.now() - 60_000);
+      const failed = service.create({
+        source: 'stripe',
+        event: 'invoice.payment_failed',
+        payload: { data: { status: 'failed' } },
+      });
+      service.create({
+        source: 'stripe',
+        event: 'invoice.paid',
+        payload: { data: { status: 'paid' } },
+      });
+
+      // Act
+      const result = service.findAll({
+        source: 'stripe',
+        event: 'invoice.*',
+        receivedAfter: since,
+        verified: false,
+        payload: { 'data.status': 'failed' },
+      });
+
+      // Assert
+      expect(result.webhooks.map((w) => w.id)).toEqual([failed.id]);
+      expect(
+        service.findAll({ receivedBefore: since }).webhooks,
+      ).toHaveLength(0);
+      expect(service.findAll({ verified: true }).webhooks).toHaveLength(0);
+    });
+
+    /**
+     * Test: Walking the list with cursors
+     *
+     * Following nextCursor from page to page returns every webhook exactly
+     * once, newest first, and the last page has nextCursor: null
+     */
+    it('should paginate with cursors', () => {
+      // Arrange
+      for (let i = 0; i < 5; i++) {
+        service.create({ source: 'test', event: `event.${i}`, payload: {} });
+      }
+
+      // Act: Follow the cursors
+      const seen: string[] = [];
+      let result = service.findAll({ limit: 2 });
+      seen.push(...result.webhooks.map((w) => w.id));
+      while (result.nextCursor) {
+        result = service.findAll({ limit: 2, cursor: result.nextCursor });
+        seen.push(...result.webhooks.map((w) => w.id));
+      }
+
+      // Assert
+      expect(result.total).toBe(5);
+      expect(seen).toEqual(
+        service.findAll({ limit: 10 }).webhooks.map((w) => w.id),
+      );
+      expect(new Set(seen).size).toBe(5);
+    });
+
+    /**
+     * Test: A malformed cursor is rejected
+     */
+    it('should throw BadRequestException for an invalid cursor', () => {
+      expect(() => service.findAll({ cursor: 'not-a-cursor' })).toThrow(
+        BadRequestException,
+      );
+    });
   });
 
   // ==================== findOne() Tests ====================
@@ -244,6 +1562,141 @@ describe('WebhooksService', () => {
     });
   });
 
+  // ==================== Processing Status Tests ====================
+  describe('processing status', () => {
+    const dto: CreateWebhookDto = {
+      source: 'stripe',
+      event: 'payment.succeeded',
+      payload: {},
+    };
+
+    /**
+     * Test: New webhooks start as "received"
+     */
+    it('should store new webhooks as received', () => {
+      // Act
+      const { id } = service.create(dto);
+
+      // Assert
+      expect(service.findOne(id).status).toBe('received');
+    });
+
+    /**
+     * Test: Acknowledging marks the webhook processed
+     *
+     * A repeated ack changes nothing (processedAt stays the same)
+     */
+    it('should acknowledge a webhook', () => {
+      // Arrange
+      const { id } = service.create(dto);
+
+      // Act
+      const first = service.acknowledge(id);
+      const processedAt = first.processedAt;
+      const second = service.acknowledge(id);
+
+      // Assert
+      expect(first.status).toBe('processed');
+      expect(processedAt).toBeInstanceOf(Date);
+      expect(second.processedAt).toBe(processedAt);
+      expect(storage.getById(id)?.status).toBe('processed');
+    });
+
+    /**
+     * Test: Failing records the error and when it happened
+     */
+    it('should record a failure', () => {
+      // Arrange
+      const { id } = service.create(dto);
+
+      // Act
+      const result = service.fail(id, 'Customer not found');
+
+      // Assert
+      expect(result.status).toBe('failed');
+      expect(result.failedAt).toBeInstanceOf(Date);
+      expect(storage.getById(id)?.error).toBe('Customer not found');
+    });
+
+    /**
+     * Test: A failed webhook can still be processed later
+     *
+     * The error of the failed attempt is kept
+     */
+    it('should acknowledge a failed webhook', () => {
+      // Arrange
+      const { id } = service.create(dto);
+      service.fail(id, 'Customer not found');
+
+      // Act
+      const result = service.acknowledge(id);
+
+      // Assert
+      expect(result.status).toBe('processed');
+      expect(result.error).toBe('Customer not found');
+    });
+
+    /**
+     * Test: Transitions the lifecycle doesn't allow are a 409
+     */
+    it('should throw ConflictException for an invalid transition', () => {
+      // Arrange
+      const processed = service.create(dto).id;
+      service.acknowledge(processed);
+      const failed = service.create({ ...dto, event: 'payment.failed' }).id;
+      service.fail(failed, 'timeout');
+
+      // Act & Assert
+      expect(() => service.fail(processed, 'too late')).toThrow(
+        ConflictException,
+      );
+      expect(() => service.fail(failed, 'again')).toThrow(ConflictException);
+    });
+
+    /**
+     * Test: A webhook claimed by a worker can only be settled under its lease
+     */
+    it('should respect the lease of a claimed webhook', () => {
+      // Arrange
+      const { id } = service.create(dto);
+      const { leaseId } = leases.claim({ max: 1 });
+
+      // Act & Assert
+      expect(() => service.acknowledge(id)).toThrow(ConflictException);
+      expect(() => service.fail(id, 'timeout')).toThrow(ConflictException);
+      const result = service.acknowledge(id, leaseId);
+      expect(result.status).toBe('processed');
+      expect(result.leaseId).toBeUndefined();
+    });
+
+    /**
+     * Test: Webhooks can be listed by status
+     */
+    it('should filter by status', () => {
+      // Arrange
+      const done = service.create(dto).id;
+      service.acknowledge(done);
+      const pending = service.create({ ...dto, event: 'payment.failed' }).id;
+
+      // Act
+      const processed = service.findAll({ status: 'processed' });
+      const received = service.findAll({ status: 'received' });
+
+      // Assert
+      expect(processed.webhooks.map((w) => w.id)).toEqual([done]);
+      expect(received.webhooks.map((w) => w.id)).toEqual([pending]);
+    });
+
+    /**
+     * Test: Unknown webhooks are a 404
+     */
+    it('should throw NotFoundException for non-existent webhook', () => {
+      expect(() =>
+        service.acknowledge('12345678-1234-4123-8123-123456789012'),
+      ).toThrow(NotFoundException);
+    });
+  });
+
   // ==================== delete() Tests ====================
   describe('delete', () => {
     /**
@@ -4,8 +4,26 @@
  * This is the main business logic layer for webhooks.
  * It handles:
  * - Creating new webhooks with secure UUID generation
- * - Verifying webhook signatures using HMAC-SHA256
+ * - Verifying webhook signatures (scheme chosen per source, see verifiers/)
+ * - Deduplicating repeated deliveries by idempotency key (see idempotency/)
+ * - Applying the source's policy to unverified webhooks
+ *   (accept, quarantine or reject - see quarantine/)
+ * - Validating payloads against the JSON Schema of their source + event
+ *   (reject, flag or ignore mismatches - see SchemasService)
+ * - Masking, hashing or dropping sensitive payload values before they are
+ *   stored (see redaction/)
+ * - Keeping every source within its storage quota (see quotas/)
+ * - Feeding new webhooks to the event catalog, which learns the structure
+ *   of their payloads (see CatalogService)
+ * - Pushing newly stored webhooks to live stream subscribers (see stream/)
+ *   and running the in-process @OnWebhook() handlers (see handlers/)
+ * - Handing stored webhooks to ForwardingService (outbound subscriptions)
+ *   and dead-lettering the ones that could not be forwarded (see dead-letters/)
+ * - Replaying dead letters and promoted quarantined webhooks through the
+ *   same steps as a freshly stored webhook
  * - Retrieving webhooks (single or paginated list)
+ * - Tracking the processing status of stored webhooks (see status/),
+ *   respecting the leases of workers that claimed them (see leases/)
  * - Deleting webhooks
  *
  * The service sits between the Controller (HTTP layer) and Storage (data layer).
@@ -13,15 +31,54 @@
  *
  * @Injectable() marks this as a service that can be injected by NestJS
  */
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
-import { randomUUID, createHmac, timingSafeEqual } from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+  Logger,
+} from '@nestjs/common';
+import { randomUUID, createHash } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
 import { WebhooksStorage } from './webhooks.storage';
+import { SecretsService } from '../secrets/secrets.service';
+import { SignatureVerifierRegistry } from './verifiers/signature-verifier.registry';
+import { ReplayProtectionService } from './verifiers/replay-protection.service';
+import { IdempotencyKeyResolver } from './idempotency/idempotency-key.resolver';
+import { VerificationPolicyResolver } from './verifiers/verification-policy.resolver';
+import { QuarantineService } from './quarantine/quarantine.service';
+import { DeadLettersService } from './dead-letters/dead-letters.service';
+import { WebhookStreamService } from './stream/webhook-stream.service';
+import { LeasesService } from './leases/leases.service';
+import { WebhookHandlersService } from './handlers/webhook-handlers.service';
+import { ForwardingService } from '../forwarding/forwarding.service';
+import { SchemasService } from '../schemas/schemas.service';
+import { CatalogService } from '../catalog/catalog.service';
+import { SourceQuotasService } from './quotas/source-quotas.service';
+import { IpAllowlistService } from './ip-allowlist/ip-allowlist.service';
+import { RedactionService } from './redaction/redaction.service';
+import {
+  SignatureVerifier,
+  SignedRequest,
+} from './verifiers/signature-verifier.interface';
+import { getHeader } from './verifiers/verifier.utils';
+import { applyTransition } from './status/webhook-status';
+import {
+  EVENT_TYPE_HEADERS,
+  resolveEventType,
+} from './events/webhook-event-type';
+import { decodeCursor, encodeCursor } from '../common/utils/cursor.util';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
 import { QueryWebhooksDto } from './dto/query-webhooks.dto';
+import { ReplayDeadLettersDto } from './dto/replay-dead-letters.dto';
+import { SchemaViolation } from '../schemas/interfaces/payload-schema.interface';
 import {
   Webhook,
   WebhookResponse,
   WebhooksListResponse,
+  WebhookStatsResponse,
+  WebhookStatus,
 } from './interfaces/webhook.interface';
 
 @Injectable()
@@ -29,66 +86,283 @@ export class WebhooksService {
   /** Logger instance for this class */
   private readonly logger = new Logger(WebhooksService.name);
 
-  /** Secret key for verifying webhook signatures (from environment) */
-  private readonly webhookSecret: string;
+  /** Signature verification outcomes since startup (see getStats) */
+  private readonly verificationStats = {
+    verified: 0,
+    unverified: 0,
+    quarantined: 0,
+    rejected: 0,
+  };
+
+  /** Payloads that didn't match their schema since startup, per policy */
+  private readonly schemaStats = {
+    rejected: 0,
+    flagged: 0,
+    ignored: 0,
+  };
 
   /**
-   * Constructor - NestJS automatically injects the WebhooksStorage dependency
+   * Constructor - NestJS automatically injects the dependencies
    *
    * @param storage - The storage service for persisting webhooks
+   * @param verifiers - Picks the signature scheme for each source
+   * @param secrets - Provides the signing secrets for each source
+   * @param replayProtection - Rejects replayed signed requests
+   * @param idempotencyKeys - Finds the delivery ID used to detect duplicates
+   * @param policies - Decides what happens to unverified webhooks per source
+   * @param quarantine - Holds unverified webhooks of quarantined sources
+   * @param forwarding - Forwards stored webhooks to matching subscriptions
+   * @param deadLetters - Parks webhooks that could not be forwarded
+   * @param stream - Pushes new webhooks to GET /webhooks/stream subscribers
+   * @param leases - Keeps workers from settling webhooks leased to others
+   * @param handlers - Runs the @OnWebhook() handlers for new webhooks
+   * @param schemas - Validates payloads against their source + event's schema
+   * @param catalog - Learns the payload structure of every source + event
+   * @param quotas - Keeps each source within its storage quota
+   * @param ipAllowlists - Counts webhooks refused by the IP allowlists
+   * @param redaction - Takes sensitive values out of payloads before storage
    */
-  constructor(private readonly storage: WebhooksStorage) {
-    // Get the secret from environment variable
-    this.webhookSecret = process.env.WEBHOOK_SECRET || '';
-
-    // Warn if no secret is configured (signatures won't be verified)
-    if (!this.webhookSecret) {
-      this.logger.warn(
-        'WEBHOOK_SECRET is not set. Signature verification will be skipped.',
-      );
-    }
-  }
+  constructor(
+    private readonly storage: WebhooksStorage,
+    private readonly verifiers: SignatureVerifierRegistry,
+    private readonly secrets: SecretsService,
+    private readonly replayProtection: ReplayProtectionService,
+    private readonly idempotencyKeys: IdempotencyKeyResolver,
+    private readonly policies: VerificationPolicyResolver,
+    private readonly quarantine: QuarantineService,
+    private readonly forwarding: ForwardingService,
+    private readonly deadLetters: DeadLettersService,
+    private readonly stream: WebhookStreamService,
+    private readonly leases: LeasesService,
+    private readonly handlers: WebhookHandlersService,
+    private readonly schemas: SchemasService,
+    private readonly catalog: CatalogService,
+    private readonly quotas: SourceQuotasService,
+    private readonly ipAllowlists: IpAllowlistService,
+    private readonly redaction: RedactionService,
+  ) {}
 
   /**
    * Create a new webhook
    *
    * This method:
    * 1. Generates a cryptographically secure UUID for the webhook
-   * 2. Verifies the signature if provided
-   * 3. Creates the webhook object with timestamp
-   * 4. Saves it to storage
+   * 2. Verifies the signature (over the raw body) using the source's scheme
+   * 3. Rejects unverified webhooks if the source's policy is "reject",
+   *    or if the sender presented no API key (it must sign instead)
+   * 4. Validates the payload against its schema (if one is registered):
+   *    a mismatch is rejected, flagged on the webhook or ignored, per schema
+   * 5. Returns the original webhook's ID if this delivery was already stored
+   *    (same idempotency key), instead of storing it twice
+   * 6. Rejects replays of signed, timestamped requests
+   * 7. Masks, hashes or drops sensitive values per the redaction rules
+   *    of its source + event (nothing after this sees the originals)
+   * 8. Makes room within the source's storage quota (evicting its oldest
+   *    webhooks), or refuses the webhook, per the quota's policy
+   * 9. Creates the webhook object with timestamp and adds it to the catalog
+   * 10. Saves it to storage - or to quarantine if it is unverified and the
+   *    source's policy is "quarantine"
+   * 11. Pushes it to live stream subscribers
+   * 12. Forwards it to matching subscriptions (in the background),
+   *    dead-lettering it for every subscription that still fails
    *
    * @param createWebhookDto - Validated webhook data from the request body
-   * @param signature - Optional signature from x-webhook-signature header
-   * @returns Object with the new webhook's ID and confirmation message
+   * @param headers - Request headers (the signature header depends on the source)
+   * @param rawBody - The exact request bytes the sender signed
+   * @param options - requireSignature: the sender has no API key, so only a
+   *   verified webhook is accepted, whatever the source's policy
+   * @returns Object with the webhook's ID and confirmation message
+   *   (duplicate: true when an earlier delivery was found,
+   *   quarantined: true when it went to quarantine)
+   * @throws UnauthorizedException if unverified and the source's policy is "reject",
+   *   or a signature is required
+   * @throws BadRequestException if the payload doesn't match its schema and
+   *   the schema's policy is "reject"
+   * @throws UnauthorizedException / ConflictException if the request is a replay
+   * @throws HttpException 507 / 429 if the source is over its storage quota
    */
   create(
     createWebhookDto: CreateWebhookDto,
-    signature?: string,
+    headers: IncomingHttpHeaders = {},
+    rawBody?: Buffer,
+    options: { requireSignature?: boolean } = {},
   ): WebhookResponse {
     // Generate a cryptographically secure UUID (much better than Math.random())
     const id = randomUUID();
 
-    // Verify the signature if secret is configured and signature provided
-    const verified = this.verifySignature(createWebhookDto, signature);
+    // Providers sign the exact bytes they sent, so verify against the raw body.
+    // Callers without one (e.g. in-process code) fall back to the JSON form.
+    const signedContent =
+      rawBody ?? Buffer.from(JSON.stringify(createWebhookDto));
+
+    // Each source has its own signature header, encoding and signed content
+    const verifier = this.verifiers.get(createWebhookDto.source);
+    const signature = getHeader(headers, verifier.header);
+
+    // Verify the signature if a secret is configured and signature provided
+    const signedRequest: SignedRequest = { rawBody: signedContent, headers };
+    const { verified, secretVersion } = this.verifySignature(
+      createWebhookDto.source,
+      verifier,
+      signedRequest,
+    );
+
+    // Senders without an API key authenticate with their signature alone
+    if (!verified && options.requireSignature) {
+      this.verificationStats.rejected++;
+      this.logger.warn(
+        `Unverified webhook rejected from ${createWebhookDto.source} (no API key)`,
+      );
+      throw new UnauthorizedException({
+        message: 'An API key or a valid signature is required',
+        reason: 'unauthenticated',
+      });
+    }
+
+    // Unverified webhooks are handled by the source's policy;
+    // verified ones are always accepted
+    const policy = verified
+      ? 'accept'
+      : this.policies.get(createWebhookDto.source);
+    if (policy === 'reject') {
+      this.verificationStats.rejected++;
+      this.logger.warn(
+        `Unverified webhook rejected from ${createWebhookDto.source} (policy: reject)`,
+      );
+      throw new UnauthorizedException({
+        message: 'Webhook signature could not be verified',
+        reason: 'unverified',
+      });
+    }
+
+    // Payloads that don't match their schema are handled by its policy
+    const violation = this.schemas.validate(
+      createWebhookDto.source,
+      createWebhookDto.event,
+      createWebhookDto.payload,
+    );
+    if (violation) {
+      this.applySchemaPolicy(createWebhookDto, violation);
+    }
+
+    // Providers retry deliveries they think failed - answer those with the
+    // webhook we already stored. An unverified request can't claim a verified
+    // record's key for itself, and a verified delivery is never folded into
+    // an unverified record (which anyone could have created first).
+    const idempotencyKey = this.idempotencyKeys.resolve(
+      createWebhookDto.source,
+      headers,
+      createWebhookDto.payload,
+    );
+    const existing = idempotencyKey
+      ? this.storage.getByIdempotencyKey(
+          createWebhookDto.source,
+          idempotencyKey,
+        )
+      : undefined;
+    if (existing && (existing.verified || !verified)) {
+      return this.recordDuplicate(existing);
+    }
+
+    // Retries of a quarantined delivery are duplicates of the quarantined copy
+    const held =
+      policy === 'quarantine' && idempotencyKey
+        ? this.quarantine.findByIdempotencyKey(
+            createWebhookDto.source,
+            idempotencyKey,
+          )
+        : undefined;
+    if (held) {
+      return this.recordDuplicate(held, true);
+    }
+
+    // A valid signature over a signed timestamp may still be a replayed copy
+    const timestamp = verifier.getTimestamp?.(signedRequest);
+    const replayChecked = verified && timestamp !== undefined;
+    if (replayChecked) {
+      this.replayProtection.check(
+        createWebhookDto.source,
+        signedContent,
+        timestamp,
+      );
+    }
+
+    // Take sensitive values out before anything keeps or passes them on
+    const redacted = this.redaction.redact(
+      createWebhookDto.source,
+      createWebhookDto.event,
+      createWebhookDto.payload,
+      rawBody?.toString('utf8'),
+    );
+
+    // Quarantine has its own storage, so quotas only apply to stored webhooks.
+    // A refused webhook wasn't taken, so its sender may retry the same
+    // signed request - it mustn't come back as a replay.
+    if (policy !== 'quarantine') {
+      try {
+        this.quotas.admit(createWebhookDto.source, redacted.payload);
+      } catch (error) {
+        if (replayChecked) {
+          this.replayProtection.release(
+            createWebhookDto.source,
+            signedContent,
+            timestamp,
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Count outcomes (replays were rejected above and are counted separately)
+    const outcome = verified
+      ? 'verified'
+      : policy === 'quarantine'
+        ? 'quarantined'
+        : 'unverified';
+    this.verificationStats[outcome]++;
 
     // Build the webhook object
     const webhook: Webhook = {
       id,
       source: createWebhookDto.source,
       event: createWebhookDto.event,
-      payload: createWebhookDto.payload,
+      payload: redacted.payload,
       receivedAt: new Date(), // Timestamp when we received it
       signature,
       verified,
+      signatureScheme: verifier.scheme,
+      secretVersion,
+      // Keep the original bytes (and their hash) so verification can be re-run
+      // - the bytes only if nothing was redacted, as they hold the originals
+      rawBody: redacted.rawBody,
+      rawBodySha256: rawBody
+        ? createHash('sha256').update(rawBody).digest('hex')
+        : undefined,
+      idempotencyKey,
+      duplicateCount: 0,
+      status: 'received',
+      validationErrors:
+        violation?.policy === 'flag' ? violation.errors : undefined,
+      redaction: redacted.redaction,
     };
+    this.catalog.observe(webhook);
 
-    // Persist to storage
-    this.storage.save(webhook);
+    // Keep unverified webhooks of quarantined sources out of normal storage
+    if (policy === 'quarantine') {
+      this.quarantine.add(webhook);
+      return {
+        id: webhook.id,
+        message: 'Webhook quarantined',
+        quarantined: true,
+      };
+    }
+
+    // Persist to storage, push to live subscribers, forward and run handlers
+    this.accept(webhook);
 
     // Log for monitoring/debugging
     this.logger.log(
-      `Webhook received from ${webhook.source}: ${webhook.event} (verified: ${verified})`,
+      `Webhook received from ${webhook.source}: ${webhook.event} (verified: ${verified}, scheme: ${verifier.scheme})`,
     );
 
     // Return minimal response (just ID and confirmation)
@@ -98,31 +372,140 @@ export class WebhooksService {
     };
   }
 
+  /**
+   * Receive a webhook as its provider sent it (POST /webhooks/:source)
+   *
+   * The body is the provider's own payload rather than our envelope, so
+   * the signature is checked over the exact bytes the provider signed.
+   * The event type comes from the provider's event header or the
+   * payload's "type" field (see resolveEventType); from there on the
+   * webhook goes through create().
+   *
+   * @param source - The webhook source, from the path
+   * @param payload - The request body
+   * @param headers - Request headers
+   * @param rawBody - The exact request bytes the provider signed
+   * @param options - See create()
+   * @returns See create()
+   * @throws BadRequestException if the body is not a JSON object, or has
+   *   no event type
+   * @throws See create() for everything else
+   */
+  receive(
+    source: string,
+    payload: unknown,
+    headers: IncomingHttpHeaders = {},
+    rawBody?: Buffer,
+    options: { requireSignature?: boolean } = {},
+  ): WebhookResponse {
+    if (
+      typeof payload !== 'object' ||
+      payload === null ||
+      Array.isArray(payload)
+    ) {
+      throw new BadRequestException({
+        message: 'The webhook body must be a JSON object',
+        reason: 'invalid_payload',
+      });
+    }
+    const body = payload as Record<string, unknown>;
+    const event = resolveEventType(headers, body);
+    if (event === undefined) {
+      throw new BadRequestException({
+        message: `No event type found (${EVENT_TYPE_HEADERS.join(', ')} header, or "type" in the body)`,
+        reason: 'event_type_missing',
+      });
+    }
+
+    // Without the raw bytes, the payload's own JSON form is what was signed
+    return this.create(
+      { source, event, payload: body },
+      headers,
+      rawBody ?? Buffer.from(JSON.stringify(body)),
+      options,
+    );
+  }
+
   /**
    * Find all webhooks with pagination and optional filtering
    *
-   * @param query - Query parameters (page, limit, source, event filters)
+   * Pages are newest first. Pass the previous page's nextCursor as `cursor`
+   * to walk through them without new arrivals shifting the pages.
+   *
+   * @param query - Query parameters (page or cursor, limit, and the source,
+   *   event, receivedAfter/receivedBefore, verified, status and payload
+   *   filters)
    * @returns Paginated list of webhooks with metadata
+   * @throws BadRequestException if the cursor is malformed
    */
   findAll(query: QueryWebhooksDto): WebhooksListResponse {
     // Destructure with defaults
-    const { page = 1, limit = 10, source, event } = query;
+    const {
+      page = 1,
+      limit = 10,
+      cursor,
+      source,
+      event,
+      receivedAfter,
+      receivedBefore,
+      verified,
+      status,
+      payload,
+    } = query;
+
+    // A cursor continues right after the last webhook of the previous page
+    const after = cursor ? decodeCursor(cursor) : undefined;
+    if (cursor && !after) {
+      throw new BadRequestException('Invalid cursor');
+    }
 
     // Get filtered/paginated data from storage
-    const { webhooks, total } = this.storage.getAll({
+    const { webhooks, total = 0, hasMore } = this.storage.getAll({
       page,
       limit,
+      after,
       source,
       event,
+      receivedAfter,
+      receivedBefore,
+      verified,
+      status,
+      payload,
+      withTotal: true,
     });
 
     // Return with pagination metadata
+    const last = webhooks[webhooks.length - 1];
     return {
       webhooks,
       count: webhooks.length, // Items in this page
       page,
       limit,
       totalPages: Math.ceil(total / limit), // Calculate total pages
+      total,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ timestamp: last.receivedAt, id: last.id })
+          : null,
+    };
+  }
+
+  /**
+   * Get service statistics
+   *
+   * @returns Stored/quarantined counts, verification/replay counters,
+   *   schema mismatch counters and IP allowlist refusals
+   */
+  getStats(): WebhookStatsResponse {
+    return {
+      stored: this.storage.count(),
+      inQuarantine: this.quarantine.count(),
+      verification: {
+        ...this.verificationStats,
+        replaysRejected: this.replayProtection.getStats(),
+      },
+      schemaValidation: { ...this.schemaStats },
+      ipAllowlist: this.ipAllowlists.getStats(),
     };
   }
 
@@ -150,6 +533,55 @@ export class WebhooksService {
     return webhook;
   }
 
+  /**
+   * Put the original values back into a redacted webhook
+   * (only those its redaction rules kept encrypted)
+   *
+   * @param webhook - The stored webhook (see findOne)
+   * @returns A copy with the originals, or the webhook as stored
+   */
+  reveal(webhook: Webhook): Webhook {
+    return this.redaction.reveal(webhook);
+  }
+
+  /**
+   * Acknowledge a webhook as processed by a consumer
+   *
+   * Acknowledging an already processed webhook changes nothing, so a
+   * consumer can safely retry an ack whose response it didn't get.
+   *
+   * @param id - The webhook UUID
+   * @param leaseId - The lease the webhook was claimed under (if any)
+   * @returns The webhook, now with status "processed"
+   * @throws NotFoundException if webhook doesn't exist or ID is invalid
+   * @throws ConflictException if the webhook is leased to another worker
+   */
+  acknowledge(id: string, leaseId?: string): Webhook {
+    const webhook = this.findOne(id);
+    if (webhook.status === 'processed') {
+      return webhook;
+    }
+    this.leases.assertNotLeasedElsewhere(webhook, leaseId);
+    return this.transition(webhook, 'processed');
+  }
+
+  /**
+   * Record that a consumer failed to process a webhook
+   *
+   * @param id - The webhook UUID
+   * @param error - What went wrong (kept on the webhook)
+   * @param leaseId - The lease the webhook was claimed under (if any)
+   * @returns The webhook, now with status "failed"
+   * @throws NotFoundException if webhook doesn't exist or ID is invalid
+   * @throws ConflictException if the webhook is already processed or failed,
+   *   or leased to another worker
+   */
+  fail(id: string, error: string, leaseId?: string): Webhook {
+    const webhook = this.findOne(id);
+    this.leases.assertNotLeasedElsewhere(webhook, leaseId);
+    return this.transition(webhook, 'failed', error);
+  }
+
   /**
    * Delete a webhook by ID
    *
@@ -175,58 +607,275 @@ export class WebhooksService {
   }
 
   /**
-   * Verify webhook signature using HMAC-SHA256
+   * Release a webhook from quarantine into normal storage
+   *
+   * The webhook keeps its ID and stays verified: false - promoting only
+   * says an operator trusts it, not that its signature was valid.
+   * Once promoted it is handled like any freshly stored webhook, and counts
+   * against its source's quota - if it doesn't fit, it stays in quarantine.
+   *
+   * @param id - The webhook UUID
+   * @returns The promoted webhook
+   * @throws NotFoundException if it is not in quarantine
+   * @throws HttpException 507 or 429 if it doesn't fit in the source's quota
+   */
+  promote(id: string): Webhook {
+    const held = this.quarantine.findOne(id);
+    this.quotas.admit(held.source, held.payload);
+
+    const promoted = this.quarantine.release(id);
+    this.accept(promoted);
+    return promoted;
+  }
+
+  /**
+   * Replay a dead letter
+   *
+   * A replay re-runs the stage of the POST /webhooks pipeline that failed,
+   * not the whole pipeline: the dead letter leaves the queue and its webhook
+   * is forwarded again to the subscription it failed for. The other
+   * subscriptions, the @OnWebhook() handlers and live subscribers already
+   * had it, and would get a second copy from a full run.
+   *
+   * It is not saved again either: the webhook was stored (and counted
+   * against its source's quota) when it was received, and stays deleted if
+   * it was deleted meanwhile. Verification, deduplication and replay
+   * protection already passed then, and are not run again - a replay is a
+   * deliberate repeat, and its signature may have expired since. If it
+   * fails again, it comes back as a new dead letter.
+   *
+   * @param id - The dead letter UUID
+   * @returns The webhook's ID and confirmation message
+   * @throws NotFoundException if the dead letter or its subscription
+   *   doesn't exist (the dead letter then stays in the queue)
+   * @throws ConflictException if the dead letter names no subscription
+   *   to forward to
+   */
+  replayDeadLetter(id: string): WebhookResponse {
+    const deadLetter = this.deadLetters.findOne(id);
+    if (deadLetter.subscriptionId === undefined) {
+      throw new ConflictException({
+        message: `Dead letter ${id} (${deadLetter.origin}) has no subscription to replay to`,
+        reason: 'not_replayable',
+      });
+    }
+
+    // Prefer the stored copy - it has the latest duplicate count
+    const webhook =
+      this.storage.getById(deadLetter.webhook.id) ?? deadLetter.webhook;
+
+    const delivery = this.forwarding.redeliver(
+      webhook,
+      deadLetter.subscriptionId,
+    );
+    this.deadLetters.remove(id);
+    void delivery
+      .then((redelivery) => {
+        if (redelivery.status === 'failed') {
+          this.deadLetters.addFailedDelivery(webhook, redelivery);
+        }
+      })
+      .catch((error) =>
+        this.logger.error(
+          `Replay of dead letter ${id} (webhook ${webhook.id}) failed`,
+          error,
+        ),
+      );
+
+    this.logger.log(`Dead letter ${id} replayed (webhook ${webhook.id})`);
+    return { id: webhook.id, message: 'Webhook replayed' };
+  }
+
+  /**
+   * Replay every dead letter that matches a filter
+   *
+   * Dead letters whose subscription was deleted are left in the queue.
+   *
+   * @param filter - source (exact), event ("*" wildcards), subscriptionId;
+   *   an empty filter replays every dead letter
+   * @returns How many dead letters were replayed
+   */
+  replayDeadLetters(filter: ReplayDeadLettersDto): { replayed: number } {
+    const subscriptionIds = new Set(
+      this.forwarding
+        .listSubscriptions()
+        .map((subscription) => subscription.id),
+    );
+    const matches = this.deadLetters
+      .find(filter)
+      .filter(
+        (deadLetter) =>
+          deadLetter.subscriptionId !== undefined &&
+          subscriptionIds.has(deadLetter.subscriptionId),
+      );
+    matches.forEach((deadLetter) => this.replayDeadLetter(deadLetter.id));
+    return { replayed: matches.length };
+  }
+
+  /**
+   * Store a webhook, push it to live subscribers (SSE and WebSocket),
+   * forward it to matching subscriptions and run its @OnWebhook() handlers
+   *
+   * Shared by create() and promote(), so a promoted webhook is handled
+   * like a freshly received one. Forwarding and handlers run in the
+   * background - a slow or failing target or handler never affects the
+   * response. Deliveries that still fail after all retries are
+   * dead-lettered; handler errors are recorded on the webhook.
+   *
+   * @param webhook - The accepted webhook
+   */
+  private accept(webhook: Webhook): void {
+    this.storage.save(webhook);
+    this.stream.publish(webhook);
+
+    void this.forwarding
+      .dispatch(webhook)
+      .then((deliveries) =>
+        deliveries
+          .filter((delivery) => delivery.status === 'failed')
+          .forEach((delivery) =>
+            this.deadLetters.addFailedDelivery(webhook, delivery),
+          ),
+      )
+      .catch((error) =>
+        this.logger.error(`Forwarding webhook ${webhook.id} failed`, error),
+      );
+    void this.handlers.dispatch(webhook);
+  }
+
+  /**
+   * Move a stored webhook to a new processing status and save it
+   *
+   * See applyTransition() for what is recorded on the webhook.
+   *
+   * @param webhook - The stored webhook
+   * @param status - The new status
+   * @param error - Error message (only for "failed")
+   * @returns The updated webhook
+   * @throws ConflictException if the lifecycle doesn't allow the transition
+   */
+  private transition(
+    webhook: Webhook,
+    status: WebhookStatus,
+    error?: string,
+  ): Webhook {
+    applyTransition(webhook, status, error);
+    this.storage.save(webhook);
+
+    this.logger.log(`Webhook ${webhook.id} is now ${status}`);
+    return webhook;
+  }
+
+  /**
+   * Apply the schema's policy to a payload that doesn't match it
    *
-   * This is a SECURITY-CRITICAL method that:
-   * 1. Computes expected signature: HMAC-SHA256(payload, secret)
-   * 2. Compares with provided signature using timing-safe comparison
+   * "flag" and "ignore" only count and log the mismatch here - flagged
+   * webhooks get the errors attached when they are built.
    *
-   * Why timing-safe comparison?
-   * - Regular string comparison (===) exits early on first mismatch
-   * - Attackers can measure response time to guess characters
-   * - timingSafeEqual always takes the same time regardless of match
+   * @param dto - The incoming webhook
+   * @param violation - The schema's policy and the mismatches
+   * @throws BadRequestException with the errors if the policy is "reject"
+   */
+  private applySchemaPolicy(
+    dto: CreateWebhookDto,
+    violation: SchemaViolation,
+  ): void {
+    const outcome = {
+      reject: 'rejected',
+      flag: 'flagged',
+      ignore: 'ignored',
+    } as const;
+    this.schemaStats[outcome[violation.policy]]++;
+    this.logger.warn(
+      `Payload of ${dto.source}/${dto.event} doesn't match its schema (${violation.errors.length} error(s), policy: ${violation.policy})`,
+    );
+
+    if (violation.policy === 'reject') {
+      throw new BadRequestException({
+        message: 'Payload does not match the schema',
+        reason: 'schema_mismatch',
+        errors: violation.errors,
+      });
+    }
+  }
+
+  /**
+   * Count a repeated delivery against the webhook that was already stored
    *
-   * @param payload - The webhook payload to verify
-   * @param signature - The signature from the x-webhook-signature header
-   * @returns true if signature is valid, false otherwise
+   * @param existing - The webhook stored for the first delivery
+   * @param quarantined - Whether the first delivery is held in quarantine
+   * @returns The original webhook's ID, flagged as a duplicate
+   */
+  private recordDuplicate(
+    existing: Webhook,
+    quarantined = false,
+  ): WebhookResponse {
+    existing.duplicateCount++;
+    existing.lastDuplicateAt = new Date();
+    if (quarantined) {
+      this.quarantine.update(existing);
+    } else {
+      this.storage.save(existing);
+    }
+
+    this.logger.log(
+      `Duplicate delivery from ${existing.source} (key: ${existing.idempotencyKey}), returning ${existing.id}`,
+    );
+
+    return {
+      id: existing.id,
+      message: 'Webhook already received',
+      duplicate: true,
+      ...(quarantined && { quarantined: true }),
+    };
+  }
+
+  /**
+   * Verify a webhook signature with the source's verifier
+   *
+   * This is a SECURITY-CRITICAL method. The verifier:
+   * 1. Reads the signature from its provider-specific header
+   * 2. Computes the expected HMAC-SHA256 over the provider's signed content
+   * 3. Compares them using a timing-safe comparison
+   *
+   * Each secret that is currently valid for the source is tried in turn
+   * (current first, then the previous one during its rotation grace window).
+   *
+   * @param source - The webhook source (selects the secrets)
+   * @param verifier - The verifier for the webhook's source
+   * @param request - The raw body and headers that were signed
+   * @returns Whether the signature is valid, and which secret version matched
    */
   private verifySignature(
-    payload: CreateWebhookDto,
-    signature?: string,
-  ): boolean {
+    source: string,
+    verifier: SignatureVerifier,
+    request: SignedRequest,
+  ): { verified: boolean; secretVersion?: number } {
     // Can't verify without a secret configured
-    if (!this.webhookSecret) {
-      return false;
+    const secrets = this.secrets.getVerificationSecrets(source);
+    if (secrets.length === 0) {
+      return { verified: false };
     }
 
     // Can't verify without a signature provided
-    if (!signature) {
-      this.logger.warn('No signature provided for webhook');
-      return false;
+    if (!getHeader(request.headers, verifier.header)) {
+      this.logger.warn(
+        `No ${verifier.header} header provided for webhook (scheme: ${verifier.scheme})`,
+      );
+      return { verified: false };
     }
 
     try {
-      // Compute what the signature SHOULD be
-      // HMAC = Hash-based Message Authentication Code
-      const expectedSignature = createHmac('sha256', this.webhookSecret)
-        .update(JSON.stringify(payload)) // Hash the JSON payload
-        .digest('hex'); // Output as hexadecimal string
-
-      // Convert both signatures to Buffers for timing-safe comparison
-      const expectedBuffer = Buffer.from(expectedSignature, 'hex');
-      const providedBuffer = Buffer.from(signature, 'hex');
-
-      // Must be same length for timingSafeEqual to work
-      if (expectedBuffer.length !== providedBuffer.length) {
-        return false;
-      }
-
-      // Timing-safe comparison prevents timing attacks
-      return timingSafeEqual(expectedBuffer, providedBuffer);
+      const match = secrets.find((secret) =>
+        verifier.verify(request, secret.secret),
+      );
+      return match
+        ? { verified: true, secretVersion: match.version }
+        : { verified: false };
     } catch (error) {
       // Log error but don't expose details to caller
       this.logger.error('Error verifying signature', error);
-      return false;
+      return { verified: false };
     }
   }
 
@@ -1,47 +1,94 @@
 /**
- * Webhooks Storage Tests
+ * Webhooks Storage Conformance Tests
+ *
+ * Every storage driver must behave exactly the same way, so this one suite
+ * runs against ALL of them (in-memory, JSONL file and SQLite).
  *
  * These tests verify the data storage layer:
  * - Saving webhooks
  * - Retrieving webhooks (all, by ID)
- * - Pagination and filtering
+ * - Pagination and filtering (source, event patterns, time range,
+ *   verified status, payload fields)
  * - Sorting by date
+ * - Lookups by idempotency key
  * - Deleting and clearing
+ *
+ * Driver-specific behavior (like surviving a restart) is tested at the bottom.
  */
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { WebhooksStorage } from './webhooks.storage';
-import { Webhook } from './interfaces/webhook.interface';
+import { Webhook, WebhookStatus } from './interfaces/webhook.interface';
+import { StorageDriverOptions } from './interfaces/webhooks-storage.interface';
+import { InMemoryWebhooksStorage } from './storage/in-memory.storage';
+import { JsonlFileWebhooksStorage } from './storage/jsonl-file.storage';
+import { SqliteWebhooksStorage } from './storage/sqlite.storage';
+
+/**
+ * Each entry: [driver name, factory that creates a fresh driver in a directory]
+ * The directory is a new temp folder per test, so file drivers start empty.
+ */
+const drivers: [
+  string,
+  (dir: string, options?: StorageDriverOptions) => Promise<WebhooksStorage>,
+][] = [
+  ['memory', async (_dir, options) => new InMemoryWebhooksStorage(options)],
+  [
+    'jsonl',
+    async (dir, options) =>
+      new JsonlFileWebhooksStorage({
+        ...options,
+        filePath: join(dir, 'webhooks.jsonl'),
+      }),
+  ],
+  [
+    'sqlite',
+    (dir, options) =>
+      SqliteWebhooksStorage.create({
+        ...options,
+        filePath: join(dir, 'webhooks.sqlite'),
+      }),
+  ],
+];
+
+/**
+ * Helper function to create test webhooks
+ *
+ * Creates a webhook with default values that can be overridden.
+ * Makes tests cleaner by not repeating all fields every time.
+ *
+ * Usage:
+ *   createTestWebhook('test-1')  // Default values
+ *   createTestWebhook('test-1', { source: 'stripe' })  // Override source
+ */
+const createTestWebhook = (id: string, overrides?: Partial<Webhook>): Webhook => ({
+  id,
+  source: 'test',
+  event: 'test.event',
+  payload: {},
+  receivedAt: new Date(),
+  verified: false,
+  duplicateCount: 0,
+  status: 'received',
+  ...overrides, // Spread operator: merge overrides into default object
+});
 
-describe('WebhooksStorage', () => {
+// describe.each() runs the whole block once per driver
+describe.each(drivers)('WebhooksStorage (%s driver)', (_name, createStorage) => {
   let storage: WebhooksStorage;
+  let dir: string;
 
-  // beforeEach: Create fresh storage for each test
-  beforeEach(() => {
-    storage = new WebhooksStorage();
+  // beforeEach: Create fresh storage (in a fresh temp directory) for each test
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'webhooks-storage-'));
+    storage = await createStorage(dir);
   });
 
   // afterEach: Clean up after each test
   afterEach(() => {
     storage.clear();
-  });
-
-  /**
-   * Helper function to create test webhooks
-   *
-   * Creates a webhook with default values that can be overridden.
-   * Makes tests cleaner by not repeating all fields every time.
-   *
-   * Usage:
-   *   createTestWebhook('test-1')  // Default values
-   *   createTestWebhook('test-1', { source: 'stripe' })  // Override source
-   */
-  const createTestWebhook = (id: string, overrides?: Partial<Webhook>): Webhook => ({
-    id,
-    source: 'test',
-    event: 'test.event',
-    payload: {},
-    receivedAt: new Date(),
-    verified: false,
-    ...overrides, // Spread operator: merge overrides into default object
+    rmSync(dir, { recursive: true, force: true });
   });
 
   // ==================== save() Tests ====================
@@ -77,6 +124,43 @@ describe('WebhooksStorage', () => {
       // Assert: Returns the same webhook
       expect(result).toEqual(webhook);
     });
+
+    /**
+     * Test: Saving an existing ID updates it in place
+     *
+     * An update must not count as a new webhook - even when storage is
+     * full, nothing should be evicted to make room for it
+     */
+    it('should update an existing webhook without evicting others', async () => {
+      // Arrange: Fill a storage that only holds two webhooks
+      const full = await createStorage(dir, { maxStorageSize: 2 });
+      full.save(createTestWebhook('first'));
+      full.save(createTestWebhook('second'));
+
+      // Act: Save the first one again with a change
+      full.save(createTestWebhook('first', { duplicateCount: 3 }));
+
+      // Assert: Both are still there, and the first one was updated
+      expect(full.count()).toBe(2);
+      expect(full.getById('second')).toBeDefined();
+      expect(full.getById('first')?.duplicateCount).toBe(3);
+      full.clear();
+    });
+
+    /**
+     * Test: Storage limit evicts the oldest webhook (FIFO)
+     */
+    it('should evict the oldest webhook when full', async () => {
+      const full = await createStorage(dir, { maxStorageSize: 2 });
+      full.save(createTestWebhook('first'));
+      full.save(createTestWebhook('second'));
+      full.save(createTestWebhook('third'));
+
+      expect(full.count()).toBe(2);
+      expect(full.getById('first')).toBeUndefined();
+      expect(full.getEvictedCount()).toBe(1);
+      full.clear();
+    });
   });
 
   // ==================== getAll() Tests ====================
@@ -93,13 +177,30 @@ describe('WebhooksStorage', () => {
       storage.save(createTestWebhook('test-3'));
 
       // Act
-      const { webhooks, total } = storage.getAll();
+      const { webhooks, total } = storage.getAll({ withTotal: true });
 
       // Assert
       expect(webhooks).toHaveLength(3);
       expect(total).toBe(3);
     });
 
+    /**
+     * Test: The total is only counted when asked for
+     */
+    it('should leave out the total unless asked for it', () => {
+      // Arrange
+      storage.save(createTestWebhook('test-1', { source: 'stripe' }));
+
+      // Act
+      const plain = storage.getAll();
+      const filtered = storage.getAll({ source: 'stripe' });
+
+      // Assert
+      expect(plain.total).toBeUndefined();
+      expect(filtered.total).toBeUndefined();
+      expect(filtered.webhooks).toHaveLength(1);
+    });
+
     /**
      * Test: Pagination returns correct slice
      *
@@ -112,7 +213,11 @@ describe('WebhooksStorage', () => {
       }
 
       // Act: Get page 2 with 10 items per page
-      const { webhooks, total } = storage.getAll({ page: 2, limit: 10 });
+      const { webhooks, total } = storage.getAll({
+        page: 2,
+        limit: 10,
+        withTotal: true,
+      });
 
       // Assert
       expect(webhooks).toHaveLength(10); // 10 items on page 2
@@ -131,7 +236,10 @@ describe('WebhooksStorage', () => {
       storage.save(createTestWebhook('test-3', { source: 'stripe' }));
 
       // Act: Filter by source='stripe'
-      const { webhooks, total } = storage.getAll({ source: 'stripe' });
+      const { webhooks, total } = storage.getAll({
+        source: 'stripe',
+        withTotal: true,
+      });
 
       // Assert: Only 2 stripe webhooks
       expect(webhooks).toHaveLength(2);
@@ -157,6 +265,169 @@ describe('WebhooksStorage', () => {
       expect(webhooks[0].event).toBe('payment.completed');
     });
 
+    /**
+     * Test: Event filters accept "*" patterns (prefix, suffix, middle)
+     *
+     * Pattern characters other than "*" are literal - no regex or SQL wildcards
+     */
+    it('should filter by event pattern', () => {
+      // Arrange
+      storage.save(createTestWebhook('test-1', { event: 'payment.completed' }));
+      storage.save(createTestWebhook('test-2', { event: 'payment.failed' }));
+      storage.save(createTestWebhook('test-3', { event: 'invoice.failed' }));
+      storage.save(createTestWebhook('test-4', { event: 'payment_failed' }));
+
+      const ids = (event: string) =>
+        storage
+          .getAll({ event })
+          .webhooks.map((w) => w.id)
+          .sort();
+
+      // Assert
+      expect(ids('payment.*')).toEqual(['test-1', 'test-2']);
+      expect(ids('*.failed')).toEqual(['test-2', 'test-3']);
+      expect(ids('pay*failed')).toEqual(['test-2', 'test-4']);
+      expect(ids('payment_*')).toEqual(['test-4']);
+      expect(ids('Payment.*')).toEqual([]); // Case-sensitive
+    });
+
+    /**
+     * Test: receivedAfter is inclusive, receivedBefore is exclusive
+     */
+    it('should filter by received time range', () => {
+      // Arrange: One webhook per hour
+      for (let hour = 0; hour < 4; hour++) {
+        storage.save(
+          createTestWebhook(`hour-${hour}`, {
+            receivedAt: new Date(Date.UTC(2024, 5, 1, hour)),
+          }),
+        );
+      }
+
+      // Act
+      const { webhooks, total } = storage.getAll({
+        receivedAfter: new Date(Date.UTC(2024, 5, 1, 1)),
+        receivedBefore: new Date(Date.UTC(2024, 5, 1, 3)),
+        withTotal: true,
+      });
+
+      // Assert: [01:00, 03:00)
+      expect(total).toBe(2);
+      expect(webhooks.map((w) => w.id)).toEqual(['hour-2', 'hour-1']);
+    });
+
+    /**
+     * Test: Filter by verified status
+     */
+    it('should filter by verified status', () => {
+      // Arrange
+      storage.save(createTestWebhook('signed', { verified: true }));
+      storage.save(createTestWebhook('unsigned', { verified: false }));
+
+      // Assert
+      const ids = (verified: boolean) =>
+        storage.getAll({ verified }).webhooks.map((w) => w.id);
+      expect(ids(true)).toEqual(['signed']);
+      expect(ids(false)).toEqual(['unsigned']);
+    });
+
+    /**
+     * Test: Filter by processing status
+     */
+    it('should filter by processing status', () => {
+      // Arrange
+      storage.save(createTestWebhook('new'));
+      storage.save(createTestWebhook('done', { status: 'processed' }));
+      storage.save(
+        createTestWebhook('broken', { status: 'failed', error: 'timeout' }),
+      );
+
+      // Assert
+      const ids = (status: WebhookStatus) =>
+        storage.getAll({ status }).webhooks.map((w) => w.id);
+      expect(ids('received')).toEqual(['new']);
+      expect(ids('processed')).toEqual(['done']);
+      expect(ids('failed')).toEqual(['broken']);
+      expect(ids('processing')).toEqual([]);
+    });
+
+    /**
+     * Test: Payload fields are matched by dot path, compared as text
+     */
+    it('should filter by payload fields', () => {
+      // Arrange
+      storage.save(
+        createTestWebhook('failed', {
+          payload: { data: { status: 'failed', amount: 100, live: true } },
+        }),
+      );
+      storage.save(
+        createTestWebhook('paid', {
+          payload: { data: { status: 'paid', amount: 100, live: false } },
+        }),
+      );
+      storage.save(
+        createTestWebhook('nested', {
+          payload: { data: { status: { code: 'failed' } }, items: [{ id: 'a' }] },
+        }),
+      );
+
+      const ids = (payload: Record<string, string>) =>
+        storage
+          .getAll({ payload })
+          .webhooks.map((w) => w.id)
+          .sort();
+
+      // Assert
+      expect(ids({ 'data.status': 'failed' })).toEqual(['failed']);
+      expect(ids({ 'data.amount': '100' })).toEqual(['failed', 'paid']);
+      expect(ids({ 'data.amount': '100', 'data.live': 'false' })).toEqual([
+        'paid',
+      ]);
+      expect(ids({ 'items.0.id': 'a' })).toEqual(['nested']); // Array index
+      expect(ids({ 'data.missing': 'x' })).toEqual([]);
+    });
+
+    /**
+     * Test: All filters combine with AND, and total counts every match
+     */
+    it('should combine filters', () => {
+      // Arrange
+      storage.save(
+        createTestWebhook('match', {
+          source: 'stripe',
+          verified: false,
+          payload: { data: { status: 'failed' } },
+        }),
+      );
+      storage.save(
+        createTestWebhook('verified', {
+          source: 'stripe',
+          verified: true,
+          payload: { data: { status: 'failed' } },
+        }),
+      );
+      storage.save(
+        createTestWebhook('other-source', {
+          source: 'github',
+          verified: false,
+          payload: { data: { status: 'failed' } },
+        }),
+      );
+
+      // Act
+      const { webhooks, total } = storage.getAll({
+        source: 'stripe',
+        verified: false,
+        payload: { 'data.status': 'failed' },
+        withTotal: true,
+      });
+
+      // Assert
+      expect(total).toBe(1);
+      expect(webhooks[0].id).toBe('match');
+    });
+
     /**
      * Test: Results sorted by date (newest first)
      *
@@ -177,6 +448,171 @@ describe('WebhooksStorage', () => {
       expect(webhooks[0].id).toBe('new'); // June comes first
       expect(webhooks[1].id).toBe('old'); // January comes second
     });
+
+    /**
+     * Test: Webhooks received at the same time are ordered by id (descending)
+     */
+    it('should break receivedAt ties by id', () => {
+      // Arrange: Same timestamp, saved out of order
+      const receivedAt = new Date('2024-06-01');
+      storage.save(createTestWebhook('b', { receivedAt }));
+      storage.save(createTestWebhook('c', { receivedAt }));
+      storage.save(createTestWebhook('a', { receivedAt }));
+
+      // Act
+      const { webhooks } = storage.getAll();
+
+      // Assert
+      expect(webhooks.map((w) => w.id)).toEqual(['c', 'b', 'a']);
+    });
+
+    /**
+     * Test: hasMore tells whether another page follows
+     */
+    it('should report whether more pages follow', () => {
+      // Arrange
+      for (let i = 1; i <= 4; i++) {
+        storage.save(createTestWebhook(`test-${i}`));
+      }
+
+      // Assert
+      expect(storage.getAll({ page: 1, limit: 3 }).hasMore).toBe(true);
+      expect(storage.getAll({ page: 2, limit: 3 }).hasMore).toBe(false);
+      expect(storage.getAll({ page: 1, limit: 4 }).hasMore).toBe(false);
+    });
+
+    /**
+     * Test: Keyset pagination (after) is stable under concurrent writes
+     *
+     * Walking page by page returns every webhook exactly once, even though
+     * new webhooks arrive and an already-seen one is deleted meanwhile.
+     * Offset pagination would repeat or skip items here.
+     */
+    it('should paginate after a position without shifting', () => {
+      // Arrange: Five webhooks, one minute apart
+      const at = (minute: number) => new Date(Date.UTC(2024, 5, 1, 12, minute));
+      for (let minute = 1; minute <= 5; minute++) {
+        storage.save(
+          createTestWebhook(`min-${minute}`, { receivedAt: at(minute) }),
+        );
+      }
+
+      // Act: Walk two at a time while writes happen between pages
+      const seen: string[] = [];
+      let result = storage.getAll({ limit: 2 });
+      seen.push(...result.webhooks.map((w) => w.id));
+
+      storage.save(createTestWebhook('min-6', { receivedAt: at(6) }));
+      storage.delete('min-5');
+
+      while (result.hasMore) {
+        const last = result.webhooks[result.webhooks.length - 1];
+        result = storage.getAll({
+          limit: 2,
+          after: { timestamp: last.receivedAt, id: last.id },
+          withTotal: true,
+        });
+        seen.push(...result.webhooks.map((w) => w.id));
+      }
+
+      // Assert: Each original webhook exactly once, newest first
+      expect(seen).toEqual(['min-5', 'min-4', 'min-3', 'min-2', 'min-1']);
+      expect(result.total).toBe(5); // Exact total at the time of the last page
+    });
+
+    /**
+     * Test: Keyset pagination applies the filters too
+     */
+    it('should combine a position with filters', () => {
+      // Arrange
+      const at = (minute: number) => new Date(Date.UTC(2024, 5, 1, 12, minute));
+      const save = (id: string, source: string, minute: number) =>
+        storage.save(createTestWebhook(id, { source, receivedAt: at(minute) }));
+      save('s-1', 'stripe', 1);
+      save('g-2', 'github', 2);
+      save('s-3', 'stripe', 3);
+
+      // Act
+      const result = storage.getAll({
+        source: 'stripe',
+        after: { timestamp: at(3), id: 's-3' },
+        withTotal: true,
+      });
+
+      // Assert
+      expect(result.webhooks.map((w) => w.id)).toEqual(['s-1']);
+      expect(result.total).toBe(2);
+      expect(result.hasMore).toBe(false);
+    });
+
+    /**
+     * Test: oldestFirst walks the same order the other way
+     *
+     * Pages, cursors and filters work as for newest-first listing
+     */
+    it('should list oldest first', () => {
+      // Arrange: Five webhooks, one minute apart
+      const at = (minute: number) => new Date(Date.UTC(2024, 5, 1, 12, minute));
+      for (let minute = 1; minute <= 5; minute++) {
+        storage.save(
+          createTestWebhook(`min-${minute}`, { receivedAt: at(minute) }),
+        );
+      }
+      storage.save(
+        createTestWebhook('other', { source: 'github', receivedAt: at(0) }),
+      );
+
+      // Act
+      const first = storage.getAll({
+        source: 'test',
+        limit: 2,
+        oldestFirst: true,
+      });
+      const last = first.webhooks[1];
+      storage.delete(last.id); // The cursor's webhook may disappear
+      const next = storage.getAll({
+        source: 'test',
+        limit: 2,
+        oldestFirst: true,
+        after: { timestamp: last.receivedAt, id: last.id },
+      });
+      const secondPage = storage.getAll({
+        source: 'test',
+        page: 2,
+        limit: 2,
+        oldestFirst: true,
+      });
+
+      // Assert
+      expect(first.webhooks.map((w) => w.id)).toEqual(['min-1', 'min-2']);
+      expect(first.hasMore).toBe(true);
+      expect(next.webhooks.map((w) => w.id)).toEqual(['min-3', 'min-4']);
+      expect(next.hasMore).toBe(true);
+      expect(secondPage.webhooks.map((w) => w.id)).toEqual([
+        'min-4',
+        'min-5',
+      ]);
+    });
+
+    /**
+     * Test: Updating receivedAt moves the webhook in the order
+     */
+    it('should keep the order when an update changes receivedAt', () => {
+      // Arrange
+      const january = new Date('2024-01-01');
+      const february = new Date('2024-02-01');
+      storage.save(createTestWebhook('first', { receivedAt: january }));
+      storage.save(createTestWebhook('second', { receivedAt: february }));
+
+      // Act: Move "first" after "second"
+      const march = new Date('2024-03-01');
+      storage.save(createTestWebhook('first', { receivedAt: march }));
+
+      // Assert
+      const { webhooks, total } = storage.getAll({ withTotal: true });
+      expect(webhooks.map((w) => w.id)).toEqual(['first', 'second']);
+      expect(total).toBe(2);
+    });
   });
 
   // ==================== getById() Tests ====================
@@ -210,6 +646,89 @@ describe('WebhooksStorage', () => {
     });
   });
 
+  // ==================== getByIdempotencyKey() Tests ====================
+  describe('getByIdempotencyKey', () => {
+    /**
+     * Test: Finds a webhook by source + idempotency key
+     */
+    it('should return the webhook with that key', () => {
+      const webhook = createTestWebhook('test-1', {
+        source: 'github',
+        idempotencyKey: 'delivery-1',
+      });
+      storage.save(webhook);
+
+      expect(storage.getByIdempotencyKey('github', 'delivery-1')).toEqual(
+        webhook,
+      );
+    });
+
+    /**
+     * Test: Keys are scoped per source
+     *
+     * Two providers can use the same delivery ID without colliding
+     */
+    it('should not match the same key from another source', () => {
+      storage.save(
+        createTestWebhook('test-1', {
+          source: 'github',
+          idempotencyKey: 'delivery-1',
+        }),
+      );
+
+      expect(
+        storage.getByIdempotencyKey('stripe', 'delivery-1'),
+      ).toBeUndefined();
+    });
+
+    /**
+     * Test: Deleted webhooks can no longer be found by key
+     */
+    it('should return undefined after the webhook is deleted', () => {
+      storage.save(
+        createTestWebhook('test-1', {
+          source: 'github',
+          idempotencyKey: 'delivery-1',
+        }),
+      );
+      storage.delete('test-1');
+
+      expect(
+        storage.getByIdempotencyKey('github', 'delivery-1'),
+      ).toBeUndefined();
+    });
+  });
+
+  // ==================== getSourceUsage() Tests ====================
+  describe('getSourceUsage', () => {
+    /**
+     * Test: Count and payload bytes are summed per source
+     *
+     * Updates replace the old payload size, deletes subtract it
+     */
+    it('should track the usage of each source', () => {
+      // Arrange: {"a":1} is 7 bytes, {"text":"héllo"} is 17
+      storage.save(createTestWebhook('test-1', { payload: { a: 1 } }));
+      storage.save(createTestWebhook('test-2', { payload: { a: 1 } }));
+      storage.save(createTestWebhook('test-3', { payload: { a: 1 } }));
+      storage.save(createTestWebhook('other', { source: 'other' }));
+
+      // Act
+      storage.save(createTestWebhook('test-1', { payload: { text: 'héllo' } }));
+      storage.delete('test-2');
+
+      // Assert
+      expect(storage.getSourceUsage('test')).toEqual({
+        count: 2,
+        payloadBytes: 24,
+      });
+      expect(storage.getSourceUsage('unknown')).toEqual({
+        count: 0,
+        payloadBytes: 0,
+      });
+    });
+  });
+
   // ==================== count() Tests ====================
   describe('count', () => {
     /**
@@ -284,4 +803,159 @@ describe('WebhooksStorage', () => {
       expect(result).toBe(false);
     });
   });
+
+  // ==================== deleteMany() Tests ====================
+  describe('deleteMany', () => {
+    /**
+     * Test: deleteMany() removes every listed webhook
+     *
+     * Unknown IDs are skipped and not counted
+     */
+    it('should delete the listed webhooks', () => {
+      // Arrange
+      storage.save(createTestWebhook('test-1', { idempotencyKey: 'd-1' }));
+      storage.save(createTestWebhook('test-2'));
+      storage.save(createTestWebhook('test-3'));
+
+      // Act
+      const deleted = storage.deleteMany(['test-1', 'test-3', 'missing']);
+
+      // Assert
+      expect(deleted).toBe(2);
+      expect(storage.getAll().webhooks.map((webhook) => webhook.id)).toEqual([
+        'test-2',
+      ]);
+      expect(storage.getByIdempotencyKey('test', 'd-1')).toBeUndefined();
+    });
+  });
 });
+
+// ==================== Persistence Tests (file drivers only) ====================
+describe.each(drivers.filter(([name]) => name !== 'memory'))(
+  'WebhooksStorage persistence (%s driver)',
+  (_name, createStorage) => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'webhooks-storage-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    /**
+     * Test: Data survives a restart
+     *
+     * A second driver opened on the same file should see everything
+     * the first one saved, minus anything it deleted
+     */
+    it('should reload saved webhooks from disk', async () => {
+      // Arrange: Save two webhooks and delete one
+      const first = await createStorage(dir);
+      const receivedAt = new Date('2024-06-01T12:00:00.000Z');
+      first.save(createTestWebhook('kept', { receivedAt, payload: { a: 1 } }));
+      first.save(createTestWebhook('removed'));
+      first.delete('removed');
+
+      // Act: "Restart" by opening the same file again
+      const second = await createStorage(dir);
+
+      // Assert: Only the kept webhook is there, with its Date restored
+      expect(second.count()).toBe(1);
+      expect(second.getById('removed')).toBeUndefined();
+      expect(second.getById('kept')?.receivedAt).toEqual(receivedAt);
+      expect(second.getById('kept')?.payload).toEqual({ a: 1 });
+    });
+
+    /**
+     * Test: Duplicate tracking survives a restart
+     */
+    it('should reload idempotency keys and duplicate counts', async () => {
+      const first = await createStorage(dir);
+      const lastDuplicateAt = new Date('2024-06-01T12:05:00.000Z');
+      first.save(
+        createTestWebhook('test-1', {
+          source: 'github',
+          idempotencyKey: 'delivery-1',
+          duplicateCount: 2,
+          lastDuplicateAt,
+        }),
+      );
+
+      const second = await createStorage(dir);
+
+      const found = second.getByIdempotencyKey('github', 'delivery-1');
+      expect(found?.id).toBe('test-1');
+      expect(found?.duplicateCount).toBe(2);
+      expect(found?.lastDuplicateAt).toEqual(lastDuplicateAt);
+    });
+
+    /**
+     * Test: Processing status and its timestamps survive a restart
+     */
+    it('should reload the processing status', async () => {
+      const first = await createStorage(dir);
+      const failedAt = new Date('2024-06-01T12:05:00.000Z');
+      first.save(
+        createTestWebhook('test-1', {
+          status: 'failed',
+          failedAt,
+          error: 'Customer not found',
+        }),
+      );
+
+      const second = await createStorage(dir);
+
+      const found = second.getById('test-1');
+      expect(found?.status).toBe('failed');
+      expect(found?.failedAt).toEqual(failedAt);
+      expect(found?.error).toBe('Customer not found');
+      const failed = second.getAll({ status: 'failed', withTotal: true });
+      expect(failed.total).toBe(1);
+    });
+
+    /**
+     * Test: deleteMany() is also persisted
+     */
+    it('should not reload webhooks deleted in a batch', async () => {
+      const first = await createStorage(dir);
+      first.save(createTestWebhook('test-1'));
+      first.save(createTestWebhook('test-2'));
+      first.deleteMany(['test-1']);
+
+      const second = await createStorage(dir);
+
+      expect(second.count()).toBe(1);
+      expect(second.getById('test-1')).toBeUndefined();
+    });
+
+    /**
+     * Test: Source usage is rebuilt from disk
+     */
+    it('should reload the usage of each source', async () => {
+      const first = await createStorage(dir);
+      first.save(createTestWebhook('test-1', { payload: { a: 1 } }));
+
+      const second = await createStorage(dir);
+
+      expect(second.getSourceUsage('test')).toEqual({
+        count: 1,
+        payloadBytes: 7,
+      });
+    });
+
+    /**
+     * Test: clear() is also persisted
+     */
+    it('should not reload webhooks after clear', async () => {
+      const first = await createStorage(dir);
+      first.save(createTestWebhook('test-1'));
+      first.clear();
+
+      const second = await createStorage(dir);
+
+      expect(second.count()).toBe(0);
+    });
+  },
+);
@@ -1,152 +1,112 @@
 /**
- * Webhooks Storage Service
+ * Webhooks Storage (Repository Interface)
  *
- * This class handles all data persistence for webhooks.
- * Currently uses in-memory storage (Map), but could be extended
- * to use a database (PostgreSQL, MongoDB, etc.) in production.
+ * This abstract class is the contract every storage driver must implement.
+ * WebhooksService depends only on this class, so it never knows (or cares)
+ * whether webhooks live in memory, in a JSONL file or in SQLite.
  *
- * Key features:
- * - O(1) lookups using Map instead of Array
- * - Automatic cleanup when storage limit is reached
- * - Pagination and filtering support
+ * Available drivers (see ./storage/):
+ * - InMemoryWebhooksStorage: Map-based, data is lost on restart
+ * - JsonlFileWebhooksStorage: Append-only JSON Lines file, replayed on startup
+ * - SqliteWebhooksStorage: Embedded SQLite database file
  *
- * @Injectable() marks this as a service that can be injected by NestJS
+ * Why an abstract class instead of a TypeScript interface?
+ * - Interfaces disappear at runtime, so NestJS can't use them as injection tokens
+ * - An abstract class exists at runtime AND describes the contract
+ * - WebhooksModule binds this token to the driver chosen via STORAGE_DRIVER
  */
-import { Injectable, Logger } from '@nestjs/common';
 import { Webhook } from './interfaces/webhook.interface';
+import {
+  SourceUsage,
+  WebhookQueryOptions,
+  WebhookQueryResult,
+} from './interfaces/webhooks-storage.interface';
 
-@Injectable()
-export class WebhooksStorage {
-  /** Logger instance for this class - outputs to console with class name prefix */
-  private readonly logger = new Logger(WebhooksStorage.name);
-
-  /**
-   * In-memory storage using Map for O(1) lookups by ID
-   * Map preserves insertion order, so first key = oldest webhook
-   */
-  private webhooks: Map<string, Webhook> = new Map();
-
-  /** Maximum number of webhooks to store before removing oldest */
-  private readonly maxStorageSize: number;
-
+export abstract class WebhooksStorage {
   /**
-   * Constructor - runs when NestJS creates this service
-   * Reads the max storage size from environment variable
+   * Webhooks removed by the MAX_WEBHOOKS_STORAGE limit since startup
+   * (drivers count them rather than logging a warning for each one)
    */
-  constructor() {
-    // Parse env variable, default to 10000 if not set
-    this.maxStorageSize = parseInt(
-      process.env.MAX_WEBHOOKS_STORAGE || '10000',
-      10,
-    );
-  }
+  protected evicted = 0;
 
   /**
    * Save a webhook to storage
    *
-   * If storage is full, removes the oldest webhook first (FIFO - First In, First Out)
-   * This prevents unbounded memory growth.
+   * If storage is full, drivers remove the oldest webhook first (FIFO)
+   * so storage never grows past MAX_WEBHOOKS_STORAGE, and count it in
+   * getEvictedCount().
+   * Saving a webhook whose ID already exists updates it in place.
    *
    * @param webhook - The webhook object to save
    * @returns The saved webhook
    */
-  save(webhook: Webhook): Webhook {
-    // Check if we've hit the storage limit
-    if (this.webhooks.size >= this.maxStorageSize) {
-      // Get the first (oldest) key from the Map
-      const oldestKey = this.webhooks.keys().next().value;
-      if (oldestKey) {
-        // Remove the oldest webhook to make room
-        this.webhooks.delete(oldestKey);
-        this.logger.warn(
-          `Storage limit reached. Removed oldest webhook: ${oldestKey}`,
-        );
-      }
-    }
-
-    // Add the new webhook to the Map
-    this.webhooks.set(webhook.id, webhook);
-    this.logger.log(`Webhook saved: ${webhook.id}`);
-    return webhook;
-  }
+  abstract save(webhook: Webhook): Webhook;
 
   /**
    * Get all webhooks with optional filtering and pagination
    *
+   * Results are sorted by receivedAt descending (newest first), ties by
+   * id descending. Drivers keep this order indexed, so a page never needs
+   * a full sort, and `after` (keyset pagination) can start mid-list.
+   * With `oldestFirst` the same order is walked the other way.
+   * Every driver must apply the filters exactly as matchesWebhookQuery()
+   * does (see storage/webhook-filter.ts).
+   *
+   * `total` is only counted with `withTotal`: it visits every match, so a
+   * caller walking the list page by page would pay for it on each page.
+   *
    * @param options - Optional filtering and pagination parameters
-   * @param options.page - Page number (1-indexed)
-   * @param options.limit - Number of items per page
-   * @param options.source - Filter by source (exact match)
-   * @param options.event - Filter by event type (exact match)
-   * @returns Object containing webhooks array and total count
+   * @returns Object containing webhooks array (and total count, if asked)
    */
-  getAll(options?: {
-    page?: number;
-    limit?: number;
-    source?: string;
-    event?: string;
-  }): { webhooks: Webhook[]; total: number } {
-    // Convert Map values to array for filtering/sorting
-    let webhooksArray = Array.from(this.webhooks.values());
-
-    // Apply source filter if provided
-    if (options?.source) {
-      webhooksArray = webhooksArray.filter((w) => w.source === options.source);
-    }
-
-    // Apply event filter if provided
-    if (options?.event) {
-      webhooksArray = webhooksArray.filter((w) => w.event === options.event);
-    }
-
-    // Sort by receivedAt descending (newest first)
-    webhooksArray.sort(
-      (a, b) => b.receivedAt.getTime() - a.receivedAt.getTime(),
-    );
-
-    // Calculate pagination
-    const total = webhooksArray.length;
-    const page = options?.page || 1;
-    const limit = options?.limit || 10;
-    const startIndex = (page - 1) * limit; // Convert 1-indexed page to 0-indexed array position
-
-    // Return the slice for the requested page
-    return {
-      webhooks: webhooksArray.slice(startIndex, startIndex + limit),
-      total,
-    };
-  }
+  abstract getAll(options?: WebhookQueryOptions): WebhookQueryResult;
 
   /**
    * Get a single webhook by its ID
    *
-   * Uses Map.get() for O(1) lookup time
-   *
    * @param id - The webhook UUID to find
    * @returns The webhook if found, undefined otherwise
    */
-  getById(id: string): Webhook | undefined {
-    return this.webhooks.get(id);
-  }
+  abstract getById(id: string): Webhook | undefined;
+
+  /**
+   * Find a webhook by its idempotency key
+   *
+   * Keys are scoped per source: the same delivery ID from two different
+   * sources belongs to two different webhooks.
+   *
+   * @param source - The webhook source
+   * @param key - The idempotency key (provider delivery ID)
+   * @returns The most recently saved webhook with that key, or undefined
+   */
+  abstract getByIdempotencyKey(
+    source: string,
+    key: string,
+  ): Webhook | undefined;
 
   /**
    * Get the total number of stored webhooks
    *
    * @returns The count of webhooks in storage
    */
-  count(): number {
-    return this.webhooks.size;
-  }
+  abstract count(): number;
+
+  /**
+   * Get how many webhooks a source has stored, and their payload size
+   *
+   * Drivers keep this indexed: it is checked for every incoming webhook
+   * when storage quotas are enabled.
+   *
+   * @param source - The webhook source
+   * @returns Count and payload bytes (zero for unknown sources)
+   */
+  abstract getSourceUsage(source: string): SourceUsage;
 
   /**
    * Clear all webhooks from storage
    *
    * Primarily used for testing purposes
    */
-  clear(): void {
-    this.webhooks.clear();
-    this.logger.log('Storage cleared');
-  }
+  abstract clear(): void;
 
   /**
    * Delete a webhook by its ID
@@ -154,11 +114,25 @@ export class WebhooksStorage {
    * @param id - The webhook UUID to delete
    * @returns true if the webhook was found and deleted, false otherwise
    */
-  delete(id: string): boolean {
-    const deleted = this.webhooks.delete(id);
-    if (deleted) {
-      this.logger.log(`Webhook deleted: ${id}`);
-    }
-    return deleted;
+  abstract delete(id: string): boolean;
+
+  /**
+   * Delete several webhooks at once
+   *
+   * Used by the retention sweeper: drivers write the change once for the
+   * whole batch instead of once per webhook. Unknown IDs are skipped.
+   *
+   * @param ids - The webhook UUIDs to delete
+   * @returns How many webhooks were found and deleted
+   */
+  abstract deleteMany(ids: string[]): number;
+
+  /**
+   * Get how many webhooks the MAX_WEBHOOKS_STORAGE limit evicted
+   *
+   * @returns Evictions since startup
+   */
+  getEvictedCount(): number {
+    return this.evicted;
   }
 }